@@ -0,0 +1,35 @@
+// skypay-backend/src/api/middleware/auth.ts
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config';
+
+interface AccessTokenClaims {
+  sub: string;
+  email?: string;
+  isAdmin?: boolean;
+}
+
+/**
+ * Require a bearer access token and put its user on `req.user`
+ */
+export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const [scheme, token] = (req.header('Authorization') || '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  try {
+    const claims = jwt.verify(token, config.jwt.secret) as AccessTokenClaims;
+    req.user = { id: claims.sub, email: claims.email, isAdmin: claims.isAdmin === true };
+    next();
+  } catch {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid or expired token',
+    });
+  }
+};
@@ -0,0 +1,265 @@
+// skypay-backend/src/api/middleware/idempotency.test.ts
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { IdempotencyService } from '../../services/IdempotencyService';
+import { idempotencyMiddleware, releaseIdempotencyKey } from './idempotency';
+
+/**
+ * IdempotencyService over an in-memory key table
+ */
+const createIdempotency = () => {
+  const keys = new Map<string, any>();
+  const keyOf = (where: any) => {
+    const { userId, scope, key } = where.userId_scope_key;
+    return `${userId}:${scope}:${key}`;
+  };
+  const byId = (id: string) => [...keys.entries()].find(([, record]) => record.id === id);
+
+  const prisma = {
+    idempotencyKey: {
+      findUnique: jest.fn(async ({ where }: any) => keys.get(keyOf(where)) ?? null),
+      create: jest.fn(async ({ data }: any) => {
+        const record = { id: `key-${keys.size + 1}`, updatedAt: new Date(), ...data };
+        keys.set(`${data.userId}:${data.scope}:${data.key}`, record);
+        return record;
+      }),
+      update: jest.fn(async ({ where, data }: any) => {
+        const [, record] = byId(where.id)!;
+        return Object.assign(record, data);
+      }),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const found = byId(where.id);
+        if (
+          !found ||
+          found[1].status !== where.status ||
+          found[1].updatedAt.getTime() !== where.updatedAt.getTime()
+        ) {
+          return { count: 0 };
+        }
+        Object.assign(found[1], data);
+        return { count: 1 };
+      }),
+      deleteMany: jest.fn(async ({ where }: any) => {
+        const found = byId(where.id);
+        if (found) {
+          keys.delete(found[0]);
+        }
+        return { count: found ? 1 : 0 };
+      }),
+    },
+  };
+
+  return { keys, idempotency: new IdempotencyService(prisma as unknown as PrismaClient) };
+};
+
+/**
+ * An app whose handler answers with whatever the test sets next
+ */
+const createApp = (idempotency: IdempotencyService) => {
+  const handler = jest.fn((_req: Request, res: Response) => {
+    res.status(201).json({ success: true, data: { id: 'settlement-1' } });
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = { id: 'user-1', isAdmin: false };
+    req.services = { idempotency } as any;
+    next();
+  });
+  app.post('/transfers', idempotencyMiddleware('internal_transfer'), (req, res) =>
+    handler(req, res)
+  );
+  app.use((error: any, _req: Request, res: Response, _next: express.NextFunction) => {
+    res.status(error.statusCode || 500).json({ success: false, error: error.message });
+  });
+
+  return { app, handler };
+};
+
+// The key is recorded once the handler has answered
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const post = (app: express.Express, key: string, body: object = { amount: '10.00' }) =>
+  request(app).post('/transfers').set('Idempotency-Key', key).send(body);
+
+describe('idempotencyMiddleware', () => {
+  it('replays the stored response to a retry without running the handler again', async () => {
+    const { idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+
+    const first = await post(app, 'key-a');
+    await settle();
+    const retry = await post(app, 'key-a');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+  });
+
+  it('records the status code the handler sent', async () => {
+    const { keys, idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    handler.mockImplementation((_req, res) => {
+      res.status(404).json({ success: false, error: 'Recipient not found' });
+    });
+
+    await post(app, 'key-a');
+    await settle();
+    const retry = await post(app, 'key-a');
+
+    expect([...keys.values()][0]).toMatchObject({ status: 'COMPLETED', statusCode: 404 });
+    expect(retry.status).toBe(404);
+    expect(retry.body).toEqual({ success: false, error: 'Recipient not found' });
+  });
+
+  it('records responses sent without json', async () => {
+    const { keys, idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    handler.mockImplementation((_req, res) => {
+      res.sendStatus(204);
+    });
+
+    await post(app, 'key-a');
+    await settle();
+    const retry = await post(app, 'key-a');
+
+    expect([...keys.values()][0]).toMatchObject({ status: 'COMPLETED', statusCode: 204 });
+    expect(retry.status).toBe(204);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a server error so a retry cannot repeat partly written work', async () => {
+    const { idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    handler.mockImplementationOnce((_req, res) => {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    });
+
+    await post(app, 'key-a');
+    await settle();
+    const retry = await post(app, 'key-a');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.status).toBe(500);
+  });
+
+  it('releases the key on a server error when the handler wrote nothing', async () => {
+    const { keys, idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    handler.mockImplementationOnce((_req, res) => {
+      releaseIdempotencyKey(res);
+      res.status(503).json({ success: false, error: 'Provider unavailable' });
+    });
+
+    await post(app, 'key-a');
+    await settle();
+    expect(keys.size).toBe(0);
+
+    const retry = await post(app, 'key-a');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(retry.status).toBe(201);
+  });
+
+  it('records the response of a client that hung up before it was sent', async () => {
+    const { keys, idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    const answered = new Promise<void>((resolve) => {
+      handler.mockImplementationOnce((req, res) => {
+        // The client drops the connection while the handler is working
+        req.socket.destroy();
+        setImmediate(() => {
+          res.status(201).json({ success: true, data: { id: 'settlement-1' } });
+          resolve();
+        });
+      });
+    });
+    const server = app.listen(0);
+
+    try {
+      const client = http.request({
+        port: (server.address() as AddressInfo).port,
+        method: 'POST',
+        path: '/transfers',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'key-a' },
+      });
+      client.on('error', () => {});
+      client.end(JSON.stringify({ amount: '10.00' }));
+      await answered;
+      await settle();
+    } finally {
+      server.close();
+    }
+
+    expect([...keys.values()][0]).toMatchObject({ status: 'COMPLETED', statusCode: 201 });
+
+    const retry = await post(app, 'key-a');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.status).toBe(201);
+  });
+
+  it('refuses a retry while the first request is still in progress', async () => {
+    const { keys, idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    keys.set('user-1:internal_transfer:key-a', {
+      id: 'key-1',
+      requestHash: IdempotencyService.hashRequest('POST', '/transfers', { amount: '10.00' }),
+      status: 'IN_PROGRESS',
+      updatedAt: new Date(Date.now() - 60 * 1000),
+    });
+
+    const retry = await post(app, 'key-a');
+
+    expect(retry.status).toBe(409);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('takes over a key left in progress by a crashed process', async () => {
+    const { keys, idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+    keys.set('user-1:internal_transfer:key-a', {
+      id: 'key-1',
+      requestHash: IdempotencyService.hashRequest('POST', '/transfers', { amount: '10.00' }),
+      status: 'IN_PROGRESS',
+      updatedAt: new Date(Date.now() - 3 * 60 * 1000),
+    });
+
+    const retry = await post(app, 'key-a');
+    await settle();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.status).toBe(201);
+    expect(keys.get('user-1:internal_transfer:key-a')).toMatchObject({
+      status: 'COMPLETED',
+      statusCode: 201,
+    });
+  });
+
+  it('refuses a key reused with a different request', async () => {
+    const { idempotency } = createIdempotency();
+    const { app } = createApp(idempotency);
+
+    await post(app, 'key-a', { amount: '10.00' });
+    await settle();
+    const reused = await post(app, 'key-a', { amount: '99.00' });
+
+    expect(reused.status).toBe(422);
+  });
+
+  it('requires the header', async () => {
+    const { idempotency } = createIdempotency();
+    const { app, handler } = createApp(idempotency);
+
+    const response = await request(app).post('/transfers').send({ amount: '10.00' });
+
+    expect(response.status).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+// skypay-backend/src/api/middleware/idempotency.ts
+import { Request, Response, NextFunction } from 'express';
+import { IdempotencyService } from '../../services/IdempotencyService';
+import { AppError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Let a client retry a request that failed with a server error. Call it
+ * before responding, and only when the request failed before anything
+ * was written.
+ */
+export const releaseIdempotencyKey = (res: Response): void => {
+  res.locals.releaseIdempotencyKey = true;
+};
+
+/**
+ * Require an Idempotency-Key header and replay the stored response when a
+ * client retries with the same key. Must run after authMiddleware.
+ */
+export const idempotencyMiddleware = (scope: string) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = req.header('Idempotency-Key');
+
+      if (!key) {
+        throw new AppError('Idempotency-Key header is required', 400);
+      }
+
+      if (key.length > MAX_KEY_LENGTH) {
+        throw new AppError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, 400);
+      }
+
+      const idempotency: IdempotencyService = req.services.idempotency;
+      const result = await idempotency.begin({
+        key,
+        userId: req.user.id,
+        scope,
+        requestHash: IdempotencyService.hashRequest(req.method, req.originalUrl, req.body),
+      });
+
+      if (result.replay) {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(result.statusCode).json(result.responseBody);
+        return;
+      }
+
+      // Capture the body the handler sends so retries can be answered from cache
+      let responseBody: any;
+      const originalJson = res.json.bind(res);
+      res.json = (body?: any) => {
+        responseBody = body;
+        return originalJson(body);
+      };
+
+      // Recorded with the status the handler answered with, when it
+      // answers rather than once the response reaches the client, so a
+      // client that drops the connection can still retry. Server errors
+      // are kept too, since the handler may have written part of its work,
+      // unless the handler released the key.
+      let persisted = false;
+      const originalEnd = res.end.bind(res) as (...args: any[]) => Response;
+      res.end = ((...args: any[]) => {
+        if (!persisted) {
+          persisted = true;
+          const persist =
+            res.statusCode >= 500 && res.locals.releaseIdempotencyKey
+              ? idempotency.release(result.record.id)
+              : idempotency.complete(result.record.id, res.statusCode, responseBody);
+
+          persist.catch((error) => {
+            logger.error(`Failed to persist idempotency key ${key}:`, error);
+          });
+        }
+        return originalEnd(...args);
+      }) as Response['end'];
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
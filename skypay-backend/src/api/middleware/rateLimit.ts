@@ -0,0 +1,17 @@
+// skypay-backend/src/api/middleware/rateLimit.ts
+import { Request } from 'express';
+import rateLimit from 'express-rate-limit';
+
+/**
+ * Limit a route to `max` requests per user in each window. Must run after
+ * authMiddleware; unauthenticated requests are counted by IP.
+ */
+export const rateLimitMiddleware = (name: string, max: number, windowSeconds: number) =>
+  rateLimit({
+    windowMs: windowSeconds * 1000,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req: Request) => `${name}:${req.user?.id ?? req.ip}`,
+    message: { success: false, error: 'Too many requests, please try again later' },
+  });
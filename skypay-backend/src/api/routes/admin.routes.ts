@@ -0,0 +1,881 @@
+// skypay-backend/src/api/routes/admin.routes.ts
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { AppError } from '../../utils/errors';
+import { SUPPORTED_PROVIDERS } from '../../reconciliation/parsers';
+import { FeeScheduleInput } from '../../fees/FeeService';
+import { parseMinorUnits } from '../../currency/currencies';
+import { serializeLimitUsage } from './limits.routes';
+
+const router = Router();
+
+// Middleware to restrict routes to admins
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin access required',
+    });
+  }
+  next();
+};
+
+router.use(authMiddleware, requireAdmin);
+
+// Shared error responder for admin routes
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      details: error.details,
+    });
+  } else {
+    console.error(`${context} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/v1/admin/ledger/verifications:
+ *   post:
+ *     summary: Run the ledger invariant checker now
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post('/ledger/verifications', async (req, res) => {
+  try {
+    const run = await req.services.ledgerVerifier.verifyAll();
+
+    res.status(201).json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    handleError(res, error, 'Ledger verification');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/ledger/verifications/{id}:
+ *   get:
+ *     summary: Get a verification run (use "latest" for the most recent)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/ledger/verifications/:id',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const run = await req.services.ledgerVerifier.getRun(id === 'latest' ? undefined : id);
+
+      res.json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      handleError(res, error, 'Get verification run');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/ledger/corrections:
+ *   get:
+ *     summary: List ledger corrections
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/ledger/corrections',
+  [query('status').optional().isIn(['PROPOSED', 'APPLIED', 'REJECTED', 'SUPERSEDED'])],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const corrections = await req.services.ledgerVerifier.listCorrections(
+        req.query.status as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: corrections,
+      });
+    } catch (error) {
+      handleError(res, error, 'List ledger corrections');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/ledger/corrections/{id}/approve:
+ *   post:
+ *     summary: Approve and apply a proposed ledger correction
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/ledger/corrections/:id/approve',
+  [param('id').isString().notEmpty(), body('note').optional().isString()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const correction = await req.services.ledgerVerifier.approveCorrection(
+        req.params.id,
+        req.user.id,
+        req.body.note
+      );
+
+      res.json({
+        success: true,
+        data: correction,
+      });
+    } catch (error) {
+      handleError(res, error, 'Approve ledger correction');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/ledger/corrections/{id}/reject:
+ *   post:
+ *     summary: Reject a proposed ledger correction
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/ledger/corrections/:id/reject',
+  [param('id').isString().notEmpty(), body('note').optional().isString()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const correction = await req.services.ledgerVerifier.rejectCorrection(
+        req.params.id,
+        req.user.id,
+        req.body.note
+      );
+
+      res.json({
+        success: true,
+        data: correction,
+      });
+    } catch (error) {
+      handleError(res, error, 'Reject ledger correction');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/settlement-flows:
+ *   get:
+ *     summary: Settlement state machine per type, as JSON or a Mermaid diagram
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [FIAT_TO_TOKEN, TOKEN_TO_FIAT, CROSS_BORDER, INTERNAL_TRANSFER, PAYOUT]
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, mermaid]
+ *           default: json
+ */
+router.get(
+  '/settlement-flows',
+  [
+    query('type')
+      .optional()
+      .isIn(['FIAT_TO_TOKEN', 'TOKEN_TO_FIAT', 'CROSS_BORDER', 'INTERNAL_TRANSFER', 'PAYOUT']),
+    query('format').optional().isIn(['json', 'mermaid']),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const type = req.query.type as any;
+
+      if (req.query.format === 'mermaid') {
+        if (!type) {
+          throw new AppError('type is required for the mermaid format', 400);
+        }
+
+        res.type('text/plain').send(req.services.settlement.renderFlowDiagram(type));
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: req.services.settlement.describeFlows(type),
+      });
+    } catch (error) {
+      handleError(res, error, 'Describe settlement flows');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/settlements/{id}/retry-step:
+ *   post:
+ *     summary: Queue a settlement's automatic step again after it gave up
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/settlements/:id/retry-step',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const settlement = await req.services.settlement.retryStep(req.params.id);
+
+      res.json({
+        success: true,
+        data: settlement,
+      });
+    } catch (error) {
+      handleError(res, error, 'Retry settlement step');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/reconciliations:
+ *   post:
+ *     summary: Ingest a provider settlement file and reconcile it against the ledger
+ *     description: content is the raw file (CSV or JSON); set contentEncoding to base64 for binary-safe uploads
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/reconciliations',
+  [
+    body('provider').isIn(SUPPORTED_PROVIDERS),
+    body('currency').isString().notEmpty(),
+    body('periodStart').isISO8601(),
+    body('periodEnd').isISO8601(),
+    body('content').isString().notEmpty(),
+    body('contentEncoding').optional().isIn(['utf8', 'base64']),
+    body('fileName').optional().isString(),
+    body('tolerance.amountMinorUnits').optional().matches(/^\d+$/),
+    body('tolerance.dateDays').optional().isInt({ min: 0, max: 30 }),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { tolerance = {} } = req.body;
+      const content =
+        req.body.contentEncoding === 'base64'
+          ? Buffer.from(req.body.content, 'base64').toString('utf8')
+          : req.body.content;
+
+      const run = await req.services.reconciliation.ingestStatement({
+        provider: req.body.provider,
+        currency: req.body.currency,
+        content,
+        fileName: req.body.fileName,
+        periodStart: new Date(req.body.periodStart),
+        periodEnd: new Date(req.body.periodEnd),
+        createdBy: req.user.id,
+        tolerance: {
+          ...(tolerance.amountMinorUnits !== undefined && {
+            amountMinorUnits: BigInt(tolerance.amountMinorUnits),
+          }),
+          ...(tolerance.dateDays !== undefined && { dateDays: Number(tolerance.dateDays) }),
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      handleError(res, error, 'Ingest provider statement');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/reconciliations:
+ *   get:
+ *     summary: List reconciliation runs
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/reconciliations',
+  [query('provider').optional().isIn(SUPPORTED_PROVIDERS)],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const runs = await req.services.reconciliation.listRuns(
+        req.query.provider as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: runs,
+      });
+    } catch (error) {
+      handleError(res, error, 'List reconciliation runs');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/reconciliations/{id}:
+ *   get:
+ *     summary: Get a reconciliation run with its matched and exception items
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/reconciliations/:id',
+  [
+    param('id').isString().notEmpty(),
+    query('bucket')
+      .optional()
+      .isIn(['MATCHED', 'UNMATCHED_OURS', 'UNMATCHED_THEIRS', 'AMOUNT_MISMATCH']),
+    query('status').optional().isIn(['OPEN', 'RESOLVED']),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const run = await req.services.reconciliation.getRun(req.params.id, {
+        bucket: req.query.bucket as string | undefined,
+        status: req.query.status as string | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      handleError(res, error, 'Get reconciliation run');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/reconciliations/items/{id}/resolve:
+ *   post:
+ *     summary: Resolve a reconciliation exception (LINKED, ADJUSTED or ACCEPTED)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/reconciliations/items/:id/resolve',
+  [
+    param('id').isString().notEmpty(),
+    body('resolution').isIn(['LINKED', 'ADJUSTED', 'ACCEPTED']),
+    body('ledgerEntryId').optional().isString(),
+    body('note').optional().isString(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const item = await req.services.reconciliation.resolveItem(req.params.id, req.user.id, {
+        resolution: req.body.resolution,
+        ledgerEntryId: req.body.ledgerEntryId,
+        note: req.body.note,
+      });
+
+      res.json({
+        success: true,
+        data: item,
+      });
+    } catch (error) {
+      handleError(res, error, 'Resolve reconciliation item');
+    }
+  }
+);
+
+const SETTLEMENT_TYPES = ['FIAT_TO_TOKEN', 'TOKEN_TO_FIAT', 'CROSS_BORDER', 'INTERNAL_TRANSFER'];
+const MINOR_UNITS = /^\d+$/;
+
+// Fee schedule fields, all optional so updates can send only what changes
+const feeScheduleFields = [
+  body('name').optional().isString().notEmpty(),
+  body('product').optional().isIn(SETTLEMENT_TYPES),
+  body('corridor').optional({ nullable: true }).matches(/^[A-Za-z]+\/[A-Za-z]+$/),
+  body('currency').optional({ nullable: true }).isString().notEmpty(),
+  body('segment').optional({ nullable: true }).isIn(['RETAIL', 'BUSINESS', 'PREMIUM']),
+  body('fixedAmount').optional().matches(MINOR_UNITS),
+  body('percentageBps').optional().isInt({ min: 0, max: 9999 }),
+  body('tiers').optional().isArray(),
+  body('tiers.*.upTo').optional({ nullable: true }).matches(MINOR_UNITS),
+  body('tiers.*.fixedAmount').optional().matches(MINOR_UNITS),
+  body('tiers.*.percentageBps').optional().isInt({ min: 0, max: 9999 }),
+  body('minAmount').optional({ nullable: true }).matches(MINOR_UNITS),
+  body('maxAmount').optional({ nullable: true }).matches(MINOR_UNITS),
+  body('active').optional().isBoolean(),
+];
+
+// Amounts arrive as minor-unit integer strings of the schedule's currency
+const toFeeScheduleInput = (raw: any): Partial<FeeScheduleInput> => {
+  const optionalAmount = (value: any) =>
+    value === undefined ? undefined : value === null ? null : parseMinorUnits(value);
+
+  return {
+    name: raw.name,
+    product: raw.product,
+    corridor: raw.corridor,
+    currency: raw.currency,
+    segment: raw.segment,
+    fixedAmount: raw.fixedAmount !== undefined ? parseMinorUnits(raw.fixedAmount) : undefined,
+    percentageBps: raw.percentageBps !== undefined ? Number(raw.percentageBps) : undefined,
+    tiers: raw.tiers?.map((tier: any) => ({
+      upTo: tier.upTo == null ? null : parseMinorUnits(tier.upTo),
+      fixedAmount: parseMinorUnits(tier.fixedAmount ?? '0'),
+      percentageBps: Number(tier.percentageBps ?? 0),
+    })),
+    minAmount: optionalAmount(raw.minAmount),
+    maxAmount: optionalAmount(raw.maxAmount),
+    active: raw.active,
+  };
+};
+
+// Drop fields the request didn't send, so updates leave them alone
+const definedOnly = <T extends object>(input: T): T =>
+  Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)) as T;
+
+/**
+ * @swagger
+ * /api/v1/admin/fee-schedules:
+ *   get:
+ *     summary: List fee schedules
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/fee-schedules',
+  [query('product').optional().isIn(SETTLEMENT_TYPES), query('active').optional().isBoolean()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const schedules = await req.services.fees.listSchedules(
+        definedOnly({
+          product: req.query.product as any,
+          active: req.query.active !== undefined ? req.query.active === 'true' : undefined,
+        })
+      );
+
+      res.json({
+        success: true,
+        data: schedules,
+      });
+    } catch (error) {
+      handleError(res, error, 'List fee schedules');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/fee-schedules:
+ *   post:
+ *     summary: Create a fee schedule
+ *     description: |
+ *       Takes effect for quotes created from now on. Amounts are minor-unit
+ *       integer strings of the schedule's currency. Tiers replace the fixed
+ *       amount and percentage; each applies up to and including its upTo.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/fee-schedules',
+  [body('name').isString().notEmpty(), body('product').isIn(SETTLEMENT_TYPES), ...feeScheduleFields],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const schedule = await req.services.fees.createSchedule(
+        toFeeScheduleInput(req.body) as FeeScheduleInput,
+        req.user.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      handleError(res, error, 'Create fee schedule');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/fee-schedules/{id}:
+ *   patch:
+ *     summary: Change or deactivate a fee schedule
+ *     description: Settlements already quoted keep their fee
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.patch(
+  '/fee-schedules/:id',
+  [param('id').isString().notEmpty(), ...feeScheduleFields],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const schedule = await req.services.fees.updateSchedule(
+        req.params.id,
+        definedOnly(toFeeScheduleInput(req.body)),
+        req.user.id
+      );
+
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      handleError(res, error, 'Update fee schedule');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/limits:
+ *   get:
+ *     summary: A user's spending limits, usage and overrides
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/users/:id/limits',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const limits = await req.services.limits.getLimits(req.params.id);
+
+      res.json({
+        success: true,
+        data: limits.map(serializeLimitUsage),
+      });
+    } catch (error) {
+      handleError(res, error, 'Get user limits');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/limits/{direction}/{window}:
+ *   put:
+ *     summary: Override a user's limit for one direction and window
+ *     description: amount is a minor-unit integer string of the limits reference currency
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.put(
+  '/users/:id/limits/:direction/:window',
+  [
+    param('id').isString().notEmpty(),
+    param('direction').isIn(['DEPOSIT', 'WITHDRAWAL', 'TRANSFER']),
+    param('window').isIn(['DAILY', 'MONTHLY']),
+    body('amount').matches(MINOR_UNITS),
+    body('reason').isString().notEmpty(),
+    body('expiresAt').optional().isISO8601(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const override = await req.services.limits.setOverride(
+        {
+          userId: req.params.id,
+          direction: req.params.direction as any,
+          window: req.params.window as any,
+          amount: parseMinorUnits(req.body.amount),
+          reason: req.body.reason,
+          expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : undefined,
+        },
+        req.user.id
+      );
+
+      res.json({
+        success: true,
+        data: override,
+      });
+    } catch (error) {
+      handleError(res, error, 'Set limit override');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/limits/{direction}/{window}:
+ *   delete:
+ *     summary: Return a user to their verification level's limit
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  '/users/:id/limits/:direction/:window',
+  [
+    param('id').isString().notEmpty(),
+    param('direction').isIn(['DEPOSIT', 'WITHDRAWAL', 'TRANSFER']),
+    param('window').isIn(['DAILY', 'MONTHLY']),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      await req.services.limits.removeOverride(
+        req.params.id,
+        req.params.direction as any,
+        req.params.window as any,
+        req.user.id
+      );
+
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error, 'Remove limit override');
+    }
+  }
+);
+
+const WEBHOOK_PROVIDERS = ['bridge', 'blockchain', 'paystack', 'stripe', 'mtn', 'airtel'];
+
+const WEBHOOK_EVENT_STATUSES = ['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'REJECTED'];
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/events:
+ *   get:
+ *     summary: List stored webhook deliveries, latest first
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/webhooks/events',
+  [
+    query('provider').optional().isIn(WEBHOOK_PROVIDERS),
+    query('eventType').optional().isString(),
+    query('status').optional().isIn(WEBHOOK_EVENT_STATUSES),
+    query('from').optional().isISO8601(),
+    query('to').optional().isISO8601(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('offset').optional().isInt({ min: 0 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const limit = Number(req.query.limit) || 20;
+      const offset = Number(req.query.offset) || 0;
+      const { events, total } = await req.services.webhookEvents.listEvents({
+        provider: req.query.provider as string | undefined,
+        eventType: req.query.eventType as string | undefined,
+        status: req.query.status as any,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          events,
+          pagination: { total, limit, offset },
+        },
+      });
+    } catch (error) {
+      handleError(res, error, 'List webhook events');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/events/replay:
+ *   post:
+ *     summary: Replay the webhook deliveries received in a window
+ *     description: Replays received, processed and failed events unless status narrows it
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/webhooks/events/replay',
+  [
+    body('from').isISO8601(),
+    body('to').isISO8601(),
+    body('provider').optional().isIn(WEBHOOK_PROVIDERS),
+    body('eventType').optional().isString(),
+    body('status').optional().isIn(['RECEIVED', 'PROCESSED', 'FAILED']),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const result = await req.services.webhookEvents.replayRange({
+        from: new Date(req.body.from),
+        to: new Date(req.body.to),
+        provider: req.body.provider,
+        eventType: req.body.eventType,
+        status: req.body.status,
+      });
+
+      res.status(202).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, 'Replay webhook events');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/events/{id}:
+ *   get:
+ *     summary: Get a stored webhook delivery with its raw body and headers
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/webhooks/events/:id',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const event = await req.services.webhookEvents.getEvent(req.params.id);
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      handleError(res, error, 'Get webhook event');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/events/{id}/replay:
+ *   post:
+ *     summary: Process a stored webhook delivery again
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/webhooks/events/:id/replay',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const event = await req.services.webhookEvents.replay(req.params.id);
+
+      res.status(202).json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      handleError(res, error, 'Replay webhook event');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,326 @@
+// skypay-backend/src/api/routes/beneficiary.routes.ts
+import { Request, Response, Router } from 'express';
+import { Beneficiary } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { rateLimitMiddleware } from '../middleware/rateLimit';
+import { idempotencyMiddleware } from '../middleware/idempotency';
+import { AppError } from '../../utils/errors';
+import { isSupportedCurrency, parseAmount } from '../../currency/currencies';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const BENEFICIARY_TYPES = ['BANK_ACCOUNT', 'MOBILE_MONEY', 'WALLET'];
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      details: error.details,
+    });
+  } else {
+    console.error(`${context} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+// The micro-deposit amount is never returned
+const serializeBeneficiary = (beneficiary: Beneficiary) => ({
+  id: beneficiary.id,
+  type: beneficiary.type,
+  nickname: beneficiary.nickname,
+  currency: beneficiary.currency,
+  details: beneficiary.details,
+  status: beneficiary.status,
+  verificationMethod: beneficiary.verificationMethod,
+  resolvedName: beneficiary.resolvedName,
+  microDepositSentAt: beneficiary.microDepositSentAt,
+  verifiedAt: beneficiary.verifiedAt,
+  payableAfter: beneficiary.payableAfter,
+  lastUsedAt: beneficiary.lastUsedAt,
+  createdAt: beneficiary.createdAt,
+});
+
+/**
+ * @swagger
+ * /api/v1/beneficiaries:
+ *   post:
+ *     summary: Save a payee
+ *     description: |
+ *       Bank and mobile money accounts are verified with the provider's
+ *       account lookup, or with verificationMethod MICRO_DEPOSIT by a small
+ *       payment whose amount you confirm at /beneficiaries/{id}/verify.
+ *       Wallets need a valid address. A new beneficiary can be paid once
+ *       its cooling-off period has passed (payableAfter), and adding one
+ *       sends a security notification.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, nickname, currency, details]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [BANK_ACCOUNT, MOBILE_MONEY, WALLET]
+ *               nickname:
+ *                 type: string
+ *                 example: Mum
+ *               currency:
+ *                 type: string
+ *                 example: NGN
+ *               details:
+ *                 type: object
+ *                 description: |
+ *                   BANK_ACCOUNT: accountName, accountNumber, bankCode, accountType.
+ *                   MOBILE_MONEY: accountName, phoneNumber (E.164), providerCode.
+ *                   WALLET: address.
+ *               verificationMethod:
+ *                 type: string
+ *                 enum: [ACCOUNT_LOOKUP, MICRO_DEPOSIT]
+ *                 default: ACCOUNT_LOOKUP
+ */
+router.post(
+  '/',
+  rateLimitMiddleware('beneficiary_create', 10, 86400), // 10 per day
+  idempotencyMiddleware('beneficiary_create'),
+  [
+    body('type').isIn(BENEFICIARY_TYPES),
+    body('nickname').isString().trim().isLength({ min: 1, max: 50 }),
+    body('currency').custom((value) => isSupportedCurrency(value)),
+    body('details').isObject(),
+    body('verificationMethod').optional().isIn(['ACCOUNT_LOOKUP', 'MICRO_DEPOSIT']),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const beneficiary = await req.services.beneficiaries.createBeneficiary({
+        userId: req.user.id,
+        type: req.body.type,
+        nickname: req.body.nickname,
+        currency: req.body.currency,
+        details: req.body.details,
+        verificationMethod: req.body.verificationMethod,
+        ipAddress: req.ip,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeBeneficiary(beneficiary),
+      });
+    } catch (error) {
+      handleError(res, error, 'Create beneficiary');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/beneficiaries:
+ *   get:
+ *     summary: List saved payees, most recently used first
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/',
+  [
+    query('type').optional().isIn(BENEFICIARY_TYPES),
+    query('currency').optional().isString(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const beneficiaries = await req.services.beneficiaries.listBeneficiaries(req.user.id, {
+        type: req.query.type as Beneficiary['type'] | undefined,
+        currency: req.query.currency as string | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: beneficiaries.map(serializeBeneficiary),
+      });
+    } catch (error) {
+      handleError(res, error, 'List beneficiaries');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/beneficiaries/{id}:
+ *   get:
+ *     summary: Get a saved payee
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/:id',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const beneficiary = await req.services.beneficiaries.getBeneficiary(
+        req.params.id,
+        req.user.id
+      );
+
+      res.json({
+        success: true,
+        data: serializeBeneficiary(beneficiary),
+      });
+    } catch (error) {
+      handleError(res, error, 'Get beneficiary');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/beneficiaries/{id}:
+ *   patch:
+ *     summary: Rename a saved payee
+ *     description: Account details can't be changed; save a new beneficiary instead.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.patch(
+  '/:id',
+  [
+    param('id').isString().notEmpty(),
+    body('nickname').isString().trim().isLength({ min: 1, max: 50 }),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const beneficiary = await req.services.beneficiaries.renameBeneficiary(
+        req.params.id,
+        req.user.id,
+        req.body.nickname
+      );
+
+      res.json({
+        success: true,
+        data: serializeBeneficiary(beneficiary),
+      });
+    } catch (error) {
+      handleError(res, error, 'Rename beneficiary');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/beneficiaries/{id}/verify:
+ *   post:
+ *     summary: Confirm the amount of a beneficiary's micro-deposit
+ *     description: A few wrong amounts reject the beneficiary.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount]
+ *             properties:
+ *               amount:
+ *                 type: string
+ *                 description: Major-unit decimal as it appeared on the statement
+ *                 example: "0.37"
+ */
+router.post(
+  '/:id/verify',
+  rateLimitMiddleware('beneficiary_verify', 10, 3600), // 10 per hour
+  [param('id').isString().notEmpty(), body('amount').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { beneficiaries } = req.services;
+      const current = await beneficiaries.getBeneficiary(req.params.id, req.user.id);
+      const beneficiary = await beneficiaries.confirmMicroDeposit(
+        current.id,
+        req.user.id,
+        parseAmount(req.body.amount, current.currency)
+      );
+
+      res.json({
+        success: true,
+        data: serializeBeneficiary(beneficiary),
+      });
+    } catch (error) {
+      handleError(res, error, 'Verify beneficiary');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/beneficiaries/{id}:
+ *   delete:
+ *     summary: Remove a saved payee
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  '/:id',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const beneficiary = await req.services.beneficiaries.removeBeneficiary(
+        req.params.id,
+        req.user.id
+      );
+
+      res.json({
+        success: true,
+        data: serializeBeneficiary(beneficiary),
+      });
+    } catch (error) {
+      handleError(res, error, 'Remove beneficiary');
+    }
+  }
+);
+
+export default router;
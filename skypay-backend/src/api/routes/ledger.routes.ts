@@ -0,0 +1,170 @@
+// skypay-backend/src/api/routes/ledger.routes.ts
+import { Router, Request, Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { AppError } from '../../utils/errors';
+import { getCurrency } from '../../currency/currencies';
+import { STATEMENT_FORMATS, StatementFormat } from '../../ledger/statements/StatementGenerator';
+
+const router = Router();
+
+/**
+ * Load an account and verify the caller may read it
+ */
+const getAuthorizedAccount = async (req: Request, accountId: string) => {
+  const account = await req.services.ledger.getAccount(accountId);
+
+  if (account.userId !== req.user.id && !req.user.isAdmin) {
+    throw new AppError('Unauthorized', 403);
+  }
+
+  return account;
+};
+
+/**
+ * @swagger
+ * /api/v1/ledger/accounts/{id}/balance:
+ *   get:
+ *     summary: Get account balance at a point in time
+ *     description: Settled balance as of the given timestamp (defaults to now)
+ *     tags: [Ledger]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ */
+router.get(
+  '/accounts/:id/balance',
+  authMiddleware,
+  [param('id').isString().notEmpty(), query('asOf').optional().isISO8601()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const account = await getAuthorizedAccount(req, req.params.id);
+      const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+
+      const balance = await req.services.ledger.getBalanceAsOf(account.id, asOf);
+
+      res.json({
+        success: true,
+        data: {
+          accountId: account.id,
+          currency: account.currency,
+          asOf: asOf.toISOString(),
+          balance: balance.toString(), // integer minor units
+          exponent: getCurrency(account.currency).exponent,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Get balance as of error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/ledger/accounts/{id}/statement:
+ *   get:
+ *     summary: Export an account statement
+ *     description: Opening balance, settled entries with running balance and closing balance for the period
+ *     tags: [Ledger]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, pdf, mt940, camt053]
+ *           default: json
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ */
+router.get(
+  '/accounts/:id/statement',
+  authMiddleware,
+  [
+    param('id').isString().notEmpty(),
+    query('format').optional().isIn(STATEMENT_FORMATS),
+    query('startDate').isISO8601(),
+    query('endDate').isISO8601(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const account = await getAuthorizedAccount(req, req.params.id);
+      const format = ((req.query.format as string) || 'json') as StatementFormat;
+      const startDate = new Date(req.query.startDate as string);
+      const endDate = new Date(req.query.endDate as string);
+
+      if (format === 'json') {
+        const statement = await req.services.statements.build(account.id, startDate, endDate);
+        return res.json({
+          success: true,
+          data: req.services.statements.toJson(statement),
+        });
+      }
+
+      const rendered = await req.services.statements.generate(
+        account.id,
+        startDate,
+        endDate,
+        format
+      );
+
+      res.setHeader('Content-Type', rendered.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.send(rendered.body);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Export statement error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
+export default router;
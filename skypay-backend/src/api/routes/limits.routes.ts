@@ -0,0 +1,60 @@
+// skypay-backend/src/api/routes/limits.routes.ts
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { AppError } from '../../utils/errors';
+import { LimitUsage } from '../../limits/LimitsService';
+
+const router = Router();
+
+export const serializeLimitUsage = (usage: LimitUsage) => ({
+  direction: usage.direction,
+  window: usage.window,
+  currency: usage.currency,
+  limit: usage.limit.toString(),
+  used: usage.used.toString(),
+  remaining: usage.remaining.toString(),
+  overridden: usage.overridden,
+  nextReleaseAt: usage.nextReleaseAt,
+});
+
+/**
+ * @swagger
+ * /api/v1/limits:
+ *   get:
+ *     summary: Get spending limits and remaining headroom
+ *     description: |
+ *       One entry per direction (DEPOSIT, WITHDRAWAL, TRANSFER) and rolling
+ *       window (DAILY is the last 24 hours, MONTHLY the last 30 days).
+ *       Amounts are minor-unit integer strings of the reference currency.
+ *       nextReleaseAt is when the oldest counted settlement leaves the
+ *       window and frees headroom.
+ *     tags: [Limits]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const limits = await req.services.limits.getLimits(req.user.id);
+
+    res.json({
+      success: true,
+      data: limits.map(serializeLimitUsage),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        details: error.details,
+      });
+    } else {
+      console.error('Get limits error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,413 @@
+// skypay-backend/src/api/routes/payout.routes.ts
+import { Request, Response, Router } from 'express';
+import { PayoutBatch, PayoutItem } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { rateLimitMiddleware } from '../middleware/rateLimit';
+import { idempotencyMiddleware } from '../middleware/idempotency';
+import { AppError } from '../../utils/errors';
+import { isSupportedCurrency } from '../../currency/currencies';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const ITEM_STATUSES = ['PENDING', 'VALID', 'INVALID', 'QUEUED', 'SUBMITTED', 'PAID', 'FAILED'];
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      details: error.details,
+    });
+  } else {
+    console.error(`${context} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+const serializeBatch = (batch: PayoutBatch) => ({
+  id: batch.id,
+  status: batch.status,
+  currency: batch.currency,
+  fileName: batch.fileName,
+  reference: batch.reference,
+  itemCount: batch.itemCount,
+  validCount: batch.validCount,
+  invalidCount: batch.invalidCount,
+  paidCount: batch.paidCount,
+  failedCount: batch.failedCount,
+  totalAmount: batch.totalAmount.toFixed(0),
+  fundedAmount: batch.fundedAmount.toFixed(0),
+  refundedAmount: batch.refundedAmount.toFixed(0),
+  createdAt: batch.createdAt,
+  validatedAt: batch.validatedAt,
+  fundedAt: batch.fundedAt,
+  completedAt: batch.completedAt,
+  closedAt: batch.closedAt,
+});
+
+const serializeItem = (item: PayoutItem) => ({
+  id: item.id,
+  rowNumber: item.rowNumber,
+  reference: item.reference,
+  amount: item.amount.toFixed(0),
+  bankDetails: item.bankDetails,
+  status: item.status,
+  validationErrors: item.validationErrors,
+  resolvedName: item.resolvedName,
+  settlementId: item.settlementId,
+  attempts: item.attempts,
+  failureReason: item.failureReason,
+  paidAt: item.paidAt,
+});
+
+const batchAction = (
+  name: string,
+  action: (req: Request) => Promise<PayoutBatch>,
+  context: string
+) => [
+  idempotencyMiddleware(name),
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const batch = await action(req);
+
+      res.json({
+        success: true,
+        data: serializeBatch(batch),
+      });
+    } catch (error) {
+      handleError(res, error, context);
+    }
+  },
+];
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches:
+ *   post:
+ *     summary: Upload a payout batch
+ *     description: |
+ *       content is the raw file. CSV needs the columns amount, accountNumber,
+ *       bankCode and accountName, and may have reference and accountType.
+ *       JSON is an array of objects with the same fields, or
+ *       `{ "items": [...] }`. Amounts are major-unit decimals in the batch
+ *       currency. Rows are checked as the batch is stored and every bank
+ *       account is then validated with the provider; the batch moves from
+ *       VALIDATING to VALIDATED when all rows have a result. Set
+ *       contentEncoding to base64 for binary-safe uploads.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currency, format, content]
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 example: NGN
+ *               format:
+ *                 type: string
+ *                 enum: [csv, json]
+ *               content:
+ *                 type: string
+ *               contentEncoding:
+ *                 type: string
+ *                 enum: [utf8, base64]
+ *               fileName:
+ *                 type: string
+ *               reference:
+ *                 type: string
+ *                 maxLength: 100
+ */
+router.post(
+  '/batches',
+  rateLimitMiddleware('payout_batch', 20, 3600), // 20 per hour
+  idempotencyMiddleware('payout_batch'),
+  [
+    body('currency').custom((value) => isSupportedCurrency(value)),
+    body('format').isIn(['csv', 'json']),
+    body('content').isString().notEmpty(),
+    body('contentEncoding').optional().isIn(['utf8', 'base64']),
+    body('fileName').optional().isString().isLength({ max: 255 }),
+    body('reference').optional().isString().isLength({ max: 100 }),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const content =
+        req.body.contentEncoding === 'base64'
+          ? Buffer.from(req.body.content, 'base64').toString('utf8')
+          : req.body.content;
+
+      const batch = await req.services.payouts.createBatch({
+        userId: req.user.id,
+        currency: req.body.currency,
+        format: req.body.format,
+        content,
+        fileName: req.body.fileName,
+        reference: req.body.reference,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeBatch(batch),
+      });
+    } catch (error) {
+      handleError(res, error, 'Create payout batch');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches:
+ *   get:
+ *     summary: List payout batches
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/batches',
+  [
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('offset').optional().isInt({ min: 0 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const limit = Number(req.query.limit) || 20;
+      const offset = Number(req.query.offset) || 0;
+      const { batches, total } = await req.services.payouts.listBatches(req.user.id, {
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          batches: batches.map(serializeBatch),
+          pagination: { total, limit, offset },
+        },
+      });
+    } catch (error) {
+      handleError(res, error, 'List payout batches');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}:
+ *   get:
+ *     summary: Get a payout batch and its progress
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/batches/:id',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const batch = await req.services.payouts.getBatch(req.params.id, req.user.id);
+
+      res.json({
+        success: true,
+        data: serializeBatch(batch),
+      });
+    } catch (error) {
+      handleError(res, error, 'Get payout batch');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}/items:
+ *   get:
+ *     summary: List a batch's items in file order
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, VALID, INVALID, QUEUED, SUBMITTED, PAID, FAILED]
+ */
+router.get(
+  '/batches/:id/items',
+  [
+    param('id').isString().notEmpty(),
+    query('status').optional().isIn(ITEM_STATUSES),
+    query('limit').optional().isInt({ min: 1, max: 1000 }).toInt(),
+    query('offset').optional().isInt({ min: 0 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const limit = Number(req.query.limit) || 100;
+      const offset = Number(req.query.offset) || 0;
+      const { items, total } = await req.services.payouts.listItems(req.params.id, req.user.id, {
+        status: req.query.status as PayoutItem['status'] | undefined,
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          items: items.map(serializeItem),
+          pagination: { total, limit, offset },
+        },
+      });
+    } catch (error) {
+      handleError(res, error, 'List payout items');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}/report:
+ *   get:
+ *     summary: Download the per-item status of a batch as CSV
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/batches/:id/report',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const report = await req.services.payouts.generateReport(req.params.id, req.user.id);
+
+      res.setHeader('Content-Type', report.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${report.filename}"`);
+      res.send(report.body);
+    } catch (error) {
+      handleError(res, error, 'Payout report');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}/fund:
+ *   post:
+ *     summary: Fund a validated batch and start paying it
+ *     description: |
+ *       Moves the total of the valid items from your fiat account in the
+ *       batch currency, checked against your withdrawal limits, then pays
+ *       every valid item. Invalid items are skipped.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/batches/:id/fund',
+  rateLimitMiddleware('payout_batch_fund', 20, 3600), // 20 per hour
+  ...batchAction(
+    'payout_batch_fund',
+    (req) => req.services.payouts.fundBatch(req.params.id, req.user.id),
+    'Fund payout batch'
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}/retry:
+ *   post:
+ *     summary: Retry a batch's failed items
+ *     description: Failed items are paid again from the funds their failed attempts returned.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/batches/:id/retry',
+  ...batchAction(
+    'payout_batch_retry',
+    (req) => req.services.payouts.retryFailed(req.params.id, req.user.id),
+    'Retry payout batch'
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}/close:
+ *   post:
+ *     summary: Close a completed batch
+ *     description: Refunds funds of unpaid items to your account; failed items can't be retried afterwards.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/batches/:id/close',
+  ...batchAction(
+    'payout_batch_close',
+    (req) => req.services.payouts.closeBatch(req.params.id, req.user.id),
+    'Close payout batch'
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/payouts/batches/{id}/cancel:
+ *   post:
+ *     summary: Cancel a batch before it is funded
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/batches/:id/cancel',
+  ...batchAction(
+    'payout_batch_cancel',
+    (req) => req.services.payouts.cancelBatch(req.params.id, req.user.id),
+    'Cancel payout batch'
+  )
+);
+
+export default router;
@@ -0,0 +1,189 @@
+// skypay-backend/src/api/routes/quote.routes.ts
+import { Router, Request, Response } from 'express';
+import { FxQuote } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { rateLimitMiddleware } from '../middleware/rateLimit';
+import { AppError } from '../../utils/errors';
+import { isSupportedCurrency, parseAmount } from '../../currency/currencies';
+
+const router = Router();
+
+// Validate an optional major-unit amount against the precision of the given currency
+const isOptionalAmount = (field: string, currencyField: string) =>
+  body(field)
+    .optional()
+    .custom((value, { req }) => {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error('Amount must be a decimal string');
+      }
+      if (parseAmount(value, req.body[currencyField]) <= 0n) {
+        throw new Error('Amount must be positive');
+      }
+      return true;
+    });
+
+const serializeQuote = (quote: FxQuote) => ({
+  id: quote.id,
+  status: quote.status,
+  sourceCurrency: quote.sourceCurrency,
+  sourceAmount: quote.sourceAmount.toFixed(0),
+  targetCurrency: quote.targetCurrency,
+  targetAmount: quote.targetAmount.toFixed(0),
+  rate: quote.rate.toString(),
+  midRate: quote.midRate.toString(),
+  markupBps: quote.markupBps,
+  product: quote.product,
+  // Included in sourceAmount
+  fee: { amount: quote.feeAmount.toFixed(0), currency: quote.sourceCurrency },
+  expiresAt: quote.expiresAt,
+});
+
+/**
+ * @swagger
+ * /api/v1/quotes:
+ *   post:
+ *     summary: Get an FX quote
+ *     description: |
+ *       Price a conversion and lock the rate for a short time. Pass the
+ *       quote's id when creating a settlement to settle at exactly the
+ *       quoted amounts. Give either the amount to send or the amount to
+ *       receive. Give the product to include its fees, which come out of
+ *       the source amount. Amounts in the response are minor-unit integer
+ *       strings.
+ *     tags: [Quotes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sourceCurrency, targetCurrency]
+ *             properties:
+ *               sourceCurrency:
+ *                 type: string
+ *                 example: NGN
+ *               targetCurrency:
+ *                 type: string
+ *                 example: USDX
+ *               amount:
+ *                 type: string
+ *                 description: Major-unit decimal to send, in the source currency
+ *                 example: "150000.00"
+ *               targetAmount:
+ *                 type: string
+ *                 description: Major-unit decimal to receive, in the target currency
+ *               product:
+ *                 type: string
+ *                 enum: [FIAT_TO_TOKEN, TOKEN_TO_FIAT]
+ */
+router.post(
+  '/',
+  authMiddleware,
+  rateLimitMiddleware('fx_quote', 120, 3600), // 120 per hour
+  [
+    body('sourceCurrency').custom((value) => isSupportedCurrency(value)),
+    body('targetCurrency')
+      .custom((value) => isSupportedCurrency(value))
+      .custom((value, { req }) => value !== req.body.sourceCurrency)
+      .withMessage('Target currency must differ from the source currency'),
+    body('product').optional().isIn(['FIAT_TO_TOKEN', 'TOKEN_TO_FIAT']),
+    isOptionalAmount('amount', 'sourceCurrency'),
+    isOptionalAmount('targetAmount', 'targetCurrency'),
+    body().custom((value) => (value.amount === undefined) !== (value.targetAmount === undefined))
+      .withMessage('Give either amount or targetAmount'),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { sourceCurrency, targetCurrency, amount, targetAmount, product } = req.body;
+
+      const quote = await req.services.fx.createQuote({
+        userId: req.user.id,
+        product,
+        sourceCurrency,
+        targetCurrency,
+        sourceAmount: amount !== undefined ? parseAmount(amount, sourceCurrency) : undefined,
+        targetAmount:
+          targetAmount !== undefined ? parseAmount(targetAmount, targetCurrency) : undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeQuote(quote),
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Create quote error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/quotes/{id}:
+ *   get:
+ *     summary: Get an FX quote
+ *     tags: [Quotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+router.get(
+  '/:id',
+  authMiddleware,
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const quote = await req.services.fx.getQuote(req.params.id, req.user.id);
+
+      res.json({
+        success: true,
+        data: serializeQuote(quote),
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Get quote error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
+export default router;
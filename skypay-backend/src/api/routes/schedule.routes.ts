@@ -0,0 +1,500 @@
+// skypay-backend/src/api/routes/schedule.routes.ts
+import { Request, Response, Router } from 'express';
+import { TransferSchedule, TransferScheduleRun } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { rateLimitMiddleware } from '../middleware/rateLimit';
+import { idempotencyMiddleware } from '../middleware/idempotency';
+import { AppError } from '../../utils/errors';
+import { isSupportedCurrency, parseAmount } from '../../currency/currencies';
+import { ScheduleWithRuns } from '../../schedules/ScheduleService';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const SCHEDULE_STATUSES = ['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED'];
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      details: error.details,
+    });
+  } else {
+    console.error(`${context} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+const serializeRun = (run: TransferScheduleRun) => ({
+  id: run.id,
+  scheduledFor: run.scheduledFor,
+  status: run.status,
+  attempts: run.attempts,
+  nextAttemptAt: run.nextAttemptAt,
+  settlementId: run.settlementId,
+  failureReason: run.failureReason,
+  completedAt: run.completedAt,
+});
+
+const serializeSchedule = (schedule: TransferSchedule | ScheduleWithRuns) => ({
+  id: schedule.id,
+  type: schedule.type,
+  status: schedule.status,
+  amount: schedule.amount.toFixed(0),
+  currency: schedule.currency,
+  recipient: schedule.recipient,
+  bankDetails: schedule.bankDetails,
+  note: schedule.note,
+  frequency: schedule.frequency,
+  interval: schedule.interval,
+  dayOfWeek: schedule.dayOfWeek,
+  dayOfMonth: schedule.dayOfMonth,
+  cron: schedule.cron,
+  timeOfDay: schedule.timeOfDay,
+  timezone: schedule.timezone,
+  startAt: schedule.startAt,
+  endAt: schedule.endAt,
+  maxOccurrences: schedule.maxOccurrences,
+  occurrenceCount: schedule.occurrenceCount,
+  nextRunAt: schedule.nextRunAt,
+  createdAt: schedule.createdAt,
+  cancelledAt: schedule.cancelledAt,
+  ...('runs' in schedule && { runs: schedule.runs.map(serializeRun) }),
+});
+
+const scheduleAction = (
+  name: string,
+  action: (req: Request) => Promise<TransferSchedule>,
+  context: string
+) => [
+  idempotencyMiddleware(name),
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const schedule = await action(req);
+
+      res.json({
+        success: true,
+        data: serializeSchedule(schedule),
+      });
+    } catch (error) {
+      handleError(res, error, context);
+    }
+  },
+];
+
+/**
+ * @swagger
+ * /api/v1/schedules:
+ *   post:
+ *     summary: Schedule a recurring transfer or bank payout
+ *     description: |
+ *       INTERNAL_TRANSFER sends to another SkyPay user (recipient as for
+ *       /transfers); PAYOUT pays a bank account from your fiat account.
+ *       DAILY, WEEKLY and MONTHLY rules run every `interval` periods at
+ *       timeOfDay, counted from startAt; WEEKLY runs on dayOfWeek (0 is
+ *       Sunday) and MONTHLY on dayOfMonth, or the last day of shorter
+ *       months. CRON takes a five-field expression that fires at most once
+ *       an hour. Times are read in `timezone`. The schedule completes after
+ *       endAt or maxOccurrences runs. You are notified before each run and
+ *       after it; runs short of funds are retried before they fail.
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, amount, currency, frequency]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [INTERNAL_TRANSFER, PAYOUT]
+ *               amount:
+ *                 type: string
+ *                 description: Major-unit decimal, at most the currency's precision
+ *                 example: "50000.00"
+ *               currency:
+ *                 type: string
+ *                 example: NGN
+ *               recipient:
+ *                 type: string
+ *                 example: "@mum"
+ *               bankDetails:
+ *                 type: object
+ *                 properties:
+ *                   accountName:
+ *                     type: string
+ *                   accountNumber:
+ *                     type: string
+ *                   bankCode:
+ *                     type: string
+ *                   accountType:
+ *                     type: string
+ *               note:
+ *                 type: string
+ *                 maxLength: 140
+ *               frequency:
+ *                 type: string
+ *                 enum: [DAILY, WEEKLY, MONTHLY, CRON]
+ *               interval:
+ *                 type: integer
+ *                 default: 1
+ *               dayOfWeek:
+ *                 type: integer
+ *               dayOfMonth:
+ *                 type: integer
+ *               cron:
+ *                 type: string
+ *                 example: "0 9 1 * *"
+ *               timeOfDay:
+ *                 type: string
+ *                 default: "09:00"
+ *               timezone:
+ *                 type: string
+ *                 default: UTC
+ *                 example: Africa/Lagos
+ *               startAt:
+ *                 type: string
+ *                 format: date-time
+ *               endAt:
+ *                 type: string
+ *                 format: date-time
+ *               maxOccurrences:
+ *                 type: integer
+ */
+router.post(
+  '/',
+  rateLimitMiddleware('schedule_create', 20, 3600), // 20 per hour
+  idempotencyMiddleware('schedule_create'),
+  [
+    body('type').isIn(['INTERNAL_TRANSFER', 'PAYOUT']),
+    body('currency').custom((value) => isSupportedCurrency(value)),
+    body('amount').custom((value, { req }) => {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error('Amount must be a decimal string');
+      }
+      if (parseAmount(value, req.body.currency) <= 0n) {
+        throw new Error('Amount must be positive');
+      }
+      return true;
+    }),
+    body('recipient').optional().isString().trim().notEmpty(),
+    body('bankDetails').optional().isObject(),
+    body('bankDetails.accountName').optional().isString().trim().notEmpty(),
+    body('bankDetails.accountNumber').optional().isString().trim().notEmpty(),
+    body('bankDetails.bankCode').optional().isString().trim().notEmpty(),
+    body('note').optional().isString().isLength({ max: 140 }),
+    body('frequency').isIn(['DAILY', 'WEEKLY', 'MONTHLY', 'CRON']),
+    body('interval').optional().isInt({ min: 1, max: 365 }).toInt(),
+    body('dayOfWeek').optional().isInt({ min: 0, max: 6 }).toInt(),
+    body('dayOfMonth').optional().isInt({ min: 1, max: 31 }).toInt(),
+    body('cron').optional().isString(),
+    body('timeOfDay').optional().matches(/^([01]\d|2[0-3]):[0-5]\d$/),
+    body('timezone').optional().isString(),
+    body('startAt').optional().isISO8601(),
+    body('endAt').optional().isISO8601(),
+    body('maxOccurrences').optional().isInt({ min: 1 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const schedule = await req.services.schedules.createSchedule({
+        userId: req.user.id,
+        type: req.body.type,
+        amount: parseAmount(req.body.amount, req.body.currency),
+        currency: req.body.currency,
+        recipient: req.body.recipient,
+        bankDetails: req.body.bankDetails,
+        note: req.body.note,
+        frequency: req.body.frequency,
+        interval: req.body.interval,
+        dayOfWeek: req.body.dayOfWeek,
+        dayOfMonth: req.body.dayOfMonth,
+        cron: req.body.cron,
+        timeOfDay: req.body.timeOfDay,
+        timezone: req.body.timezone,
+        startAt: req.body.startAt ? new Date(req.body.startAt) : undefined,
+        endAt: req.body.endAt ? new Date(req.body.endAt) : undefined,
+        maxOccurrences: req.body.maxOccurrences,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeSchedule(schedule),
+      });
+    } catch (error) {
+      handleError(res, error, 'Create schedule');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules:
+ *   get:
+ *     summary: List your schedules
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, PAUSED, COMPLETED, CANCELLED]
+ */
+router.get(
+  '/',
+  [
+    query('status').optional().isIn(SCHEDULE_STATUSES),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('offset').optional().isInt({ min: 0 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const limit = Number(req.query.limit) || 20;
+      const offset = Number(req.query.offset) || 0;
+      const { schedules, total } = await req.services.schedules.listSchedules(req.user.id, {
+        status: req.query.status as TransferSchedule['status'] | undefined,
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          schedules: schedules.map(serializeSchedule),
+          pagination: { total, limit, offset },
+        },
+      });
+    } catch (error) {
+      handleError(res, error, 'List schedules');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules/{id}:
+ *   get:
+ *     summary: Get a schedule and its latest runs
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/:id',
+  [param('id').isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const schedule = await req.services.schedules.getSchedule(req.params.id, req.user.id);
+
+      res.json({
+        success: true,
+        data: serializeSchedule(schedule),
+      });
+    } catch (error) {
+      handleError(res, error, 'Get schedule');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules/{id}/runs:
+ *   get:
+ *     summary: List a schedule's runs, latest first
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  '/:id/runs',
+  [
+    param('id').isString().notEmpty(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('offset').optional().isInt({ min: 0 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const limit = Number(req.query.limit) || 20;
+      const offset = Number(req.query.offset) || 0;
+      const { runs, total } = await req.services.schedules.listRuns(req.params.id, req.user.id, {
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          runs: runs.map(serializeRun),
+          pagination: { total, limit, offset },
+        },
+      });
+    } catch (error) {
+      handleError(res, error, 'List schedule runs');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules/{id}:
+ *   patch:
+ *     summary: Change a schedule's amount, note or end
+ *     description: Send null for endAt or maxOccurrences to remove the limit.
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *               endAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               maxOccurrences:
+ *                 type: integer
+ *                 nullable: true
+ */
+router.patch(
+  '/:id',
+  idempotencyMiddleware('schedule_update'),
+  [
+    param('id').isString().notEmpty(),
+    body('amount').optional().isString().notEmpty(),
+    body('note').optional({ nullable: true }).isString().isLength({ max: 140 }),
+    body('endAt').optional({ nullable: true }).isISO8601(),
+    body('maxOccurrences').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { amount, note, endAt, maxOccurrences } = req.body;
+      let parsedAmount: bigint | undefined;
+
+      if (amount !== undefined) {
+        // The amount is in the schedule's own currency
+        const current = await req.services.schedules.getSchedule(req.params.id, req.user.id);
+        parsedAmount = parseAmount(amount, current.currency);
+      }
+
+      const schedule = await req.services.schedules.updateSchedule(req.params.id, req.user.id, {
+        amount: parsedAmount,
+        note,
+        endAt: endAt === null ? null : endAt ? new Date(endAt) : undefined,
+        maxOccurrences,
+      });
+
+      res.json({
+        success: true,
+        data: serializeSchedule(schedule),
+      });
+    } catch (error) {
+      handleError(res, error, 'Update schedule');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules/{id}/pause:
+ *   post:
+ *     summary: Pause a schedule
+ *     description: Runs waiting for a retry are failed; runs missed while paused are skipped.
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/:id/pause',
+  ...scheduleAction(
+    'schedule_pause',
+    (req) => req.services.schedules.pauseSchedule(req.params.id, req.user.id),
+    'Pause schedule'
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules/{id}/resume:
+ *   post:
+ *     summary: Resume a paused schedule from its next run time
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  '/:id/resume',
+  ...scheduleAction(
+    'schedule_resume',
+    (req) => req.services.schedules.resumeSchedule(req.params.id, req.user.id),
+    'Resume schedule'
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/schedules/{id}:
+ *   delete:
+ *     summary: Cancel a schedule
+ *     tags: [Schedules]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  '/:id',
+  ...scheduleAction(
+    'schedule_cancel',
+    (req) => req.services.schedules.cancelSchedule(req.params.id, req.user.id),
+    'Cancel schedule'
+  )
+);
+
+export default router;
@@ -1,13 +1,98 @@
 // skypay-backend/src/api/routes/settlement.routes.ts
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { FxQuote, SettlementState, SettlementType } from '@prisma/client';
 import { body, param, query, validationResult } from 'express-validator';
-import { SettlementService } from '../../settlement/SettlementService';
 import { authMiddleware } from '../middleware/auth';
 import { rateLimitMiddleware } from '../middleware/rateLimit';
+import { idempotencyMiddleware } from '../middleware/idempotency';
 import { AppError } from '../../utils/errors';
+import { QuoteExpectation } from '../../fx/FxService';
+import { getCurrency, isSupportedCurrency, parseAmount, toMinorUnits } from '../../currency/currencies';
 
 const router = Router();
 
+// Validate a major-unit amount against the precision of the body's currency
+const isAmount = (
+  field: string = 'amount',
+  min: string = '1',
+  currencyField: string = 'currency'
+) =>
+  body(field).custom((value, { req }) => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new Error('Amount must be a decimal string');
+    }
+    const currency = req.body[currencyField];
+    if (parseAmount(value, currency) < parseAmount(min, currency)) {
+      throw new Error(`Minimum amount is ${min}`);
+    }
+    return true;
+  });
+
+// Accept an optional registry token; any pair with an FX rate can be quoted
+const isToken = (field: string) =>
+  body(field)
+    .optional()
+    .custom((value) => {
+      if (!isSupportedCurrency(value) || getCurrency(value).kind !== 'TOKEN') {
+        throw new Error(`Unsupported token ${value}`);
+      }
+      return true;
+    });
+
+/**
+ * Claim the quote the user confirmed, or price the request now when no
+ * quote was given, so a settlement's amounts always come from a used quote
+ */
+const lockQuote = async (
+  req: Request,
+  quoteId: string | undefined,
+  expected: QuoteExpectation & {
+    product: SettlementType;
+    sourceCurrency: string;
+    targetCurrency: string;
+  }
+) => {
+  const userId = req.user.id;
+
+  if (!quoteId) {
+    const quote = await req.services.fx.createQuote({ userId, ...expected });
+    quoteId = quote.id;
+  }
+
+  return req.services.fx.useQuote(quoteId, userId, expected);
+};
+
+/**
+ * Bank details from the body, or from the saved beneficiary it names.
+ * Payouts to a beneficiary wait for its cooling-off period.
+ */
+const resolveBankDetails = async (req: Request, currency: string, payout: boolean) => {
+  const { beneficiaryId, bankDetails } = req.body;
+
+  if (!beneficiaryId) {
+    return bankDetails;
+  }
+  if (bankDetails) {
+    throw new AppError('Send bankDetails or beneficiaryId, not both', 400);
+  }
+
+  return req.services.beneficiaries.resolveBankDetails(beneficiaryId, req.user.id, {
+    currency,
+    payout,
+  });
+};
+
+const quoteSummary = (quote: FxQuote) => ({
+  id: quote.id,
+  rate: quote.rate.toString(),
+  sourceAmount: quote.sourceAmount.toFixed(0),
+  sourceCurrency: quote.sourceCurrency,
+  targetAmount: quote.targetAmount.toFixed(0),
+  targetCurrency: quote.targetCurrency,
+  // Included in sourceAmount
+  fee: { amount: quote.feeAmount.toFixed(0), currency: quote.sourceCurrency },
+});
+
 /**
  * @swagger
  * /api/v1/settlements/fiat/deposit:
@@ -17,6 +102,12 @@ const router = Router();
  *     tags: [Settlements]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
@@ -26,11 +117,19 @@ const router = Router();
  *             required: [amount, currency]
  *             properties:
  *               amount:
- *                 type: number
- *                 minimum: 1
+ *                 type: string
+ *                 description: Major-unit decimal, at most the currency's precision
+ *                 example: "1500.25"
  *               currency:
  *                 type: string
  *                 enum: [USD, NGN, EUR]
+ *               targetCurrency:
+ *                 type: string
+ *                 description: Token to receive; defaults to the currency's own stablecoin
+ *                 example: USDX
+ *               quoteId:
+ *                 type: string
+ *                 description: Quote from POST /quotes for product FIAT_TO_TOKEN, this amount and currency pair
  *               bankDetails:
  *                 type: object
  *                 properties:
@@ -38,36 +137,55 @@ const router = Router();
  *                     type: string
  *                   accountNumber:
  *                     type: string
+ *               beneficiaryId:
+ *                 type: string
+ *                 description: Saved, verified bank account to pay from, instead of bankDetails
  */
 router.post(
   '/fiat/deposit',
   authMiddleware,
   rateLimitMiddleware('fiat_deposit', 10, 3600), // 10 per hour
+  idempotencyMiddleware('fiat_deposit'),
   [
-    body('amount').isFloat({ min: 1 }).toFloat(),
     body('currency').isIn(['USD', 'NGN', 'EUR']),
+    isAmount(),
+    isToken('targetCurrency'),
+    body('quoteId').optional().isString(),
     body('bankDetails').optional().isObject(),
+    body('beneficiaryId').optional().isString(),
   ],
-  async (req, res) => {
+  async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         throw new AppError('Validation failed', 400, errors.array());
       }
 
-      const { amount, currency, bankDetails } = req.body;
+      const { currency, quoteId } = req.body;
+      const amount = parseAmount(req.body.amount, currency);
+      const bankDetails = await resolveBankDetails(req, currency, false);
+      const targetCurrency = req.body.targetCurrency || `${currency}X`; // USD -> USDX, NGN -> NGNX
       const userId = req.user.id;
 
+      const quote = await lockQuote(req, quoteId, {
+        product: 'FIAT_TO_TOKEN',
+        sourceCurrency: currency,
+        sourceAmount: amount,
+        targetCurrency,
+      });
+
       const settlement = await req.services.settlement.createSettlement({
         userId,
         type: 'FIAT_TO_TOKEN',
         sourceAmount: amount,
         sourceCurrency: currency,
-        targetAmount: amount, // 1:1 for now, would apply fees in production
-        targetCurrency: `${currency}X`, // USD -> USST, NGN -> NairaX
+        targetAmount: toMinorUnits(quote.targetAmount),
+        targetCurrency,
+        feeAmount: toMinorUnits(quote.feeAmount),
         provider: 'BRIDGE',
-        metadata: { bankDetails },
+        metadata: { bankDetails, fxQuoteId: quote.id },
       });
+      await req.services.fx.linkSettlement(quote.id, settlement.id);
 
       // Get Bridge deposit instructions
       const bridgeInstructions = await req.services.bridge.generateDepositInstructions({
@@ -76,12 +194,19 @@ router.post(
         currency,
         userId,
         bankDetails,
+        // Bridge closes the deposit order when the settlement would expire
+        expiresAt: req.services.settlement.getStateDeadline(
+          settlement.type,
+          settlement.currentState,
+          settlement.createdAt
+        )?.at,
       });
 
       res.status(201).json({
         success: true,
         data: {
           settlement,
+          quote: quoteSummary(quote),
           instructions: bridgeInstructions,
         },
       });
@@ -112,48 +237,99 @@ router.post(
  *     tags: [Settlements]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, currency]
+ *             properties:
+ *               amount:
+ *                 type: string
+ *                 description: Major-unit decimal to pay out
+ *                 example: "1500.25"
+ *               currency:
+ *                 type: string
+ *                 enum: [USD, NGN, EUR]
+ *               tokenCurrency:
+ *                 type: string
+ *                 description: Token to pay with; defaults to the currency's own stablecoin
+ *               quoteId:
+ *                 type: string
+ *                 description: Quote from POST /quotes for product TOKEN_TO_FIAT with this payout as its target amount
+ *               bankDetails:
+ *                 type: object
+ *               beneficiaryId:
+ *                 type: string
+ *                 description: |
+ *                   Saved, verified bank or mobile money account to pay, instead
+ *                   of bankDetails, once its cooling-off period has passed
  */
 router.post(
   '/fiat/withdraw',
   authMiddleware,
   rateLimitMiddleware('fiat_withdrawal', 5, 3600), // 5 per hour
+  idempotencyMiddleware('fiat_withdrawal'),
   [
-    body('amount').isFloat({ min: 1 }).toFloat(),
     body('currency').isIn(['USD', 'NGN', 'EUR']),
-    body('bankDetails').isObject(),
+    isAmount(),
+    isToken('tokenCurrency'),
+    body('quoteId').optional().isString(),
+    body('bankDetails').if(body('beneficiaryId').not().exists()).isObject(),
+    body('beneficiaryId').optional().isString(),
   ],
-  async (req, res) => {
+  async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         throw new AppError('Validation failed', 400, errors.array());
       }
 
-      const { amount, currency, bankDetails } = req.body;
+      const { currency, quoteId } = req.body;
+      const amount = parseAmount(req.body.amount, currency);
+      const bankDetails = await resolveBankDetails(req, currency, true);
+      const tokenCurrency = req.body.tokenCurrency || `${currency}X`;
       const userId = req.user.id;
 
+      const quote = await lockQuote(req, quoteId, {
+        product: 'TOKEN_TO_FIAT',
+        sourceCurrency: tokenCurrency,
+        targetCurrency: currency,
+        targetAmount: amount,
+      });
+
       const settlement = await req.services.settlement.createSettlement({
         userId,
         type: 'TOKEN_TO_FIAT',
-        sourceAmount: amount,
-        sourceCurrency: `${currency}X`,
+        sourceAmount: toMinorUnits(quote.sourceAmount),
+        sourceCurrency: tokenCurrency,
         targetAmount: amount,
         targetCurrency: currency,
+        feeAmount: toMinorUnits(quote.feeAmount),
         provider: 'BRIDGE',
-        metadata: { bankDetails },
+        metadata: { bankDetails, fxQuoteId: quote.id },
       });
+      await req.services.fx.linkSettlement(quote.id, settlement.id);
 
       // Immediately lock tokens
       await req.services.settlement.transitionState(
         settlement.id,
         'TOKEN_LOCKED',
-        { amount, currency }
+        { amount: amount.toString(), currency }
       );
 
       res.status(201).json({
         success: true,
         data: {
           settlement,
+          quote: quoteSummary(quote),
           message: 'Withdrawal initiated. Tokens locked pending processing.',
         },
       });
@@ -175,6 +351,259 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/settlements/cross-border:
+ *   post:
+ *     summary: Initiate cross-border transfer
+ *     description: |
+ *       Collect fiat in the source currency and pay it out in the target
+ *       currency to a beneficiary bank account, at an FX rate locked when
+ *       the transfer is created. Fees come out of the amount sent; the
+ *       instructions give the full amount to pay in.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, sourceCurrency, targetCurrency]
+ *             properties:
+ *               amount:
+ *                 type: string
+ *                 description: Major-unit decimal in the source currency
+ *                 example: "250.00"
+ *               sourceCurrency:
+ *                 type: string
+ *                 enum: [GBP, USD, EUR]
+ *               targetCurrency:
+ *                 type: string
+ *                 enum: [NGN, KES, GHS]
+ *               bankDetails:
+ *                 type: object
+ *                 description: Beneficiary account in the target country
+ *               beneficiaryId:
+ *                 type: string
+ *                 description: Saved beneficiary in the target currency, instead of bankDetails
+ */
+router.post(
+  '/cross-border',
+  authMiddleware,
+  rateLimitMiddleware('cross_border', 10, 3600), // 10 per hour
+  idempotencyMiddleware('cross_border'),
+  [
+    body('sourceCurrency').isIn(['GBP', 'USD', 'EUR']),
+    body('targetCurrency').isIn(['NGN', 'KES', 'GHS']),
+    isAmount('amount', '1', 'sourceCurrency'),
+    body('bankDetails').if(body('beneficiaryId').not().exists()).isObject(),
+    body('beneficiaryId').optional().isString(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { sourceCurrency, targetCurrency } = req.body;
+      const bankDetails = await resolveBankDetails(req, targetCurrency, true);
+
+      const { settlement, quote, fee, instructions } =
+        await req.services.settlement.createCrossBorderSettlement({
+          userId: req.user.id,
+          sourceAmount: parseAmount(req.body.amount, sourceCurrency),
+          sourceCurrency,
+          targetCurrency,
+          bankDetails,
+        });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          settlement,
+          quote: {
+            id: quote.id,
+            rate: quote.rate,
+            sourceAmount: fee.grossAmount.toString(),
+            sourceCurrency: quote.sourceCurrency,
+            targetAmount: quote.targetAmount.toString(),
+            targetCurrency: quote.targetCurrency,
+            expiresAt: quote.expiresAt,
+            // Included in sourceAmount
+            fee: { amount: fee.feeAmount.toString(), currency: fee.currency },
+          },
+          instructions,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Cross-border transfer error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
+// Currencies each simulated type accepts, as its creating route does
+type CurrencyRule = string[] | 'TOKEN';
+
+const SIMULATED_PAIRS: Record<string, { source: CurrencyRule; target: CurrencyRule }> = {
+  FIAT_TO_TOKEN: { source: ['USD', 'NGN', 'EUR'], target: 'TOKEN' },
+  TOKEN_TO_FIAT: { source: 'TOKEN', target: ['USD', 'NGN', 'EUR'] },
+  CROSS_BORDER: { source: ['GBP', 'USD', 'EUR'], target: ['NGN', 'KES', 'GHS'] },
+};
+
+const isSimulatedCurrency = (field: 'sourceCurrency' | 'targetCurrency') =>
+  body(field).custom((value, { req }) => {
+    const pair = SIMULATED_PAIRS[req.body.type];
+    if (!pair) {
+      return true; // Reported by the type check
+    }
+    const allowed = field === 'sourceCurrency' ? pair.source : pair.target;
+    const ok =
+      allowed === 'TOKEN'
+        ? isSupportedCurrency(value) && getCurrency(value).kind === 'TOKEN'
+        : allowed.includes(value);
+    if (!ok) {
+      throw new Error(`Unsupported ${field} ${value} for ${req.body.type}`);
+    }
+    return true;
+  });
+
+/**
+ * @swagger
+ * /api/v1/settlements/simulate:
+ *   post:
+ *     summary: Simulate a settlement
+ *     description: |
+ *       Price a deposit, withdrawal or cross-border transfer and run the
+ *       checks creating it would, without creating anything or locking a
+ *       rate. Invalid requests fail as they would on creation; identity
+ *       verification, account screening, limits and account checks that
+ *       would refuse it are listed in blockers. skippedChecks lists the
+ *       checks that only run once the settlement is created.
+ *       arrivesBy is the latest the funds should arrive if the settlement
+ *       is funded now, from the timeouts of the states on its path.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, amount, sourceCurrency, targetCurrency]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [FIAT_TO_TOKEN, TOKEN_TO_FIAT, CROSS_BORDER]
+ *               amount:
+ *                 type: string
+ *                 description: |
+ *                   Major-unit decimal the user sends, or for TOKEN_TO_FIAT the
+ *                   payout in the target currency, as on the creating routes
+ *                 example: "250.00"
+ *               sourceCurrency:
+ *                 type: string
+ *                 example: USD
+ *               targetCurrency:
+ *                 type: string
+ *                 example: NGN
+ */
+router.post(
+  '/simulate',
+  authMiddleware,
+  rateLimitMiddleware('settlement_simulate', 60, 3600), // 60 per hour
+  [
+    body('type').isIn(Object.keys(SIMULATED_PAIRS)),
+    isSimulatedCurrency('sourceCurrency'),
+    isSimulatedCurrency('targetCurrency'),
+    body('amount').custom((value, { req }) => {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error('Amount must be a decimal string');
+      }
+      const currency =
+        req.body.type === 'TOKEN_TO_FIAT' ? req.body.targetCurrency : req.body.sourceCurrency;
+      if (parseAmount(value, currency) < parseAmount('1', currency)) {
+        throw new Error('Minimum amount is 1');
+      }
+      return true;
+    }),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { type, sourceCurrency, targetCurrency } = req.body;
+      const amountCurrency = type === 'TOKEN_TO_FIAT' ? targetCurrency : sourceCurrency;
+
+      const simulation = await req.services.simulator.simulate({
+        userId: req.user.id,
+        type,
+        sourceCurrency,
+        targetCurrency,
+        amount: parseAmount(req.body.amount, amountCurrency),
+      });
+
+      res.json({
+        success: true,
+        data: {
+          type: simulation.type,
+          allowed: simulation.blockers.length === 0,
+          sourceAmount: simulation.sourceAmount.toString(),
+          sourceCurrency: simulation.sourceCurrency,
+          // Included in sourceAmount
+          fee: { amount: simulation.feeAmount.toString(), currency: simulation.sourceCurrency },
+          rate: simulation.rate,
+          rateSource: simulation.rateSource,
+          targetAmount: simulation.targetAmount.toString(),
+          targetCurrency: simulation.targetCurrency,
+          arrivesBy: simulation.arrivesBy,
+          path: simulation.path,
+          blockers: simulation.blockers,
+          skippedChecks: simulation.skippedChecks,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Simulate settlement error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/settlements/{id}:
@@ -188,7 +617,7 @@ router.get(
   '/:id',
   authMiddleware,
   [param('id').isUUID()],
-  async (req, res) => {
+  async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -239,14 +668,16 @@ router.get(
   '/',
   authMiddleware,
   [
-    query('type').optional().isIn(['FIAT_TO_TOKEN', 'TOKEN_TO_FIAT', 'CROSS_BORDER', 'INTERNAL_TRANSFER']),
+    query('type')
+      .optional()
+      .isIn(['FIAT_TO_TOKEN', 'TOKEN_TO_FIAT', 'CROSS_BORDER', 'INTERNAL_TRANSFER', 'PAYOUT']),
     query('status').optional().isString(),
     query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
     query('offset').optional().isInt({ min: 0 }).toInt(),
     query('startDate').optional().isISO8601(),
     query('endDate').optional().isISO8601(),
   ],
-  async (req, res) => {
+  async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -266,8 +697,8 @@ router.get(
       const { settlements, total } = await req.services.settlement.getUserSettlements(
         userId,
         {
-          type: type as string,
-          status: status as string,
+          type: type as SettlementType | undefined,
+          status: status as SettlementState | undefined,
           startDate: startDate ? new Date(startDate as string) : undefined,
           endDate: endDate ? new Date(endDate as string) : undefined,
           limit: parseInt(limit as string),
@@ -283,7 +714,7 @@ router.get(
             total,
             limit: parseInt(limit as string),
             offset: parseInt(offset as string),
-            hasMore: offset + settlements.length < total,
+            hasMore: parseInt(offset as string) + settlements.length < total,
           },
         },
       });
@@ -312,12 +743,19 @@ router.get(
  *     tags: [Settlements]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
  */
 router.post(
   '/:id/cancel',
   authMiddleware,
+  idempotencyMiddleware('settlement_cancel'),
   [param('id').isUUID(), body('reason').optional().isString()],
-  async (req, res) => {
+  async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -335,8 +773,7 @@ router.post(
       }
 
       // Check if settlement can be cancelled
-      const cancellableStates = ['INITIATED', 'TOKEN_LOCKED'];
-      if (!cancellableStates.includes(settlement.currentState)) {
+      if (!req.services.settlement.isCancellable(settlement)) {
         throw new AppError(
           `Settlement cannot be cancelled in state: ${settlement.currentState}`,
           400
@@ -0,0 +1,127 @@
+// skypay-backend/src/api/routes/transfer.routes.ts
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authMiddleware } from '../middleware/auth';
+import { rateLimitMiddleware } from '../middleware/rateLimit';
+import { idempotencyMiddleware } from '../middleware/idempotency';
+import { AppError } from '../../utils/errors';
+import { isSupportedCurrency, parseAmount } from '../../currency/currencies';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/transfers:
+ *   post:
+ *     summary: Send funds to another SkyPay user
+ *     description: |
+ *       Instant transfer from the caller's account to the recipient's account
+ *       in the same currency. The recipient is addressed by email, phone
+ *       number (E.164), SkyPay tag or wallet address. Any fee is charged
+ *       to the sender on top of the amount (the settlement's feeAmount).
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, currency]
+ *             properties:
+ *               recipient:
+ *                 type: string
+ *                 example: "@ada"
+ *               beneficiaryId:
+ *                 type: string
+ *                 description: Saved wallet beneficiary to send to, instead of recipient
+ *               amount:
+ *                 type: string
+ *                 description: Major-unit decimal, at most the currency's precision
+ *                 example: "25.00"
+ *               currency:
+ *                 type: string
+ *                 example: NGN
+ *               note:
+ *                 type: string
+ *                 maxLength: 140
+ */
+router.post(
+  '/',
+  authMiddleware,
+  rateLimitMiddleware('internal_transfer', 30, 3600), // 30 per hour
+  idempotencyMiddleware('internal_transfer'),
+  [
+    body('recipient').if(body('beneficiaryId').not().exists()).isString().trim().notEmpty(),
+    body('beneficiaryId').optional().isString(),
+    body('currency').custom((value) => isSupportedCurrency(value)),
+    body('amount').custom((value, { req }) => {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error('Amount must be a decimal string');
+      }
+      if (parseAmount(value, req.body.currency) <= 0n) {
+        throw new Error('Amount must be positive');
+      }
+      return true;
+    }),
+    body('note').optional().isString().isLength({ max: 140 }),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, errors.array());
+      }
+
+      const { currency, note, beneficiaryId } = req.body;
+
+      if (beneficiaryId && req.body.recipient) {
+        throw new AppError('Send recipient or beneficiaryId, not both', 400);
+      }
+
+      const recipient = beneficiaryId
+        ? await req.services.beneficiaries.resolveWalletAddress(
+            beneficiaryId,
+            req.user.id,
+            currency
+          )
+        : req.body.recipient;
+
+      const settlement = await req.services.transfers.createTransfer({
+        senderId: req.user.id,
+        recipient,
+        amount: parseAmount(req.body.amount, currency),
+        currency,
+        note,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: settlement,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error('Transfer error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+);
+
+export default router;
@@ -1,161 +1,118 @@
 // skypay-backend/src/api/routes/webhook.routes.ts
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, header, validationResult } from 'express-validator';
-import crypto from 'crypto';
-import { WebhookProcessor } from '../../webhooks/WebhookProcessor';
+import { config } from '../../config';
 import { AppError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
-import { WebhookEvent } from '../../types/webhooks';
+import {
+  SignatureCheck,
+  verifyBridgeSignature,
+  verifyPaystackSignature,
+  verifySharedSecret,
+  verifyStripeSignature,
+} from '../../webhooks/signatures';
 
 const router = Router();
-const webhookProcessor = new WebhookProcessor();
-
-// Webhook signature verification functions
-const verifyBridgeSignature = (signature: string, timestamp: string, payload: any): boolean => {
-  const secret = process.env.BRIDGE_WEBHOOK_SECRET;
-  if (!secret) {
-    logger.warn('BRIDGE_WEBHOOK_SECRET not configured');
-    return false;
-  }
-
-  const payloadString = JSON.stringify(payload);
-  const signedPayload = `${timestamp}.${payloadString}`;
-
-  const expectedSignature = crypto
-    .createHmac('sha256', secret)
-    .update(signedPayload)
-    .digest('hex');
-
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
-};
-
-const verifyPaystackSignature = (req: Request): boolean => {
-  const secret = process.env.PAYSTACK_WEBHOOK_SECRET;
-  if (!secret) {
-    logger.warn('PAYSTACK_WEBHOOK_SECRET not configured');
-    return false;
-  }
-
-  const signature = req.headers['x-paystack-signature'] as string;
-  if (!signature) {
-    return false;
-  }
 
-  const hash = crypto
-    .createHmac('sha512', secret)
-    .update(JSON.stringify(req.body))
-    .digest('hex');
+type VerifiedProvider = 'bridge' | 'blockchain' | 'paystack' | 'stripe';
 
-  return hash === signature;
+const headerValue = (req: Request, name: string): string | undefined => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
 };
 
-const verifyStripeSignature = (req: Request): boolean => {
-  const secret = process.env.STRIPE_WEBHOOK_SECRET;
-  if (!secret) {
-    logger.warn('STRIPE_WEBHOOK_SECRET not configured');
-    return false;
-  }
-
-  const signature = req.headers['stripe-signature'] as string;
-  if (!signature) {
-    return false;
-  }
-
-  try {
-    const crypto = require('crypto');
-    const timestamp = req.headers['stripe-timestamp'] as string;
-    const signedPayload = `${timestamp}.${JSON.stringify(req.body)}`;
-    
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(signedPayload)
-      .digest('hex');
-
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
-  } catch (error) {
-    logger.error('Stripe signature verification failed:', error);
-    return false;
+// Signatures cover the body exactly as sent, never a re-serialization of it
+const checkSignature = (provider: VerifiedProvider, req: Request): SignatureCheck => {
+  const { secrets, toleranceSeconds } = config.webhooks;
+  const rawBody: Buffer = req.rawBody ?? Buffer.alloc(0);
+
+  switch (provider) {
+    case 'bridge':
+      return verifyBridgeSignature(
+        rawBody,
+        headerValue(req, 'x-bridge-signature'),
+        headerValue(req, 'x-bridge-timestamp'),
+        { secrets: secrets.bridge, toleranceSeconds }
+      );
+    case 'stripe':
+      return verifyStripeSignature(rawBody, headerValue(req, 'stripe-signature'), {
+        secrets: secrets.stripe,
+        toleranceSeconds,
+      });
+    case 'paystack':
+      return verifyPaystackSignature(rawBody, headerValue(req, 'x-paystack-signature'), {
+        secrets: secrets.paystack,
+      });
+    case 'blockchain':
+      return verifySharedSecret(headerValue(req, 'x-webhook-secret'), {
+        secrets: secrets.blockchain,
+      });
   }
 };
 
-// Middleware to validate webhook secret
-const validateWebhookSecret = (secretEnvVar: string) => {
+// Middleware to verify a webhook; the handler stores the result with the
+// event and refuses the delivery when it failed
+const verifySignature = (provider: VerifiedProvider) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const expectedSecret = process.env[secretEnvVar];
-    const providedSecret = req.headers['x-webhook-secret'];
+    const check = checkSignature(provider, req);
 
-    if (!expectedSecret || expectedSecret !== providedSecret) {
-      throw new AppError('Invalid webhook secret', 401);
-    }
-    next();
-  };
-};
-
-// Middleware to validate webhook signature
-const validateSignature = (provider: 'bridge' | 'paystack' | 'stripe') => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    let isValid = false;
-
-    switch (provider) {
-      case 'bridge':
-        const bridgeSignature = req.headers['x-bridge-signature'] as string;
-        const bridgeTimestamp = req.headers['x-bridge-timestamp'] as string;
-        if (bridgeSignature && bridgeTimestamp) {
-          isValid = verifyBridgeSignature(bridgeSignature, bridgeTimestamp, req.body);
-        }
-        break;
-      case 'paystack':
-        isValid = verifyPaystackSignature(req);
-        break;
-      case 'stripe':
-        isValid = verifyStripeSignature(req);
-        break;
-    }
-
-    if (!isValid) {
-      throw new AppError(`Invalid ${provider} webhook signature`, 401);
+    res.locals.signatureValid = check.valid;
+    if (!check.valid) {
+      res.locals.signatureError = check.reason;
+      if (check.reason === 'NO_SECRETS') {
+        logger.warn(`No ${provider} webhook secrets configured`);
+      }
     }
     next();
   };
 };
 
-// Generic webhook handler
+// Generic webhook handler: every delivery is stored before it is
+// acknowledged, and processed from the queue at most once unless replayed
 const handleWebhook = async (
   provider: string,
   eventType: string,
-  payload: any,
+  req: Request,
   res: Response
 ) => {
-  try {
-    logger.info(`Processing ${provider} webhook: ${eventType}`, { payload });
-
-    // Process webhook asynchronously to avoid timeout
-    webhookProcessor.process(`${provider}.${eventType}`, payload)
-      .then(success => {
-        if (!success) {
-          logger.error(`Failed to process ${provider} webhook: ${eventType}`);
-        }
-      })
-      .catch(error => {
-        logger.error(`Error processing ${provider} webhook:`, error);
-      });
+  const signatureValid: boolean | null = res.locals.signatureValid ?? null;
+  const signatureError: string | undefined = res.locals.signatureError;
+
+  const { event, duplicate } = await req.services.webhookEvents.record({
+    provider,
+    eventType,
+    payload: req.body,
+    rawBody: req.rawBody?.toString('utf8') ?? JSON.stringify(req.body),
+    headers: req.headers,
+    signatureValid,
+    signatureError,
+  });
 
-    // Acknowledge receipt immediately
-    res.json({ 
-      success: true, 
-      message: 'Webhook received and processing' 
+  if (signatureValid === false) {
+    logger.warn(`Rejected ${provider} webhook: ${eventType}`, {
+      webhookEventId: event.id,
+      reason: signatureError,
     });
-
-  } catch (error) {
-    logger.error(`${provider} webhook handling error:`, error);
-    throw error;
+    throw new AppError(
+      provider === 'blockchain'
+        ? 'Invalid webhook secret'
+        : `Invalid ${provider} webhook signature`,
+      401
+    );
   }
+
+  logger.info(`Received ${provider} webhook: ${eventType}`, {
+    webhookEventId: event.id,
+    eventId: event.eventId,
+    duplicate,
+  });
+
+  // Acknowledge redeliveries too, so the provider stops retrying
+  res.json({
+    success: true,
+    message: duplicate ? 'Webhook already received' : 'Webhook received and processing',
+    data: { id: event.id, duplicate },
+  });
 };
 
 /**
@@ -167,7 +124,7 @@ router.post(
     header('x-bridge-signature').isString(),
     header('x-bridge-timestamp').isInt({ min: 0 }),
     body().isObject(),
-    validateSignature('bridge')
+    verifySignature('bridge')
   ],
   async (req: Request, res: Response) => {
     try {
@@ -183,7 +140,7 @@ router.post(
         throw new AppError('Missing event type in payload', 400);
       }
 
-      await handleWebhook('bridge', eventType, payload, res);
+      await handleWebhook('bridge', eventType, req, res);
 
     } catch (error) {
       logger.error('Bridge webhook error:', error);
@@ -212,7 +169,7 @@ router.post(
   [
     header('x-webhook-secret').notEmpty(),
     body().isObject(),
-    validateWebhookSecret('BLOCKCHAIN_WEBHOOK_SECRET')
+    verifySignature('blockchain')
   ],
   async (req: Request, res: Response) => {
     try {
@@ -228,7 +185,7 @@ router.post(
         throw new AppError('Missing event type in payload', 400);
       }
 
-      await handleWebhook('blockchain', eventType, payload, res);
+      await handleWebhook('blockchain', eventType, req, res);
 
     } catch (error) {
       logger.error('Blockchain webhook error:', error);
@@ -256,7 +213,7 @@ const createPartnerWebhookRoute = (partner: string) => {
 
   // Add signature validation for providers that require it
   if (partner === 'paystack' || partner === 'stripe') {
-    validations.push(validateSignature(partner as 'paystack' | 'stripe'));
+    validations.push(verifySignature(partner));
   }
 
   validations.push(async (req: Request, res: Response) => {
@@ -273,7 +230,7 @@ const createPartnerWebhookRoute = (partner: string) => {
         throw new AppError('Missing event type in payload', 400);
       }
 
-      await handleWebhook(partner, eventType, payload, res);
+      await handleWebhook(partner, eventType, req, res);
 
     } catch (error) {
       logger.error(`${partner} webhook error:`, error);
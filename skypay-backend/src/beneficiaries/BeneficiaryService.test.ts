@@ -0,0 +1,376 @@
+// skypay-backend/src/beneficiaries/BeneficiaryService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { BeneficiaryService, CreateBeneficiaryParams } from './BeneficiaryService';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+
+const setup = () => {
+  const rows = new Map<string, any>();
+
+  const prisma: any = {
+    beneficiary: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn(),
+      create: jest.fn(async ({ data }: any) => {
+        const row = { id: 'beneficiary-1', status: 'PENDING_VERIFICATION', ...data };
+        rows.set(row.id, row);
+        return row;
+      }),
+      update: jest.fn(async ({ where, data }: any) => ({
+        ...(rows.get(where.id) ?? { id: where.id }),
+        ...data,
+      })),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    getSystemAccount: jest.fn(async (code: string, currency: string) => ({
+      id: `${code}-${currency}`,
+    })),
+    postJournal: jest.fn(),
+  };
+  const bridgeService: any = {
+    validateBankAccount: jest.fn().mockResolvedValue({ valid: true, account_name: 'ADA OBI' }),
+    sendMicroDeposit: jest.fn().mockResolvedValue({ withdrawalId: 'brg_wd_micro' }),
+  };
+  const publisher: any = { publish: jest.fn() };
+
+  return {
+    prisma,
+    ledgerService,
+    bridgeService,
+    publisher,
+    beneficiaries: new BeneficiaryService(
+      prisma as PrismaClient,
+      ledgerService,
+      bridgeService,
+      publisher
+    ),
+  };
+};
+
+const bankAccount: CreateBeneficiaryParams = {
+  userId: 'user-1',
+  type: 'BANK_ACCOUNT',
+  nickname: ' Mum ',
+  currency: 'NGN',
+  details: { accountName: 'Ada Obi', accountNumber: '0123 456 789', bankCode: '058' },
+  ipAddress: '203.0.113.7',
+};
+
+const saved = (overrides: Record<string, any> = {}) => ({
+  id: 'beneficiary-1',
+  userId: 'user-1',
+  type: 'BANK_ACCOUNT',
+  nickname: 'Mum',
+  currency: 'NGN',
+  status: 'VERIFIED',
+  details: { accountName: 'Ada Obi', accountNumber: '0123456789', bankCode: '058' },
+  resolvedName: 'ADA OBI',
+  verificationMethod: 'ACCOUNT_LOOKUP',
+  payableAfter: new Date(now.getTime() - HOUR),
+  microDepositAttempts: 0,
+  microDepositAmount: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('BeneficiaryService.createBeneficiary', () => {
+  it('verifies a bank account by lookup and holds payouts for the cooling-off period', async () => {
+    const { prisma, bridgeService, beneficiaries } = setup();
+
+    const beneficiary = await beneficiaries.createBeneficiary(bankAccount);
+
+    expect(bridgeService.validateBankAccount).toHaveBeenCalledWith('058', '0123456789');
+    expect(prisma.beneficiary.create.mock.calls[0][0].data).toMatchObject({
+      nickname: 'Mum',
+      details: { accountName: 'Ada Obi', accountNumber: '0123456789', bankCode: '058' },
+      verificationMethod: 'ACCOUNT_LOOKUP',
+      status: 'VERIFIED',
+      verifiedAt: now,
+      resolvedName: 'ADA OBI',
+      payableAfter: new Date(now.getTime() + 24 * HOUR),
+    });
+    expect(beneficiary.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('sends the user a security notification', async () => {
+    const { publisher, beneficiaries } = setup();
+
+    await beneficiaries.createBeneficiary(bankAccount);
+
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'system:notifications',
+      expect.objectContaining({
+        type: 'BENEFICIARY_ADDED',
+        severity: 'SECURITY',
+        userId: 'user-1',
+        beneficiaryId: 'beneficiary-1',
+        ipAddress: '203.0.113.7',
+        payableAfter: new Date(now.getTime() + 24 * HOUR).toISOString(),
+      })
+    );
+  });
+
+  it('refuses an account the bank cannot resolve', async () => {
+    const { prisma, bridgeService, publisher, beneficiaries } = setup();
+    bridgeService.validateBankAccount.mockResolvedValue({ valid: false, message: 'No account' });
+
+    await expect(beneficiaries.createBeneficiary(bankAccount)).rejects.toThrow('No account');
+    expect(prisma.beneficiary.create).not.toHaveBeenCalled();
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('refuses an account that is already saved', async () => {
+    const { prisma, beneficiaries } = setup();
+    prisma.beneficiary.findFirst.mockResolvedValue({ id: 'beneficiary-0' });
+
+    await expect(beneficiaries.createBeneficiary(bankAccount)).rejects.toMatchObject({
+      statusCode: 409,
+      details: { beneficiaryId: 'beneficiary-0' },
+    });
+  });
+
+  it('saves the same account the same way however it was typed', async () => {
+    const { prisma, beneficiaries } = setup();
+
+    await beneficiaries.createBeneficiary(bankAccount);
+    await beneficiaries.createBeneficiary({
+      ...bankAccount,
+      details: { accountName: 'ADA', accountNumber: '0123456789', bankCode: ' 058 ' },
+    });
+
+    const [first, second] = prisma.beneficiary.findFirst.mock.calls.map(
+      ([{ where }]: any) => where.fingerprint
+    );
+    expect(first).toBe(second);
+  });
+
+  it('checks wallet addresses without a provider and pays them in tokens', async () => {
+    const { prisma, bridgeService, beneficiaries } = setup();
+    const address = `0xAbC${'0'.repeat(36)}1`;
+
+    await beneficiaries.createBeneficiary({
+      userId: 'user-1',
+      type: 'WALLET',
+      nickname: 'Cold wallet',
+      currency: 'USST',
+      details: { address },
+    });
+
+    expect(bridgeService.validateBankAccount).not.toHaveBeenCalled();
+    expect(prisma.beneficiary.create.mock.calls[0][0].data).toMatchObject({
+      details: { address: address.toLowerCase() },
+      verificationMethod: 'ADDRESS_CHECK',
+      status: 'VERIFIED',
+    });
+
+    await expect(
+      beneficiaries.createBeneficiary({
+        userId: 'user-1',
+        type: 'WALLET',
+        nickname: 'Cold wallet',
+        currency: 'USD',
+        details: { address },
+      })
+    ).rejects.toThrow('Wallet beneficiaries are paid in tokens');
+  });
+
+  it('needs an E.164 number for mobile money', async () => {
+    const { beneficiaries } = setup();
+
+    await expect(
+      beneficiaries.createBeneficiary({
+        userId: 'user-1',
+        type: 'MOBILE_MONEY',
+        nickname: 'M-Pesa',
+        currency: 'KES',
+        details: { accountName: 'Ada', phoneNumber: '0712345678', providerCode: 'MPESA' },
+      })
+    ).rejects.toThrow('Mobile money needs accountName, providerCode and an E.164 phoneNumber');
+  });
+});
+
+describe('BeneficiaryService micro-deposits', () => {
+  it('sends a small deposit, books it as an expense and waits for the user', async () => {
+    const { ledgerService, bridgeService, beneficiaries } = setup();
+
+    const beneficiary = await beneficiaries.createBeneficiary({
+      ...bankAccount,
+      verificationMethod: 'MICRO_DEPOSIT',
+    });
+
+    const [{ amount, reference }] = bridgeService.sendMicroDeposit.mock.calls[0];
+    expect(reference).toBe('beneficiary:beneficiary-1');
+    expect(amount).toBeGreaterThanOrEqual(1n);
+    expect(amount).toBeLessThanOrEqual(99n);
+
+    const [journal] = ledgerService.postJournal.mock.calls[0];
+    expect(journal.legs.map((leg: any) => [leg.accountId, leg.direction, leg.amount])).toEqual([
+      ['VERIFICATION_EXPENSE-NGN', 'DEBIT', amount],
+      ['BRIDGE_FLOAT-NGN', 'CREDIT', amount],
+    ]);
+    expect(beneficiary).toMatchObject({
+      status: 'PENDING_VERIFICATION',
+      microDepositAmount: new Prisma.Decimal(amount.toString()),
+      microDepositReference: 'brg_wd_micro',
+    });
+  });
+
+  it('rejects the beneficiary when the deposit cannot be sent', async () => {
+    const { prisma, bridgeService, beneficiaries } = setup();
+    bridgeService.sendMicroDeposit.mockRejectedValue(new Error('Bank offline'));
+
+    await expect(
+      beneficiaries.createBeneficiary({ ...bankAccount, verificationMethod: 'MICRO_DEPOSIT' })
+    ).rejects.toThrow('Bank offline');
+    expect(prisma.beneficiary.update).toHaveBeenCalledWith({
+      where: { id: 'beneficiary-1' },
+      data: { status: 'REJECTED' },
+    });
+  });
+
+  const awaiting = (attempts = 0) =>
+    saved({
+      status: 'PENDING_VERIFICATION',
+      verificationMethod: 'MICRO_DEPOSIT',
+      microDepositAmount: new Prisma.Decimal(42),
+      microDepositAttempts: attempts,
+    });
+
+  it('verifies the beneficiary when the amount matches', async () => {
+    const { prisma, beneficiaries } = setup();
+    prisma.beneficiary.findFirst.mockResolvedValue(awaiting());
+
+    const verified = await beneficiaries.confirmMicroDeposit('beneficiary-1', 'user-1', 42n);
+
+    expect(prisma.beneficiary.updateMany).toHaveBeenCalledWith({
+      where: { id: 'beneficiary-1', microDepositAttempts: 0 },
+      data: { microDepositAttempts: 1 },
+    });
+    expect(verified).toMatchObject({ status: 'VERIFIED', verifiedAt: now });
+  });
+
+  it('counts wrong amounts and rejects the beneficiary after the last one', async () => {
+    const { prisma, beneficiaries } = setup();
+
+    prisma.beneficiary.findFirst.mockResolvedValueOnce(awaiting(0));
+    await expect(
+      beneficiaries.confirmMicroDeposit('beneficiary-1', 'user-1', 41n)
+    ).rejects.toMatchObject({ details: { attemptsRemaining: 2 } });
+    expect(prisma.beneficiary.update).not.toHaveBeenCalled();
+
+    prisma.beneficiary.findFirst.mockResolvedValueOnce(awaiting(2));
+    await expect(
+      beneficiaries.confirmMicroDeposit('beneficiary-1', 'user-1', 41n)
+    ).rejects.toThrow('Too many wrong amounts; the beneficiary was rejected');
+    expect(prisma.beneficiary.update).toHaveBeenCalledWith({
+      where: { id: 'beneficiary-1' },
+      data: { status: 'REJECTED', microDepositAmount: null },
+    });
+  });
+
+  it('lets only one of two parallel guesses count', async () => {
+    const { prisma, beneficiaries } = setup();
+    prisma.beneficiary.findFirst.mockResolvedValue(awaiting());
+    prisma.beneficiary.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      beneficiaries.confirmMicroDeposit('beneficiary-1', 'user-1', 42n)
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('BeneficiaryService.resolveBankDetails', () => {
+  const payout = { currency: 'NGN', payout: true };
+
+  it('pays out to the verified name and records the use', async () => {
+    const { prisma, beneficiaries } = setup();
+    prisma.beneficiary.findFirst.mockResolvedValue(saved());
+
+    expect(await beneficiaries.resolveBankDetails('beneficiary-1', 'user-1', payout)).toEqual({
+      accountName: 'ADA OBI',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      accountType: undefined,
+    });
+    expect(prisma.beneficiary.update).toHaveBeenCalledWith({
+      where: { id: 'beneficiary-1' },
+      data: { lastUsedAt: now },
+    });
+  });
+
+  it('addresses mobile money like a bank account at the operator', async () => {
+    const { prisma, beneficiaries } = setup();
+    prisma.beneficiary.findFirst.mockResolvedValue(
+      saved({
+        type: 'MOBILE_MONEY',
+        currency: 'KES',
+        resolvedName: null,
+        details: { accountName: 'Ada', phoneNumber: '+254712345678', providerCode: 'MPESA' },
+      })
+    );
+
+    expect(
+      await beneficiaries.resolveBankDetails('beneficiary-1', 'user-1', {
+        currency: 'KES',
+        payout: true,
+      })
+    ).toEqual({
+      accountName: 'Ada',
+      accountNumber: '+254712345678',
+      bankCode: 'MPESA',
+      accountType: 'MOBILE_MONEY',
+    });
+  });
+
+  it('holds payouts to a new beneficiary until the cooling-off period ends', async () => {
+    const { prisma, beneficiaries } = setup();
+    const payableAfter = new Date(now.getTime() + HOUR);
+    prisma.beneficiary.findFirst.mockResolvedValue(saved({ payableAfter }));
+
+    await expect(
+      beneficiaries.resolveBankDetails('beneficiary-1', 'user-1', payout)
+    ).rejects.toMatchObject({ statusCode: 403, details: { payableAfter } });
+
+    // Deposits from the account aren't held
+    await expect(
+      beneficiaries.resolveBankDetails('beneficiary-1', 'user-1', { ...payout, payout: false })
+    ).resolves.toMatchObject({ accountNumber: '0123456789' });
+  });
+
+  it('refuses unverified beneficiaries and other currencies', async () => {
+    const { prisma, beneficiaries } = setup();
+
+    prisma.beneficiary.findFirst.mockResolvedValueOnce(saved({ status: 'PENDING_VERIFICATION' }));
+    await expect(
+      beneficiaries.resolveBankDetails('beneficiary-1', 'user-1', payout)
+    ).rejects.toThrow('Beneficiary is not verified');
+
+    prisma.beneficiary.findFirst.mockResolvedValueOnce(saved({ currency: 'GHS' }));
+    await expect(
+      beneficiaries.resolveBankDetails('beneficiary-1', 'user-1', payout)
+    ).rejects.toThrow('Beneficiary is paid in GHS');
+  });
+
+  it('does not find removed or other users\' beneficiaries', async () => {
+    const { prisma, beneficiaries } = setup();
+
+    await expect(
+      beneficiaries.resolveBankDetails('beneficiary-1', 'user-2', payout)
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(prisma.beneficiary.findFirst).toHaveBeenCalledWith({
+      where: { id: 'beneficiary-1', userId: 'user-2', status: { not: 'REMOVED' } },
+    });
+  });
+});
@@ -0,0 +1,490 @@
+// skypay-backend/src/beneficiaries/BeneficiaryService.ts
+import crypto from 'crypto';
+import {
+  Beneficiary,
+  BeneficiaryType,
+  BeneficiaryVerificationMethod,
+  PrismaClient,
+  Prisma,
+} from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { LedgerService } from '../ledger/LedgerService';
+import { BridgeService } from '../integrations/bridge/BridgeService';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+import { MinorUnits, getCurrency, toDecimal, toMinorUnits } from '../currency/currencies';
+import { PayoutBankDetails } from '../payouts/parser';
+
+export interface BankBeneficiaryDetails {
+  accountName: string;
+  accountNumber: string;
+  bankCode: string;
+  accountType?: string;
+}
+
+export interface MobileMoneyBeneficiaryDetails {
+  accountName: string;
+  // E.164
+  phoneNumber: string;
+  // Mobile money operator code, as listed with the provider's banks
+  providerCode: string;
+}
+
+export interface WalletBeneficiaryDetails {
+  address: string;
+}
+
+export type BeneficiaryDetails =
+  | BankBeneficiaryDetails
+  | MobileMoneyBeneficiaryDetails
+  | WalletBeneficiaryDetails;
+
+export interface CreateBeneficiaryParams {
+  userId: string;
+  type: BeneficiaryType;
+  nickname: string;
+  currency: string;
+  details: BeneficiaryDetails;
+  // Bank and mobile money accounts; defaults to ACCOUNT_LOOKUP
+  verificationMethod?: 'ACCOUNT_LOOKUP' | 'MICRO_DEPOSIT';
+  // For the security notification
+  ipAddress?: string;
+}
+
+const WALLET_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+// Micro-deposits are between these amounts, in minor units
+const MICRO_DEPOSIT_MIN = 1n;
+const MICRO_DEPOSIT_MAX = 99n;
+
+/**
+ * Saved payees. Bank and mobile money accounts are verified once, by a
+ * provider account lookup or a micro-deposit the user confirms, and
+ * wallets by their address. Payouts can then name a beneficiary instead
+ * of carrying account details, once its cooling-off period has passed.
+ * Adding a beneficiary always sends the user a security notification.
+ */
+export class BeneficiaryService {
+  constructor(
+    private prisma: PrismaClient,
+    private ledgerService: LedgerService,
+    private bridgeService: BridgeService,
+    private publisher: RealtimePublisher
+  ) {}
+
+  /**
+   * Save and verify a beneficiary. Account lookups verify at once; a
+   * micro-deposit leaves it pending until the user confirms the amount.
+   */
+  async createBeneficiary(params: CreateBeneficiaryParams): Promise<Beneficiary> {
+    const { userId, type, currency } = params;
+    const details = this.normalizeDetails(type, params.details);
+    const fingerprint = this.fingerprint(type, details);
+
+    const kind = getCurrency(currency).kind;
+    if (type === 'WALLET' && kind !== 'TOKEN') {
+      throw new AppError('Wallet beneficiaries are paid in tokens', 400);
+    }
+    if (type !== 'WALLET' && kind !== 'FIAT') {
+      throw new AppError('Bank and mobile money beneficiaries are paid in fiat currencies', 400);
+    }
+
+    const existing = await this.prisma.beneficiary.findFirst({
+      where: { userId, fingerprint, status: { notIn: ['REMOVED', 'REJECTED'] } },
+    });
+    if (existing) {
+      throw new AppError('This account is already saved', 409, { beneficiaryId: existing.id });
+    }
+
+    const method: BeneficiaryVerificationMethod =
+      type === 'WALLET' ? 'ADDRESS_CHECK' : params.verificationMethod ?? 'ACCOUNT_LOOKUP';
+    const now = new Date();
+    const { coolingOffHours } = config.beneficiaries;
+    const data: Prisma.BeneficiaryUncheckedCreateInput = {
+      userId,
+      type,
+      nickname: params.nickname.trim(),
+      currency,
+      details: details as unknown as Prisma.InputJsonValue,
+      fingerprint,
+      verificationMethod: method,
+      payableAfter: new Date(now.getTime() + coolingOffHours * 60 * 60 * 1000),
+    };
+
+    if (method === 'ACCOUNT_LOOKUP') {
+      const bank = this.toBankDetails(type, details);
+      const result = await this.bridgeService.validateBankAccount(
+        bank.bankCode,
+        bank.accountNumber
+      );
+
+      if (result?.valid === false || !result?.account_name) {
+        throw new AppError(result?.message || 'Account could not be verified', 400);
+      }
+
+      data.status = 'VERIFIED';
+      data.verifiedAt = now;
+      data.resolvedName = result.account_name;
+    } else if (method === 'ADDRESS_CHECK') {
+      data.status = 'VERIFIED';
+      data.verifiedAt = now;
+    }
+
+    let beneficiary = await this.prisma.beneficiary.create({ data });
+
+    if (method === 'MICRO_DEPOSIT') {
+      beneficiary = await this.sendMicroDeposit(beneficiary);
+    }
+
+    logger.info(`Beneficiary added: ${beneficiary.id}`, {
+      userId,
+      type,
+      currency,
+      status: beneficiary.status,
+    });
+
+    await this.publisher.publish('system:notifications', {
+      type: 'BENEFICIARY_ADDED',
+      severity: 'SECURITY',
+      message:
+        `"${beneficiary.nickname}" was added as a payee on your account. ` +
+        `If this wasn't you, contact support now.`,
+      userId,
+      beneficiaryId: beneficiary.id,
+      beneficiaryType: type,
+      payableAfter: beneficiary.payableAfter.toISOString(),
+      ipAddress: params.ipAddress,
+      timestamp: now.toISOString(),
+    });
+
+    return beneficiary;
+  }
+
+  async listBeneficiaries(
+    userId: string,
+    options: { type?: BeneficiaryType; currency?: string } = {}
+  ): Promise<Beneficiary[]> {
+    return this.prisma.beneficiary.findMany({
+      where: {
+        userId,
+        type: options.type,
+        currency: options.currency,
+        status: { not: 'REMOVED' },
+      },
+      orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+  }
+
+  async getBeneficiary(beneficiaryId: string, userId: string): Promise<Beneficiary> {
+    const beneficiary = await this.prisma.beneficiary.findFirst({
+      where: { id: beneficiaryId, userId, status: { not: 'REMOVED' } },
+    });
+
+    if (!beneficiary) {
+      throw new AppError('Beneficiary not found', 404);
+    }
+
+    return beneficiary;
+  }
+
+  /**
+   * Rename a beneficiary; account details can't change, save a new one instead
+   */
+  async renameBeneficiary(
+    beneficiaryId: string,
+    userId: string,
+    nickname: string
+  ): Promise<Beneficiary> {
+    const beneficiary = await this.getBeneficiary(beneficiaryId, userId);
+
+    return this.prisma.beneficiary.update({
+      where: { id: beneficiary.id },
+      data: { nickname: nickname.trim() },
+    });
+  }
+
+  async removeBeneficiary(beneficiaryId: string, userId: string): Promise<Beneficiary> {
+    const beneficiary = await this.getBeneficiary(beneficiaryId, userId);
+
+    return this.prisma.beneficiary.update({
+      where: { id: beneficiary.id },
+      data: { status: 'REMOVED', removedAt: new Date(), microDepositAmount: null },
+    });
+  }
+
+  /**
+   * Check the amount of a beneficiary's micro-deposit. Too many wrong
+   * guesses reject the beneficiary.
+   */
+  async confirmMicroDeposit(
+    beneficiaryId: string,
+    userId: string,
+    amount: MinorUnits
+  ): Promise<Beneficiary> {
+    const beneficiary = await this.getBeneficiary(beneficiaryId, userId);
+
+    if (
+      beneficiary.status !== 'PENDING_VERIFICATION' ||
+      beneficiary.verificationMethod !== 'MICRO_DEPOSIT' ||
+      !beneficiary.microDepositAmount
+    ) {
+      throw new AppError('Beneficiary is not awaiting a micro-deposit', 400);
+    }
+
+    // Count the guess first so parallel guesses can't get past the limit
+    const attempts = beneficiary.microDepositAttempts + 1;
+    const counted = await this.prisma.beneficiary.updateMany({
+      where: { id: beneficiary.id, microDepositAttempts: beneficiary.microDepositAttempts },
+      data: { microDepositAttempts: attempts },
+    });
+    if (counted.count === 0) {
+      throw new AppError('Another confirmation is in progress', 409);
+    }
+
+    if (toMinorUnits(beneficiary.microDepositAmount) === amount) {
+      const verified = await this.prisma.beneficiary.update({
+        where: { id: beneficiary.id },
+        data: { status: 'VERIFIED', verifiedAt: new Date(), microDepositAmount: null },
+      });
+
+      logger.info(`Beneficiary verified by micro-deposit: ${beneficiary.id}`, { userId });
+      return verified;
+    }
+
+    const remaining = config.beneficiaries.microDepositAttempts - attempts;
+
+    if (remaining <= 0) {
+      await this.prisma.beneficiary.update({
+        where: { id: beneficiary.id },
+        data: { status: 'REJECTED', microDepositAmount: null },
+      });
+    }
+
+    throw new AppError(
+      remaining > 0
+        ? 'Amount does not match the micro-deposit'
+        : 'Too many wrong amounts; the beneficiary was rejected',
+      400,
+      { attemptsRemaining: Math.max(remaining, 0) }
+    );
+  }
+
+  /**
+   * Bank details to pay a beneficiary in `currency`. It must be verified,
+   * a bank or mobile money account and, for payouts, past its cooling-off
+   * period.
+   */
+  async resolveBankDetails(
+    beneficiaryId: string,
+    userId: string,
+    options: { currency: string; payout: boolean }
+  ): Promise<PayoutBankDetails> {
+    const beneficiary = await this.assertUsable(beneficiaryId, userId, options);
+
+    if (beneficiary.type === 'WALLET') {
+      throw new AppError('Beneficiary is a wallet, not a bank account', 400);
+    }
+
+    return this.toBankDetails(
+      beneficiary.type,
+      beneficiary.details as unknown as BeneficiaryDetails,
+      beneficiary.resolvedName
+    );
+  }
+
+  /**
+   * Wallet address of a verified wallet beneficiary past its cooling-off period
+   */
+  async resolveWalletAddress(
+    beneficiaryId: string,
+    userId: string,
+    currency: string
+  ): Promise<string> {
+    const beneficiary = await this.assertUsable(beneficiaryId, userId, { currency, payout: true });
+
+    if (beneficiary.type !== 'WALLET') {
+      throw new AppError('Beneficiary is not a wallet', 400);
+    }
+
+    return (beneficiary.details as unknown as WalletBeneficiaryDetails).address;
+  }
+
+  private async assertUsable(
+    beneficiaryId: string,
+    userId: string,
+    options: { currency: string; payout: boolean }
+  ): Promise<Beneficiary> {
+    const beneficiary = await this.getBeneficiary(beneficiaryId, userId);
+
+    if (beneficiary.status !== 'VERIFIED') {
+      throw new AppError('Beneficiary is not verified', 400, { status: beneficiary.status });
+    }
+    if (beneficiary.currency !== options.currency) {
+      throw new AppError(`Beneficiary is paid in ${beneficiary.currency}`, 400);
+    }
+    if (options.payout && beneficiary.payableAfter > new Date()) {
+      throw new AppError('New beneficiaries can be paid once their cooling-off period ends', 403, {
+        payableAfter: beneficiary.payableAfter,
+      });
+    }
+
+    await this.prisma.beneficiary.update({
+      where: { id: beneficiary.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return beneficiary;
+  }
+
+  /**
+   * Pay a random small amount to the account for the user to confirm. The
+   * cost is booked to VERIFICATION_EXPENSE.
+   */
+  private async sendMicroDeposit(beneficiary: Beneficiary): Promise<Beneficiary> {
+    const amount =
+      MICRO_DEPOSIT_MIN +
+      BigInt(crypto.randomInt(Number(MICRO_DEPOSIT_MAX - MICRO_DEPOSIT_MIN) + 1));
+    const { currency } = beneficiary;
+
+    let withdrawalId: string;
+    try {
+      ({ withdrawalId } = await this.bridgeService.sendMicroDeposit({
+        reference: `beneficiary:${beneficiary.id}`,
+        amount,
+        currency,
+        userId: beneficiary.userId,
+        bankDetails: this.toBankDetails(
+          beneficiary.type,
+          beneficiary.details as unknown as BeneficiaryDetails
+        ),
+      }));
+    } catch (error) {
+      await this.prisma.beneficiary.update({
+        where: { id: beneficiary.id },
+        data: { status: 'REJECTED' },
+      });
+      throw error;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const expense = await this.ledgerService.getSystemAccount(
+        'VERIFICATION_EXPENSE',
+        currency,
+        tx
+      );
+      const bridgeFloat = await this.ledgerService.getSystemAccount('BRIDGE_FLOAT', currency, tx);
+
+      await this.ledgerService.postJournal(
+        {
+          type: 'WITHDRAWAL',
+          referenceId: withdrawalId,
+          metadata: { beneficiaryId: beneficiary.id, provider: 'BRIDGE' },
+          description: 'Beneficiary verification micro-deposit',
+          legs: [
+            { accountId: expense.id, amount, currency, direction: 'DEBIT' },
+            { accountId: bridgeFloat.id, amount, currency, direction: 'CREDIT' },
+          ],
+        },
+        tx
+      );
+
+      return tx.beneficiary.update({
+        where: { id: beneficiary.id },
+        data: {
+          microDepositAmount: toDecimal(amount),
+          microDepositReference: withdrawalId,
+          microDepositSentAt: new Date(),
+        },
+      });
+    });
+  }
+
+  private normalizeDetails(type: BeneficiaryType, details: any): BeneficiaryDetails {
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+    if (type === 'WALLET') {
+      const address = text(details?.address);
+      if (!WALLET_PATTERN.test(address)) {
+        throw new AppError('Wallet address must be a 0x-prefixed 20-byte hex address', 400);
+      }
+      return { address: address.toLowerCase() };
+    }
+
+    if (type === 'MOBILE_MONEY') {
+      const phoneNumber = text(details?.phoneNumber).replace(/[\s()-]/g, '');
+      if (
+        !PHONE_PATTERN.test(phoneNumber) ||
+        !text(details?.providerCode) ||
+        !text(details?.accountName)
+      ) {
+        throw new AppError(
+          'Mobile money needs accountName, providerCode and an E.164 phoneNumber',
+          400
+        );
+      }
+      return {
+        accountName: text(details.accountName),
+        phoneNumber,
+        providerCode: text(details.providerCode),
+      };
+    }
+
+    const accountNumber = text(details?.accountNumber).replace(/\s/g, '');
+    if (!accountNumber || !text(details?.bankCode) || !text(details?.accountName)) {
+      throw new AppError('Bank accounts need accountName, accountNumber and bankCode', 400);
+    }
+    return {
+      accountName: text(details.accountName),
+      accountNumber,
+      bankCode: text(details.bankCode),
+      accountType: text(details.accountType) || undefined,
+    };
+  }
+
+  private fingerprint(type: BeneficiaryType, details: BeneficiaryDetails): string {
+    const parts =
+      type === 'WALLET'
+        ? [(details as WalletBeneficiaryDetails).address]
+        : type === 'MOBILE_MONEY'
+          ? [
+              (details as MobileMoneyBeneficiaryDetails).providerCode,
+              (details as MobileMoneyBeneficiaryDetails).phoneNumber,
+            ]
+          : [
+              (details as BankBeneficiaryDetails).bankCode,
+              (details as BankBeneficiaryDetails).accountNumber,
+            ];
+
+    return crypto.createHash('sha256').update([type, ...parts].join(':')).digest('hex');
+  }
+
+  /**
+   * Details in the shape the provider pays out to; mobile money wallets
+   * are addressed like bank accounts at the operator
+   */
+  private toBankDetails(
+    type: BeneficiaryType,
+    details: BeneficiaryDetails,
+    resolvedName?: string | null
+  ): PayoutBankDetails {
+    if (type === 'MOBILE_MONEY') {
+      const mobile = details as MobileMoneyBeneficiaryDetails;
+      return {
+        accountName: resolvedName || mobile.accountName,
+        accountNumber: mobile.phoneNumber,
+        bankCode: mobile.providerCode,
+        accountType: 'MOBILE_MONEY',
+      };
+    }
+
+    const bank = details as BankBeneficiaryDetails;
+    return {
+      accountName: resolvedName || bank.accountName,
+      accountNumber: bank.accountNumber,
+      bankCode: bank.bankCode,
+      accountType: bank.accountType,
+    };
+  }
+}
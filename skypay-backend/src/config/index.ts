@@ -12,6 +12,8 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   PORT: z.string().transform(Number).default('3001'),
   VERSION: z.string().default('1.0.0'),
+  // Public URL of this API, used in provider callback URLs
+  API_BASE_URL: z.string().url().default('http://localhost:3001'),
   
   // Database
   DATABASE_URL: z.string().url(),
@@ -34,6 +36,7 @@ const envSchema = z.object({
   POLYGON_PRIVATE_KEY: z.string().optional(),
   CONTRACT_ADDRESS_VAULT: z.string().optional(),
   CONTRACT_ADDRESS_STABLECOIN: z.string().optional(),
+  CONTRACT_ADDRESS_LIQUIDITY_POOL: z.string().optional(),
   
   // Bridge Integration
   BRIDGE_API_KEY: z.string(),
@@ -58,14 +61,75 @@ const envSchema = z.object({
   // Rate Limiting
   RATE_LIMIT_WINDOW: z.string().transform(Number).default('900000'),
   RATE_LIMIT_MAX: z.string().transform(Number).default('100'),
+  
+  // FX: rate sources tried in order; markups in basis points per corridor,
+  // e.g. {"USD/NGN":150,"GBP/KES":200}
+  FX_RATE_SOURCES: z.string().default('provider,liquidityPool,static'),
+  FX_STATIC_RATES_FILE: z.string().optional(),
+  FX_PROVIDER_URL: z.string().url().optional(),
+  FX_PROVIDER_API_KEY: z.string().optional(),
+  // Pool token per fiat currency it tracks, e.g. {"USD":"0x...","NGN":"0x..."}
+  FX_POOL_TOKENS: z
+    .string()
+    .default('{}')
+    .transform((val) => JSON.parse(val))
+    .pipe(z.record(z.string())),
+  FX_MARKUPS: z
+    .string()
+    .default('{}')
+    .transform((val) => JSON.parse(val))
+    .pipe(z.record(z.number().int().min(0))),
+  FX_DEFAULT_MARKUP_BPS: z.string().transform(Number).default('50'),
+  FX_QUOTE_TTL_SECONDS: z.string().transform(Number).default('60'),
+  
+  // Settlements: per-type overrides of flow state timeouts, in minutes,
+  // e.g. {"FIAT_TO_TOKEN":{"INITIATED":2880},"TOKEN_TO_FIAT":{"TOKEN_LOCKED":30}}
+  SETTLEMENT_TIMEOUTS: z
+    .string()
+    .default('{}')
+    .transform((val) => JSON.parse(val))
+    .pipe(z.record(z.record(z.number().int().positive()))),
+  
+  // Spending limits are set and reported in this currency
+  LIMITS_REFERENCE_CURRENCY: z.string().default('USD'),
+  
+  // Payout batches
+  PAYOUT_BATCH_MAX_ITEMS: z.string().transform(Number).default('50000'),
+  PAYOUT_CONCURRENCY: z.string().transform(Number).default('5'),
+  
+  // Scheduled transfers
+  SCHEDULE_REMINDER_HOURS: z.string().transform(Number).default('24'),
+  SCHEDULE_RETRY_MINUTES: z.string().transform(Number).default('60'),
+  SCHEDULE_MAX_ATTEMPTS: z.string().transform(Number).default('4'),
+  
+  // Beneficiaries
+  BENEFICIARY_COOLING_OFF_HOURS: z.string().transform(Number).default('24'),
+  BENEFICIARY_MICRO_DEPOSIT_ATTEMPTS: z.string().transform(Number).default('3'),
+  
+  // Outbox relay
+  OUTBOX_POLL_INTERVAL_MS: z.string().transform(Number).default('1000'),
+  OUTBOX_BATCH_SIZE: z.string().transform(Number).default('100'),
+  OUTBOX_MAX_RETRY_SECONDS: z.string().transform(Number).default('300'),
+  OUTBOX_RETENTION_DAYS: z.string().transform(Number).default('7'),
+  
+  // Webhook verification; secrets are comma-separated and all accepted,
+  // so a new one can be added before the old one is retired
+  STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  PAYSTACK_WEBHOOK_SECRET: z.string().optional(),
+  BLOCKCHAIN_WEBHOOK_SECRET: z.string().optional(),
+  WEBHOOK_TOLERANCE_SECONDS: z.string().transform(Number).default('300'),
 });
 
 const env = envSchema.parse(process.env);
 
+const secretList = (value?: string): string[] =>
+  (value ?? '').split(',').map((secret) => secret.trim()).filter(Boolean);
+
 export const config = {
   nodeEnv: env.NODE_ENV,
   port: env.PORT,
   version: env.VERSION,
+  baseUrl: env.API_BASE_URL,
   
   database: {
     url: env.DATABASE_URL,
@@ -93,6 +157,7 @@ export const config = {
     contractAddresses: {
       vault: env.CONTRACT_ADDRESS_VAULT,
       stablecoin: env.CONTRACT_ADDRESS_STABLECOIN,
+      liquidityPool: env.CONTRACT_ADDRESS_LIQUIDITY_POOL,
     },
   },
   
@@ -129,6 +194,67 @@ export const config = {
     windowMs: env.RATE_LIMIT_WINDOW,
     max: env.RATE_LIMIT_MAX,
   },
+  
+  fx: {
+    rateSources: env.FX_RATE_SOURCES.split(',').map((source) => source.trim()),
+    staticRatesFile: env.FX_STATIC_RATES_FILE,
+    provider: {
+      url: env.FX_PROVIDER_URL,
+      apiKey: env.FX_PROVIDER_API_KEY,
+    },
+    poolTokens: env.FX_POOL_TOKENS,
+    markupsBps: env.FX_MARKUPS,
+    defaultMarkupBps: env.FX_DEFAULT_MARKUP_BPS,
+    quoteTtlSeconds: env.FX_QUOTE_TTL_SECONDS,
+  },
+  
+  settlements: {
+    timeoutMinutes: env.SETTLEMENT_TIMEOUTS,
+  },
+  
+  limits: {
+    referenceCurrency: env.LIMITS_REFERENCE_CURRENCY,
+  },
+  
+  payouts: {
+    maxItems: env.PAYOUT_BATCH_MAX_ITEMS,
+    // Items validated and submitted at once by each worker
+    concurrency: env.PAYOUT_CONCURRENCY,
+  },
+  
+  schedules: {
+    reminderHours: env.SCHEDULE_REMINDER_HOURS,
+    // Runs short of funds are retried this often, up to maxAttempts in all
+    retryMinutes: env.SCHEDULE_RETRY_MINUTES,
+    maxAttempts: env.SCHEDULE_MAX_ATTEMPTS,
+  },
+  
+  beneficiaries: {
+    // New beneficiaries can't be paid until this long after they are added
+    coolingOffHours: env.BENEFICIARY_COOLING_OFF_HOURS,
+    microDepositAttempts: env.BENEFICIARY_MICRO_DEPOSIT_ATTEMPTS,
+  },
+  
+  outbox: {
+    pollIntervalMs: env.OUTBOX_POLL_INTERVAL_MS,
+    batchSize: env.OUTBOX_BATCH_SIZE,
+    // Failed publishes back off exponentially up to this delay
+    maxRetrySeconds: env.OUTBOX_MAX_RETRY_SECONDS,
+    // Published events are deleted after this long
+    retentionDays: env.OUTBOX_RETENTION_DAYS,
+  },
+  
+  webhooks: {
+    // Signed timestamps further than this from the current time are refused
+    toleranceSeconds: env.WEBHOOK_TOLERANCE_SECONDS,
+    secrets: {
+      bridge: secretList(env.BRIDGE_WEBHOOK_SECRET),
+      stripe: secretList(env.STRIPE_WEBHOOK_SECRET),
+      // Paystack signs with the API secret key unless a list is given
+      paystack: secretList(env.PAYSTACK_WEBHOOK_SECRET ?? env.PAYSTACK_SECRET_KEY),
+      blockchain: secretList(env.BLOCKCHAIN_WEBHOOK_SECRET),
+    },
+  },
 };
 
 // Type exports
@@ -0,0 +1,156 @@
+// skypay-backend/src/currency/currencies.test.ts
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  convertAmount,
+  convertAmountFor,
+  formatAmount,
+  getCurrency,
+  isSupportedCurrency,
+  parseAmount,
+  parseMinorUnits,
+  rescale,
+  toDecimal,
+  toMinorUnits,
+} from './currencies';
+
+describe('currency registry', () => {
+  it('knows each currency\'s exponent and peg', () => {
+    expect(getCurrency('USD')).toMatchObject({ kind: 'FIAT', exponent: 2 });
+    expect(getCurrency('UGX')).toMatchObject({ kind: 'FIAT', exponent: 0 });
+    expect(getCurrency('NairaX')).toMatchObject({ kind: 'TOKEN', exponent: 18, peg: 'NGN' });
+  });
+
+  it('rejects unknown codes', () => {
+    expect(isSupportedCurrency('USST')).toBe(true);
+    expect(isSupportedCurrency('BTC')).toBe(false);
+    expect(() => getCurrency('BTC')).toThrow('Unsupported currency: BTC');
+  });
+});
+
+describe('parseAmount', () => {
+  it.each([
+    ['1500.25', 'USD', 150025n],
+    ['1500', 'USD', 150000n],
+    ['0.5', 'USD', 50n],
+    ['-12.30', 'USD', -1230n],
+    ['250000', 'UGX', 250000n],
+    ['250000.00', 'UGX', 250000n],
+    ['1.000000000000000001', 'USST', 1000000000000000001n],
+  ])('parses %s %s', (value, currency, minor) => {
+    expect(parseAmount(value, currency)).toBe(minor);
+  });
+
+  it('accepts numbers as well as strings', () => {
+    expect(parseAmount(19.99, 'EUR')).toBe(1999n);
+  });
+
+  it('rejects more decimal places than the currency has', () => {
+    expect(() => parseAmount('10.005', 'USD')).toThrow(
+      'Amount 10.005 exceeds 2 decimal places allowed for USD'
+    );
+    expect(() => parseAmount('100.5', 'UGX')).toThrow(
+      'Amount 100.5 exceeds 0 decimal places allowed for UGX'
+    );
+  });
+
+  it.each(['', 'abc', '1e5', '1,000.00', '.5'])('rejects %p', (value) => {
+    expect(() => parseAmount(value, 'USD')).toThrow('Invalid amount');
+  });
+});
+
+describe('parseMinorUnits', () => {
+  it('parses integer minor units', () => {
+    expect(parseMinorUnits('150025')).toBe(150025n);
+    expect(parseMinorUnits(-42)).toBe(-42n);
+    expect(parseMinorUnits(7n)).toBe(7n);
+  });
+
+  it('rejects fractions and unsafe numbers', () => {
+    expect(() => parseMinorUnits('1.5')).toThrow('Invalid minor-unit amount');
+    expect(() => parseMinorUnits(2 ** 60)).toThrow('Invalid minor-unit amount');
+  });
+});
+
+describe('formatAmount', () => {
+  it('formats minor units with the currency\'s decimal places', () => {
+    expect(formatAmount(150025n, 'USD')).toBe('1500.25');
+    expect(formatAmount(5n, 'USD')).toBe('0.05');
+    expect(formatAmount(-1230n, 'USD')).toBe('-12.30');
+    expect(formatAmount(250000n, 'UGX')).toBe('250000');
+    expect(formatAmount(1000000000000000001n, 'USST')).toBe('1.000000000000000001');
+  });
+
+  it('formats stored decimals and strings', () => {
+    expect(formatAmount(new Decimal('150025'), 'USD')).toBe('1500.25');
+    expect(formatAmount('99', 'KES')).toBe('0.99');
+  });
+
+  it('round-trips with parseAmount', () => {
+    for (const [value, currency] of [
+      ['1500.25', 'USD'],
+      ['250000', 'XOF'],
+      ['0.000000000000000001', 'EURX'],
+    ]) {
+      expect(formatAmount(parseAmount(value, currency), currency)).toBe(value);
+    }
+  });
+});
+
+describe('rescale', () => {
+  it('scales between pegged currencies by their exponents', () => {
+    expect(rescale(150025n, 'NGN', 'NairaX')).toBe(1500250000000000000000n);
+    expect(rescale(1500250000000000000000n, 'NairaX', 'NGN')).toBe(150025n);
+  });
+
+  it('refuses to drop precision', () => {
+    expect(() => rescale(1500250000000000001n, 'NairaX', 'NGN')).toThrow(
+      'Amount cannot be represented in NGN without losing precision'
+    );
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts at a major-unit rate across exponents', () => {
+    // 100.00 USD at 1,550.5 NGN per USD
+    expect(convertAmount(10000n, 'USD', 'NGN', '1550.5')).toBe(15505000n);
+    // 100.00 USD at 3,800 UGX per USD
+    expect(convertAmount(10000n, 'USD', 'UGX', '3800')).toBe(380000n);
+    // 1,000 UGX at 0.000263 USD per UGX
+    expect(convertAmount(1000n, 'UGX', 'USD', '0.000263')).toBe(26n);
+  });
+
+  it('rounds down unless asked to round up', () => {
+    // 0.01 EUR at 0.855 GBP per EUR is 0.00855 GBP
+    expect(convertAmount(1n, 'EUR', 'GBP', '0.855')).toBe(0n);
+    expect(convertAmount(1n, 'EUR', 'GBP', '0.855', 'up')).toBe(1n);
+    expect(convertAmount(200n, 'EUR', 'GBP', '0.855', 'up')).toBe(171n);
+  });
+
+  it('finds the smallest source amount that buys a target amount', () => {
+    const source = convertAmountFor(100000n, 'USD', 'NGN', '1550.5');
+
+    expect(source).toBe(65n);
+    expect(convertAmount(source, 'USD', 'NGN', '1550.5')).toBeGreaterThanOrEqual(100000n);
+    expect(convertAmount(source - 1n, 'USD', 'NGN', '1550.5')).toBeLessThan(100000n);
+  });
+
+  it.each(['0', '0.000', '-1.2', 'abc'])('rejects the rate %p', (rate) => {
+    expect(() => convertAmount(100n, 'USD', 'EUR', rate)).toThrow('Invalid exchange rate');
+  });
+});
+
+describe('stored amounts', () => {
+  it('round-trips minor units through Decimal', () => {
+    const stored = toDecimal(1000000000000000001n);
+
+    expect(stored.toString()).toBe('1000000000000000001');
+    expect(toMinorUnits(stored)).toBe(1000000000000000001n);
+    expect(toMinorUnits('-250')).toBe(-250n);
+  });
+
+  it('rejects a stored amount that is not whole minor units', () => {
+    expect(() => toMinorUnits(new Decimal('10.5'))).toThrow(
+      'Minor-unit amount is not an integer: 10.5'
+    );
+  });
+});
@@ -0,0 +1,246 @@
+// skypay-backend/src/currency/currencies.ts
+import { Decimal } from '@prisma/client/runtime/library';
+import { AppError } from '../utils/errors';
+
+/**
+ * Amounts are carried as integer minor units (bigint in code, integer
+ * strings over the wire, Decimal(40, 0) in the database). The exponent is
+ * the number of decimal places one major unit is divided into.
+ */
+export type MinorUnits = bigint;
+
+export interface CurrencyDefinition {
+  code: string;
+  name: string;
+  kind: 'FIAT' | 'TOKEN';
+  exponent: number;
+  // Fiat currency a stablecoin is pegged 1:1 to
+  peg?: string;
+}
+
+const fiat = (code: string, name: string, exponent: number = 2): CurrencyDefinition => ({
+  code,
+  name,
+  kind: 'FIAT',
+  exponent,
+});
+
+const token = (
+  code: string,
+  name: string,
+  peg: string,
+  exponent: number = 18
+): CurrencyDefinition => ({
+  code,
+  name,
+  kind: 'TOKEN',
+  exponent,
+  peg,
+});
+
+export const CURRENCIES: Record<string, CurrencyDefinition> = {
+  // Fiat
+  USD: fiat('USD', 'US Dollar'),
+  EUR: fiat('EUR', 'Euro'),
+  GBP: fiat('GBP', 'Pound Sterling'),
+  NGN: fiat('NGN', 'Nigerian Naira'),
+  KES: fiat('KES', 'Kenyan Shilling'),
+  GHS: fiat('GHS', 'Ghanaian Cedi'),
+  ZAR: fiat('ZAR', 'South African Rand'),
+  UGX: fiat('UGX', 'Ugandan Shilling', 0),
+  RWF: fiat('RWF', 'Rwandan Franc', 0),
+  XOF: fiat('XOF', 'West African CFA Franc', 0),
+  XAF: fiat('XAF', 'Central African CFA Franc', 0),
+
+  // Stablecoins
+  USST: token('USST', 'SkyPay USD', 'USD'),
+  NairaX: token('NairaX', 'SkyPay Naira', 'NGN'),
+  EuroPal: token('EuroPal', 'SkyPay Euro', 'EUR'),
+  USDX: token('USDX', 'SkyPay USD', 'USD'),
+  NGNX: token('NGNX', 'SkyPay Naira', 'NGN'),
+  EURX: token('EURX', 'SkyPay Euro', 'EUR'),
+};
+
+/**
+ * Look up a currency, rejecting anything not in the registry
+ */
+export function getCurrency(code: string): CurrencyDefinition {
+  const currency = CURRENCIES[code];
+  if (!currency) {
+    throw new AppError(`Unsupported currency: ${code}`, 400);
+  }
+  return currency;
+}
+
+export function isSupportedCurrency(code: string): boolean {
+  return code in CURRENCIES;
+}
+
+/**
+ * Parse a major-unit amount ("1500.25") into minor units, rejecting
+ * amounts with more decimal places than the currency allows
+ */
+export function parseAmount(value: string | number, currencyCode: string): MinorUnits {
+  const { exponent } = getCurrency(currencyCode);
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  const match = /^(-)?(\d+)(?:\.(\d+))?$/.exec(text);
+
+  if (!match) {
+    throw new AppError(`Invalid amount: ${value}`, 400);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const significant = fraction.replace(/0+$/, '');
+
+  if (significant.length > exponent) {
+    throw new AppError(
+      `Amount ${text} exceeds ${exponent} decimal places allowed for ${currencyCode}`,
+      400
+    );
+  }
+
+  const minor = BigInt(whole + significant.padEnd(exponent, '0'));
+  return sign ? -minor : minor;
+}
+
+/**
+ * Parse an integer minor-unit amount ("150025", 150025n)
+ */
+export function parseMinorUnits(value: string | number | bigint): MinorUnits {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  if (!/^-?\d+$/.test(text) || (typeof value === 'number' && !Number.isSafeInteger(value))) {
+    throw new AppError(`Invalid minor-unit amount: ${value}`, 400);
+  }
+
+  return BigInt(text);
+}
+
+/**
+ * Format minor units as a major-unit decimal string ("1500.25")
+ */
+export function formatAmount(minor: MinorUnits | Decimal | string, currencyCode: string): string {
+  const { exponent } = getCurrency(currencyCode);
+  const value = toMinorUnits(minor);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(exponent + 1, '0');
+
+  const whole = digits.slice(0, digits.length - exponent);
+  const fraction = exponent > 0 ? `.${digits.slice(digits.length - exponent)}` : '';
+
+  return `${negative ? '-' : ''}${whole}${fraction}`;
+}
+
+/**
+ * Convert an amount between two currencies pegged 1:1 (e.g. NGN -> NairaX),
+ * adjusting only for their exponents. Lossy conversions are rejected.
+ */
+export function rescale(minor: MinorUnits, fromCode: string, toCode: string): MinorUnits {
+  const shift = getCurrency(toCode).exponent - getCurrency(fromCode).exponent;
+
+  if (shift >= 0) {
+    return minor * 10n ** BigInt(shift);
+  }
+
+  const divisor = 10n ** BigInt(-shift);
+  if (minor % divisor !== 0n) {
+    throw new AppError(
+      `Amount cannot be represented in ${toCode} without losing precision`,
+      400
+    );
+  }
+  return minor / divisor;
+}
+
+/**
+ * Convert an amount at a major-unit exchange rate (units of `toCode` per
+ * unit of `fromCode`, as a decimal string). Exact integer arithmetic; the
+ * result is rounded down unless `rounding` is 'up'.
+ */
+export function convertAmount(
+  minor: MinorUnits,
+  fromCode: string,
+  toCode: string,
+  rate: string,
+  rounding: 'down' | 'up' = 'down'
+): MinorUnits {
+  const { numerator, denominator } = parseRate(rate);
+  const shift = getCurrency(toCode).exponent - getCurrency(fromCode).exponent;
+
+  let dividend = minor * numerator;
+  let divisor = denominator;
+  if (shift >= 0) {
+    dividend *= 10n ** BigInt(shift);
+  } else {
+    divisor *= 10n ** BigInt(-shift);
+  }
+
+  return divideRounding(dividend, divisor, rounding);
+}
+
+/**
+ * Smallest source amount that converts to at least `minor` of `toCode`
+ */
+export function convertAmountFor(
+  minor: MinorUnits,
+  fromCode: string,
+  toCode: string,
+  rate: string
+): MinorUnits {
+  const { numerator, denominator } = parseRate(rate);
+  const shift = getCurrency(fromCode).exponent - getCurrency(toCode).exponent;
+
+  let dividend = minor * denominator;
+  let divisor = numerator;
+  if (shift >= 0) {
+    dividend *= 10n ** BigInt(shift);
+  } else {
+    divisor *= 10n ** BigInt(-shift);
+  }
+
+  return divideRounding(dividend, divisor, 'up');
+}
+
+function parseRate(rate: string): { numerator: bigint; denominator: bigint } {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(rate.trim());
+  if (!match || /^0*\.?0*$/.test(rate.trim())) {
+    throw new AppError(`Invalid exchange rate: ${rate}`, 500);
+  }
+
+  const [, whole, fraction = ''] = match;
+  return {
+    numerator: BigInt(whole + fraction),
+    denominator: 10n ** BigInt(fraction.length),
+  };
+}
+
+function divideRounding(dividend: bigint, divisor: bigint, rounding: 'down' | 'up'): bigint {
+  const quotient = dividend / divisor;
+  return rounding === 'up' && dividend % divisor !== 0n ? quotient + 1n : quotient;
+}
+
+/**
+ * Convert minor units to a Prisma Decimal for storage
+ */
+export function toDecimal(minor: MinorUnits): Decimal {
+  return new Decimal(minor.toString());
+}
+
+/**
+ * Read minor units back from a stored Decimal (or integer string)
+ */
+export function toMinorUnits(value: MinorUnits | Decimal | string): MinorUnits {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+
+  const decimal = new Decimal(value.toString());
+  if (!decimal.isInteger()) {
+    throw new AppError(`Minor-unit amount is not an integer: ${decimal.toString()}`, 500);
+  }
+
+  return BigInt(decimal.toFixed(0));
+}
@@ -0,0 +1,178 @@
+// skypay-backend/src/fees/FeeService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FeeService } from './FeeService';
+
+const schedule = (overrides: Record<string, any> = {}) => ({
+  id: 'schedule-1',
+  name: 'Default',
+  product: 'CROSS_BORDER',
+  corridor: null,
+  currency: 'GBP',
+  segment: null,
+  fixedAmount: new Prisma.Decimal(0),
+  percentageBps: 0,
+  tiers: [],
+  minAmount: null,
+  maxAmount: null,
+  active: true,
+  updatedAt: new Date('2024-03-01T00:00:00Z'),
+  ...overrides,
+});
+
+const setup = (...schedules: any[]) => {
+  const prisma: any = {
+    user: { findUnique: jest.fn().mockResolvedValue({ segment: 'BUSINESS' }) },
+    feeSchedule: { findMany: jest.fn().mockResolvedValue(schedules) },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  return { prisma, fees: new FeeService(prisma as PrismaClient) };
+};
+
+const params = {
+  product: 'CROSS_BORDER' as const,
+  userId: 'user-1',
+  sourceCurrency: 'GBP',
+  targetCurrency: 'NGN',
+};
+
+describe('FeeService.chargeFrom', () => {
+  it('prices each amount by the tier it falls in, upper bounds included', async () => {
+    const { fees } = setup(
+      schedule({
+        tiers: [
+          { upTo: '10000', fixedAmount: '100', percentageBps: 0 },
+          { upTo: '100000', fixedAmount: '0', percentageBps: 150 },
+          { upTo: null, fixedAmount: '0', percentageBps: 100 },
+        ],
+      })
+    );
+
+    const feeFor = async (amount: bigint) => (await fees.chargeFrom(params, amount)).feeAmount;
+
+    expect(await feeFor(5000n)).toBe(100n);
+    expect(await feeFor(10000n)).toBe(100n);
+    expect(await feeFor(10001n)).toBe(150n);
+    expect(await feeFor(200000n)).toBe(2000n);
+  });
+
+  it('rounds the percentage half up and applies the caps', async () => {
+    const { fees } = setup(
+      schedule({
+        percentageBps: 25,
+        minAmount: new Prisma.Decimal(50),
+        maxAmount: new Prisma.Decimal(1000),
+      })
+    );
+
+    const feeFor = async (amount: bigint) => (await fees.chargeFrom(params, amount)).feeAmount;
+
+    expect(await feeFor(10000n)).toBe(50n);
+    expect(await feeFor(20200n)).toBe(51n);
+    expect(await feeFor(1000000n)).toBe(1000n);
+  });
+
+  it('takes the fee out of the gross amount', async () => {
+    const { fees } = setup(schedule({ fixedAmount: new Prisma.Decimal(200), percentageBps: 100 }));
+
+    expect(await fees.chargeFrom(params, 25000n)).toEqual({
+      feeAmount: 450n,
+      currency: 'GBP',
+      scheduleId: 'schedule-1',
+      grossAmount: 25000n,
+      netAmount: 24550n,
+    });
+  });
+
+  it('charges nothing without a matching schedule', async () => {
+    const { fees } = setup();
+
+    expect(await fees.chargeFrom(params, 25000n)).toMatchObject({
+      feeAmount: 0n,
+      scheduleId: null,
+      netAmount: 25000n,
+    });
+  });
+
+  it('refuses an amount that does not cover the fee', async () => {
+    const { fees } = setup(schedule({ fixedAmount: new Prisma.Decimal(200) }));
+
+    await expect(fees.chargeFrom(params, 200n)).rejects.toMatchObject({
+      statusCode: 400,
+      details: { fee: '200', currency: 'GBP' },
+    });
+  });
+
+  it('uses the most specific schedule for the product', async () => {
+    const { prisma, fees } = setup(
+      schedule({ id: 'by-currency', percentageBps: 100 }),
+      schedule({ id: 'by-corridor', corridor: 'GBP/NGN', percentageBps: 50 }),
+      schedule({ id: 'by-segment', currency: null, segment: 'BUSINESS', percentageBps: 75 })
+    );
+
+    const quote = await fees.chargeFrom(params, 10000n);
+
+    expect(quote).toMatchObject({ scheduleId: 'by-corridor', feeAmount: 50n });
+    expect(prisma.feeSchedule.findMany.mock.calls[0][0].where).toMatchObject({
+      product: 'CROSS_BORDER',
+      active: true,
+    });
+  });
+});
+
+describe('FeeService.chargeOnTop', () => {
+  it('grosses up so the net amount is left after the fee', async () => {
+    const { fees } = setup(schedule({ percentageBps: 100 }));
+
+    expect(await fees.chargeOnTop(params, 9900n)).toMatchObject({
+      feeAmount: 100n,
+      grossAmount: 10000n,
+      netAmount: 9900n,
+    });
+  });
+
+  it('settles on the tier the gross amount lands in', async () => {
+    const { fees } = setup(
+      schedule({
+        tiers: [
+          { upTo: '10000', fixedAmount: '100', percentageBps: 0 },
+          { upTo: null, fixedAmount: '300', percentageBps: 0 },
+        ],
+      })
+    );
+
+    // 9950 plus the first tier's fee crosses into the second tier
+    const quote = await fees.chargeOnTop(params, 9950n);
+
+    expect(quote).toMatchObject({ feeAmount: 300n, grossAmount: 10250n });
+    expect(quote.grossAmount - quote.feeAmount).toBe(9950n);
+  });
+});
+
+describe('FeeService.createSchedule', () => {
+  it('rejects tiers that are out of order or not open-ended last', async () => {
+    const { prisma, fees } = setup();
+
+    const creating = fees.createSchedule(
+      {
+        name: 'Broken',
+        product: 'PAYOUT',
+        currency: 'NGN',
+        tiers: [
+          { upTo: 500000n, fixedAmount: 0n, percentageBps: 100 },
+          { upTo: 100000n, fixedAmount: 0n, percentageBps: 50 },
+        ],
+      },
+      'admin-1'
+    );
+
+    await expect(creating).rejects.toMatchObject({
+      statusCode: 400,
+      details: [
+        'Only the last tier is open-ended, and it must be',
+        'Tiers must be in ascending order of upTo',
+      ],
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,352 @@
+// skypay-backend/src/fees/FeeService.ts
+import {
+  CustomerSegment,
+  FeeSchedule,
+  PrismaClient,
+  Prisma,
+  SettlementType,
+} from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import {
+  MinorUnits,
+  isSupportedCurrency,
+  parseMinorUnits,
+  toDecimal,
+  toMinorUnits,
+} from '../currency/currencies';
+
+// A tier applies to amounts up to and including `upTo`; the last has none
+export interface FeeTier {
+  upTo: MinorUnits | null;
+  fixedAmount: MinorUnits;
+  percentageBps: number;
+}
+
+export interface FeeParams {
+  product: SettlementType;
+  userId: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+}
+
+export interface FeeQuote {
+  // In the source currency
+  feeAmount: MinorUnits;
+  currency: string;
+  scheduleId: string | null;
+  // What the user pays, and what is left of it after the fee
+  grossAmount: MinorUnits;
+  netAmount: MinorUnits;
+}
+
+export interface FeeScheduleInput {
+  name: string;
+  product: SettlementType;
+  corridor?: string | null;
+  currency?: string | null;
+  segment?: CustomerSegment | null;
+  fixedAmount?: MinorUnits;
+  percentageBps?: number;
+  tiers?: FeeTier[];
+  minAmount?: MinorUnits | null;
+  maxAmount?: MinorUnits | null;
+  active?: boolean;
+}
+
+// Enough for any schedule whose percentage is below 100%
+const MAX_GROSS_UP_ITERATIONS = 10;
+
+/**
+ * Prices settlements from the fee schedules operations maintain in the
+ * database. Fees are charged in the source currency, out of what the user
+ * pays, and booked as FEE journals into FEE_INCOME when the funds arrive.
+ */
+export class FeeService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Fee taken out of an amount the user pays
+   */
+  async chargeFrom(params: FeeParams, grossAmount: MinorUnits): Promise<FeeQuote> {
+    const schedule = await this.findSchedule(params);
+    const feeAmount = schedule ? this.computeFee(schedule, grossAmount) : 0n;
+
+    if (feeAmount >= grossAmount) {
+      throw new AppError('Amount does not cover the fee', 400, {
+        fee: feeAmount.toString(),
+        currency: params.sourceCurrency,
+      });
+    }
+
+    return {
+      feeAmount,
+      currency: params.sourceCurrency,
+      scheduleId: schedule?.id ?? null,
+      grossAmount,
+      netAmount: grossAmount - feeAmount,
+    };
+  }
+
+  /**
+   * Smallest amount the user pays so that `netAmount` is left after the fee
+   */
+  async chargeOnTop(params: FeeParams, netAmount: MinorUnits): Promise<FeeQuote> {
+    const schedule = await this.findSchedule(params);
+    const quote = (grossAmount: MinorUnits, feeAmount: MinorUnits): FeeQuote => ({
+      feeAmount,
+      currency: params.sourceCurrency,
+      scheduleId: schedule?.id ?? null,
+      grossAmount,
+      netAmount,
+    });
+
+    if (!schedule) {
+      return quote(netAmount, 0n);
+    }
+
+    // The fee depends on the gross amount; step up until it is covered
+    let grossAmount = netAmount + this.computeFee(schedule, netAmount);
+
+    for (let i = 0; i < MAX_GROSS_UP_ITERATIONS; i++) {
+      const feeAmount = this.computeFee(schedule, grossAmount);
+      const shortfall = netAmount - (grossAmount - feeAmount);
+
+      if (shortfall <= 0n) {
+        return quote(grossAmount, grossAmount - netAmount);
+      }
+
+      grossAmount += shortfall;
+    }
+
+    throw new AppError(`Fee schedule ${schedule.id} cannot be charged on top`, 500);
+  }
+
+  /**
+   * List fee schedules, most recently changed first
+   */
+  async listSchedules(
+    filters: { product?: SettlementType; active?: boolean } = {}
+  ): Promise<FeeSchedule[]> {
+    return this.prisma.feeSchedule.findMany({
+      where: filters,
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Add a schedule; it prices new quotes immediately
+   */
+  async createSchedule(input: FeeScheduleInput, adminId: string): Promise<FeeSchedule> {
+    this.validateSchedule(input);
+
+    return this.prisma.$transaction(async (tx) => {
+      const schedule = await tx.feeSchedule.create({
+        // Validated above, so every required field is present
+        data: { ...this.toData(input), updatedBy: adminId } as Prisma.FeeScheduleCreateInput,
+      });
+
+      await this.audit(tx, adminId, schedule, null, 'FEE_SCHEDULE_CREATE');
+
+      logger.info(`Fee schedule created: ${schedule.id}`, { name: schedule.name, adminId });
+
+      return schedule;
+    });
+  }
+
+  /**
+   * Change a schedule. Settlements already quoted keep the fee they were
+   * quoted; deactivate a schedule rather than deleting it.
+   */
+  async updateSchedule(
+    scheduleId: string,
+    changes: Partial<FeeScheduleInput>,
+    adminId: string
+  ): Promise<FeeSchedule> {
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.feeSchedule.findUnique({ where: { id: scheduleId } });
+
+      if (!existing) {
+        throw new AppError('Fee schedule not found', 404);
+      }
+
+      this.validateSchedule({ ...this.toInput(existing), ...changes });
+
+      const schedule = await tx.feeSchedule.update({
+        where: { id: scheduleId },
+        data: { ...this.toData(changes), updatedBy: adminId },
+      });
+
+      await this.audit(tx, adminId, schedule, existing, 'FEE_SCHEDULE_UPDATE');
+
+      logger.info(`Fee schedule updated: ${schedule.id}`, { adminId });
+
+      return schedule;
+    });
+  }
+
+  /**
+   * Most specific active schedule for the settlement: a corridor match
+   * outranks a segment match, which outranks a currency match
+   */
+  private async findSchedule(params: FeeParams): Promise<FeeSchedule | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: params.userId },
+      select: { segment: true },
+    });
+    const corridor = `${params.sourceCurrency}/${params.targetCurrency}`;
+
+    const schedules = await this.prisma.feeSchedule.findMany({
+      where: {
+        product: params.product,
+        active: true,
+        AND: [
+          { OR: [{ corridor: null }, { corridor }] },
+          { OR: [{ currency: null }, { currency: params.sourceCurrency }] },
+          { OR: [{ segment: null }, ...(user ? [{ segment: user.segment }] : [])] },
+        ],
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const specificity = (schedule: FeeSchedule) =>
+      (schedule.corridor ? 4 : 0) + (schedule.segment ? 2 : 0) + (schedule.currency ? 1 : 0);
+
+    return schedules.reduce<FeeSchedule | null>(
+      (best, schedule) => (!best || specificity(schedule) > specificity(best) ? schedule : best),
+      null
+    );
+  }
+
+  private computeFee(schedule: FeeSchedule, amount: MinorUnits): MinorUnits {
+    const tiers = this.parseTiers(schedule.tiers);
+    const tier = tiers.find((t) => t.upTo === null || amount <= t.upTo);
+    const fixedAmount = tier ? tier.fixedAmount : toMinorUnits(schedule.fixedAmount);
+    const percentageBps = tier ? tier.percentageBps : schedule.percentageBps;
+
+    // Percentage part rounds half up
+    let fee = fixedAmount + (amount * BigInt(percentageBps) + 5000n) / 10000n;
+
+    if (schedule.minAmount !== null && fee < toMinorUnits(schedule.minAmount)) {
+      fee = toMinorUnits(schedule.minAmount);
+    }
+    if (schedule.maxAmount !== null && fee > toMinorUnits(schedule.maxAmount)) {
+      fee = toMinorUnits(schedule.maxAmount);
+    }
+
+    return fee;
+  }
+
+  private validateSchedule(input: FeeScheduleInput): void {
+    const { corridor, currency, tiers = [], minAmount, maxAmount } = input;
+    const problems: string[] = [];
+    const isBps = (bps: number) => Number.isInteger(bps) && bps >= 0 && bps < 10000;
+
+    if (corridor) {
+      const [source, target] = corridor.split('/');
+      if (!isSupportedCurrency(source) || !isSupportedCurrency(target) || source === target) {
+        problems.push(`Corridor must be SOURCE/TARGET of two supported currencies: ${corridor}`);
+      } else if (currency && currency !== source) {
+        problems.push('Fees are charged in the corridor\'s source currency');
+      }
+    }
+
+    if (currency && !isSupportedCurrency(currency)) {
+      problems.push(`Unsupported currency: ${currency}`);
+    }
+
+    const hasAmounts =
+      (input.fixedAmount ?? 0n) > 0n || tiers.length > 0 || minAmount != null || maxAmount != null;
+    if (hasAmounts && !currency) {
+      problems.push('Fixed amounts, tiers and caps need a currency');
+    }
+
+    if (!isBps(input.percentageBps ?? 0)) {
+      problems.push('percentageBps must be an integer from 0 to 9999');
+    }
+
+    tiers.forEach((tier, index) => {
+      const last = index === tiers.length - 1;
+      if ((tier.upTo === null) !== last) {
+        problems.push('Only the last tier is open-ended, and it must be');
+      }
+      if (tier.upTo !== null && index > 0 && tiers[index - 1].upTo! >= tier.upTo) {
+        problems.push('Tiers must be in ascending order of upTo');
+      }
+      if (!isBps(tier.percentageBps) || tier.fixedAmount < 0n) {
+        problems.push(`Tier ${index + 1} has an invalid fixed amount or percentage`);
+      }
+    });
+
+    if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+      problems.push('minAmount exceeds maxAmount');
+    }
+
+    if (problems.length > 0) {
+      throw new AppError('Invalid fee schedule', 400, [...new Set(problems)]);
+    }
+  }
+
+  private parseTiers(value: Prisma.JsonValue): FeeTier[] {
+    return ((value as any[]) || []).map((tier) => ({
+      upTo: tier.upTo === null ? null : parseMinorUnits(tier.upTo),
+      fixedAmount: parseMinorUnits(tier.fixedAmount ?? 0),
+      percentageBps: Number(tier.percentageBps ?? 0),
+    }));
+  }
+
+  private toInput(schedule: FeeSchedule): FeeScheduleInput {
+    return {
+      name: schedule.name,
+      product: schedule.product,
+      corridor: schedule.corridor,
+      currency: schedule.currency,
+      segment: schedule.segment,
+      fixedAmount: toMinorUnits(schedule.fixedAmount),
+      percentageBps: schedule.percentageBps,
+      tiers: this.parseTiers(schedule.tiers),
+      minAmount: schedule.minAmount && toMinorUnits(schedule.minAmount),
+      maxAmount: schedule.maxAmount && toMinorUnits(schedule.maxAmount),
+      active: schedule.active,
+    };
+  }
+
+  private toData(input: Partial<FeeScheduleInput>) {
+    const { fixedAmount, tiers, minAmount, maxAmount, ...rest } = input;
+
+    return {
+      ...rest,
+      ...(fixedAmount !== undefined && { fixedAmount: toDecimal(fixedAmount) }),
+      // Stored with string amounts, like every other minor-unit value in JSON
+      ...(tiers !== undefined && {
+        tiers: tiers.map((tier) => ({
+          upTo: tier.upTo === null ? null : tier.upTo.toString(),
+          fixedAmount: tier.fixedAmount.toString(),
+          percentageBps: tier.percentageBps,
+        })),
+      }),
+      ...(minAmount !== undefined && { minAmount: minAmount === null ? null : toDecimal(minAmount) }),
+      ...(maxAmount !== undefined && { maxAmount: maxAmount === null ? null : toDecimal(maxAmount) }),
+    };
+  }
+
+  private async audit(
+    tx: Prisma.TransactionClient,
+    adminId: string,
+    schedule: FeeSchedule,
+    before: FeeSchedule | null,
+    action: string
+  ): Promise<void> {
+    await tx.auditLog.create({
+      data: {
+        type: 'ADMIN_ACTION',
+        userId: adminId,
+        entityType: 'FEE_SCHEDULE',
+        entityId: schedule.id,
+        beforeState: before ? (JSON.parse(JSON.stringify(before)) as Prisma.InputJsonValue) : {},
+        afterState: JSON.parse(JSON.stringify(schedule)) as Prisma.InputJsonValue,
+        metadata: { action },
+      },
+    });
+  }
+}
@@ -0,0 +1,243 @@
+// skypay-backend/src/fx/FxService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FxService } from './FxService';
+import { RateSource } from './sources';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const source = (name: string, rates: Record<string, string>): RateSource => ({
+  name,
+  getRate: jest.fn(async (base: string, quote: string) => rates[`${base}/${quote}`] ?? null),
+});
+
+const setup = (sources: RateSource[] = [source('static', { 'USD/NGN': '1600' })]) => {
+  const prisma: any = {
+    fxQuote: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'quote-1', status: 'ACTIVE', ...data })),
+      findUnique: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+  const feeService: any = {
+    chargeFrom: jest.fn(async (_params: any, grossAmount: bigint) => ({
+      feeAmount: 100n,
+      scheduleId: 'schedule-1',
+      grossAmount,
+      netAmount: grossAmount - 100n,
+    })),
+    chargeOnTop: jest.fn(async (_params: any, netAmount: bigint) => ({
+      feeAmount: 30n,
+      scheduleId: 'schedule-1',
+      grossAmount: netAmount + 30n,
+      netAmount,
+    })),
+  };
+
+  return { prisma, feeService, fx: new FxService(prisma as PrismaClient, feeService, sources) };
+};
+
+describe('FxService.getMidRate', () => {
+  it('tries sources in order, past failures and missing pairs', async () => {
+    const failing: RateSource = {
+      name: 'provider',
+      getRate: jest.fn().mockRejectedValue(new Error('timeout')),
+    };
+    const { fx } = setup([
+      failing,
+      source('liquidityPool', {}),
+      source('static', { 'USD/NGN': '1600' }),
+    ]);
+
+    expect(await fx.getMidRate('USD', 'NGN')).toEqual({ rate: '1600', source: 'static' });
+  });
+
+  it('prices stablecoins through their peg', async () => {
+    const { fx } = setup();
+
+    expect(await fx.getMidRate('USST', 'NGN')).toEqual({ rate: '1600', source: 'static' });
+    expect(await fx.getMidRate('NairaX', 'NGN')).toEqual({ rate: '1', source: 'peg' });
+  });
+
+  it('fails when no source has the pair', async () => {
+    const { fx } = setup();
+
+    await expect(fx.getMidRate('EUR', 'KES')).rejects.toMatchObject({
+      statusCode: 503,
+      message: 'No FX rate available for EUR/KES',
+    });
+  });
+});
+
+describe('FxService.priceQuote', () => {
+  it('takes the fee off the source amount and converts the rest at a marked-up rate', async () => {
+    const { feeService, fx } = setup();
+
+    const price = await fx.priceQuote({
+      userId: 'user-1',
+      product: 'CROSS_BORDER',
+      sourceCurrency: 'USD',
+      targetCurrency: 'NGN',
+      sourceAmount: 10000n,
+    });
+
+    expect(feeService.chargeFrom).toHaveBeenCalledWith(
+      { product: 'CROSS_BORDER', userId: 'user-1', sourceCurrency: 'USD', targetCurrency: 'NGN' },
+      10000n
+    );
+    // 99.00 USD at 1600 less the default 50 bps markup
+    expect(price).toEqual({
+      sourceAmount: 10000n,
+      targetAmount: 15760800n,
+      midRate: '1600',
+      rate: '1592',
+      markupBps: 50,
+      rateSource: 'static',
+      feeAmount: 100n,
+      feeScheduleId: 'schedule-1',
+    });
+  });
+
+  it('works back from a target amount and adds the fee on top', async () => {
+    const { fx } = setup();
+
+    const price = await fx.priceQuote({
+      userId: 'user-1',
+      product: 'CROSS_BORDER',
+      sourceCurrency: 'USD',
+      targetCurrency: 'NGN',
+      targetAmount: 1592000n,
+    });
+
+    expect(price).toMatchObject({ sourceAmount: 1030n, targetAmount: 1592000n, feeAmount: 30n });
+  });
+
+  it('converts a stablecoin to its peg at par, adjusting for decimals', async () => {
+    const { feeService, fx } = setup();
+
+    const price = await fx.priceQuote({
+      userId: 'user-1',
+      sourceCurrency: 'USST',
+      targetCurrency: 'USD',
+      sourceAmount: 2n * 10n ** 18n,
+    });
+
+    expect(price).toMatchObject({ targetAmount: 200n, rate: '1', markupBps: 0, feeAmount: 0n });
+    expect(feeService.chargeFrom).not.toHaveBeenCalled();
+  });
+
+  it('needs exactly one of the amounts', async () => {
+    const { fx } = setup();
+    const pair = { userId: 'user-1', sourceCurrency: 'USD', targetCurrency: 'NGN' };
+
+    await expect(fx.priceQuote(pair)).rejects.toThrow('Quote either the source or the target');
+    await expect(
+      fx.priceQuote({ ...pair, sourceAmount: 100n, targetAmount: 100n })
+    ).rejects.toThrow('Quote either the source or the target');
+  });
+
+  it('refuses amounts that convert to nothing', async () => {
+    const { fx } = setup([source('static', { 'NGN/USD': '0.000625' })]);
+
+    await expect(
+      fx.priceQuote({
+        userId: 'user-1',
+        sourceCurrency: 'NGN',
+        targetCurrency: 'USD',
+        sourceAmount: 100n,
+      })
+    ).rejects.toThrow('Amount is too small to convert');
+  });
+});
+
+describe('FxService quotes', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const stored = (overrides: Record<string, any> = {}) => ({
+    id: 'quote-1',
+    userId: 'user-1',
+    status: 'ACTIVE',
+    product: 'CROSS_BORDER',
+    sourceCurrency: 'USD',
+    sourceAmount: new Prisma.Decimal('10000'),
+    targetCurrency: 'NGN',
+    targetAmount: new Prisma.Decimal('15760800'),
+    expiresAt: new Date(now.getTime() + 60 * 1000),
+    ...overrides,
+  });
+
+  it('locks a quote for the configured time', async () => {
+    const { prisma, fx } = setup();
+
+    const quote = await fx.createQuote({
+      userId: 'user-1',
+      sourceCurrency: 'USD',
+      targetCurrency: 'NGN',
+      sourceAmount: 10000n,
+    });
+
+    expect(prisma.fxQuote.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      sourceAmount: new Prisma.Decimal('10000'),
+      targetAmount: new Prisma.Decimal('15920000'),
+      rate: new Prisma.Decimal('1592'),
+      midRate: new Prisma.Decimal('1600'),
+      markupBps: 50,
+      expiresAt: new Date(now.getTime() + 60 * 1000),
+    });
+    expect(quote.id).toBe('quote-1');
+  });
+
+  it('claims a live quote once for the amounts it was given for', async () => {
+    const { prisma, fx } = setup();
+    prisma.fxQuote.findUnique.mockResolvedValue(stored());
+
+    const used = await fx.useQuote('quote-1', 'user-1', {
+      product: 'CROSS_BORDER',
+      sourceCurrency: 'USD',
+      sourceAmount: 10000n,
+    });
+
+    expect(prisma.fxQuote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'quote-1', status: 'ACTIVE', expiresAt: { gt: now } },
+      data: { status: 'USED', usedAt: now },
+    });
+    expect(used.status).toBe('USED');
+  });
+
+  it('refuses a quote for different amounts', async () => {
+    const { prisma, fx } = setup();
+    prisma.fxQuote.findUnique.mockResolvedValue(stored());
+
+    await expect(
+      fx.useQuote('quote-1', 'user-1', { sourceAmount: 20000n, targetCurrency: 'NGN' })
+    ).rejects.toMatchObject({ statusCode: 400, details: { fields: ['sourceAmount'] } });
+    expect(prisma.fxQuote.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses a used or expired quote', async () => {
+    const { prisma, fx } = setup();
+    prisma.fxQuote.updateMany.mockResolvedValue({ count: 0 });
+
+    prisma.fxQuote.findUnique.mockResolvedValueOnce(stored({ status: 'USED' }));
+    await expect(fx.useQuote('quote-1', 'user-1')).rejects.toThrow('Quote has already been used');
+
+    prisma.fxQuote.findUnique.mockResolvedValueOnce(stored({ expiresAt: now }));
+    await expect(fx.useQuote('quote-1', 'user-1')).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Quote has expired',
+    });
+  });
+
+  it('hides other users\' quotes', async () => {
+    const { prisma, fx } = setup();
+    prisma.fxQuote.findUnique.mockResolvedValue(stored());
+
+    await expect(fx.getQuote('quote-1', 'user-2')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
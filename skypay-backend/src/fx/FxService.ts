@@ -0,0 +1,268 @@
+// skypay-backend/src/fx/FxService.ts
+import { FxQuote, PrismaClient, SettlementType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import {
+  MinorUnits,
+  convertAmount,
+  convertAmountFor,
+  getCurrency,
+  toDecimal,
+  toMinorUnits,
+} from '../currency/currencies';
+import { FeeService } from '../fees/FeeService';
+import { RateSource, createRateSources } from './sources';
+
+export interface CreateQuoteParams {
+  userId: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  // Exactly one of the two: what the user sends, or what should arrive
+  sourceAmount?: MinorUnits;
+  targetAmount?: MinorUnits;
+  // Settlement type to include the fees of
+  product?: SettlementType;
+}
+
+// Fields a settlement expects of the quote it references
+export type QuoteExpectation = Partial<{
+  product: SettlementType;
+  sourceCurrency: string;
+  sourceAmount: MinorUnits;
+  targetCurrency: string;
+  targetAmount: MinorUnits;
+}>;
+
+// A priced conversion, before it is saved as a quote
+export interface QuotePrice {
+  sourceAmount: MinorUnits;
+  targetAmount: MinorUnits;
+  midRate: string;
+  rate: string;
+  markupBps: number;
+  rateSource: string;
+  feeAmount: MinorUnits;
+  feeScheduleId: string | null;
+}
+
+export interface MidRate {
+  rate: string;
+  source: string;
+}
+
+/**
+ * Quotes conversions between any two registry currencies. Stablecoins are
+ * priced through the fiat currency they are pegged to; mid rates come from
+ * the configured sources, tried in order, and a per-corridor markup is
+ * taken off the rate the customer gets. Quotes for a product include its
+ * fees, charged in the source currency before conversion.
+ */
+export class FxService {
+  constructor(
+    private prisma: PrismaClient,
+    private feeService: FeeService,
+    private sources: RateSource[] = createRateSources()
+  ) {}
+
+  /**
+   * Mid rate between two currencies (units of target per unit of source)
+   */
+  async getMidRate(sourceCurrency: string, targetCurrency: string): Promise<MidRate> {
+    const base = this.underlying(sourceCurrency);
+    const quote = this.underlying(targetCurrency);
+
+    if (base === quote) {
+      return { rate: '1', source: 'peg' };
+    }
+
+    for (const source of this.sources) {
+      try {
+        const rate = await source.getRate(base, quote);
+        if (rate) {
+          return { rate, source: source.name };
+        }
+      } catch (error) {
+        logger.warn(`FX rate source ${source.name} failed for ${base}/${quote}`, { error });
+      }
+    }
+
+    throw new AppError(`No FX rate available for ${base}/${quote}`, 503);
+  }
+
+  /**
+   * Price a conversion and lock the rate for the configured time
+   */
+  async createQuote(params: CreateQuoteParams): Promise<FxQuote> {
+    const { userId, product, sourceCurrency, targetCurrency } = params;
+    const price = await this.priceQuote(params);
+
+    const quote = await this.prisma.fxQuote.create({
+      data: {
+        userId,
+        product,
+        sourceCurrency,
+        sourceAmount: toDecimal(price.sourceAmount),
+        targetCurrency,
+        targetAmount: toDecimal(price.targetAmount),
+        midRate: new Decimal(price.midRate),
+        rate: new Decimal(price.rate),
+        markupBps: price.markupBps,
+        rateSource: price.rateSource,
+        feeAmount: toDecimal(price.feeAmount),
+        feeScheduleId: price.feeScheduleId,
+        expiresAt: new Date(Date.now() + config.fx.quoteTtlSeconds * 1000),
+      },
+    });
+
+    logger.info(`FX quote created: ${quote.id}`, {
+      pair: `${sourceCurrency}/${targetCurrency}`,
+      rate: price.rate,
+      source: price.rateSource,
+      fee: price.feeAmount.toString(),
+    });
+
+    return quote;
+  }
+
+  /**
+   * Price a conversion at the current rate without saving a quote
+   */
+  async priceQuote(params: CreateQuoteParams): Promise<QuotePrice> {
+    const { userId, product, sourceCurrency, targetCurrency } = params;
+
+    if ((params.sourceAmount === undefined) === (params.targetAmount === undefined)) {
+      throw new AppError('Quote either the source or the target amount', 400);
+    }
+
+    const mid = await this.getMidRate(sourceCurrency, targetCurrency);
+    const markupBps = this.markupFor(sourceCurrency, targetCurrency);
+    const rate = new Decimal(mid.rate)
+      .mul(10000 - markupBps)
+      .div(10000)
+      .toDecimalPlaces(18, Decimal.ROUND_DOWN)
+      .toFixed();
+
+    const feeParams = product && { product, userId, sourceCurrency, targetCurrency };
+    let sourceAmount: MinorUnits;
+    let targetAmount: MinorUnits;
+    let fee = { feeAmount: 0n, scheduleId: null as string | null };
+
+    if (params.sourceAmount !== undefined) {
+      sourceAmount = params.sourceAmount;
+      if (feeParams) {
+        fee = await this.feeService.chargeFrom(feeParams, sourceAmount);
+      }
+      targetAmount = convertAmount(
+        sourceAmount - fee.feeAmount,
+        sourceCurrency,
+        targetCurrency,
+        rate
+      );
+    } else {
+      targetAmount = params.targetAmount!;
+      sourceAmount = convertAmountFor(targetAmount, sourceCurrency, targetCurrency, rate);
+      if (feeParams) {
+        fee = await this.feeService.chargeOnTop(feeParams, sourceAmount);
+        sourceAmount += fee.feeAmount;
+      }
+    }
+
+    if (sourceAmount <= 0n || targetAmount <= 0n) {
+      throw new AppError('Amount is too small to convert', 400);
+    }
+
+    return {
+      sourceAmount,
+      targetAmount,
+      midRate: mid.rate,
+      rate,
+      markupBps,
+      rateSource: mid.source,
+      feeAmount: fee.feeAmount,
+      feeScheduleId: fee.scheduleId,
+    };
+  }
+
+  /**
+   * Get one of the user's quotes
+   */
+  async getQuote(quoteId: string, userId: string): Promise<FxQuote> {
+    const quote = await this.prisma.fxQuote.findUnique({ where: { id: quoteId } });
+
+    if (!quote || quote.userId !== userId) {
+      throw new AppError('Quote not found', 404);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Claim a live quote for a settlement. A quote can be used once, and
+   * only for the amounts it was given for.
+   */
+  async useQuote(
+    quoteId: string,
+    userId: string,
+    expected: QuoteExpectation = {}
+  ): Promise<FxQuote> {
+    const quote = await this.getQuote(quoteId, userId);
+
+    const mismatched = (Object.keys(expected) as (keyof QuoteExpectation)[]).filter((field) => {
+      const value = field.endsWith('Amount')
+        ? toMinorUnits(quote[field] as Decimal)
+        : quote[field];
+      return value !== expected[field];
+    });
+
+    if (mismatched.length > 0) {
+      throw new AppError('Quote does not match the request', 400, { fields: mismatched });
+    }
+
+    const { count } = await this.prisma.fxQuote.updateMany({
+      where: { id: quoteId, status: 'ACTIVE', expiresAt: { gt: new Date() } },
+      data: { status: 'USED', usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new AppError(
+        quote.status === 'USED' ? 'Quote has already been used' : 'Quote has expired',
+        409
+      );
+    }
+
+    return { ...quote, status: 'USED' };
+  }
+
+  /**
+   * Record which settlement a used quote priced
+   */
+  async linkSettlement(quoteId: string, settlementId: string): Promise<void> {
+    await this.prisma.fxQuote.update({
+      where: { id: quoteId },
+      data: { settlementId },
+    });
+  }
+
+  private underlying(code: string): string {
+    const currency = getCurrency(code);
+    return currency.peg || currency.code;
+  }
+
+  /**
+   * Markup for a corridor. Conversions between a stablecoin and its own
+   * peg carry none unless one is configured for them.
+   */
+  private markupFor(sourceCurrency: string, targetCurrency: string): number {
+    const { markupsBps, defaultMarkupBps } = config.fx;
+    const base = this.underlying(sourceCurrency);
+    const quote = this.underlying(targetCurrency);
+
+    return (
+      markupsBps[`${sourceCurrency}/${targetCurrency}`] ??
+      markupsBps[`${base}/${quote}`] ??
+      (base === quote ? 0 : defaultMarkupBps)
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// skypay-backend/src/fx/sources/index.ts
+import { config } from '../../config';
+import { AppError } from '../../utils/errors';
+import { createLiquidityPoolRateSource } from './liquidityPool';
+import { createProviderRateSource } from './provider';
+import { createStaticRateSource } from './static';
+import { RateSource } from './types';
+
+export type { RateSource } from './types';
+
+/**
+ * Build the rate sources named in config, in the order they are tried
+ */
+export function createRateSources(names: string[] = config.fx.rateSources): RateSource[] {
+  const factories: Record<string, () => RateSource> = {
+    static: () => createStaticRateSource(config.fx.staticRatesFile),
+    provider: () => createProviderRateSource(config.fx.provider.url, config.fx.provider.apiKey),
+    liquidityPool: () =>
+      createLiquidityPoolRateSource(
+        config.blockchain.polygonRpcUrl,
+        config.blockchain.contractAddresses.liquidityPool,
+        config.fx.poolTokens
+      ),
+  };
+
+  return names.map((name) => {
+    const factory = factories[name];
+    if (!factory) {
+      throw new AppError(`Unknown FX rate source: ${name}`, 500);
+    }
+    return factory();
+  });
+}
@@ -0,0 +1,35 @@
+// skypay-backend/src/fx/sources/liquidityPool.ts
+import { Contract, JsonRpcProvider, formatUnits } from 'ethers';
+import { RateSource } from './types';
+
+const LIQUIDITY_POOL_ABI = [
+  'function getSpotPrice(address tokenIn, address tokenOut) view returns (uint256)',
+];
+
+/**
+ * Spot rates from the on-chain LiquidityPool, between the pool tokens that
+ * track each fiat currency. The pool quotes prices scaled by 1e18.
+ */
+export function createLiquidityPoolRateSource(
+  rpcUrl: string,
+  poolAddress: string | undefined,
+  tokens: Record<string, string>
+): RateSource {
+  const pool = poolAddress
+    ? new Contract(poolAddress, LIQUIDITY_POOL_ABI, new JsonRpcProvider(rpcUrl))
+    : null;
+
+  return {
+    name: 'liquidityPool',
+
+    async getRate(base, quote) {
+      if (!pool || !tokens[base] || !tokens[quote]) {
+        return null;
+      }
+
+      const price: bigint = await pool.getSpotPrice(tokens[base], tokens[quote]);
+      // An empty pool reports zero
+      return price > 0n ? formatUnits(price, 18) : null;
+    },
+  };
+}
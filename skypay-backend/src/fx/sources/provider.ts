@@ -0,0 +1,30 @@
+// skypay-backend/src/fx/sources/provider.ts
+import axios from 'axios';
+import { RateSource } from './types';
+
+/**
+ * Rates from an HTTP rates provider answering
+ * GET {url}/rates?base=USD&quote=NGN with {"rate": "1550.25"}
+ */
+export function createProviderRateSource(url?: string, apiKey?: string): RateSource {
+  const client = url
+    ? axios.create({
+        baseURL: url,
+        timeout: 5000,
+        headers: apiKey ? { 'X-API-Key': apiKey } : {},
+      })
+    : null;
+
+  return {
+    name: 'provider',
+
+    async getRate(base, quote) {
+      if (!client) {
+        return null;
+      }
+
+      const response = await client.get('/rates', { params: { base, quote } });
+      return response.data?.rate ? String(response.data.rate) : null;
+    },
+  };
+}
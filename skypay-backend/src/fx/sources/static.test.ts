@@ -0,0 +1,60 @@
+// skypay-backend/src/fx/sources/static.test.ts
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStaticRateSource } from './static';
+
+describe('createStaticRateSource', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skypay-rates-'));
+    file = path.join(dir, 'rates.json');
+    await fs.writeFile(file, JSON.stringify({ 'USD/NGN': '1600', 'GBP/USD': '1.25' }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads listed pairs and derives their inverse', async () => {
+    const rates = createStaticRateSource(file);
+
+    expect(await rates.getRate('USD', 'NGN')).toBe('1600');
+    expect(await rates.getRate('USD', 'GBP')).toBe('0.8');
+    expect(await rates.getRate('EUR', 'KES')).toBeNull();
+  });
+
+  it('keeps 18 decimal places of a derived rate', async () => {
+    await fs.writeFile(file, JSON.stringify({ 'USD/NGN': '1537.5' }));
+
+    expect(await createStaticRateSource(file).getRate('NGN', 'USD')).toBe('0.00065040650406504');
+  });
+
+  it.each([
+    [{ 'USD/NGN': 'abc' }, 'Invalid static FX rate for USD/NGN: abc'],
+    [{ 'USD/NGN': '0' }, 'Invalid static FX rate for USD/NGN: 0'],
+    [{ 'USD/NGN': '-1600' }, 'Invalid static FX rate for USD/NGN: -1600'],
+    [{ USDNGN: '1600' }, 'Invalid static FX pair: USDNGN'],
+    [['1600'], 'Static FX rates must be an object of pairs'],
+  ])('refuses a file with bad entries: %j', async (contents, message) => {
+    await fs.writeFile(file, JSON.stringify(contents));
+
+    await expect(createStaticRateSource(file).getRate('NGN', 'USD')).rejects.toThrow(message);
+  });
+
+  it('picks up a changed file without a restart', async () => {
+    const rates = createStaticRateSource(file);
+    expect(await rates.getRate('USD', 'NGN')).toBe('1600');
+
+    await fs.writeFile(file, JSON.stringify({ 'USD/NGN': '1650' }));
+    await fs.utimes(file, new Date(), new Date(Date.now() + 5000));
+
+    expect(await rates.getRate('USD', 'NGN')).toBe('1650');
+  });
+
+  it('has no rates without a file', async () => {
+    expect(await createStaticRateSource().getRate('USD', 'NGN')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+// skypay-backend/src/fx/sources/static.ts
+import { promises as fs } from 'fs';
+import { Decimal } from '@prisma/client/runtime/library';
+import { logger } from '../../utils/logger';
+import { RateSource } from './types';
+
+/**
+ * Rates read from a JSON file of pairs, e.g. {"USD/NGN": "1550.25"}. The
+ * inverse of a listed pair is derived. The file is re-read when it changes,
+ * so ops can update rates without a restart; a file with a malformed pair
+ * or rate is refused as a whole rather than partly used.
+ */
+export function createStaticRateSource(filePath?: string): RateSource {
+  let cached: { mtimeMs: number; rates: Record<string, string> } | null = null;
+
+  const load = async (): Promise<Record<string, string>> => {
+    if (!filePath) {
+      return {};
+    }
+
+    const { mtimeMs } = await fs.stat(filePath);
+    if (!cached || cached.mtimeMs !== mtimeMs) {
+      cached = { mtimeMs, rates: parseRates(JSON.parse(await fs.readFile(filePath, 'utf8'))) };
+      logger.info(`Static FX rates loaded from ${filePath}`);
+    }
+
+    return cached.rates;
+  };
+
+  return {
+    name: 'static',
+
+    async getRate(base, quote) {
+      const rates = await load();
+      const direct = rates[`${base}/${quote}`];
+      if (direct) {
+        return String(direct);
+      }
+
+      const inverse = rates[`${quote}/${base}`];
+      return inverse
+        ? new Decimal(1).div(inverse).toDecimalPlaces(18, Decimal.ROUND_DOWN).toFixed()
+        : null;
+    },
+  };
+}
+
+const parseRates = (file: unknown): Record<string, string> => {
+  if (typeof file !== 'object' || file === null || Array.isArray(file)) {
+    throw new Error('Static FX rates must be an object of pairs');
+  }
+
+  const rates: Record<string, string> = {};
+  for (const [pair, value] of Object.entries(file)) {
+    if (!/^[A-Za-z]+\/[A-Za-z]+$/.test(pair)) {
+      throw new Error(`Invalid static FX pair: ${pair}`);
+    }
+
+    let rate: Decimal;
+    try {
+      rate = new Decimal(String(value));
+    } catch {
+      throw new Error(`Invalid static FX rate for ${pair}: ${value}`);
+    }
+    if (!rate.isFinite() || rate.lte(0)) {
+      throw new Error(`Invalid static FX rate for ${pair}: ${value}`);
+    }
+
+    rates[pair] = rate.toFixed();
+  }
+
+  return rates;
+};
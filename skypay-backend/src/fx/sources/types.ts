@@ -0,0 +1,11 @@
+// skypay-backend/src/fx/sources/types.ts
+
+/**
+ * A source of mid-market rates between fiat currencies. Rates are decimal
+ * strings: units of `quote` per unit of `base`.
+ */
+export interface RateSource {
+  name: string;
+  // null when the source has no rate for the pair
+  getRate(base: string, quote: string): Promise<string | null>;
+}
@@ -13,11 +13,18 @@ import { initRedis } from './services/redis';
 import { initQueue } from './services/queue';
 import { initDatabase } from './database';
 import { initWeb3 } from './services/web3';
+import { initJobs } from './jobs';
 
 // Routes
 import authRoutes from './api/routes/auth.routes';
 import userRoutes from './api/routes/user.routes';
 import settlementRoutes from './api/routes/settlement.routes';
+import transferRoutes from './api/routes/transfer.routes';
+import quoteRoutes from './api/routes/quote.routes';
+import limitsRoutes from './api/routes/limits.routes';
+import payoutRoutes from './api/routes/payout.routes';
+import scheduleRoutes from './api/routes/schedule.routes';
+import beneficiaryRoutes from './api/routes/beneficiary.routes';
 import ledgerRoutes from './api/routes/ledger.routes';
 import complianceRoutes from './api/routes/compliance.routes';
 import webhookRoutes from './api/routes/webhook.routes';
@@ -39,6 +46,9 @@ async function bootstrap() {
   await initWeb3();
   logger.info('Web3 initialized');
   
+  await initJobs();
+  logger.info('Scheduled jobs initialized');
+  
   // Create Express app
   const app = express();
   
@@ -70,8 +80,16 @@ async function bootstrap() {
   
   app.use(limiter);
   
-  // Body parsing
-  app.use(express.json({ limit: '10mb' }));
+  // Body parsing; webhooks keep the bytes as sent for signature checks and
+  // the event store
+  app.use(express.json({
+    limit: '10mb',
+    verify: (req: express.Request, _res, buf) => {
+      if (req.originalUrl.startsWith('/api/v1/webhooks')) {
+        req.rawBody = buf;
+      }
+    },
+  }));
   app.use(express.urlencoded({ extended: true }));
   
   // Request logging
@@ -95,6 +113,12 @@ async function bootstrap() {
   app.use('/api/v1/auth', authRoutes);
   app.use('/api/v1/users', userRoutes);
   app.use('/api/v1/settlements', settlementRoutes);
+  app.use('/api/v1/transfers', transferRoutes);
+  app.use('/api/v1/quotes', quoteRoutes);
+  app.use('/api/v1/limits', limitsRoutes);
+  app.use('/api/v1/payouts', payoutRoutes);
+  app.use('/api/v1/schedules', scheduleRoutes);
+  app.use('/api/v1/beneficiaries', beneficiaryRoutes);
   app.use('/api/v1/ledger', ledgerRoutes);
   app.use('/api/v1/compliance', complianceRoutes);
   app.use('/api/v1/webhooks', webhookRoutes);
@@ -110,9 +134,9 @@ async function bootstrap() {
     ============================
     📡 Port: ${config.port}
     🌍 Environment: ${config.nodeEnv}
-    🗄️  Database: ${config.database.host}
-    🔗 Redis: ${config.redis.host}
-    📊 Queue: Bull (${config.redis.host})
+    🗄️  Database: ${new URL(config.database.url).host}
+    🔗 Redis: ${new URL(config.redis.url).host}
+    📊 Queue: Bull (${new URL(config.redis.url).host})
     ⏰ Time: ${new Date().toISOString()}
     ============================
     `);
@@ -0,0 +1,76 @@
+// skypay-backend/src/integrations/bridge/BridgeService.test.ts
+import { PrismaClient } from '@prisma/client';
+import { BridgeService } from './BridgeService';
+
+const bridge = new BridgeService({} as PrismaClient);
+
+describe('BridgeService.toSettlementEvents', () => {
+  it('moves a settlement to FIAT_RECEIVED with the deposit in minor units', () => {
+    expect(
+      bridge.toSettlementEvents('deposit.completed', {
+        id: 'brg_dep_1',
+        external_reference: 'settlement-1',
+        amount: '250.00',
+        currency: 'GBP',
+      })
+    ).toEqual([
+      {
+        settlementId: 'settlement-1',
+        toState: 'FIAT_RECEIVED',
+        source: 'bridge:deposit.completed',
+        metadata: { bridgeTransactionId: 'brg_dep_1', amount: '25000', currency: 'GBP' },
+      },
+    ]);
+  });
+
+  it('refuses a deposit amount finer than its currency allows', () => {
+    expect(() =>
+      bridge.toSettlementEvents('deposit.completed', {
+        id: 'brg_dep_1',
+        external_reference: 'settlement-1',
+        amount: '250.001',
+        currency: 'GBP',
+      })
+    ).toThrow('exceeds 2 decimal places');
+  });
+
+  it('reports a completed withdrawal as sent, then confirmed', () => {
+    const events = bridge.toSettlementEvents('withdrawal.completed', {
+      id: 'brg_wd_1',
+      external_reference: 'settlement-1',
+    });
+
+    expect(events.map(({ toState, source }) => [toState, source])).toEqual([
+      ['FIAT_SENT', 'bridge:withdrawal.completed'],
+      ['CONFIRMED', 'bridge:withdrawal.completed'],
+    ]);
+    expect(events[0].metadata).toMatchObject({ bridgeWithdrawalId: 'brg_wd_1' });
+  });
+
+  it('fails the settlement with the provider\'s reason', () => {
+    expect(
+      bridge.toSettlementEvents('withdrawal.failed', {
+        id: 'brg_wd_1',
+        external_reference: 'settlement-1',
+        failure_reason: 'Account closed',
+      })
+    ).toEqual([
+      {
+        settlementId: 'settlement-1',
+        toState: 'FAILED',
+        source: 'bridge:withdrawal.failed',
+        metadata: { reason: 'Account closed', bridgeWithdrawalId: 'brg_wd_1' },
+      },
+    ]);
+  });
+
+  it('has no settlement event for micro-deposits or unknown events', () => {
+    expect(
+      bridge.toSettlementEvents('withdrawal.completed', {
+        id: 'brg_wd_micro',
+        metadata: { purpose: 'BENEFICIARY_VERIFICATION' },
+      })
+    ).toEqual([]);
+    expect(bridge.toSettlementEvents('customer.updated', { id: 'cus_1' })).toEqual([]);
+  });
+});
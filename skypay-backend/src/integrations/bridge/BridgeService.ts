@@ -4,26 +4,46 @@ import crypto from 'crypto';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
 import { AppError } from '../../utils/errors';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, SettlementType } from '@prisma/client';
+import { MinorUnits, formatAmount, parseAmount } from '../../currency/currencies';
+import { SettlementEvent } from '../../settlement/SettlementService';
 
 export interface BridgeDepositParams {
   settlementId: string;
-  amount: number;
+  amount: MinorUnits;
   currency: string;
   userId: string;
   bankDetails?: any;
+  // Should match the settlement's own deadline for receiving funds
+  expiresAt?: Date;
+  settlementType?: SettlementType;
   metadata?: any;
 }
 
 export interface BridgeWithdrawalParams {
   settlementId: string;
-  amount: number;
+  amount: MinorUnits;
   currency: string;
   userId: string;
   bankDetails: any;
+  settlementType?: SettlementType;
   metadata?: any;
 }
 
+// Marks withdrawals sent to verify a beneficiary's account
+const MICRO_DEPOSIT_PURPOSE = 'BENEFICIARY_VERIFICATION';
+
+export interface BridgeFxQuote {
+  id: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  sourceAmount: MinorUnits;
+  targetAmount: MinorUnits;
+  // Target major units per source major unit, as quoted by Bridge
+  rate: string;
+  expiresAt: Date;
+}
+
 export class BridgeService {
   private client: any;
   private baseUrl: string;
@@ -86,6 +106,8 @@ export class BridgeService {
   async generateDepositInstructions(
     params: BridgeDepositParams
   ): Promise<any> {
+    const expiresAt = params.expiresAt || new Date(Date.now() + 24 * 60 * 60 * 1000);
+
     try {
       // Get supported banks for user's country
       const banksResponse = await this.client.get('/v1/banks', {
@@ -96,18 +118,19 @@ export class BridgeService {
       });
 
       // Create deposit order in Bridge
+      // Bridge takes major-unit decimal strings
       const depositResponse = await this.client.post('/v1/deposits', {
         external_reference: params.settlementId,
-        amount: params.amount,
+        amount: formatAmount(params.amount, params.currency),
         currency: params.currency,
         user_id: params.userId,
         metadata: {
           ...params.metadata,
-          settlement_type: 'FIAT_TO_TOKEN',
+          settlement_type: params.settlementType || 'FIAT_TO_TOKEN',
           bank_details: params.bankDetails,
         },
         callback_url: `${config.baseUrl}/api/v1/webhooks/bridge`,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+        expires_at: expiresAt,
       });
 
       // Update settlement with Bridge reference
@@ -119,13 +142,14 @@ export class BridgeService {
             ...(params.metadata || {}),
             bridge_deposit_id: depositResponse.data.id,
             deposit_instructions: depositResponse.data.instructions,
+            deposit_expires_at: expiresAt.toISOString(),
           },
         },
       });
 
       logger.info(`Bridge deposit created: ${params.settlementId}`, {
         bridgeId: depositResponse.data.id,
-        amount: params.amount,
+        amount: params.amount.toString(),
         currency: params.currency,
       });
 
@@ -152,7 +176,7 @@ export class BridgeService {
       // Create withdrawal order in Bridge
       const withdrawalResponse = await this.client.post('/v1/withdrawals', {
         external_reference: params.settlementId,
-        amount: params.amount,
+        amount: formatAmount(params.amount, params.currency),
         currency: params.currency,
         beneficiary: {
           name: params.bankDetails.accountName,
@@ -162,7 +186,7 @@ export class BridgeService {
         },
         metadata: {
           ...params.metadata,
-          settlement_type: 'TOKEN_TO_FIAT',
+          settlement_type: params.settlementType || 'TOKEN_TO_FIAT',
           user_id: params.userId,
         },
         callback_url: `${config.baseUrl}/api/v1/webhooks/bridge`,
@@ -183,7 +207,7 @@ export class BridgeService {
 
       logger.info(`Bridge withdrawal created: ${params.settlementId}`, {
         bridgeId: withdrawalResponse.data.id,
-        amount: params.amount,
+        amount: params.amount.toString(),
         currency: params.currency,
       });
 
@@ -202,6 +226,51 @@ export class BridgeService {
     }
   }
 
+  /**
+   * Send a small verification payment to a bank or mobile money account.
+   * It belongs to no settlement; its webhooks are acknowledged and ignored.
+   */
+  async sendMicroDeposit(params: {
+    reference: string;
+    amount: MinorUnits;
+    currency: string;
+    userId: string;
+    bankDetails: any;
+  }): Promise<{ withdrawalId: string; status: string }> {
+    try {
+      const response = await this.client.post('/v1/withdrawals', {
+        external_reference: params.reference,
+        amount: formatAmount(params.amount, params.currency),
+        currency: params.currency,
+        beneficiary: {
+          name: params.bankDetails.accountName,
+          bank_code: params.bankDetails.bankCode,
+          account_number: params.bankDetails.accountNumber,
+          account_type: params.bankDetails.accountType || 'SAVINGS',
+        },
+        narration: 'SkyPay verification',
+        metadata: {
+          purpose: MICRO_DEPOSIT_PURPOSE,
+          user_id: params.userId,
+        },
+        callback_url: `${config.baseUrl}/api/v1/webhooks/bridge`,
+      });
+
+      logger.info(`Bridge micro-deposit created: ${params.reference}`, {
+        bridgeId: response.data.id,
+        currency: params.currency,
+      });
+
+      return { withdrawalId: response.data.id, status: response.data.status };
+    } catch (error: any) {
+      logger.error('Bridge micro-deposit failed:', error);
+      throw new AppError(
+        `Failed to send verification deposit: ${error.response?.data?.message || error.message}`,
+        500
+      );
+    }
+  }
+
   /**
    * Get deposit status
    */
@@ -235,174 +304,181 @@ export class BridgeService {
   }
 
   /**
-   * Handle Bridge webhook events
+   * The settlement events a Bridge webhook stands for, to be applied with
+   * SettlementService.applyEvent. A completed withdrawal implies it was
+   * sent, which Bridge doesn't always report separately.
    */
-  async handleWebhookEvent(event: string, data: any): Promise<boolean> {
-    try {
-      logger.info(`Processing Bridge webhook: ${event}`, data);
-
-      switch (event) {
-        case 'deposit.completed':
-          await this.handleDepositCompleted(data);
-          break;
-
-        case 'deposit.failed':
-          await this.handleDepositFailed(data);
-          break;
-
-        case 'withdrawal.completed':
-          await this.handleWithdrawalCompleted(data);
-          break;
-
-        case 'withdrawal.failed':
-          await this.handleWithdrawalFailed(data);
-          break;
-
-        case 'withdrawal.processing':
-          await this.handleWithdrawalProcessing(data);
-          break;
+  toSettlementEvents(event: string, data: any): SettlementEvent[] {
+    // Beneficiary verification payments have no settlement to update
+    if (data?.metadata?.purpose === MICRO_DEPOSIT_PURPOSE) {
+      return [];
+    }
 
-        default:
-          logger.warn(`Unhandled Bridge webhook event: ${event}`);
-      }
+    const { external_reference: settlementId, id: bridgeId } = data;
+    const source = `bridge:${event}`;
+    const sent: SettlementEvent = {
+      settlementId,
+      toState: 'FIAT_SENT',
+      source,
+      metadata: { bridgeWithdrawalId: bridgeId, fiatSentAt: new Date().toISOString() },
+    };
+
+    switch (event) {
+      case 'deposit.completed':
+        return [
+          {
+            settlementId,
+            toState: 'FIAT_RECEIVED',
+            source,
+            metadata: {
+              bridgeTransactionId: bridgeId,
+              // Bridge reports major units; reject amounts finer than the currency allows
+              amount: parseAmount(data.amount, data.currency).toString(),
+              currency: data.currency,
+            },
+          },
+        ];
+
+      case 'deposit.failed':
+        return [
+          {
+            settlementId,
+            toState: 'FAILED',
+            source,
+            metadata: {
+              reason: data.failure_reason || 'Bridge deposit failed',
+              bridgeTransactionId: bridgeId,
+            },
+          },
+        ];
+
+      case 'withdrawal.processing':
+        return [sent];
+
+      case 'withdrawal.completed':
+        return [
+          sent,
+          {
+            settlementId,
+            toState: 'CONFIRMED',
+            source,
+            metadata: { bridgeWithdrawalId: bridgeId },
+          },
+        ];
+
+      case 'withdrawal.failed':
+        return [
+          {
+            settlementId,
+            toState: 'FAILED',
+            source,
+            metadata: {
+              reason: data.failure_reason || 'Bridge withdrawal failed',
+              bridgeWithdrawalId: bridgeId,
+            },
+          },
+        ];
 
-      return true;
-    } catch (error) {
-      logger.error(`Failed to process Bridge webhook ${event}:`, error);
-      return false;
+      default:
+        logger.warn(`Unhandled Bridge webhook event: ${event}`);
+        return [];
     }
   }
 
   /**
-   * Handle completed deposit
+   * Get available corridors
    */
-  private async handleDepositCompleted(data: any): Promise<void> {
-    const { external_reference: settlementId, amount, currency, id: bridgeId } = data;
-
-    // Update settlement state
-    await this.prisma.$transaction(async (tx) => {
-      // Update settlement
-      const settlement = await tx.settlement.update({
-        where: { id: settlementId },
-        data: {
-          currentState: 'FIAT_RECEIVED',
-          metadata: {
-            ...(data.metadata || {}),
-            fiatReceivedAt: new Date().toISOString(),
-            bridgeTransactionId: bridgeId,
-          },
-        },
-        include: { user: true },
-      });
-
-      // Create audit log
-      await tx.auditLog.create({
-        data: {
-          type: 'SETTLEMENT_UPDATED',
-          userId: settlement.userId,
-          entityType: 'SETTLEMENT',
-          entityId: settlementId,
-          changes: {
-            state: 'FIAT_RECEIVED',
-            bridgeId,
-            amount,
-            currency,
-          },
-          metadata: { webhook: true, event: 'deposit.completed' },
-        },
-      });
-
-      // Create ledger entry (handled by settlement service)
-      logger.info(`Deposit completed for settlement: ${settlementId}`, {
-        bridgeId,
-        amount,
-        currency,
-      });
-    });
+  async getAvailableCorridors(): Promise<any> {
+    try {
+      const response = await this.client.get('/v1/corridors');
+      return response.data.corridors;
+    } catch (error: any) {
+      logger.error('Failed to fetch corridors:', error);
+      throw new AppError('Failed to fetch available corridors', 500);
+    }
   }
 
   /**
-   * Handle deposit failure
+   * Find the corridor paying out `targetCurrency` against `sourceCurrency`
    */
-  private async handleDepositFailed(data: any): Promise<void> {
-    const { external_reference: settlementId, failure_reason, id: bridgeId } = data;
-
-    await this.prisma.$transaction(async (tx) => {
-      const settlement = await tx.settlement.update({
-        where: { id: settlementId },
-        data: {
-          currentState: 'FAILED',
-          failureReason: failure_reason || 'Bridge deposit failed',
-          metadata: {
-            ...(data.metadata || {}),
-            failedAt: new Date().toISOString(),
-            bridgeTransactionId: bridgeId,
-          },
-        },
-      });
-
-      await tx.auditLog.create({
-        data: {
-          type: 'SETTLEMENT_UPDATED',
-          userId: settlement.userId,
-          entityType: 'SETTLEMENT',
-          entityId: settlementId,
-          changes: {
-            state: 'FAILED',
-            reason: failure_reason,
-          },
-          metadata: { webhook: true, event: 'deposit.failed' },
-        },
-      });
-    });
+  async findCorridor(sourceCurrency: string, targetCurrency: string): Promise<any | null> {
+    const corridors = await this.getAvailableCorridors();
+
+    return (
+      (corridors || []).find(
+        (corridor: any) =>
+          corridor.source_currency === sourceCurrency &&
+          corridor.target_currency === targetCurrency &&
+          corridor.enabled !== false
+      ) || null
+    );
   }
 
   /**
-   * Handle withdrawal completion
+   * Request an FX quote that Bridge holds at its rate until it expires.
+   * With `lock: false` the quote is indicative and can't be converted at.
    */
-  private async handleWithdrawalCompleted(data: any): Promise<void> {
-    const { external_reference: settlementId, id: bridgeId } = data;
-
-    await this.prisma.$transaction(async (tx) => {
-      const settlement = await tx.settlement.update({
-        where: { id: settlementId },
-        data: {
-          currentState: 'CONFIRMED',
-          completedAt: new Date(),
-          metadata: {
-            ...(data.metadata || {}),
-            fiatSentAt: new Date().toISOString(),
-            bridgeTransactionId: bridgeId,
-          },
-        },
+  async createFxQuote(
+    sourceCurrency: string,
+    targetCurrency: string,
+    sourceAmount: MinorUnits,
+    options: { lock?: boolean } = {}
+  ): Promise<BridgeFxQuote> {
+    try {
+      const response = await this.client.post('/v1/quotes', {
+        source_currency: sourceCurrency,
+        target_currency: targetCurrency,
+        source_amount: formatAmount(sourceAmount, sourceCurrency),
+        lock: options.lock ?? true,
       });
+      const quote = response.data;
 
-      await tx.auditLog.create({
-        data: {
-          type: 'SETTLEMENT_UPDATED',
-          userId: settlement.userId,
-          entityType: 'SETTLEMENT',
-          entityId: settlementId,
-          changes: {
-            state: 'CONFIRMED',
-            bridgeId,
-          },
-          metadata: { webhook: true, event: 'withdrawal.completed' },
-        },
-      });
-    });
+      return {
+        id: quote.id,
+        sourceCurrency,
+        targetCurrency,
+        sourceAmount: parseAmount(quote.source_amount, sourceCurrency),
+        targetAmount: parseAmount(quote.target_amount, targetCurrency),
+        rate: String(quote.rate),
+        expiresAt: new Date(quote.expires_at),
+      };
+    } catch (error: any) {
+      logger.error('Bridge FX quote failed:', error);
+      throw new AppError(
+        `Failed to get FX quote: ${error.response?.data?.message || error.message}`,
+        500
+      );
+    }
   }
 
   /**
-   * Get available corridors
+   * Convert funds at a locked quote. Bridge accepts one conversion per
+   * external reference, so a retried call returns the original conversion.
    */
-  async getAvailableCorridors(): Promise<any> {
+  async executeFxConversion(quoteId: string, settlementId: string): Promise<any> {
     try {
-      const response = await this.client.get('/v1/corridors');
-      return response.data.corridors;
+      const response = await this.client.post('/v1/conversions', {
+        quote_id: quoteId,
+        external_reference: settlementId,
+      });
+
+      logger.info(`Bridge FX conversion executed: ${settlementId}`, {
+        quoteId,
+        conversionId: response.data.id,
+      });
+
+      return {
+        conversionId: response.data.id,
+        status: response.data.status,
+      };
     } catch (error: any) {
-      logger.error('Failed to fetch corridors:', error);
-      throw new AppError('Failed to fetch available corridors', 500);
+      logger.error('Bridge FX conversion failed:', error);
+      // Bridge answers 4xx for expired or already used quotes; retrying won't help
+      const status = error.response?.status;
+      throw new AppError(
+        `Failed to convert funds: ${error.response?.data?.message || error.message}`,
+        status >= 400 && status < 500 ? 422 : 500
+      );
     }
   }
 
@@ -435,6 +511,10 @@ export class BridgeService {
       });
       return response.data;
     } catch (error: any) {
+      // Bridge rejects accounts it can't resolve; that's an answer, not an outage
+      if ([400, 404, 422].includes(error.response?.status)) {
+        throw new AppError(error.response.data?.message || 'Bank account not found', 400);
+      }
       logger.error('Failed to validate account:', error);
       throw new AppError('Failed to validate bank account', 500);
     }
@@ -0,0 +1,64 @@
+// skypay-backend/src/jobs/JobScheduler.ts
+import Queue from 'bull';
+import { logger } from '../utils/logger';
+
+export interface ScheduledJob {
+  name: string;
+  cron: string;
+  handler: () => Promise<any>;
+}
+
+export class JobScheduler {
+  private queue: Queue.Queue;
+  private jobs: Map<string, ScheduledJob> = new Map();
+
+  constructor(queueName: string = 'scheduled-jobs') {
+    this.queue = new Queue(queueName, {
+      redis: process.env.REDIS_URL,
+    });
+  }
+
+  /**
+   * Register a recurring job
+   */
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Schedule all registered jobs and start processing them
+   */
+  async start(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      this.queue.process(job.name, async () => {
+        const startedAt = Date.now();
+        const result = await job.handler();
+        logger.info(`Scheduled job completed: ${job.name}`, {
+          durationMs: Date.now() - startedAt,
+        });
+        return result;
+      });
+
+      // Repeatable jobs are keyed by name + cron, so restarts don't duplicate them
+      await this.queue.add(job.name, {}, {
+        repeat: { cron: job.cron },
+        jobId: job.name,
+        removeOnComplete: 100,
+        removeOnFail: 1000,
+      });
+    }
+
+    this.queue.on('failed', (job, error) => {
+      logger.error(`Scheduled job failed: ${job?.name}`, error);
+    });
+
+    logger.info(`Scheduled ${this.jobs.size} recurring jobs`);
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
@@ -0,0 +1,157 @@
+// skypay-backend/src/jobs/index.ts
+import { PrismaClient } from '@prisma/client';
+import { createClient, RedisClientType } from 'redis';
+import { config } from '../config';
+import { JobScheduler } from './JobScheduler';
+import { LedgerService } from '../ledger/LedgerService';
+import { LedgerVerifier } from '../ledger/LedgerVerifier';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+import { Web3Service } from '../services/Web3Service';
+import { ComplianceService } from '../compliance/ComplianceService';
+import { BridgeService } from '../integrations/bridge/BridgeService';
+import { FeeService } from '../fees/FeeService';
+import { FxService } from '../fx/FxService';
+import { LimitsService } from '../limits/LimitsService';
+import { DomainEventQueue } from '../outbox/DomainEventQueue';
+import { OutboxRelay } from '../outbox/OutboxRelay';
+import { PayoutQueue } from '../payouts/PayoutQueue';
+import { PayoutService } from '../payouts/PayoutService';
+import { PayoutProcessor } from '../payouts/PayoutProcessor';
+import { ScheduleService } from '../schedules/ScheduleService';
+import { SettlementService } from '../settlement/SettlementService';
+import { SettlementStepQueue } from '../settlement/orchestration/SettlementStepQueue';
+import { SettlementOrchestrator } from '../settlement/orchestration/SettlementOrchestrator';
+import { SettlementCompensator } from '../settlement/orchestration/SettlementCompensator';
+import { SettlementExpirySweeper } from '../settlement/orchestration/SettlementExpirySweeper';
+import { TransferService } from '../transfers/TransferService';
+import { WebhookEventService } from '../webhooks/WebhookEventService';
+import { WebhookProcessor } from '../webhooks/WebhookProcessor';
+import { WebhookQueue } from '../webhooks/WebhookQueue';
+
+export async function initJobs(): Promise<JobScheduler> {
+  const prisma = new PrismaClient();
+  const redis = createClient({
+    url: config.redis.url,
+    password: config.redis.password,
+  }) as RedisClientType;
+  await redis.connect();
+
+  const publisher = new RealtimePublisher(redis);
+  const ledgerService = new LedgerService(prisma);
+  const ledgerVerifier = new LedgerVerifier(prisma, ledgerService, publisher);
+  const bridgeService = new BridgeService(prisma);
+  const web3Service = new Web3Service();
+  const stepQueue = new SettlementStepQueue();
+  const feeService = new FeeService(prisma);
+  const fxService = new FxService(prisma, feeService);
+  const limitsService = new LimitsService(prisma, fxService);
+  const settlementService = new SettlementService(
+    prisma,
+    ledgerService,
+    new ComplianceService(prisma),
+    bridgeService,
+    web3Service,
+    stepQueue,
+    feeService,
+    limitsService
+  );
+  const orchestrator = new SettlementOrchestrator(
+    prisma,
+    settlementService,
+    bridgeService,
+    web3Service,
+    stepQueue,
+    publisher,
+    new SettlementCompensator(prisma, ledgerService, settlementService, web3Service)
+  );
+  const expirySweeper = new SettlementExpirySweeper(prisma, settlementService);
+  const outboxRelay = new OutboxRelay(prisma, publisher, new DomainEventQueue());
+  const payoutQueue = new PayoutQueue();
+  const payoutService = new PayoutService(
+    prisma,
+    ledgerService,
+    limitsService,
+    settlementService,
+    bridgeService,
+    payoutQueue
+  );
+  const payoutProcessor = new PayoutProcessor(payoutService, payoutQueue);
+  const scheduleService = new ScheduleService(
+    prisma,
+    settlementService,
+    new TransferService(prisma, settlementService, publisher, feeService),
+    bridgeService,
+    publisher
+  );
+  const webhookQueue = new WebhookQueue();
+  const webhookEvents = new WebhookEventService(prisma, webhookQueue);
+  const webhookProcessor = new WebhookProcessor(
+    prisma,
+    bridgeService,
+    settlementService,
+    webhookEvents,
+    webhookQueue
+  );
+  const scheduler = new JobScheduler();
+
+  scheduler.register({
+    name: 'ledger.expire-holds',
+    cron: '*/5 * * * *', // every 5 minutes
+    handler: () => ledgerService.expireHolds(),
+  });
+
+  scheduler.register({
+    name: 'ledger.balance-snapshots',
+    cron: '15 0 * * *', // daily at 00:15, for the previous UTC day
+    handler: () => ledgerService.createDailySnapshots(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+  });
+
+  scheduler.register({
+    name: 'ledger.verify-invariants',
+    cron: '45 1 * * *', // daily at 01:45, after snapshots
+    handler: () => ledgerVerifier.verifyAll(),
+  });
+
+  scheduler.register({
+    name: 'settlements.resume-orchestration',
+    cron: '*/5 * * * *', // every 5 minutes, catches steps whose jobs were lost
+    handler: () => orchestrator.resume(),
+  });
+
+  scheduler.register({
+    name: 'settlements.expire-stale',
+    cron: '*/5 * * * *', // every 5 minutes; timeouts are set in SETTLEMENT_TIMEOUTS
+    handler: () => expirySweeper.sweep(),
+  });
+
+  scheduler.register({
+    name: 'payouts.sync-batches',
+    cron: '* * * * *', // every minute; records item outcomes and completes batches
+    handler: () => payoutService.syncBatches(),
+  });
+
+  scheduler.register({
+    name: 'schedules.run-due',
+    cron: '* * * * *', // every minute; reminders, due runs and retries
+    handler: () => scheduleService.runDue(),
+  });
+
+  scheduler.register({
+    name: 'outbox.prune-published',
+    cron: '30 2 * * *', // daily at 02:30; retention is OUTBOX_RETENTION_DAYS
+    handler: () => outboxRelay.prunePublished(),
+  });
+
+  scheduler.register({
+    name: 'webhooks.requeue-received',
+    cron: '*/5 * * * *', // every 5 minutes; events stored without reaching the queue
+    handler: () => webhookEvents.requeueReceived(),
+  });
+
+  await orchestrator.start();
+  payoutProcessor.start();
+  outboxRelay.start();
+  webhookProcessor.start();
+  await scheduler.start();
+  return scheduler;
+}
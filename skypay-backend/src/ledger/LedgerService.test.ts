@@ -0,0 +1,425 @@
+// skypay-backend/src/ledger/LedgerService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { JournalLeg, LedgerService } from './LedgerService';
+
+const account = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  type: 'USER',
+  currency: 'USD',
+  frozen: false,
+  balance: new Prisma.Decimal(100),
+  available: new Prisma.Decimal(100),
+  pending: new Prisma.Decimal(0),
+  ...overrides,
+});
+
+const mockPrisma = () => {
+  const tx = {
+    journal: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async ({ data }: any) => ({ id: 'journal-1', ...data })),
+    },
+    account: {
+      findUnique: jest.fn(async ({ where }: any) => account(where.id)),
+      update: jest.fn(async ({ where }: any) => account(where.id)),
+    },
+    ledgerEntry: {
+      create: jest.fn(async ({ data }: any) => ({ id: `entry-${data.accountId}`, ...data })),
+    },
+  };
+  const prisma = { $transaction: jest.fn((fn: any) => fn(tx)) };
+
+  return { prisma, tx, ledger: new LedgerService(prisma as unknown as PrismaClient) };
+};
+
+const leg = (
+  accountId: string,
+  direction: 'CREDIT' | 'DEBIT',
+  amount: bigint,
+  currency = 'USD'
+): JournalLeg => ({ accountId, direction, amount, currency });
+
+describe('LedgerService.postJournal', () => {
+  it('posts every leg of a balanced journal in one transaction', async () => {
+    const { prisma, tx, ledger } = mockPrisma();
+
+    const posted = await ledger.postJournal({
+      type: 'DEPOSIT',
+      legs: [leg('user', 'CREDIT', 1500n), leg('float', 'DEBIT', 1500n)],
+      referenceId: 'ref-1',
+    });
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(posted.journal.id).toBe('journal-1');
+    expect(posted.entries.map((entry) => [entry.accountId, entry.direction])).toEqual([
+      ['user', 'CREDIT'],
+      ['float', 'DEBIT'],
+    ]);
+    expect(tx.account.update).toHaveBeenCalledWith({
+      where: { id: 'user' },
+      data: {
+        balance: { increment: new Prisma.Decimal('1500') },
+        available: { increment: new Prisma.Decimal('1500') },
+      },
+    });
+  });
+
+  it('rejects an unbalanced journal without writing anything', async () => {
+    const { prisma, ledger } = mockPrisma();
+
+    const posting = ledger.postJournal({
+      type: 'DEPOSIT',
+      legs: [leg('user', 'CREDIT', 1500n), leg('float', 'DEBIT', 1499n)],
+    });
+
+    await expect(posting).rejects.toMatchObject({
+      message: 'Unbalanced journal',
+      statusCode: 400,
+      details: { unbalanced: [{ currency: 'USD', difference: '1' }] },
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('balances each currency separately', async () => {
+    const { prisma, ledger } = mockPrisma();
+
+    const posting = ledger.postJournal({
+      type: 'DEPOSIT',
+      legs: [leg('user', 'CREDIT', 1500n, 'USD'), leg('float', 'DEBIT', 1500n, 'EUR')],
+    });
+
+    await expect(posting).rejects.toMatchObject({
+      details: {
+        unbalanced: [
+          { currency: 'USD', difference: '1500' },
+          { currency: 'EUR', difference: '-1500' },
+        ],
+      },
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects single-leg journals and non-positive legs', async () => {
+    const { ledger } = mockPrisma();
+
+    await expect(
+      ledger.postJournal({ type: 'DEPOSIT', legs: [leg('user', 'CREDIT', 1500n)] })
+    ).rejects.toThrow('Journal must have at least two legs');
+
+    await expect(
+      ledger.postJournal({
+        type: 'DEPOSIT',
+        legs: [leg('user', 'CREDIT', 0n), leg('float', 'DEBIT', 0n)],
+      })
+    ).rejects.toThrow(AppError);
+  });
+
+  it('returns the journal already posted for a retried reference', async () => {
+    const { tx, ledger } = mockPrisma();
+    tx.journal.findFirst.mockResolvedValue({
+      id: 'journal-0',
+      type: 'DEPOSIT',
+      referenceId: 'ref-1',
+      entries: [{ id: 'entry-0' }],
+    });
+
+    const posted = await ledger.postJournal({
+      type: 'DEPOSIT',
+      legs: [leg('user', 'CREDIT', 1500n), leg('float', 'DEBIT', 1500n)],
+      referenceId: 'ref-1',
+    });
+
+    expect(posted.journal.id).toBe('journal-0');
+    expect(posted.entries).toEqual([{ id: 'entry-0' }]);
+    expect(tx.journal.create).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * A ledger whose entries live in memory, enough to reverse journals and
+ * read point-in-time balances
+ */
+const inMemoryLedger = () => {
+  const entries: any[] = [];
+  let journals = 0;
+
+  const matches = (entry: any, where: any) =>
+    (!where.accountId || entry.accountId === where.accountId) &&
+    (!where.journalId || entry.journalId === where.journalId) &&
+    (!where.status ||
+      (where.status.in ? where.status.in.includes(entry.status) : entry.status === where.status)) &&
+    (!where.settledAt ||
+      (entry.settledAt !== null &&
+        (!where.settledAt.gt || entry.settledAt > where.settledAt.gt) &&
+        (!where.settledAt.gte || entry.settledAt >= where.settledAt.gte) &&
+        entry.settledAt <= where.settledAt.lte));
+
+  const prisma: any = {
+    journal: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async ({ data }: any) => ({ id: `journal-${++journals}`, ...data })),
+    },
+    account: {
+      findUnique: jest.fn(async ({ where }: any) => account(where.id)),
+      update: jest.fn(async ({ where }: any) => account(where.id)),
+    },
+    accountBalanceSnapshot: { findFirst: jest.fn().mockResolvedValue(null) },
+    hold: { findMany: jest.fn().mockResolvedValue([]) },
+    ledgerEntry: {
+      create: jest.fn(async ({ data }: any) => {
+        const entry = { id: `entry-${entries.length + 1}`, settledAt: null, ...data };
+        entries.push(entry);
+        return entry;
+      }),
+      update: jest.fn(async ({ where, data }: any) =>
+        Object.assign(entries.find((entry) => entry.id === where.id), data)
+      ),
+      findUnique: jest.fn(async ({ where }: any) =>
+        entries.find((entry) => entry.id === where.id) ?? null
+      ),
+      findMany: jest.fn(async ({ where }: any) =>
+        entries.filter((entry) => matches(entry, where))
+      ),
+      count: jest.fn(
+        async ({ where }: any) => entries.filter((entry) => matches(entry, where)).length
+      ),
+      groupBy: jest.fn(async ({ where }: any) =>
+        ['CREDIT', 'DEBIT'].map((direction) => ({
+          direction,
+          _sum: {
+            amount: entries
+              .filter((entry) => entry.direction === direction && matches(entry, where))
+              .reduce((sum, entry) => sum.add(entry.amount), new Prisma.Decimal(0)),
+          },
+        }))
+      ),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  return { entries, ledger: new LedgerService(prisma as PrismaClient) };
+};
+
+describe('LedgerService.reverseLedgerEntry', () => {
+  const deposit = async (ledger: LedgerService) => {
+    const { entries } = await ledger.postJournal({
+      type: 'DEPOSIT',
+      legs: [leg('user', 'CREDIT', 1500n), leg('float', 'DEBIT', 1500n)],
+      referenceId: 'ref-1',
+    });
+    return entries;
+  };
+
+  it('settles the reversal so balances before and after it are both right', async () => {
+    const { entries, ledger } = inMemoryLedger();
+    const [credit] = await deposit(ledger);
+    const settledAt = new Date(Date.now() - 60 * 60 * 1000);
+    entries.forEach((entry) => Object.assign(entry, { status: 'SETTLED', settledAt }));
+
+    const { reversal } = await ledger.reverseLedgerEntry(credit.id, 'Chargeback');
+
+    expect(reversal).toMatchObject({ direction: 'DEBIT', status: 'SETTLED' });
+    expect(entries.find((entry) => entry.id === credit.id)).toMatchObject({
+      status: 'REVERSED',
+      settledAt,
+    });
+    expect(await ledger.getBalanceAsOf('user', new Date(settledAt.getTime() + 1))).toBe(1500n);
+    expect(await ledger.getBalanceAsOf('user', new Date())).toBe(0n);
+  });
+
+  it('settles a never-settled original together with its reversal', async () => {
+    const { entries, ledger } = inMemoryLedger();
+    const [credit] = await deposit(ledger);
+
+    const { reversal } = await ledger.reverseLedgerEntry(credit.id, 'Deposit recalled');
+
+    const original = entries.find((entry) => entry.id === credit.id);
+    expect(original.settledAt).toEqual(reversal.settledAt);
+    expect(await ledger.getBalanceAsOf('user', new Date())).toBe(0n);
+    expect(await ledger.getBalanceAsOf('float', new Date())).toBe(0n);
+  });
+});
+
+describe('LedgerService.getAccountStatement', () => {
+  it('lists what settled in the period, so the lines add up to the closing balance', async () => {
+    const { entries, ledger } = inMemoryLedger();
+    const startDate = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const deposit = (amount: bigint, referenceId: string) =>
+      ledger.postJournal({
+        type: 'DEPOSIT',
+        legs: [leg('user', 'CREDIT', amount), leg('float', 'DEBIT', amount)],
+        referenceId,
+      });
+    const settle = (journalId: string, settledAt: Date) =>
+      entries
+        .filter((entry) => entry.journalId === journalId)
+        .forEach((entry) => Object.assign(entry, { status: 'SETTLED', settledAt }));
+
+    const before = await deposit(1500n, 'ref-1');
+    settle(before.journal.id, new Date(startDate.getTime() - 60 * 1000));
+    // Posted before the period but settled during it
+    const during = await deposit(700n, 'ref-2');
+    settle(during.journal.id, new Date(startDate.getTime() + 60 * 1000));
+    await deposit(300n, 'ref-3');
+
+    const statement = await ledger.getAccountStatement('user', { startDate });
+
+    expect(statement.balances).toMatchObject({ openingBalance: '1500', closingBalance: '2200' });
+    expect(statement.entries.map((entry) => entry.amount.toString())).toEqual(['700']);
+    expect(statement.total).toBe(1);
+    expect(statement.pendingEntries.map((entry) => entry.amount.toString())).toEqual(['300']);
+  });
+});
+
+/**
+ * Accounts and holds in memory, with balance updates applied as Postgres
+ * would apply increments and decrements
+ */
+const holdLedger = () => {
+  const decimal = (value: number) => new Prisma.Decimal(value);
+  const funds = (amount: number) => ({
+    balance: decimal(amount),
+    available: decimal(amount),
+    pending: decimal(0),
+  });
+  const accounts = new Map<string, any>([
+    ['user', account('user', funds(1000))],
+    ['clearing', account('clearing', { type: 'SYSTEM', ...funds(0) })],
+  ]);
+  const holds = new Map<string, any>();
+
+  const prisma: any = {
+    journal: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async ({ data }: any) => ({ id: 'journal-1', ...data })),
+    },
+    ledgerEntry: {
+      create: jest.fn(async ({ data }: any) => ({ id: `entry-${data.accountId}`, ...data })),
+    },
+    account: {
+      findUnique: jest.fn(async ({ where }: any) => ({ ...accounts.get(where.id) })),
+      update: jest.fn(async ({ where, data }: any) => {
+        const target = accounts.get(where.id);
+        for (const [field, change] of Object.entries<any>(data)) {
+          target[field] = change.increment
+            ? target[field].add(change.increment)
+            : target[field].sub(change.decrement);
+        }
+        return { ...target };
+      }),
+    },
+    hold: {
+      create: jest.fn(async ({ data }: any) => {
+        const hold = { id: `hold-${holds.size + 1}`, metadata: {}, ...data };
+        holds.set(hold.id, hold);
+        return { ...hold };
+      }),
+      findUnique: jest.fn(async ({ where }: any) => {
+        const hold = holds.get(where.id);
+        return hold ? { ...hold } : null;
+      }),
+      findMany: jest.fn(async ({ where }: any) =>
+        [...holds.values()].filter(
+          (hold) => hold.status === where.status && hold.expiresAt <= where.expiresAt.lte
+        )
+      ),
+      updateMany: jest.fn(async ({ where }: any) => ({
+        count: holds.get(where.id)?.status === where.status ? 1 : 0,
+      })),
+      update: jest.fn(async ({ where, data }: any) => ({
+        ...Object.assign(holds.get(where.id), data),
+      })),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const balances = (id: string) => {
+    const { balance, available, pending } = accounts.get(id);
+    return [balance, available, pending].map((value: Prisma.Decimal) => value.toNumber());
+  };
+
+  return { holds, balances, ledger: new LedgerService(prisma as PrismaClient) };
+};
+
+describe('LedgerService holds', () => {
+  const hold = (ledger: LedgerService, amount: bigint, expiresAt?: Date) =>
+    ledger.placeHold({ accountId: 'user', amount, currency: 'USD', expiresAt });
+
+  it('moves held funds from available to pending', async () => {
+    const { balances, ledger } = holdLedger();
+
+    const placed = await hold(ledger, 600n);
+
+    expect(placed.status).toBe('ACTIVE');
+    expect(balances('user')).toEqual([1000, 400, 600]);
+  });
+
+  it('refuses a hold the available balance does not cover', async () => {
+    const { ledger } = holdLedger();
+    await hold(ledger, 600n);
+
+    await expect(hold(ledger, 500n)).rejects.toThrow('Insufficient available balance');
+  });
+
+  it('captures part of a hold and returns the rest to available', async () => {
+    const { balances, ledger } = holdLedger();
+    const placed = await hold(ledger, 600n);
+
+    const { hold: captured, journal } = await ledger.captureHold(placed.id, {
+      amount: 400n,
+      counterpartyAccountId: 'clearing',
+      type: 'WITHDRAWAL',
+    });
+
+    expect(captured).toMatchObject({ status: 'CAPTURED', capturedAmount: new Prisma.Decimal(400) });
+    expect(journal.journal.referenceId).toBe(placed.id);
+    expect(balances('user')).toEqual([600, 600, 0]);
+    expect(balances('clearing')).toEqual([400, 400, 0]);
+  });
+
+  it('refuses to capture more than was held', async () => {
+    const { ledger } = holdLedger();
+    const placed = await hold(ledger, 600n);
+
+    await expect(
+      ledger.captureHold(placed.id, {
+        amount: 601n,
+        counterpartyAccountId: 'clearing',
+        type: 'WITHDRAWAL',
+      })
+    ).rejects.toMatchObject({ details: { held: '600', requested: '601' } });
+  });
+
+  it('releases a hold once, giving the funds back', async () => {
+    const { balances, ledger } = holdLedger();
+    const placed = await hold(ledger, 600n);
+
+    const released = await ledger.releaseHold(placed.id, 'Cancelled');
+
+    expect(released).toMatchObject({
+      status: 'RELEASED',
+      metadata: { releaseReason: 'Cancelled' },
+    });
+    expect(balances('user')).toEqual([1000, 1000, 0]);
+    await expect(ledger.releaseHold(placed.id)).rejects.toThrow('Hold is released');
+    await expect(
+      ledger.captureHold(placed.id, { counterpartyAccountId: 'clearing', type: 'WITHDRAWAL' })
+    ).rejects.toThrow('Hold is released');
+  });
+
+  it('expires holds past their expiry and refuses to capture them', async () => {
+    const { holds, balances, ledger } = holdLedger();
+    const past = new Date(Date.now() - 1000);
+    const lapsed = await hold(ledger, 300n, past);
+    await hold(ledger, 200n);
+
+    await expect(
+      ledger.captureHold(lapsed.id, { counterpartyAccountId: 'clearing', type: 'WITHDRAWAL' })
+    ).rejects.toThrow('Hold has expired');
+
+    expect(await ledger.expireHolds()).toBe(1);
+    expect(holds.get(lapsed.id).status).toBe('EXPIRED');
+    expect(balances('user')).toEqual([1000, 800, 200]);
+  });
+});
@@ -1,14 +1,29 @@
 // skypay-backend/src/ledger/LedgerService.ts
-import { PrismaClient, LedgerEntry, Account, Prisma } from '@prisma/client';
+import {
+  PrismaClient,
+  LedgerEntry,
+  LedgerEntryType,
+  Account,
+  Hold,
+  HoldStatus,
+  Journal,
+  SystemAccountCode,
+  Prisma,
+} from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errors';
-import { encryptionService } from '../services/encryption';
+import {
+  MinorUnits,
+  getCurrency,
+  toDecimal,
+  toMinorUnits,
+} from '../currency/currencies';
 
 export interface CreateLedgerEntryParams {
   accountId: string;
   type: LedgerEntryType;
-  amount: number;
+  amount: MinorUnits;
   currency: string;
   direction: 'CREDIT' | 'DEBIT';
   referenceId?: string;
@@ -20,20 +35,95 @@ export interface CreateLedgerEntryParams {
 
 export interface UpdateAccountBalanceParams {
   accountId: string;
-  amount: number;
-  type: 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER';
+  amount: MinorUnits;
+  type: LedgerEntryType;
+  direction: 'CREDIT' | 'DEBIT';
+  currency: string;
+  allowNegative?: boolean;
+}
+
+export interface JournalLeg {
+  accountId: string;
+  amount: MinorUnits;
+  currency: string;
   direction: 'CREDIT' | 'DEBIT';
+  type?: LedgerEntryType;
+  metadata?: any;
+  description?: string;
+}
+
+export interface PostJournalParams {
+  type: LedgerEntryType;
+  legs: JournalLeg[];
+  referenceId?: string;
+  settlementId?: string;
+  transactionId?: string;
+  metadata?: any;
+  description?: string;
+}
+
+export interface PostedJournal {
+  journal: Journal;
+  entries: LedgerEntry[];
+}
+
+export interface PlaceHoldParams {
+  accountId: string;
+  amount: MinorUnits;
   currency: string;
+  settlementId?: string;
+  expiresAt?: Date;
+  reason?: string;
+  metadata?: any;
+}
+
+export interface CaptureHoldParams {
+  // Defaults to the full held amount; any uncaptured remainder is released
+  amount?: MinorUnits;
+  counterpartyAccountId: string;
+  type: LedgerEntryType;
+  referenceId?: string;
+  metadata?: any;
+  description?: string;
 }
 
 export class LedgerService {
+  // Holds that are never captured or released give funds back after a week
+  private static readonly DEFAULT_HOLD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Create a ledger entry with atomic balance update
+   * Create a ledger entry with atomic balance update. Posting the same
+   * (accountId, referenceId, type) twice returns the original entry.
    */
-  async createLedgerEntry(params: CreateLedgerEntryParams): Promise<LedgerEntry> {
-    return this.prisma.$transaction(async (tx) => {
+  async createLedgerEntry(
+    params: CreateLedgerEntryParams,
+    client?: Prisma.TransactionClient
+  ): Promise<LedgerEntry> {
+    return this.withTransaction(client, async (tx) => {
+      // 0. Return the existing posting for retried references
+      if (params.referenceId) {
+        const existing = await tx.ledgerEntry.findUnique({
+          where: {
+            accountId_referenceId_type: {
+              accountId: params.accountId,
+              referenceId: params.referenceId,
+              type: params.type,
+            },
+          },
+        });
+
+        if (existing) {
+          logger.warn(`Duplicate ledger posting ignored: ${existing.id}`, {
+            accountId: params.accountId,
+            referenceId: params.referenceId,
+            type: params.type,
+          });
+          return existing;
+        }
+      }
+
       // 1. Verify account exists and is not frozen
       const account = await tx.account.findUnique({
         where: { id: params.accountId },
@@ -48,7 +138,7 @@ export class LedgerService {
       }
 
       // 2. Update account balance
-      const updatedAccount = await this.updateAccountBalance(tx, {
+      await this.updateAccountBalance(tx, {
         accountId: params.accountId,
         amount: params.amount,
         type: params.type as any,
@@ -61,7 +151,7 @@ export class LedgerService {
         data: {
           accountId: params.accountId,
           type: params.type,
-          amount: params.amount,
+          amount: toDecimal(params.amount),
           currency: params.currency,
           direction: params.direction,
           status: 'PENDING',
@@ -75,7 +165,7 @@ export class LedgerService {
 
       logger.info(`Ledger entry created: ${ledgerEntry.id}`, {
         accountId: params.accountId,
-        amount: params.amount,
+        amount: params.amount.toString(),
         currency: params.currency,
         direction: params.direction,
       });
@@ -85,46 +175,235 @@ export class LedgerService {
   }
 
   /**
-   * Update account balance atomically
+   * Post a balanced journal. Every leg is written as a ledger entry and the
+   * legs must net to zero per currency, otherwise nothing is committed.
+   * Pass `tx` to post inside a caller's transaction.
    */
-  private async updateAccountBalance(
+  async postJournal(
+    params: PostJournalParams,
+    tx?: Prisma.TransactionClient
+  ): Promise<PostedJournal> {
+    this.assertBalanced(params.legs);
+
+    const post = async (client: Prisma.TransactionClient) => {
+      const existing = await this.findExistingJournal(client, params);
+      return existing || this.writeJournal(client, params);
+    };
+
+    try {
+      return await this.withTransaction(tx, post);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new AppError('Duplicate ledger posting', 409, {
+          referenceId: params.referenceId,
+          type: params.type,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a journal already posted for the same reference (retried events)
+   */
+  private async findExistingJournal(
     tx: Prisma.TransactionClient,
-    params: UpdateAccountBalanceParams
+    params: PostJournalParams
+  ): Promise<PostedJournal | null> {
+    if (!params.referenceId) {
+      return null;
+    }
+
+    const existing = await tx.journal.findFirst({
+      where: {
+        referenceId: params.referenceId,
+        type: params.type,
+        settlementId: params.settlementId,
+      },
+      include: { entries: true },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    logger.warn(`Duplicate journal posting ignored: ${existing.id}`, {
+      referenceId: params.referenceId,
+      type: params.type,
+    });
+
+    const { entries, ...journal } = existing;
+    return { journal, entries };
+  }
+
+  /**
+   * Get (or lazily create) the system account for a code and currency
+   */
+  async getSystemAccount(
+    code: SystemAccountCode,
+    currency: string,
+    tx?: Prisma.TransactionClient
   ): Promise<Account> {
-    const { accountId, amount, type, direction, currency } = params;
-    const amountDecimal = new Decimal(amount);
-
-    // Determine which balance field to update
-    let updateData: Prisma.AccountUpdateInput = {};
-
-    if (direction === 'CREDIT') {
-      if (type === 'DEPOSIT') {
-        // Credit to available balance
-        updateData = {
-          balance: { increment: amountDecimal },
-          available: { increment: amountDecimal },
-        };
-      } else if (type === 'TRANSFER') {
-        // Credit to available balance
-        updateData = {
-          available: { increment: amountDecimal },
-        };
+    const client = tx || this.prisma;
+
+    return client.account.upsert({
+      where: {
+        systemCode_currency: {
+          systemCode: code,
+          currency,
+        },
+      },
+      update: {},
+      create: {
+        type: 'SYSTEM',
+        systemCode: code,
+        currency,
+        provider: 'SKYPAY',
+      },
+    });
+  }
+
+  /**
+   * Reject journals whose legs don't net to zero per currency
+   */
+  private assertBalanced(legs: JournalLeg[]): void {
+    if (legs.length < 2) {
+      throw new AppError('Journal must have at least two legs', 400);
+    }
+
+    const totals = new Map<string, MinorUnits>();
+
+    for (const leg of legs) {
+      getCurrency(leg.currency);
+
+      if (leg.amount <= 0n) {
+        throw new AppError('Journal leg amounts must be positive', 400, {
+          accountId: leg.accountId,
+          amount: leg.amount.toString(),
+        });
       }
-    } else if (direction === 'DEBIT') {
-      if (type === 'WITHDRAWAL') {
-        // Debit from both balance and available
-        updateData = {
-          balance: { decrement: amountDecimal },
-          available: { decrement: amountDecimal },
-        };
-      } else if (type === 'TRANSFER') {
-        // Debit from available balance
-        updateData = {
-          available: { decrement: amountDecimal },
-        };
+
+      const signed = leg.direction === 'CREDIT' ? leg.amount : -leg.amount;
+      totals.set(leg.currency, (totals.get(leg.currency) || 0n) + signed);
+    }
+
+    const unbalanced = [...totals.entries()]
+      .filter(([, total]) => total !== 0n)
+      .map(([currency, total]) => ({ currency, difference: total.toString() }));
+
+    if (unbalanced.length > 0) {
+      throw new AppError('Unbalanced journal', 400, { unbalanced });
+    }
+  }
+
+  /**
+   * Write journal header, ledger entries and balance updates
+   */
+  private async writeJournal(
+    tx: Prisma.TransactionClient,
+    params: PostJournalParams
+  ): Promise<PostedJournal> {
+    const journal = await tx.journal.create({
+      data: {
+        type: params.type,
+        referenceId: params.referenceId,
+        settlementId: params.settlementId,
+        transactionId: params.transactionId,
+        metadata: params.metadata || {},
+        description: params.description,
+      },
+    });
+
+    const entries: LedgerEntry[] = [];
+
+    for (const leg of params.legs) {
+      const account = await tx.account.findUnique({
+        where: { id: leg.accountId },
+      });
+
+      if (!account) {
+        throw new AppError('Account not found', 404);
+      }
+
+      if (account.frozen) {
+        throw new AppError('Account is frozen', 403);
       }
+
+      if (account.currency !== leg.currency) {
+        throw new AppError(
+          `Currency mismatch on account ${account.id}: ${account.currency} != ${leg.currency}`,
+          400
+        );
+      }
+
+      const type = leg.type || params.type;
+
+      await this.updateAccountBalance(tx, {
+        accountId: account.id,
+        amount: leg.amount,
+        type,
+        direction: leg.direction,
+        currency: leg.currency,
+        // System accounts are clearing/float accounts and may run negative
+        allowNegative: account.type === 'SYSTEM',
+      });
+
+      const entry = await tx.ledgerEntry.create({
+        data: {
+          accountId: account.id,
+          journalId: journal.id,
+          type,
+          amount: toDecimal(leg.amount),
+          currency: leg.currency,
+          direction: leg.direction,
+          status: 'PENDING',
+          referenceId: params.referenceId,
+          settlementId: params.settlementId,
+          transactionId: params.transactionId,
+          metadata: { ...(params.metadata || {}), ...(leg.metadata || {}) },
+          description: leg.description || params.description,
+        },
+      });
+
+      entries.push(entry);
     }
 
+    logger.info(`Journal posted: ${journal.id}`, {
+      type: params.type,
+      legs: entries.length,
+      referenceId: params.referenceId,
+      settlementId: params.settlementId,
+    });
+
+    return { journal, entries };
+  }
+
+  /**
+   * Update account balance atomically
+   */
+  private async updateAccountBalance(
+    tx: Prisma.TransactionClient,
+    params: UpdateAccountBalanceParams
+  ): Promise<Account> {
+    const { accountId, amount, direction } = params;
+    const amountDecimal = toDecimal(amount);
+
+    // Every posting moves balance and available together so the cached
+    // balance always equals the net of the account's ledger entries
+    const updateData: Prisma.AccountUpdateInput =
+      direction === 'CREDIT'
+        ? {
+            balance: { increment: amountDecimal },
+            available: { increment: amountDecimal },
+          }
+        : {
+            balance: { decrement: amountDecimal },
+            available: { decrement: amountDecimal },
+          };
+
     // Update account with conditional check for sufficient balance
     const account = await tx.account.update({
       where: { id: accountId },
@@ -132,7 +411,7 @@ export class LedgerService {
     });
 
     // Verify balance didn't go negative
-    if (account.available.lessThan(0)) {
+    if (!params.allowNegative && account.available.lessThan(0)) {
       throw new AppError('Insufficient available balance', 400);
     }
 
@@ -140,7 +419,295 @@ export class LedgerService {
   }
 
   /**
-   * Get account statement
+   * Reserve funds by moving them from available to pending
+   */
+  async placeHold(params: PlaceHoldParams, tx?: Prisma.TransactionClient): Promise<Hold> {
+    if (params.amount <= 0n) {
+      throw new AppError('Hold amount must be positive', 400);
+    }
+
+    const amount = toDecimal(params.amount);
+
+    return this.withTransaction(tx, async (client) => {
+      const account = await client.account.findUnique({
+        where: { id: params.accountId },
+      });
+
+      if (!account) {
+        throw new AppError('Account not found', 404);
+      }
+
+      if (account.frozen) {
+        throw new AppError('Account is frozen', 403);
+      }
+
+      if (account.currency !== params.currency) {
+        throw new AppError(
+          `Currency mismatch on account ${account.id}: ${account.currency} != ${params.currency}`,
+          400
+        );
+      }
+
+      const updated = await client.account.update({
+        where: { id: account.id },
+        data: {
+          available: { decrement: amount },
+          pending: { increment: amount },
+        },
+      });
+
+      if (updated.available.lessThan(0)) {
+        throw new AppError('Insufficient available balance', 400);
+      }
+
+      const hold = await client.hold.create({
+        data: {
+          accountId: account.id,
+          settlementId: params.settlementId,
+          amount,
+          currency: params.currency,
+          status: 'ACTIVE',
+          reason: params.reason,
+          metadata: params.metadata || {},
+          expiresAt:
+            params.expiresAt || new Date(Date.now() + LedgerService.DEFAULT_HOLD_TTL_MS),
+        },
+      });
+
+      logger.info(`Hold placed: ${hold.id}`, {
+        accountId: account.id,
+        amount: params.amount.toString(),
+        currency: params.currency,
+        settlementId: params.settlementId,
+      });
+
+      return hold;
+    });
+  }
+
+  /**
+   * Capture a hold (fully or partially) by posting a journal against the
+   * counterparty account. Any uncaptured remainder goes back to available.
+   */
+  async captureHold(
+    holdId: string,
+    params: CaptureHoldParams,
+    tx?: Prisma.TransactionClient
+  ): Promise<{ hold: Hold; journal: PostedJournal }> {
+    return this.withTransaction(tx, async (client) => {
+      const hold = await this.claimActiveHold(client, holdId);
+
+      if (hold.expiresAt < new Date()) {
+        throw new AppError('Hold has expired', 400);
+      }
+
+      const heldAmount = toMinorUnits(hold.amount);
+      const captureAmount = params.amount !== undefined ? params.amount : heldAmount;
+      if (captureAmount <= 0n || captureAmount > heldAmount) {
+        throw new AppError('Capture amount must be positive and not exceed the hold', 400, {
+          held: heldAmount.toString(),
+          requested: captureAmount.toString(),
+        });
+      }
+
+      // Return the whole reservation to available; the journal debit below
+      // then takes the captured part out of balance and available together
+      await client.account.update({
+        where: { id: hold.accountId },
+        data: {
+          available: { increment: hold.amount },
+          pending: { decrement: hold.amount },
+        },
+      });
+
+      const journal = await this.postJournal(
+        {
+          type: params.type,
+          referenceId: params.referenceId || hold.id,
+          settlementId: hold.settlementId || undefined,
+          metadata: { ...(params.metadata || {}), holdId: hold.id },
+          description: params.description || `Capture of hold ${hold.id}`,
+          legs: [
+            {
+              accountId: hold.accountId,
+              amount: captureAmount,
+              currency: hold.currency,
+              direction: 'DEBIT',
+            },
+            {
+              accountId: params.counterpartyAccountId,
+              amount: captureAmount,
+              currency: hold.currency,
+              direction: 'CREDIT',
+            },
+          ],
+        },
+        client
+      );
+
+      const captured = await client.hold.update({
+        where: { id: hold.id },
+        data: {
+          status: 'CAPTURED',
+          capturedAmount: toDecimal(captureAmount),
+          capturedAt: new Date(),
+        },
+      });
+
+      logger.info(`Hold captured: ${hold.id}`, {
+        captured: captureAmount.toString(),
+        held: hold.amount.toString(),
+        journalId: journal.journal.id,
+      });
+
+      return { hold: captured, journal };
+    });
+  }
+
+  /**
+   * Release a hold, returning the reserved funds to available
+   */
+  async releaseHold(
+    holdId: string,
+    reason?: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<Hold> {
+    return this.withTransaction(tx, (client) =>
+      this.releaseWithStatus(client, holdId, 'RELEASED', reason)
+    );
+  }
+
+  /**
+   * Release every active hold owned by a settlement
+   */
+  async releaseSettlementHolds(
+    settlementId: string,
+    reason: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<Hold[]> {
+    return this.withTransaction(tx, async (client) => {
+      const holds = await client.hold.findMany({
+        where: { settlementId, status: 'ACTIVE' },
+      });
+
+      const released: Hold[] = [];
+      for (const hold of holds) {
+        released.push(await this.releaseWithStatus(client, hold.id, 'RELEASED', reason));
+      }
+
+      return released;
+    });
+  }
+
+  /**
+   * Expire active holds past their expiry (run on a schedule)
+   */
+  async expireHolds(now: Date = new Date(), batchSize: number = 500): Promise<number> {
+    const expired = await this.prisma.hold.findMany({
+      where: {
+        status: 'ACTIVE',
+        expiresAt: { lte: now },
+      },
+      orderBy: { expiresAt: 'asc' },
+      take: batchSize,
+    });
+
+    let count = 0;
+    for (const hold of expired) {
+      try {
+        await this.prisma.$transaction((tx) =>
+          this.releaseWithStatus(tx, hold.id, 'EXPIRED', 'Hold expired')
+        );
+        count++;
+      } catch (error) {
+        // Captured or released concurrently; nothing to do
+        logger.warn(`Skipped expiring hold ${hold.id}`, { error });
+      }
+    }
+
+    if (count > 0) {
+      logger.info(`Expired ${count} holds`);
+    }
+
+    return count;
+  }
+
+  /**
+   * Atomically move a hold out of ACTIVE so it can't be settled twice
+   */
+  private async claimActiveHold(
+    tx: Prisma.TransactionClient,
+    holdId: string
+  ): Promise<Hold> {
+    const hold = await tx.hold.findUnique({ where: { id: holdId } });
+
+    if (!hold) {
+      throw new AppError('Hold not found', 404);
+    }
+
+    const { count } = await tx.hold.updateMany({
+      where: { id: holdId, status: 'ACTIVE' },
+      data: { updatedAt: new Date() },
+    });
+
+    if (count === 0 || hold.status !== 'ACTIVE') {
+      throw new AppError(`Hold is ${hold.status.toLowerCase()}`, 400);
+    }
+
+    return hold;
+  }
+
+  private async releaseWithStatus(
+    tx: Prisma.TransactionClient,
+    holdId: string,
+    status: HoldStatus,
+    reason?: string
+  ): Promise<Hold> {
+    const hold = await this.claimActiveHold(tx, holdId);
+
+    await tx.account.update({
+      where: { id: hold.accountId },
+      data: {
+        available: { increment: hold.amount },
+        pending: { decrement: hold.amount },
+      },
+    });
+
+    const released = await tx.hold.update({
+      where: { id: hold.id },
+      data: {
+        status,
+        releasedAt: new Date(),
+        metadata: {
+          ...(hold.metadata as any),
+          ...(reason && { releaseReason: reason }),
+        },
+      },
+    });
+
+    logger.info(`Hold ${status.toLowerCase()}: ${hold.id}`, {
+      accountId: hold.accountId,
+      amount: hold.amount.toString(),
+      reason,
+    });
+
+    return released;
+  }
+
+  /**
+   * Run in the caller's transaction if given, otherwise open one
+   */
+  private withTransaction<T>(
+    tx: Prisma.TransactionClient | undefined,
+    fn: (client: Prisma.TransactionClient) => Promise<T>
+  ): Promise<T> {
+    return tx ? fn(tx) : this.prisma.$transaction(fn);
+  }
+
+  /**
+   * Get account statement. Lines are the entries that settled in the
+   * period, so the opening balance plus the lines is the closing balance;
+   * entries not yet settled are listed apart and counted in neither.
    */
   async getAccountStatement(
     accountId: string,
@@ -148,48 +715,198 @@ export class LedgerService {
       startDate?: Date;
       endDate?: Date;
       type?: LedgerEntryType;
-      status?: string;
       limit?: number;
       offset?: number;
     }
-  ): Promise<{ entries: LedgerEntry[]; total: number; balances: any }> {
+  ): Promise<{
+    entries: LedgerEntry[];
+    total: number;
+    pendingEntries: LedgerEntry[];
+    balances: any;
+    holds: Hold[];
+  }> {
+    const periodEnd = filters.endDate || new Date();
+
     const where: Prisma.LedgerEntryWhereInput = {
       accountId,
-      ...(filters.startDate || filters.endDate) && {
-        createdAt: {
-          ...(filters.startDate && { gte: filters.startDate }),
-          ...(filters.endDate && { lte: filters.endDate }),
-        },
+      status: { in: ['SETTLED', 'REVERSED'] },
+      settledAt: {
+        ...(filters.startDate && { gte: filters.startDate }),
+        lte: periodEnd,
       },
       ...(filters.type && { type: filters.type }),
-      ...(filters.status && { status: filters.status }),
     };
 
-    const [entries, total, account] = await Promise.all([
-      this.prisma.ledgerEntry.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: filters.limit || 50,
-        skip: filters.offset || 0,
-      }),
-      this.prisma.ledgerEntry.count({ where }),
-      this.prisma.account.findUnique({
-        where: { id: accountId },
-      }),
-    ]);
+    const [entries, total, pendingEntries, account, holds, openingBalance, closingBalance] =
+      await Promise.all([
+        this.prisma.ledgerEntry.findMany({
+          where,
+          orderBy: [{ settledAt: 'desc' }, { id: 'desc' }],
+          take: filters.limit || 50,
+          skip: filters.offset || 0,
+        }),
+        this.prisma.ledgerEntry.count({ where }),
+        this.prisma.ledgerEntry.findMany({
+          where: {
+            accountId,
+            status: 'PENDING',
+            createdAt: { lte: periodEnd },
+            ...(filters.type && { type: filters.type }),
+          },
+          orderBy: { createdAt: 'desc' },
+        }),
+        this.prisma.account.findUnique({
+          where: { id: accountId },
+        }),
+        this.prisma.hold.findMany({
+          where: {
+            accountId,
+            status: 'ACTIVE',
+            expiresAt: { gt: new Date() },
+          },
+          orderBy: { createdAt: 'desc' },
+        }),
+        filters.startDate
+          ? this.getBalanceAsOf(accountId, new Date(filters.startDate.getTime() - 1))
+          : Promise.resolve(0n),
+        this.getBalanceAsOf(accountId, periodEnd),
+      ]);
 
     return {
       entries,
       total,
+      pendingEntries,
+      holds,
       balances: {
-        balance: account?.balance || 0,
-        available: account?.available || 0,
-        pending: account?.pending || 0,
+        balance: account?.balance.toFixed(0) || '0',
+        available: account?.available.toFixed(0) || '0',
+        pending: account?.pending.toFixed(0) || '0',
         currency: account?.currency,
+        exponent: account ? getCurrency(account.currency).exponent : undefined,
+        openingBalance: openingBalance.toString(),
+        closingBalance: closingBalance.toString(),
+        closingBalanceAsOf: periodEnd.toISOString(),
       },
     };
   }
 
+  /**
+   * Get an account's settled balance at a point in time, starting from the
+   * latest daily snapshot at or before the timestamp
+   */
+  async getBalanceAsOf(accountId: string, timestamp: Date): Promise<MinorUnits> {
+    const snapshot = await this.prisma.accountBalanceSnapshot.findFirst({
+      where: {
+        accountId,
+        asOf: { lte: timestamp },
+      },
+      orderBy: { asOf: 'desc' },
+    });
+
+    const movement = await this.sumSettledEntries(accountId, snapshot?.asOf, timestamp);
+
+    return (snapshot ? toMinorUnits(snapshot.balance) : 0n) + movement;
+  }
+
+  /**
+   * Settled entries with settledAt in (after, upTo], oldest first. These are
+   * exactly the movements between getBalanceAsOf(after) and getBalanceAsOf(upTo).
+   */
+  async getSettledEntries(
+    accountId: string,
+    after: Date,
+    upTo: Date,
+    limit?: number
+  ): Promise<LedgerEntry[]> {
+    return this.prisma.ledgerEntry.findMany({
+      where: {
+        accountId,
+        status: { in: ['SETTLED', 'REVERSED'] },
+        settledAt: { gt: after, lte: upTo },
+      },
+      orderBy: [{ settledAt: 'asc' }, { id: 'asc' }],
+      ...(limit && { take: limit }),
+    });
+  }
+
+  /**
+   * Snapshot every account's settled balance at the end of a UTC day
+   */
+  async createDailySnapshots(date: Date, batchSize: number = 500): Promise<number> {
+    const asOf = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 23, 59, 59, 999)
+    );
+
+    let cursor: string | undefined;
+    let count = 0;
+
+    for (;;) {
+      const accounts = await this.prisma.account.findMany({
+        select: { id: true, currency: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (accounts.length === 0) {
+        break;
+      }
+
+      for (const account of accounts) {
+        const balance = await this.getBalanceAsOf(account.id, asOf);
+
+        await this.prisma.accountBalanceSnapshot.upsert({
+          where: { accountId_asOf: { accountId: account.id, asOf } },
+          update: { balance: toDecimal(balance) },
+          create: {
+            accountId: account.id,
+            currency: account.currency,
+            asOf,
+            balance: toDecimal(balance),
+          },
+        });
+        count++;
+      }
+
+      cursor = accounts[accounts.length - 1].id;
+    }
+
+    logger.info('Daily balance snapshots created', {
+      asOf: asOf.toISOString(),
+      accounts: count,
+    });
+
+    return count;
+  }
+
+  /**
+   * Net of settled entries with settledAt in (after, upTo]. Reversed entries
+   * still count: their reversal is a separate entry, settled when posted.
+   */
+  private async sumSettledEntries(
+    accountId: string,
+    after: Date | undefined,
+    upTo: Date
+  ): Promise<MinorUnits> {
+    const totals = await this.prisma.ledgerEntry.groupBy({
+      by: ['direction'],
+      where: {
+        accountId,
+        status: { in: ['SETTLED', 'REVERSED'] },
+        settledAt: {
+          ...(after && { gt: after }),
+          lte: upTo,
+        },
+      },
+      _sum: { amount: true },
+    });
+
+    return totals.reduce((net, row) => {
+      const amount = row._sum.amount ? toMinorUnits(row._sum.amount) : 0n;
+      return row.direction === 'CREDIT' ? net + amount : net - amount;
+    }, 0n);
+  }
+
   /**
    * Settle a ledger entry (mark as settled)
    */
@@ -210,17 +927,19 @@ export class LedgerService {
   }
 
   /**
-   * Reverse a ledger entry
+   * Reverse a ledger entry. An entry posted as part of a journal is reversed
+   * together with the rest of its journal, so the books stay balanced.
+   * Pass `tx` to reverse inside a caller's transaction.
    */
   async reverseLedgerEntry(
     ledgerEntryId: string,
-    reason: string
+    reason: string,
+    tx?: Prisma.TransactionClient
   ): Promise<{ original: LedgerEntry; reversal: LedgerEntry }> {
-    return this.prisma.$transaction(async (tx) => {
+    return this.withTransaction(tx, async (client) => {
       // 1. Get original entry
-      const original = await tx.ledgerEntry.findUnique({
+      const original = await client.ledgerEntry.findUnique({
         where: { id: ledgerEntryId },
-        include: { account: true },
       });
 
       if (!original) {
@@ -231,14 +950,87 @@ export class LedgerService {
         throw new AppError('Entry already reversed', 400);
       }
 
-      // 2. Create reversal entry
-      const reversal = await this.createLedgerEntry(tx as any, {
+      // Entries from before journals existed are reversed on their own
+      if (!original.journalId) {
+        return { original, reversal: await this.reverseStandaloneEntry(client, original, reason) };
+      }
+
+      const originals = await client.ledgerEntry.findMany({
+        where: { journalId: original.journalId },
+      });
+
+      // 2. Post the mirror image of the original journal
+      const { entries } = await this.postJournal(
+        {
+          type: 'REVERSAL',
+          referenceId: `reversal:${original.journalId}`,
+          settlementId: original.settlementId || undefined,
+          metadata: { reversalOf: original.journalId, reason },
+          description: `Reversal: ${reason}`,
+          legs: originals.map(
+            (entry): JournalLeg => ({
+              accountId: entry.accountId,
+              amount: toMinorUnits(entry.amount),
+              currency: entry.currency,
+              direction: entry.direction === 'CREDIT' ? 'DEBIT' : 'CREDIT',
+              metadata: {
+                reversalOf: entry.id,
+                originalType: entry.type,
+                originalDirection: entry.direction,
+              },
+            })
+          ),
+        },
+        client
+      );
+
+      // 3. Mark originals as reversed
+      const reversedAt = new Date();
+      let reversal: LedgerEntry | undefined;
+      for (const entry of originals) {
+        const settled = await this.markReversed(
+          client,
+          entry,
+          entries.find((e) => (e.metadata as any).reversalOf === entry.id)!,
+          reason,
+          reversedAt
+        );
+        if (entry.id === original.id) {
+          reversal = settled;
+        }
+      }
+
+      return { original, reversal: reversal! };
+    });
+  }
+
+  private async reverseStandaloneEntry(
+    tx: Prisma.TransactionClient,
+    original: LedgerEntry,
+    reason: string
+  ): Promise<LedgerEntry> {
+    const account = await tx.account.findUnique({ where: { id: original.accountId } });
+    const direction = original.direction === 'CREDIT' ? 'DEBIT' : 'CREDIT';
+
+    await this.updateAccountBalance(tx, {
+      accountId: original.accountId,
+      amount: toMinorUnits(original.amount),
+      type: 'REVERSAL',
+      direction,
+      currency: original.currency,
+      allowNegative: account?.type === 'SYSTEM',
+    });
+
+    const reversal = await tx.ledgerEntry.create({
+      data: {
         accountId: original.accountId,
         type: 'REVERSAL',
-        amount: original.amount.toNumber(),
+        amount: original.amount,
         currency: original.currency,
-        direction: original.direction === 'CREDIT' ? 'DEBIT' : 'CREDIT',
+        direction,
+        status: 'PENDING',
         referenceId: original.id,
+        settlementId: original.settlementId,
         metadata: {
           reversalOf: original.id,
           reason,
@@ -246,37 +1038,143 @@ export class LedgerService {
           originalDirection: original.direction,
         },
         description: `Reversal: ${reason}`,
+      },
+    });
+
+    return this.markReversed(tx, original, reversal, reason, new Date());
+  }
+
+  /**
+   * Mark an entry reversed and settle its reversal at `reversedAt`, so
+   * point-in-time balances net the pair from then on. An original that was
+   * never settled is settled at the same moment, and the pair never counts.
+   * Returns the settled reversal.
+   */
+  private async markReversed(
+    tx: Prisma.TransactionClient,
+    original: LedgerEntry,
+    reversal: LedgerEntry,
+    reason: string,
+    reversedAt: Date
+  ): Promise<LedgerEntry> {
+    const settled = await tx.ledgerEntry.update({
+      where: { id: reversal.id },
+      data: { status: 'SETTLED', settledAt: reversedAt },
+    });
+
+    await tx.ledgerEntry.update({
+      where: { id: original.id },
+      data: {
+        status: 'REVERSED',
+        settledAt: original.settledAt || reversedAt,
+        metadata: {
+          ...(original.metadata as any),
+          reversedAt: reversedAt.toISOString(),
+          reversalId: reversal.id,
+          reversalReason: reason,
+        },
+      },
+    });
+
+    return settled;
+  }
+
+  /**
+   * Record an adjustment that brings an account's ledger history in line
+   * with its cached balance. `difference` is cached minus ledger; the offset
+   * is booked to SUSPENSE, whose cached balance is the only one that moves.
+   */
+  async postDriftAdjustment(
+    params: {
+      accountId: string;
+      currency: string;
+      difference: Decimal;
+      reason: string;
+      metadata?: any;
+    },
+    tx?: Prisma.TransactionClient
+  ): Promise<Journal> {
+    if (params.difference.isZero()) {
+      throw new AppError('Adjustment amount must be non-zero', 400);
+    }
+
+    return this.withTransaction(tx, async (client) => {
+      const suspense = await this.getSystemAccount('SUSPENSE', params.currency, client);
+      const amount = params.difference.abs();
+      const accountDirection = params.difference.isPositive() ? 'CREDIT' : 'DEBIT';
+      const suspenseDirection = accountDirection === 'CREDIT' ? 'DEBIT' : 'CREDIT';
+      const settledAt = new Date();
+
+      const journal = await client.journal.create({
+        data: {
+          type: 'ADJUSTMENT',
+          metadata: params.metadata || {},
+          description: params.reason,
+        },
       });
 
-      // 3. Mark original as reversed
-      await tx.ledgerEntry.update({
-        where: { id: original.id },
+      await client.ledgerEntry.create({
         data: {
-          status: 'REVERSED',
-          metadata: {
-            ...(original.metadata as any),
-            reversedAt: new Date().toISOString(),
-            reversalId: reversal.id,
-            reversalReason: reason,
-          },
+          accountId: params.accountId,
+          journalId: journal.id,
+          type: 'ADJUSTMENT',
+          amount,
+          currency: params.currency,
+          direction: accountDirection,
+          status: 'SETTLED',
+          settledAt,
+          metadata: params.metadata || {},
+          description: params.reason,
         },
       });
 
-      return { original, reversal };
+      await this.updateAccountBalance(client, {
+        accountId: suspense.id,
+        amount: toMinorUnits(amount),
+        type: 'ADJUSTMENT',
+        direction: suspenseDirection,
+        currency: params.currency,
+        allowNegative: true,
+      });
+
+      await client.ledgerEntry.create({
+        data: {
+          accountId: suspense.id,
+          journalId: journal.id,
+          type: 'ADJUSTMENT',
+          amount,
+          currency: params.currency,
+          direction: suspenseDirection,
+          status: 'SETTLED',
+          settledAt,
+          metadata: { ...(params.metadata || {}), adjustedAccountId: params.accountId },
+          description: params.reason,
+        },
+      });
+
+      logger.warn(`Drift adjustment posted: ${journal.id}`, {
+        accountId: params.accountId,
+        currency: params.currency,
+        difference: params.difference.toString(),
+      });
+
+      return journal;
     });
   }
 
   /**
-   * Reconcile accounts with external systems
+   * Summarize a day's settled entries per account. Matching against
+   * provider statements is done by ReconciliationService.
    */
   async reconcileAccounts(date: Date): Promise<any> {
     const startOfDay = new Date(date.setHours(0, 0, 0, 0));
     const endOfDay = new Date(date.setHours(23, 59, 59, 999));
 
-    // Get all settled ledger entries for the day
+    // Get all settled ledger entries for the day, reversed ones included
+    // since their reversals are settled entries too
     const ledgerEntries = await this.prisma.ledgerEntry.findMany({
       where: {
-        status: 'SETTLED',
+        status: { in: ['SETTLED', 'REVERSED'] },
         settledAt: {
           gte: startOfDay,
           lte: endOfDay,
@@ -292,13 +1190,12 @@ export class LedgerService {
     const reconciliationReport: any = {
       date: startOfDay.toISOString(),
       accounts: {},
-      discrepancies: [],
       summary: {
         totalEntries: ledgerEntries.length,
-        totalAmount: 0,
         totalAccounts: 0,
       },
     };
+    const totals: Record<string, { credit: MinorUnits; debit: MinorUnits }> = {};
 
     for (const entry of ledgerEntries) {
       const key = `${entry.accountId}-${entry.currency}`;
@@ -308,30 +1205,34 @@ export class LedgerService {
           accountId: entry.accountId,
           currency: entry.currency,
           entries: [],
-          creditTotal: 0,
-          debitTotal: 0,
-          netChange: 0,
         };
+        totals[key] = { credit: 0n, debit: 0n };
       }
 
       const accountReport = reconciliationReport.accounts[key];
       accountReport.entries.push({
         id: entry.id,
         type: entry.type,
-        amount: entry.amount.toNumber(),
+        amount: entry.amount.toFixed(0),
         direction: entry.direction,
         referenceId: entry.referenceId,
         settledAt: entry.settledAt,
       });
 
       if (entry.direction === 'CREDIT') {
-        accountReport.creditTotal += entry.amount.toNumber();
+        totals[key].credit += toMinorUnits(entry.amount);
       } else {
-        accountReport.debitTotal += entry.amount.toNumber();
+        totals[key].debit += toMinorUnits(entry.amount);
       }
+    }
 
-      accountReport.netChange = accountReport.creditTotal - accountReport.debitTotal;
-      reconciliationReport.summary.totalAmount += entry.amount.toNumber();
+    // Minor-unit totals are reported as strings (bigint isn't JSON-safe)
+    for (const [key, { credit, debit }] of Object.entries(totals)) {
+      Object.assign(reconciliationReport.accounts[key], {
+        creditTotal: credit.toString(),
+        debitTotal: debit.toString(),
+        netChange: (credit - debit).toString(),
+      });
     }
 
     reconciliationReport.summary.totalAccounts = Object.keys(
@@ -347,6 +1248,21 @@ export class LedgerService {
     return reconciliationReport;
   }
 
+  /**
+   * Get an account by ID
+   */
+  async getAccount(accountId: string): Promise<Account> {
+    const account = await this.prisma.account.findUnique({
+      where: { id: accountId },
+    });
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+
+    return account;
+  }
+
   /**
    * Get account balances for user
    */
@@ -360,9 +1276,11 @@ export class LedgerService {
       id: account.id,
       type: account.type,
       currency: account.currency,
-      balance: account.balance.toNumber(),
-      available: account.available.toNumber(),
-      pending: account.pending.toNumber(),
+      // Integer minor units as strings; divide by 10^exponent for display
+      balance: account.balance.toFixed(0),
+      available: account.available.toFixed(0),
+      pending: account.pending.toFixed(0),
+      exponent: getCurrency(account.currency).exponent,
       frozen: account.frozen,
       provider: account.provider,
       updatedAt: account.updatedAt,
@@ -380,7 +1298,7 @@ export class LedgerService {
         const createdEntries: LedgerEntry[] = [];
 
         for (const entry of entries) {
-          const created = await this.createLedgerEntry(tx as any, entry);
+          const created = await this.createLedgerEntry(entry, tx);
           createdEntries.push(created);
         }
 
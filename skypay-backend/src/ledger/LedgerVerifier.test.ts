@@ -0,0 +1,198 @@
+// skypay-backend/src/ledger/LedgerVerifier.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { LedgerVerifier } from './LedgerVerifier';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+const account = (
+  id: string,
+  balance: number,
+  pending = 0,
+  overrides: Record<string, any> = {}
+) => ({
+  id,
+  type: 'USER',
+  systemCode: null,
+  currency: 'USD',
+  balance: decimal(balance),
+  available: decimal(balance - pending),
+  pending: decimal(pending),
+  ...overrides,
+});
+
+const setup = () => {
+  const prisma: any = {
+    ledgerVerificationRun: {
+      create: jest.fn().mockResolvedValue({ id: 'run-1' }),
+      update: jest.fn(async ({ data }: any) => ({ id: 'run-1', ...data })),
+    },
+    ledgerCorrection: {
+      updateMany: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(async ({ data }: any) => ({ id: 'correction-1', ...data })),
+    },
+    account: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    // Ledger history: 1,000 credited and 200 debited on `ok`, 500 credited on `drifted`
+    ledgerEntry: {
+      groupBy: jest.fn().mockResolvedValue([
+        { accountId: 'ok', direction: 'CREDIT', _sum: { amount: decimal(1000) } },
+        { accountId: 'ok', direction: 'DEBIT', _sum: { amount: decimal(200) } },
+        { accountId: 'drifted', direction: 'CREDIT', _sum: { amount: decimal(500) } },
+      ]),
+    },
+    hold: {
+      groupBy: jest.fn().mockResolvedValue([{ accountId: 'ok', _sum: { amount: decimal(300) } }]),
+    },
+    auditLog: { create: jest.fn() },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    postDriftAdjustment: jest.fn().mockResolvedValue({ id: 'journal-1' }),
+  };
+  const publisher: any = { publish: jest.fn() };
+
+  return {
+    prisma,
+    ledgerService,
+    publisher,
+    verifier: new LedgerVerifier(prisma as PrismaClient, ledgerService, publisher),
+  };
+};
+
+describe('LedgerVerifier.verifyAll', () => {
+  it('proposes corrections for accounts whose cached balance drifted from the ledger', async () => {
+    const { prisma, publisher, verifier } = setup();
+    prisma.account.findMany
+      .mockResolvedValueOnce([
+        account('ok', 800, 300),
+        account('drifted', 650),
+        account('suspense', 10, 0, { type: 'SYSTEM', systemCode: 'SUSPENSE' }),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const run = await verifier.verifyAll();
+
+    expect(prisma.ledgerCorrection.updateMany).toHaveBeenCalledWith({
+      where: { status: 'PROPOSED' },
+      data: { status: 'SUPERSEDED' },
+    });
+    // Suspense drift is reported but never corrected
+    expect(prisma.ledgerCorrection.create).toHaveBeenCalledTimes(1);
+    expect(prisma.ledgerCorrection.create.mock.calls[0][0].data).toMatchObject({
+      runId: 'run-1',
+      accountId: 'drifted',
+      cachedBalance: '650',
+      expectedBalance: '500',
+    });
+    expect(run).toMatchObject({
+      accountsChecked: 3,
+      discrepancyCount: 2,
+      summary: { USD: { accounts: 2, netBalanceDifference: '160' } },
+    });
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'compliance:alerts',
+      expect.objectContaining({ type: 'LEDGER_DRIFT', discrepancyCount: 2 })
+    );
+  });
+
+  it('reads each batch of accounts and their entries from one snapshot', async () => {
+    const { prisma, verifier } = setup();
+    prisma.account.findMany
+      .mockResolvedValueOnce([account('ok', 800, 300)])
+      .mockResolvedValueOnce([]);
+
+    await verifier.verifyAll();
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: 'RepeatableRead',
+    });
+  });
+
+  it('counts active holds as pending', async () => {
+    const { prisma, publisher, verifier } = setup();
+    prisma.account.findMany
+      .mockResolvedValueOnce([account('ok', 800, 0)])
+      .mockResolvedValueOnce([]);
+
+    const run: any = await verifier.verifyAll();
+
+    expect(run.discrepancies[0]).toMatchObject({
+      accountId: 'ok',
+      cached: { balance: '800', available: '800', pending: '0' },
+      expected: { balance: '800', available: '500', pending: '300' },
+      balanceDifference: '0',
+    });
+    expect(publisher.publish).toHaveBeenCalled();
+  });
+
+  it('stays quiet when every account agrees with its ledger', async () => {
+    const { prisma, publisher, verifier } = setup();
+    prisma.account.findMany
+      .mockResolvedValueOnce([account('ok', 800, 300), account('drifted', 500)])
+      .mockResolvedValueOnce([]);
+
+    const run = await verifier.verifyAll();
+
+    expect(run.discrepancyCount).toBe(0);
+    expect(prisma.ledgerCorrection.create).not.toHaveBeenCalled();
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+});
+
+describe('LedgerVerifier.approveCorrection', () => {
+  const proposed = {
+    id: 'correction-1',
+    runId: 'run-1',
+    status: 'PROPOSED',
+    accountId: 'drifted',
+    cachedBalance: decimal(650),
+    expectedBalance: decimal(500),
+  };
+
+  it('books the missing history against suspense and re-derives available', async () => {
+    const { prisma, ledgerService, verifier } = setup();
+    prisma.ledgerCorrection.findUnique.mockResolvedValue(proposed);
+    prisma.account.findUnique.mockResolvedValue(
+      account('drifted', 650, 0, { available: decimal(0) })
+    );
+
+    const applied = await verifier.approveCorrection('correction-1', 'admin-1', 'Checked');
+
+    expect(ledgerService.postDriftAdjustment).toHaveBeenCalledWith(
+      expect.objectContaining({ accountId: 'drifted', difference: decimal(150) }),
+      prisma
+    );
+    expect(prisma.account.update).toHaveBeenCalledWith({
+      where: { id: 'drifted' },
+      data: { pending: decimal(0), available: decimal(650) },
+    });
+    expect(applied).toMatchObject({ status: 'APPLIED', journalId: 'journal-1' });
+  });
+
+  it('refuses a correction for an account that moved since it was proposed', async () => {
+    const { prisma, ledgerService, verifier } = setup();
+    prisma.ledgerCorrection.findUnique.mockResolvedValue(proposed);
+    prisma.account.findUnique.mockResolvedValue(account('drifted', 700));
+
+    await expect(verifier.approveCorrection('correction-1', 'admin-1')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(ledgerService.postDriftAdjustment).not.toHaveBeenCalled();
+  });
+
+  it('refuses a correction that was already reviewed', async () => {
+    const { prisma, verifier } = setup();
+    prisma.ledgerCorrection.findUnique.mockResolvedValue({ ...proposed, status: 'REJECTED' });
+
+    await expect(verifier.approveCorrection('correction-1', 'admin-1')).rejects.toThrow(
+      'Correction is rejected'
+    );
+  });
+});
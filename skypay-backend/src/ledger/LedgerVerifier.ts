@@ -0,0 +1,395 @@
+// skypay-backend/src/ledger/LedgerVerifier.ts
+import {
+  PrismaClient,
+  Prisma,
+  Account,
+  LedgerCorrection,
+  LedgerVerificationRun,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { LedgerService } from './LedgerService';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+
+export interface AccountDrift {
+  accountId: string;
+  currency: string;
+  accountType: string;
+  systemCode: string | null;
+  cached: { balance: string; available: string; pending: string };
+  expected: { balance: string; available: string; pending: string };
+  balanceDifference: string;
+}
+
+interface ExpectedBalances {
+  balance: Decimal;
+  available: Decimal;
+  pending: Decimal;
+}
+
+export class LedgerVerifier {
+  constructor(
+    private prisma: PrismaClient,
+    private ledgerService: LedgerService,
+    private publisher: RealtimePublisher
+  ) {}
+
+  /**
+   * Recompute every account from its ledger entries and active holds,
+   * record discrepancies and propose corrections for review
+   */
+  async verifyAll(batchSize: number = 500): Promise<LedgerVerificationRun> {
+    const run = await this.prisma.ledgerVerificationRun.create({ data: {} });
+    const drifts: AccountDrift[] = [];
+    let accountsChecked = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      // One snapshot for the rows and their entries, so postings landing
+      // while the batch is read can't show up as drift
+      const { accounts, expected } = await this.prisma.$transaction(
+        async (tx) => {
+          const accounts = await tx.account.findMany({
+            orderBy: { id: 'asc' },
+            take: batchSize,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+          });
+          const expected = await this.computeExpected(accounts.map((a) => a.id), tx);
+          return { accounts, expected };
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead }
+      );
+
+      if (accounts.length === 0) {
+        break;
+      }
+
+      for (const account of accounts) {
+        const drift = this.compare(account, expected.get(account.id));
+        if (drift) {
+          drifts.push(drift);
+        }
+      }
+
+      accountsChecked += accounts.length;
+      cursor = accounts[accounts.length - 1].id;
+    }
+
+    const summary = this.summarizeByCurrency(drifts);
+
+    // Older open proposals are replaced by this run's view of the ledger
+    await this.prisma.ledgerCorrection.updateMany({
+      where: { status: 'PROPOSED' },
+      data: { status: 'SUPERSEDED' },
+    });
+
+    for (const drift of drifts) {
+      // Suspense absorbs corrections, so it is reported but never corrected
+      if (drift.systemCode === 'SUSPENSE') {
+        continue;
+      }
+
+      await this.prisma.ledgerCorrection.create({
+        data: {
+          runId: run.id,
+          accountId: drift.accountId,
+          currency: drift.currency,
+          cachedBalance: drift.cached.balance,
+          expectedBalance: drift.expected.balance,
+          cachedAvailable: drift.cached.available,
+          expectedAvailable: drift.expected.available,
+          cachedPending: drift.cached.pending,
+          expectedPending: drift.expected.pending,
+        },
+      });
+    }
+
+    const completed = await this.prisma.ledgerVerificationRun.update({
+      where: { id: run.id },
+      data: {
+        accountsChecked,
+        discrepancyCount: drifts.length,
+        discrepancies: drifts as any,
+        summary,
+        completedAt: new Date(),
+      },
+    });
+
+    logger.info('Ledger verification completed', {
+      runId: run.id,
+      accountsChecked,
+      discrepancies: drifts.length,
+    });
+
+    if (drifts.length > 0) {
+      await this.publisher.publish('compliance:alerts', {
+        type: 'LEDGER_DRIFT',
+        severity: 'HIGH',
+        runId: run.id,
+        discrepancyCount: drifts.length,
+        byCurrency: summary,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return completed;
+  }
+
+  /**
+   * Get a verification run with its proposed corrections
+   */
+  async getRun(runId?: string): Promise<any> {
+    const run = await this.prisma.ledgerVerificationRun.findFirst({
+      where: runId ? { id: runId } : {},
+      orderBy: { startedAt: 'desc' },
+      include: { corrections: true },
+    });
+
+    if (!run) {
+      throw new AppError('Verification run not found', 404);
+    }
+
+    return run;
+  }
+
+  /**
+   * List corrections by status
+   */
+  async listCorrections(status: string = 'PROPOSED'): Promise<LedgerCorrection[]> {
+    return this.prisma.ledgerCorrection.findMany({
+      where: { status: status as any },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Apply an approved correction. The cached balance is treated as what
+   * the customer was shown: missing history is booked against SUSPENSE and
+   * available/pending are re-derived from balance and active holds.
+   */
+  async approveCorrection(
+    correctionId: string,
+    reviewerId: string,
+    note?: string
+  ): Promise<LedgerCorrection> {
+    return this.prisma.$transaction(async (tx) => {
+      const correction = await tx.ledgerCorrection.findUnique({
+        where: { id: correctionId },
+      });
+
+      if (!correction) {
+        throw new AppError('Correction not found', 404);
+      }
+
+      if (correction.status !== 'PROPOSED') {
+        throw new AppError(`Correction is ${correction.status.toLowerCase()}`, 400);
+      }
+
+      const account = await tx.account.findUnique({
+        where: { id: correction.accountId },
+      });
+
+      if (!account) {
+        throw new AppError('Account not found', 404);
+      }
+
+      // Refuse to apply if the account moved since the proposal was made
+      const current = (await this.computeExpected([account.id], tx)).get(account.id);
+      const expectedBalance = current?.balance || new Decimal(0);
+      if (
+        !account.balance.equals(correction.cachedBalance) ||
+        !expectedBalance.equals(correction.expectedBalance)
+      ) {
+        throw new AppError('Account changed since proposal; re-run verification', 409);
+      }
+
+      const difference = account.balance.minus(expectedBalance);
+      let journalId: string | undefined;
+
+      if (!difference.isZero()) {
+        const journal = await this.ledgerService.postDriftAdjustment(
+          {
+            accountId: account.id,
+            currency: account.currency,
+            difference,
+            reason: `Ledger drift correction ${correction.id}`,
+            metadata: { correctionId: correction.id, runId: correction.runId, reviewerId },
+          },
+          tx
+        );
+        journalId = journal.id;
+      }
+
+      const pending = current?.pending || new Decimal(0);
+      await tx.account.update({
+        where: { id: account.id },
+        data: {
+          pending,
+          available: account.balance.minus(pending),
+        },
+      });
+
+      const applied = await tx.ledgerCorrection.update({
+        where: { id: correction.id },
+        data: {
+          status: 'APPLIED',
+          reviewedBy: reviewerId,
+          reviewNote: note,
+          journalId,
+          reviewedAt: new Date(),
+          appliedAt: new Date(),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          type: 'ADMIN_ACTION',
+          userId: reviewerId,
+          entityType: 'ACCOUNT',
+          entityId: account.id,
+          beforeState: {
+            balance: account.balance.toString(),
+            available: account.available.toString(),
+            pending: account.pending.toString(),
+          },
+          afterState: {
+            balance: account.balance.toString(),
+            available: account.balance.minus(pending).toString(),
+            pending: pending.toString(),
+          },
+          metadata: { action: 'LEDGER_CORRECTION', correctionId: correction.id, journalId },
+        },
+      });
+
+      return applied;
+    });
+  }
+
+  /**
+   * Reject a proposed correction
+   */
+  async rejectCorrection(
+    correctionId: string,
+    reviewerId: string,
+    note?: string
+  ): Promise<LedgerCorrection> {
+    const { count } = await this.prisma.ledgerCorrection.updateMany({
+      where: { id: correctionId, status: 'PROPOSED' },
+      data: {
+        status: 'REJECTED',
+        reviewedBy: reviewerId,
+        reviewNote: note,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError('Proposed correction not found', 404);
+    }
+
+    return this.prisma.ledgerCorrection.findUniqueOrThrow({
+      where: { id: correctionId },
+    });
+  }
+
+  /**
+   * Expected balances: net of all ledger entries, pending = active holds
+   */
+  private async computeExpected(
+    accountIds: string[],
+    client: Pick<PrismaClient, 'ledgerEntry' | 'hold'> = this.prisma
+  ): Promise<Map<string, ExpectedBalances>> {
+    const [entryTotals, holdTotals] = await Promise.all([
+      client.ledgerEntry.groupBy({
+        by: ['accountId', 'direction'],
+        where: { accountId: { in: accountIds } },
+        _sum: { amount: true },
+      }),
+      client.hold.groupBy({
+        by: ['accountId'],
+        where: { accountId: { in: accountIds }, status: 'ACTIVE' },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const expected = new Map<string, ExpectedBalances>();
+    const get = (accountId: string) => {
+      if (!expected.has(accountId)) {
+        expected.set(accountId, {
+          balance: new Decimal(0),
+          available: new Decimal(0),
+          pending: new Decimal(0),
+        });
+      }
+      return expected.get(accountId)!;
+    };
+
+    for (const row of entryTotals) {
+      const amount = row._sum.amount || new Decimal(0);
+      const balances = get(row.accountId);
+      balances.balance =
+        row.direction === 'CREDIT' ? balances.balance.plus(amount) : balances.balance.minus(amount);
+    }
+
+    for (const row of holdTotals) {
+      get(row.accountId).pending = row._sum.amount || new Decimal(0);
+    }
+
+    for (const balances of expected.values()) {
+      balances.available = balances.balance.minus(balances.pending);
+    }
+
+    return expected;
+  }
+
+  private compare(account: Account, expected?: ExpectedBalances): AccountDrift | null {
+    const exp = expected || {
+      balance: new Decimal(0),
+      available: new Decimal(0),
+      pending: new Decimal(0),
+    };
+
+    if (
+      account.balance.equals(exp.balance) &&
+      account.available.equals(exp.available) &&
+      account.pending.equals(exp.pending)
+    ) {
+      return null;
+    }
+
+    return {
+      accountId: account.id,
+      currency: account.currency,
+      accountType: account.type,
+      systemCode: account.systemCode,
+      cached: {
+        balance: account.balance.toString(),
+        available: account.available.toString(),
+        pending: account.pending.toString(),
+      },
+      expected: {
+        balance: exp.balance.toString(),
+        available: exp.available.toString(),
+        pending: exp.pending.toString(),
+      },
+      balanceDifference: account.balance.minus(exp.balance).toString(),
+    };
+  }
+
+  private summarizeByCurrency(drifts: AccountDrift[]): Record<string, any> {
+    const summary: Record<string, { accounts: number; netBalanceDifference: string }> = {};
+
+    for (const drift of drifts) {
+      const current = summary[drift.currency] || { accounts: 0, netBalanceDifference: '0' };
+      summary[drift.currency] = {
+        accounts: current.accounts + 1,
+        netBalanceDifference: new Decimal(current.netBalanceDifference)
+          .plus(drift.balanceDifference)
+          .toString(),
+      };
+    }
+
+    return summary;
+  }
+}
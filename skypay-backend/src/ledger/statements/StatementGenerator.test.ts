@@ -0,0 +1,175 @@
+// skypay-backend/src/ledger/statements/StatementGenerator.test.ts
+import fs from 'fs';
+import path from 'path';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { StatementFormat, StatementGenerator } from './StatementGenerator';
+import { escapeCsvField } from './csv';
+
+// Rendered statements are compared byte for byte with these files
+const golden = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+const entry = (
+  id: string,
+  type: string,
+  direction: 'CREDIT' | 'DEBIT',
+  amount: string,
+  settledAt: string,
+  referenceId: string | null,
+  description: string | null
+) => ({
+  id,
+  type,
+  direction,
+  amount: new Prisma.Decimal(amount),
+  settledAt: new Date(settledAt),
+  createdAt: new Date(settledAt),
+  referenceId,
+  description,
+});
+
+const setup = (currency = 'USD') => {
+  const prisma: any = {
+    account: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'acct-0000000012345678',
+        type: 'FIAT',
+        currency,
+        user: { firstName: 'Ada', lastName: 'Obi', email: 'ada@example.com' },
+      }),
+    },
+  };
+  const ledgerService: any = {
+    getBalanceAsOf: jest.fn().mockResolvedValue(150000n),
+    getSettledEntries: jest.fn().mockResolvedValue([
+      entry(
+        'entry-1',
+        'DEPOSIT',
+        'CREDIT',
+        '250000',
+        '2024-03-04T09:15:00.000Z',
+        'brg_dep_001',
+        'Deposit via Bridge'
+      ),
+      entry(
+        'entry-2',
+        'FEE',
+        'DEBIT',
+        '250',
+        '2024-03-04T09:15:00.000Z',
+        'brg_dep_001',
+        'Fee, "cross-border" & FX'
+      ),
+      entry(
+        'entry-3',
+        'WITHDRAWAL',
+        'DEBIT',
+        '420075',
+        '2024-03-18T16:40:30.000Z',
+        null,
+        '=HYPERLINK("x") <payout>'
+      ),
+    ]),
+  };
+
+  return {
+    prisma,
+    ledgerService,
+    statements: new StatementGenerator(prisma as PrismaClient, ledgerService),
+  };
+};
+
+const periodStart = new Date('2024-03-01T00:00:00.000Z');
+const periodEnd = new Date('2024-03-31T23:59:59.999Z');
+
+describe('StatementGenerator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-04-01T06:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs the balance from the opening balance through every line', async () => {
+    const { ledgerService, statements } = setup();
+
+    const statement = await statements.build('acct-0000000012345678', periodStart, periodEnd);
+
+    expect(ledgerService.getBalanceAsOf).toHaveBeenCalledWith(
+      'acct-0000000012345678',
+      new Date(periodStart.getTime() - 1)
+    );
+    expect(statement.lines.map((line) => line.runningBalance)).toEqual([
+      400000n,
+      399750n,
+      -20325n,
+    ]);
+    expect(statement).toMatchObject({
+      statementId: '12345678-20240301',
+      openingBalance: 150000n,
+      closingBalance: -20325n,
+      totalCredits: 250000n,
+      totalDebits: 420325n,
+      account: { holderName: 'Ada Obi' },
+    });
+  });
+
+  it.each([
+    ['csv', 'statement.csv'],
+    ['mt940', 'statement.sta'],
+    ['camt053', 'statement.xml'],
+  ] as [StatementFormat, string][])('renders %s as in %s', async (format, file) => {
+    const { statements } = setup();
+
+    const rendered = await statements.generate(
+      'acct-0000000012345678',
+      periodStart,
+      periodEnd,
+      format
+    );
+
+    expect(rendered.filename).toBe(`statement-12345678-20240301.${file.split('.')[1]}`);
+    expect(rendered.body).toBe(golden(file));
+  });
+
+  it('renders a PDF', async () => {
+    const { statements } = setup();
+
+    const rendered = await statements.generate(
+      'acct-0000000012345678',
+      periodStart,
+      periodEnd,
+      'pdf'
+    );
+
+    expect(rendered.contentType).toBe('application/pdf');
+    expect((rendered.body as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('only renders bank formats for fiat accounts', async () => {
+    const { statements } = setup('USST');
+
+    await expect(
+      statements.generate('acct-0000000012345678', periodStart, periodEnd, 'mt940')
+    ).rejects.toThrow('mt940 statements are only available for fiat accounts');
+  });
+
+  it('refuses a period that ends before it starts', async () => {
+    const { prisma, statements } = setup();
+
+    await expect(statements.build('acct-0000000012345678', periodEnd, periodStart)).rejects.toThrow(
+      'startDate must be before endDate'
+    );
+    expect(prisma.account.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('escapeCsvField', () => {
+  it('neutralises formulas but leaves negative amounts as numbers', () => {
+    expect(escapeCsvField('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+    expect(escapeCsvField('-1+2')).toBe("'-1+2");
+    expect(escapeCsvField('-203.25')).toBe('-203.25');
+    expect(escapeCsvField('a "b", c')).toBe('"a ""b"", c"');
+  });
+});
@@ -0,0 +1,220 @@
+// skypay-backend/src/ledger/statements/StatementGenerator.ts
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../../utils/errors';
+import { LedgerService } from '../LedgerService';
+import { MinorUnits, getCurrency, toMinorUnits } from '../../currency/currencies';
+import { renderCsv } from './csv';
+import { renderPdf } from './pdf';
+import { renderMt940 } from './mt940';
+import { renderCamt053 } from './camt053';
+
+export type StatementFormat = 'json' | 'csv' | 'pdf' | 'mt940' | 'camt053';
+
+export const STATEMENT_FORMATS: StatementFormat[] = ['json', 'csv', 'pdf', 'mt940', 'camt053'];
+
+export interface StatementLine {
+  id: string;
+  bookedAt: Date;
+  type: string;
+  direction: 'CREDIT' | 'DEBIT';
+  amount: MinorUnits;
+  runningBalance: MinorUnits;
+  referenceId: string | null;
+  description: string | null;
+}
+
+export interface StatementData {
+  statementId: string;
+  account: {
+    id: string;
+    type: string;
+    currency: string;
+    holderName: string | null;
+  };
+  exponent: number;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: MinorUnits;
+  closingBalance: MinorUnits;
+  totalCredits: MinorUnits;
+  totalDebits: MinorUnits;
+  lines: StatementLine[];
+  generatedAt: Date;
+}
+
+export interface RenderedStatement {
+  contentType: string;
+  filename: string;
+  body: Buffer | string;
+}
+
+// Guard against unbounded exports; callers narrow the date range instead
+const MAX_STATEMENT_LINES = 20000;
+
+export class StatementGenerator {
+  constructor(
+    private prisma: PrismaClient,
+    private ledgerService: LedgerService
+  ) {}
+
+  /**
+   * Build statement data: opening balance, settled lines with running
+   * balance, and closing balance for [startDate, endDate]
+   */
+  async build(accountId: string, startDate: Date, endDate: Date): Promise<StatementData> {
+    if (startDate > endDate) {
+      throw new AppError('startDate must be before endDate', 400);
+    }
+
+    const account = await this.prisma.account.findUnique({
+      where: { id: accountId },
+      include: { user: { select: { firstName: true, lastName: true, email: true } } },
+    });
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+
+    const openingAsOf = new Date(startDate.getTime() - 1);
+    const [openingBalance, entries] = await Promise.all([
+      this.ledgerService.getBalanceAsOf(account.id, openingAsOf),
+      this.ledgerService.getSettledEntries(
+        account.id,
+        openingAsOf,
+        endDate,
+        MAX_STATEMENT_LINES + 1
+      ),
+    ]);
+
+    if (entries.length > MAX_STATEMENT_LINES) {
+      throw new AppError(
+        `Statement exceeds ${MAX_STATEMENT_LINES} lines; narrow the date range`,
+        400
+      );
+    }
+
+    let running = openingBalance;
+    let totalCredits = 0n;
+    let totalDebits = 0n;
+
+    const lines: StatementLine[] = entries.map((entry) => {
+      const amount = toMinorUnits(entry.amount);
+      if (entry.direction === 'CREDIT') {
+        running += amount;
+        totalCredits += amount;
+      } else {
+        running -= amount;
+        totalDebits += amount;
+      }
+
+      return {
+        id: entry.id,
+        bookedAt: entry.settledAt || entry.createdAt,
+        type: entry.type,
+        direction: entry.direction,
+        amount,
+        runningBalance: running,
+        referenceId: entry.referenceId,
+        description: entry.description,
+      };
+    });
+
+    const holderName = account.user
+      ? [account.user.firstName, account.user.lastName].filter(Boolean).join(' ') ||
+        account.user.email
+      : null;
+
+    return {
+      statementId: `${account.id.slice(-8)}-${startDate.toISOString().slice(0, 10).replace(/-/g, '')}`,
+      account: {
+        id: account.id,
+        type: account.type,
+        currency: account.currency,
+        holderName,
+      },
+      exponent: getCurrency(account.currency).exponent,
+      periodStart: startDate,
+      periodEnd: endDate,
+      openingBalance,
+      closingBalance: running,
+      totalCredits,
+      totalDebits,
+      lines,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Build and render a statement in the requested format
+   */
+  async generate(
+    accountId: string,
+    startDate: Date,
+    endDate: Date,
+    format: StatementFormat
+  ): Promise<RenderedStatement> {
+    const statement = await this.build(accountId, startDate, endDate);
+    const basename = `statement-${statement.statementId}`;
+
+    if ((format === 'mt940' || format === 'camt053') && !this.isIsoFiat(statement)) {
+      throw new AppError(`${format} statements are only available for fiat accounts`, 400);
+    }
+
+    switch (format) {
+      case 'csv':
+        return {
+          contentType: 'text/csv; charset=utf-8',
+          filename: `${basename}.csv`,
+          body: renderCsv(statement),
+        };
+      case 'pdf':
+        return {
+          contentType: 'application/pdf',
+          filename: `${basename}.pdf`,
+          body: await renderPdf(statement),
+        };
+      case 'mt940':
+        return {
+          contentType: 'text/plain; charset=utf-8',
+          filename: `${basename}.sta`,
+          body: renderMt940(statement),
+        };
+      case 'camt053':
+        return {
+          contentType: 'application/xml; charset=utf-8',
+          filename: `${basename}.xml`,
+          body: renderCamt053(statement),
+        };
+      default:
+        return {
+          contentType: 'application/json; charset=utf-8',
+          filename: `${basename}.json`,
+          body: JSON.stringify(this.toJson(statement)),
+        };
+    }
+  }
+
+  /**
+   * JSON-safe view of a statement (minor units as strings)
+   */
+  toJson(statement: StatementData): any {
+    return {
+      ...statement,
+      openingBalance: statement.openingBalance.toString(),
+      closingBalance: statement.closingBalance.toString(),
+      totalCredits: statement.totalCredits.toString(),
+      totalDebits: statement.totalDebits.toString(),
+      lines: statement.lines.map((line) => ({
+        ...line,
+        amount: line.amount.toString(),
+        runningBalance: line.runningBalance.toString(),
+      })),
+    };
+  }
+
+  // SWIFT and ISO 20022 require a three-letter ISO 4217 currency code
+  private isIsoFiat(statement: StatementData): boolean {
+    const currency = getCurrency(statement.account.currency);
+    return currency.kind === 'FIAT' && /^[A-Z]{3}$/.test(currency.code);
+  }
+}
@@ -0,0 +1,104 @@
+// skypay-backend/src/ledger/statements/camt053.ts
+import { formatAmount } from '../../currency/currencies';
+import { StatementData, StatementLine } from './StatementGenerator';
+
+const NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:camt.053.001.02';
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isoDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function amount(value: bigint, currency: string): string {
+  const abs = value < 0n ? -value : value;
+  return `<Amt Ccy="${currency}">${formatAmount(abs, currency)}</Amt>`;
+}
+
+function balance(code: string, value: bigint, date: Date, currency: string): string {
+  return [
+    '      <Bal>',
+    `        <Tp><CdOrPrtry><Cd>${code}</Cd></CdOrPrtry></Tp>`,
+    `        ${amount(value, currency)}`,
+    `        <CdtDbtInd>${value < 0n ? 'DBIT' : 'CRDT'}</CdtDbtInd>`,
+    `        <Dt><Dt>${isoDate(date)}</Dt></Dt>`,
+    '      </Bal>',
+  ].join('\n');
+}
+
+function entry(line: StatementLine, currency: string): string {
+  return [
+    '      <Ntry>',
+    `        <NtryRef>${xml(line.id)}</NtryRef>`,
+    `        ${amount(line.amount, currency)}`,
+    `        <CdtDbtInd>${line.direction === 'CREDIT' ? 'CRDT' : 'DBIT'}</CdtDbtInd>`,
+    '        <Sts>BOOK</Sts>',
+    `        <BookgDt><DtTm>${isoDateTime(line.bookedAt)}</DtTm></BookgDt>`,
+    `        <ValDt><Dt>${isoDate(line.bookedAt)}</Dt></ValDt>`,
+    `        <AcctSvcrRef>${xml(line.id)}</AcctSvcrRef>`,
+    `        <BkTxCd><Prtry><Cd>${xml(line.type)}</Cd><Issr>SKYPAY</Issr></Prtry></BkTxCd>`,
+    '        <NtryDtls><TxDtls>',
+    `          <Refs><EndToEndId>${xml(line.referenceId || 'NOTPROVIDED')}</EndToEndId></Refs>`,
+    ...(line.description
+      ? [`          <RmtInf><Ustrd>${xml(line.description.slice(0, 140))}</Ustrd></RmtInf>`]
+      : []),
+    '        </TxDtls></NtryDtls>',
+    `        <AddtlNtryInf>Balance after entry: ${formatAmount(line.runningBalance, currency)} ${currency}</AddtlNtryInf>`,
+    '      </Ntry>',
+  ].join('\n');
+}
+
+/**
+ * Render a statement as an ISO 20022 camt.053 bank-to-customer statement
+ */
+export function renderCamt053(statement: StatementData): string {
+  const { currency } = statement.account;
+  const createdAt = isoDateTime(statement.generatedAt);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<Document xmlns="${NAMESPACE}">`,
+    '  <BkToCstmrStmt>',
+    '    <GrpHdr>',
+    `      <MsgId>${xml(statement.statementId)}</MsgId>`,
+    `      <CreDtTm>${createdAt}</CreDtTm>`,
+    '    </GrpHdr>',
+    '    <Stmt>',
+    `      <Id>${xml(statement.statementId)}</Id>`,
+    `      <CreDtTm>${createdAt}</CreDtTm>`,
+    '      <FrToDt>',
+    `        <FrDtTm>${isoDateTime(statement.periodStart)}</FrDtTm>`,
+    `        <ToDtTm>${isoDateTime(statement.periodEnd)}</ToDtTm>`,
+    '      </FrToDt>',
+    '      <Acct>',
+    `        <Id><Othr><Id>${xml(statement.account.id)}</Id></Othr></Id>`,
+    `        <Ccy>${currency}</Ccy>`,
+    ...(statement.account.holderName
+      ? [`        <Ownr><Nm>${xml(statement.account.holderName)}</Nm></Ownr>`]
+      : []),
+    '      </Acct>',
+    balance('OPBD', statement.openingBalance, statement.periodStart, currency),
+    balance('CLBD', statement.closingBalance, statement.periodEnd, currency),
+    '      <TxsSummry>',
+    `        <TtlNtries><NbOfNtries>${statement.lines.length}</NbOfNtries></TtlNtries>`,
+    `        <TtlCdtNtries><Sum>${formatAmount(statement.totalCredits, currency)}</Sum></TtlCdtNtries>`,
+    `        <TtlDbtNtries><Sum>${formatAmount(statement.totalDebits, currency)}</Sum></TtlDbtNtries>`,
+    '      </TxsSummry>',
+    ...statement.lines.map((line) => entry(line, currency)),
+    '    </Stmt>',
+    '  </BkToCstmrStmt>',
+    '</Document>',
+    '',
+  ].join('\n');
+}
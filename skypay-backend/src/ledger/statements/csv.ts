@@ -0,0 +1,70 @@
+// skypay-backend/src/ledger/statements/csv.ts
+import { formatAmount } from '../../currency/currencies';
+import { StatementData } from './StatementGenerator';
+
+const HEADER = [
+  'Date',
+  'Reference',
+  'Type',
+  'Description',
+  'Debit',
+  'Credit',
+  'Balance',
+  'Currency',
+];
+
+export function escapeCsvField(value: string | null | undefined): string {
+  const text = value ?? '';
+  // Quote fields containing separators, and neutralise spreadsheet formulas;
+  // negative amounts are left as numbers
+  const isFormula = /^[=+\-@]/.test(text) && !/^-\d+(\.\d+)?$/.test(text);
+  const safe = isFormula ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Render a statement as CSV with opening and closing balance rows
+ */
+export function renderCsv(statement: StatementData): string {
+  const { currency } = statement.account;
+  const amount = (value: bigint) => formatAmount(value, currency);
+
+  const rows: string[][] = [HEADER];
+
+  rows.push([
+    statement.periodStart.toISOString(),
+    '',
+    'OPENING_BALANCE',
+    'Opening balance',
+    '',
+    '',
+    amount(statement.openingBalance),
+    currency,
+  ]);
+
+  for (const line of statement.lines) {
+    rows.push([
+      line.bookedAt.toISOString(),
+      line.referenceId || line.id,
+      line.type,
+      line.description || '',
+      line.direction === 'DEBIT' ? amount(line.amount) : '',
+      line.direction === 'CREDIT' ? amount(line.amount) : '',
+      amount(line.runningBalance),
+      currency,
+    ]);
+  }
+
+  rows.push([
+    statement.periodEnd.toISOString(),
+    '',
+    'CLOSING_BALANCE',
+    'Closing balance',
+    amount(statement.totalDebits),
+    amount(statement.totalCredits),
+    amount(statement.closingBalance),
+    currency,
+  ]);
+
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,81 @@
+// skypay-backend/src/ledger/statements/mt940.ts
+import { formatAmount } from '../../currency/currencies';
+import { StatementData, StatementLine } from './StatementGenerator';
+
+// Ledger entry types mapped to SWIFT transaction type identification codes
+const TRANSACTION_CODES: Record<string, string> = {
+  FEE: 'NCHG',
+  INTEREST: 'NINT',
+};
+
+/**
+ * SWIFT amounts use a comma decimal separator and always carry one
+ */
+function swiftAmount(value: bigint, currency: string): string {
+  const abs = value < 0n ? -value : value;
+  const formatted = formatAmount(abs, currency).replace('.', ',');
+  return formatted.includes(',') ? formatted : `${formatted},`;
+}
+
+function swiftDate(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, '');
+}
+
+/**
+ * Restrict free text to the SWIFT X character set
+ */
+function swiftText(value: string, maxLength: number): string {
+  return value
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
+
+function balanceField(tag: string, value: bigint, date: Date, currency: string): string {
+  const mark = value < 0n ? 'D' : 'C';
+  return `:${tag}:${mark}${swiftDate(date)}${currency}${swiftAmount(value, currency)}`;
+}
+
+function transactionFields(line: StatementLine, currency: string): string[] {
+  const date = swiftDate(line.bookedAt);
+  const entryDate = date.slice(2);
+  const mark = line.direction === 'CREDIT' ? 'C' : 'D';
+  const code = TRANSACTION_CODES[line.type] || 'NTRF';
+  const reference = swiftText(line.referenceId || 'NONREF', 16) || 'NONREF';
+  const bankReference = swiftText(line.id, 16);
+
+  const narrative = swiftText(
+    `${line.type} ${line.description || ''} BAL ${swiftAmount(line.runningBalance, currency)}${
+      line.runningBalance < 0n ? ' DR' : ''
+    }`,
+    390
+  );
+
+  // :86: allows up to 6 lines of 65 characters
+  const narrativeLines = narrative.match(/.{1,65}/g) || [''];
+
+  return [
+    `:61:${date}${entryDate}${mark}${swiftAmount(line.amount, currency)}${code}${reference}//${bankReference}`,
+    `:86:${narrativeLines.join('\r\n')}`,
+  ];
+}
+
+/**
+ * Render a statement as a SWIFT MT940 customer statement message
+ */
+export function renderMt940(statement: StatementData): string {
+  const { currency } = statement.account;
+
+  const fields = [
+    // The statement id without its separator fits the 16 characters allowed
+    `:20:${swiftText(statement.statementId.replace(/-/g, ''), 16)}`,
+    `:25:${swiftText(statement.account.id, 35)}`,
+    ':28C:00001/001',
+    balanceField('60F', statement.openingBalance, statement.periodStart, currency),
+    ...statement.lines.flatMap((line) => transactionFields(line, currency)),
+    balanceField('62F', statement.closingBalance, statement.periodEnd, currency),
+  ];
+
+  return `${fields.join('\r\n')}\r\n-`;
+}
@@ -0,0 +1,127 @@
+// skypay-backend/src/ledger/statements/pdf.ts
+import PDFDocument from 'pdfkit';
+import { formatAmount } from '../../currency/currencies';
+import { StatementData } from './StatementGenerator';
+
+const BRAND_COLOR = '#0066FF';
+const TEXT_COLOR = '#1A1A1A';
+const MUTED_COLOR = '#6B7280';
+
+const COLUMNS = [
+  { label: 'Date', width: 70, align: 'left' as const },
+  { label: 'Description', width: 185, align: 'left' as const },
+  { label: 'Debit', width: 85, align: 'right' as const },
+  { label: 'Credit', width: 85, align: 'right' as const },
+  { label: 'Balance', width: 90, align: 'right' as const },
+];
+
+/**
+ * Render a branded PDF statement
+ */
+export function renderPdf(statement: StatementData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 40, bufferPages: true });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { currency } = statement.account;
+    const amount = (value: bigint) => formatAmount(value, currency);
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+
+    // Header band
+    doc.rect(0, 0, doc.page.width, 80).fill(BRAND_COLOR);
+    doc.fillColor('#FFFFFF').fontSize(22).font('Helvetica-Bold').text('SkyPay', 40, 28);
+    doc.fontSize(12).font('Helvetica').text('Account Statement', 40, 30, { align: 'right' });
+
+    doc.moveDown(3).fillColor(TEXT_COLOR).fontSize(10);
+    doc.text(`Account holder: ${statement.account.holderName || '-'}`, 40, 100);
+    doc.text(`Account: ${statement.account.id} (${statement.account.type})`);
+    doc.text(`Currency: ${currency}`);
+    doc.text(`Period: ${day(statement.periodStart)} to ${day(statement.periodEnd)}`);
+    doc.text(`Statement: ${statement.statementId}`);
+
+    // Summary
+    doc.moveDown();
+    const summaryTop = doc.y;
+    doc.font('Helvetica-Bold').fillColor(BRAND_COLOR);
+    doc.text('Opening balance', 40, summaryTop);
+    doc.text('Money in', 170, summaryTop);
+    doc.text('Money out', 300, summaryTop);
+    doc.text('Closing balance', 430, summaryTop);
+    doc.font('Helvetica').fillColor(TEXT_COLOR);
+    doc.text(amount(statement.openingBalance), 40, summaryTop + 14);
+    doc.text(amount(statement.totalCredits), 170, summaryTop + 14);
+    doc.text(amount(statement.totalDebits), 300, summaryTop + 14);
+    doc.text(amount(statement.closingBalance), 430, summaryTop + 14);
+
+    const drawRow = (cells: string[], y: number, header = false) => {
+      let x = 40;
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica')
+        .fillColor(header ? '#FFFFFF' : TEXT_COLOR)
+        .fontSize(9);
+      COLUMNS.forEach((column, i) => {
+        doc.text(cells[i], x + 4, y + 5, {
+          width: column.width - 8,
+          align: column.align,
+          lineBreak: false,
+          ellipsis: true,
+        });
+        x += column.width;
+      });
+    };
+
+    const drawHeader = (y: number) => {
+      doc.rect(40, y, doc.page.width - 80, 20).fill(BRAND_COLOR);
+      drawRow(COLUMNS.map((c) => c.label), y, true);
+      return y + 20;
+    };
+
+    let y = drawHeader(summaryTop + 44);
+    const bottom = doc.page.height - 70;
+
+    if (statement.lines.length === 0) {
+      doc.font('Helvetica').fillColor(MUTED_COLOR).fontSize(9)
+        .text('No transactions in this period.', 44, y + 6);
+    }
+
+    statement.lines.forEach((line, index) => {
+      if (y + 20 > bottom) {
+        doc.addPage();
+        y = drawHeader(40);
+      }
+
+      if (index % 2 === 1) {
+        doc.rect(40, y, doc.page.width - 80, 20).fill('#F3F7FF');
+      }
+
+      drawRow(
+        [
+          day(line.bookedAt),
+          line.description || line.type,
+          line.direction === 'DEBIT' ? amount(line.amount) : '',
+          line.direction === 'CREDIT' ? amount(line.amount) : '',
+          amount(line.runningBalance),
+        ],
+        y
+      );
+      y += 20;
+    });
+
+    // Footer on every page
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR).text(
+        `Generated ${statement.generatedAt.toISOString()} - Page ${i + 1} of ${range.count}`,
+        40,
+        doc.page.height - 55,
+        { align: 'center', width: doc.page.width - 80, lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+}
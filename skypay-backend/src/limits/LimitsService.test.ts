@@ -0,0 +1,139 @@
+// skypay-backend/src/limits/LimitsService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { LimitsService } from './LimitsService';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const mockDb = (now: Date = new Date()) => {
+  const settlements = [
+    { type: 'FIAT_TO_TOKEN', amount: '500000', currency: 'NGN', ago: 10 * DAY },
+    { type: 'FIAT_TO_TOKEN', amount: '20000', currency: 'USD', ago: 3 * DAY },
+    { type: 'TOKEN_TO_FIAT', amount: '40000', currency: 'USD', ago: 1 * HOUR },
+    { type: 'FIAT_TO_TOKEN', amount: '30000', currency: 'USD', ago: 2 * HOUR },
+  ];
+
+  const db: any = {
+    user: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'user-1', verificationLevel: 'BASIC' }),
+    },
+    settlement: {
+      findMany: jest.fn(async ({ where }: any) =>
+        settlements
+          .filter((settlement) => where.type.in.includes(settlement.type))
+          .map((settlement) => ({
+            sourceAmount: new Prisma.Decimal(settlement.amount),
+            sourceCurrency: settlement.currency,
+            createdAt: new Date(now.getTime() - settlement.ago),
+          }))
+      ),
+    },
+    userLimitOverride: { findMany: jest.fn().mockResolvedValue([]) },
+    $executeRaw: jest.fn(),
+  };
+
+  return db;
+};
+
+const setup = (now?: Date) => {
+  const prisma = mockDb(now);
+  const fxService: any = {
+    getMidRate: jest.fn().mockResolvedValue({ rate: '0.001', source: 'test' }),
+  };
+
+  return { prisma, fxService, limits: new LimitsService(prisma as PrismaClient, fxService) };
+};
+
+describe('LimitsService.getLimits', () => {
+  it('sums each rolling window in the reference currency', async () => {
+    const now = new Date();
+    const { fxService, limits } = setup(now);
+
+    const usage = await limits.getLimits('user-1', now);
+    const deposits = usage.filter((u) => u.direction === 'DEPOSIT');
+
+    expect(fxService.getMidRate).toHaveBeenCalledWith('NGN', 'USD');
+    // BASIC allows 1,000 USD a day and 5,000 a month; 5,000 NGN is 5 USD
+    expect(deposits).toEqual([
+      {
+        direction: 'DEPOSIT',
+        window: 'DAILY',
+        limit: 100000n,
+        used: 30000n,
+        remaining: 70000n,
+        currency: 'USD',
+        overridden: false,
+        nextReleaseAt: new Date(now.getTime() - 2 * HOUR + DAY),
+      },
+      expect.objectContaining({
+        window: 'MONTHLY',
+        limit: 500000n,
+        used: 50500n,
+        remaining: 449500n,
+        nextReleaseAt: new Date(now.getTime() - 10 * DAY + 30 * DAY),
+      }),
+    ]);
+  });
+
+  it('uses a user override in place of the verification level limit', async () => {
+    const { prisma, limits } = setup();
+    prisma.userLimitOverride.findMany.mockResolvedValue([
+      { window: 'DAILY', amount: new Prisma.Decimal(20000) },
+    ]);
+
+    const usage = await limits.getLimits('user-1');
+    const daily = usage.find((u) => u.direction === 'DEPOSIT' && u.window === 'DAILY');
+
+    expect(daily).toMatchObject({ limit: 20000n, used: 30000n, remaining: 0n, overridden: true });
+  });
+});
+
+describe('LimitsService.assertWithinLimits', () => {
+  it('lets through an amount that fits the remaining headroom', async () => {
+    const { limits } = setup();
+
+    await expect(
+      limits.assertWithinLimits('user-1', 'FIAT_TO_TOKEN', 70000n, 'USD')
+    ).resolves.toBeUndefined();
+  });
+
+  it('refuses an amount past the daily limit with the headroom left', async () => {
+    const { limits } = setup();
+
+    await expect(
+      limits.assertWithinLimits('user-1', 'FIAT_TO_TOKEN', 70001n, 'USD')
+    ).rejects.toMatchObject({
+      message: 'Daily deposit limit exceeded',
+      statusCode: 400,
+      details: { limit: '100000', used: '30000', remaining: '70000', requested: '70001' },
+    });
+  });
+
+  it('counts only settlements of the same direction', async () => {
+    const { limits } = setup();
+
+    // 40,000 of the 50,000 daily withdrawal limit is used
+    await expect(
+      limits.assertWithinLimits('user-1', 'PAYOUT', 10001n, 'USD')
+    ).rejects.toMatchObject({ message: 'Daily withdrawal limit exceeded' });
+  });
+
+  it('locks the user and direction before reading usage in the creating transaction', async () => {
+    const { prisma, limits } = setup();
+    const tx = mockDb();
+    const calls: string[] = [];
+    tx.$executeRaw.mockImplementation(async () => calls.push('lock'));
+    tx.settlement.findMany.mockImplementation(async () => {
+      calls.push('usage');
+      return [];
+    });
+
+    await limits.assertWithinLimits('user-1', 'CROSS_BORDER', 1000n, 'USD', tx);
+
+    const [query, key] = tx.$executeRaw.mock.calls[0];
+    expect(query.join('?')).toContain('pg_advisory_xact_lock');
+    expect(key).toBe('limits:user-1:TRANSFER');
+    expect(calls).toEqual(['lock', 'usage']);
+    expect(prisma.settlement.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,357 @@
+// skypay-backend/src/limits/LimitsService.ts
+import {
+  LimitDirection,
+  LimitWindow,
+  Prisma,
+  PrismaClient,
+  SettlementState,
+  SettlementType,
+  User,
+  UserLimitOverride,
+} from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { FxService } from '../fx/FxService';
+import {
+  MinorUnits,
+  convertAmount,
+  parseAmount,
+  toDecimal,
+  toMinorUnits,
+} from '../currency/currencies';
+import { LIMIT_TIERS, LIMIT_WINDOW_MS, SETTLEMENT_DIRECTIONS } from './tiers';
+
+export interface LimitUsage {
+  direction: LimitDirection;
+  window: LimitWindow;
+  // Minor units of the reference currency
+  limit: MinorUnits;
+  used: MinorUnits;
+  remaining: MinorUnits;
+  currency: string;
+  overridden: boolean;
+  // When the oldest settlement counted leaves the window and frees headroom
+  nextReleaseAt: Date | null;
+}
+
+// A limit a settlement would exceed, described as the error refusing it
+export interface LimitBreach {
+  message: string;
+  details: {
+    limit: string;
+    used: string;
+    remaining: string;
+    requested: string;
+    currency: string;
+    nextReleaseAt: Date | null;
+  };
+}
+
+export interface SetLimitOverrideParams {
+  userId: string;
+  direction: LimitDirection;
+  window: LimitWindow;
+  // Minor units of the reference currency
+  amount: MinorUnits;
+  reason?: string;
+  expiresAt?: Date;
+}
+
+// Settlements in these states moved no money and don't count
+const UNCOUNTED_STATES: SettlementState[] = ['FAILED', 'EXPIRED', 'REVERSED'];
+
+const DIRECTIONS: LimitDirection[] = ['DEPOSIT', 'WITHDRAWAL', 'TRANSFER'];
+const WINDOWS: LimitWindow[] = ['DAILY', 'MONTHLY'];
+
+/**
+ * Rolling 24h and 30d spending limits per direction. Usage is summed from
+ * the settlements the user opened in the window, including those still in
+ * flight, converted into the reference currency at the current mid rate.
+ */
+export class LimitsService {
+  private referenceCurrency = config.limits.referenceCurrency;
+
+  constructor(
+    private prisma: PrismaClient,
+    private fxService: FxService
+  ) {}
+
+  /**
+   * Limits, usage and headroom for every direction and window
+   */
+  async getLimits(userId: string, now: Date = new Date()): Promise<LimitUsage[]> {
+    const user = await this.findUser(userId);
+    const usage: LimitUsage[] = [];
+
+    for (const direction of DIRECTIONS) {
+      usage.push(...(await this.usage(user, direction, now)));
+    }
+
+    return usage;
+  }
+
+  /**
+   * Refuse a settlement that would take the user past a limit. Pass the
+   * transaction that creates the settlement as `tx`: the user's direction
+   * then stays locked until it commits, so concurrent settlements can't
+   * both be let through on the same headroom.
+   */
+  async assertWithinLimits(
+    userId: string,
+    type: SettlementType,
+    amount: MinorUnits,
+    currency: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<void> {
+    const breach = await this.findLimitBreach(userId, type, amount, currency, tx);
+
+    if (breach) {
+      throw new AppError(breach.message, 400, breach.details);
+    }
+  }
+
+  /**
+   * The first limit a settlement would take the user past, if any. With
+   * `tx`, usage is read under the user's lock for the direction.
+   */
+  async findLimitBreach(
+    userId: string,
+    type: SettlementType,
+    amount: MinorUnits,
+    currency: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<LimitBreach | null> {
+    const direction = SETTLEMENT_DIRECTIONS[type];
+
+    if (tx) {
+      await this.lockUsage(tx, userId, direction);
+    }
+
+    const db = tx || this.prisma;
+    const user = await this.findUser(userId, db);
+    const requested = await this.toReference(amount, currency, new Map());
+
+    for (const usage of await this.usage(user, direction, new Date(), db)) {
+      if (requested > usage.remaining) {
+        const period = usage.window === 'DAILY' ? 'Daily' : 'Monthly';
+
+        return {
+          message: `${period} ${direction.toLowerCase()} limit exceeded`,
+          details: {
+            limit: usage.limit.toString(),
+            used: usage.used.toString(),
+            remaining: usage.remaining.toString(),
+            requested: requested.toString(),
+            currency: usage.currency,
+            nextReleaseAt: usage.nextReleaseAt,
+          },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Give a user their own limit for one direction and window
+   */
+  async setOverride(params: SetLimitOverrideParams, adminId: string): Promise<UserLimitOverride> {
+    await this.findUser(params.userId);
+
+    if (params.amount < 0n) {
+      throw new AppError('Limit must not be negative', 400);
+    }
+
+    const { userId, direction, window } = params;
+    const data = {
+      amount: toDecimal(params.amount),
+      reason: params.reason,
+      expiresAt: params.expiresAt ?? null,
+      createdBy: adminId,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const override = await tx.userLimitOverride.upsert({
+        where: { userId_direction_window: { userId, direction, window } },
+        update: data,
+        create: { userId, direction, window, ...data },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          type: 'ADMIN_ACTION',
+          userId: adminId,
+          entityType: 'USER',
+          entityId: userId,
+          afterState: {
+            direction,
+            window,
+            amount: params.amount.toString(),
+            currency: this.referenceCurrency,
+            expiresAt: params.expiresAt?.toISOString() ?? null,
+          },
+          metadata: { action: 'LIMIT_OVERRIDE_SET', reason: params.reason },
+        },
+      });
+
+      logger.info(`Limit override set for user ${userId}`, { direction, window, adminId });
+
+      return override;
+    });
+  }
+
+  /**
+   * Return a user to their verification level's limit
+   */
+  async removeOverride(
+    userId: string,
+    direction: LimitDirection,
+    window: LimitWindow,
+    adminId: string
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.userLimitOverride.deleteMany({
+        where: { userId, direction, window },
+      });
+
+      if (count === 0) {
+        throw new AppError('Limit override not found', 404);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          type: 'ADMIN_ACTION',
+          userId: adminId,
+          entityType: 'USER',
+          entityId: userId,
+          beforeState: { direction, window },
+          metadata: { action: 'LIMIT_OVERRIDE_REMOVE' },
+        },
+      });
+    });
+
+    logger.info(`Limit override removed for user ${userId}`, { direction, window, adminId });
+  }
+
+  /**
+   * Usage of one direction in both windows. One query covers both, since
+   * the daily window lies inside the monthly one.
+   */
+  private async usage(
+    user: User,
+    direction: LimitDirection,
+    now: Date,
+    db: Prisma.TransactionClient = this.prisma
+  ): Promise<LimitUsage[]> {
+    const monthStart = new Date(now.getTime() - LIMIT_WINDOW_MS.MONTHLY);
+    const types = (Object.keys(SETTLEMENT_DIRECTIONS) as SettlementType[]).filter(
+      (type) => SETTLEMENT_DIRECTIONS[type] === direction
+    );
+
+    const [settlements, overrides] = await Promise.all([
+      db.settlement.findMany({
+        where: {
+          userId: user.id,
+          type: { in: types },
+          currentState: { notIn: UNCOUNTED_STATES },
+          createdAt: { gt: monthStart },
+        },
+        select: { sourceAmount: true, sourceCurrency: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.userLimitOverride.findMany({
+        where: {
+          userId: user.id,
+          direction,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+      }),
+    ]);
+
+    const rates = new Map<string, string>();
+    const counted: { amount: MinorUnits; createdAt: Date }[] = [];
+
+    for (const settlement of settlements) {
+      counted.push({
+        amount: await this.toReference(
+          toMinorUnits(settlement.sourceAmount),
+          settlement.sourceCurrency,
+          rates
+        ),
+        createdAt: settlement.createdAt,
+      });
+    }
+
+    return WINDOWS.map((window) => {
+      const windowStart = now.getTime() - LIMIT_WINDOW_MS[window];
+      const inWindow = counted.filter((entry) => entry.createdAt.getTime() > windowStart);
+      const override = overrides.find((o) => o.window === window);
+
+      const limit = override
+        ? toMinorUnits(override.amount)
+        : parseAmount(LIMIT_TIERS[user.verificationLevel][direction][window], this.referenceCurrency);
+      const used = inWindow.reduce((sum, entry) => sum + entry.amount, 0n);
+
+      return {
+        direction,
+        window,
+        limit,
+        used,
+        remaining: used >= limit ? 0n : limit - used,
+        currency: this.referenceCurrency,
+        overridden: Boolean(override),
+        nextReleaseAt:
+          inWindow.length > 0
+            ? new Date(inWindow[0].createdAt.getTime() + LIMIT_WINDOW_MS[window])
+            : null,
+      };
+    });
+  }
+
+  /**
+   * Value an amount in the reference currency, caching rates per call
+   */
+  private async toReference(
+    amount: MinorUnits,
+    currency: string,
+    rates: Map<string, string>
+  ): Promise<MinorUnits> {
+    if (currency === this.referenceCurrency) {
+      return amount;
+    }
+
+    if (!rates.has(currency)) {
+      const { rate } = await this.fxService.getMidRate(currency, this.referenceCurrency);
+      rates.set(currency, rate);
+    }
+
+    return convertAmount(amount, currency, this.referenceCurrency, rates.get(currency)!);
+  }
+
+  /**
+   * Serialize limit checks for one user and direction until the
+   * transaction ends
+   */
+  private async lockUsage(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    direction: LimitDirection
+  ): Promise<void> {
+    const key = `limits:${userId}:${direction}`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+
+  private async findUser(
+    userId: string,
+    db: Prisma.TransactionClient = this.prisma
+  ): Promise<User> {
+    const user = await db.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return user;
+  }
+}
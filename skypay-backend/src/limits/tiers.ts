@@ -0,0 +1,46 @@
+// skypay-backend/src/limits/tiers.ts
+import { LimitDirection, LimitWindow, SettlementType, VerificationLevel } from '@prisma/client';
+
+export const LIMIT_WINDOW_MS: Record<LimitWindow, number> = {
+  DAILY: 24 * 60 * 60 * 1000,
+  MONTHLY: 30 * 24 * 60 * 60 * 1000,
+};
+
+// Which limit each settlement type counts against
+export const SETTLEMENT_DIRECTIONS: Record<SettlementType, LimitDirection> = {
+  FIAT_TO_TOKEN: 'DEPOSIT',
+  TOKEN_TO_FIAT: 'WITHDRAWAL',
+  CROSS_BORDER: 'TRANSFER',
+  INTERNAL_TRANSFER: 'TRANSFER',
+  PAYOUT: 'WITHDRAWAL',
+};
+
+/**
+ * Default limits per verification level, in major units of the limits
+ * reference currency. Individual users can be given overrides.
+ */
+export const LIMIT_TIERS: Record<
+  VerificationLevel,
+  Record<LimitDirection, Record<LimitWindow, string>>
+> = {
+  BASIC: {
+    DEPOSIT: { DAILY: '1000', MONTHLY: '5000' },
+    WITHDRAWAL: { DAILY: '500', MONTHLY: '2000' },
+    TRANSFER: { DAILY: '500', MONTHLY: '2000' },
+  },
+  TIER_1: {
+    DEPOSIT: { DAILY: '5000', MONTHLY: '20000' },
+    WITHDRAWAL: { DAILY: '2500', MONTHLY: '10000' },
+    TRANSFER: { DAILY: '2500', MONTHLY: '10000' },
+  },
+  TIER_2: {
+    DEPOSIT: { DAILY: '25000', MONTHLY: '100000' },
+    WITHDRAWAL: { DAILY: '10000', MONTHLY: '50000' },
+    TRANSFER: { DAILY: '10000', MONTHLY: '50000' },
+  },
+  TIER_3: {
+    DEPOSIT: { DAILY: '100000', MONTHLY: '500000' },
+    WITHDRAWAL: { DAILY: '50000', MONTHLY: '250000' },
+    TRANSFER: { DAILY: '50000', MONTHLY: '250000' },
+  },
+};
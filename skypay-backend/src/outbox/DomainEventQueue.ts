@@ -0,0 +1,38 @@
+// skypay-backend/src/outbox/DomainEventQueue.ts
+import Queue from 'bull';
+import { DomainEventEnvelope } from './events';
+
+export const DOMAIN_EVENT_QUEUE = 'domain-events';
+
+/**
+ * Bull queue of published domain events, one job per event named by its
+ * type, for workers that react to them. Register with
+ * `queue.process('settlement.state_changed', ...)`.
+ */
+export class DomainEventQueue {
+  readonly queue: Queue.Queue<DomainEventEnvelope>;
+
+  constructor(queueName: string = DOMAIN_EVENT_QUEUE) {
+    this.queue = new Queue(queueName, {
+      redis: process.env.REDIS_URL,
+    });
+  }
+
+  /**
+   * The job id is the event id, so relaying an event again is a no-op
+   * while the job is still known to the queue
+   */
+  async enqueue(envelope: DomainEventEnvelope): Promise<void> {
+    await this.queue.add(envelope.event.type, envelope, {
+      jobId: envelope.id,
+      attempts: 5,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 1000,
+      removeOnFail: 5000,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
@@ -0,0 +1,142 @@
+// skypay-backend/src/outbox/OutboxRelay.test.ts
+import { PrismaClient } from '@prisma/client';
+import { OutboxRelay } from './OutboxRelay';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const event = (sequence: number, settlementId: string, overrides: Record<string, any> = {}) => ({
+  id: `event-${sequence}`,
+  sequence: BigInt(sequence),
+  aggregateType: 'SETTLEMENT',
+  aggregateId: settlementId,
+  type: 'settlement.state_changed',
+  status: 'PENDING',
+  attempts: 0,
+  availableAt: new Date(now.getTime() - 1000),
+  createdAt: new Date(now.getTime() - 1000),
+  payload: {
+    type: 'settlement.state_changed',
+    settlementId,
+    userId: 'user-1',
+    settlementType: 'FIAT_TO_TOKEN',
+    fromState: 'INITIATED',
+    toState: 'FIAT_RECEIVED',
+  },
+  ...overrides,
+});
+
+const setup = (...events: any[]) => {
+  const tx: any = {
+    $queryRaw: jest.fn().mockResolvedValue([{ locked: true }]),
+    outboxEvent: {
+      findMany: jest.fn().mockResolvedValue(events),
+      update: jest.fn(),
+    },
+  };
+  const prisma: any = { $transaction: jest.fn((fn: any) => fn(tx)) };
+  const publisher: any = { publish: jest.fn().mockResolvedValue(true) };
+  const eventQueue: any = { enqueue: jest.fn() };
+
+  const relay = new OutboxRelay(prisma as PrismaClient, publisher, eventQueue);
+
+  // Event ids in the order they reached the queue
+  const queued = () => eventQueue.enqueue.mock.calls.map(([envelope]: any) => envelope.id);
+  const published = () =>
+    tx.outboxEvent.update.mock.calls
+      .filter(([{ data }]: any) => data.status === 'PUBLISHED')
+      .map(([{ where }]: any) => where.id);
+
+  return { tx, publisher, eventQueue, relay, queued, published };
+};
+
+describe('OutboxRelay.relayBatch', () => {
+  it('publishes events in sequence order to both channels', async () => {
+    const { tx, publisher, relay, queued, published } = setup(
+      event(1, 'settlement-a'),
+      event(2, 'settlement-b'),
+      event(3, 'settlement-a')
+    );
+
+    expect(await relay.relayBatch(now)).toBe(3);
+
+    expect(tx.outboxEvent.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { status: 'PENDING' }, orderBy: { sequence: 'asc' } })
+    );
+    expect(queued()).toEqual(['event-1', 'event-2', 'event-3']);
+    expect(published()).toEqual(['event-1', 'event-2', 'event-3']);
+    expect(publisher.publish).toHaveBeenCalledWith('transaction:updates', {
+      userId: 'user-1',
+      transaction: expect.objectContaining({
+        id: 'settlement-a',
+        type: 'FIAT_TO_TOKEN',
+        state: 'FIAT_RECEIVED',
+        previousState: 'INITIATED',
+        eventId: 'event-1',
+        sequence: '1',
+      }),
+    });
+  });
+
+  it('holds back later events of a settlement whose event failed, not of others', async () => {
+    const { tx, publisher, relay, queued, published } = setup(
+      event(1, 'settlement-a'),
+      event(2, 'settlement-b'),
+      event(3, 'settlement-a')
+    );
+    publisher.publish.mockResolvedValueOnce(false);
+
+    expect(await relay.relayBatch(now)).toBe(1);
+
+    expect(queued()).toEqual(['event-2']);
+    expect(published()).toEqual(['event-2']);
+    expect(tx.outboxEvent.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: {
+        attempts: { increment: 1 },
+        lastError: 'Realtime publish failed',
+        availableAt: new Date(now.getTime() + 1000),
+      },
+    });
+  });
+
+  it('treats a queue failure as a failed publish', async () => {
+    const { tx, eventQueue, relay, published } = setup(event(1, 'settlement-a'));
+    eventQueue.enqueue.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    expect(await relay.relayBatch(now)).toBe(0);
+
+    expect(published()).toEqual([]);
+    expect(tx.outboxEvent.update.mock.calls[0][0].data.lastError).toBe('Redis unavailable');
+  });
+
+  it('keeps an event backing off, and everything after it, for a later batch', async () => {
+    const { relay, queued } = setup(
+      event(1, 'settlement-a', { attempts: 3, availableAt: new Date(now.getTime() + 8000) }),
+      event(2, 'settlement-a'),
+      event(3, 'settlement-b')
+    );
+
+    expect(await relay.relayBatch(now)).toBe(1);
+    expect(queued()).toEqual(['event-3']);
+  });
+
+  it('backs off exponentially with each failed attempt', async () => {
+    const { tx, publisher, relay } = setup(event(1, 'settlement-a', { attempts: 4 }));
+    publisher.publish.mockResolvedValueOnce(false);
+
+    await relay.relayBatch(now);
+
+    expect(tx.outboxEvent.update.mock.calls[0][0].data.availableAt).toEqual(
+      new Date(now.getTime() + 16 * 1000)
+    );
+  });
+
+  it('does nothing while another relay holds the lock', async () => {
+    const { tx, relay, queued } = setup(event(1, 'settlement-a'));
+    tx.$queryRaw.mockResolvedValue([{ locked: false }]);
+
+    expect(await relay.relayBatch(now)).toBe(0);
+    expect(tx.outboxEvent.findMany).not.toHaveBeenCalled();
+    expect(queued()).toEqual([]);
+  });
+});
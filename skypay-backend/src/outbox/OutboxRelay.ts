@@ -0,0 +1,204 @@
+// skypay-backend/src/outbox/OutboxRelay.ts
+import { OutboxEvent, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+import { DomainEventQueue } from './DomainEventQueue';
+import { DomainEventEnvelope, SettlementDomainEvent } from './events';
+
+// Held for the length of a batch so only one relay publishes at a time
+const RELAY_LOCK_KEY = 740_211;
+
+const BATCH_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Publishes outbox events to the realtime channels and the domain event
+ * queue, at least once and in sequence order per aggregate. An event is
+ * marked published only after both accepted it; when one fails, the
+ * aggregate's later events wait until it is retried successfully.
+ */
+export class OutboxRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = true;
+
+  constructor(
+    private prisma: PrismaClient,
+    private publisher: RealtimePublisher,
+    private eventQueue: DomainEventQueue
+  ) {}
+
+  start(): void {
+    this.stopped = false;
+    this.schedule(0);
+    logger.info('Outbox relay started', { pollIntervalMs: config.outbox.pollIntervalMs });
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Publish one batch of due events; returns how many were published
+   */
+  async relayBatch(now: Date = new Date()): Promise<number> {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(${RELAY_LOCK_KEY}) AS locked
+        `;
+        if (!locked) {
+          return 0;
+        }
+
+        // Events still backing off are read too, to hold back their aggregate
+        const events = await tx.outboxEvent.findMany({
+          where: { status: 'PENDING' },
+          orderBy: { sequence: 'asc' },
+          take: config.outbox.batchSize,
+        });
+
+        const blocked = new Set<string>();
+        let published = 0;
+
+        for (const event of events) {
+          const aggregate = `${event.aggregateType}:${event.aggregateId}`;
+
+          if (blocked.has(aggregate) || event.availableAt > now) {
+            blocked.add(aggregate);
+            continue;
+          }
+
+          try {
+            await this.publish(this.toEnvelope(event));
+            await tx.outboxEvent.update({
+              where: { id: event.id },
+              data: { status: 'PUBLISHED', publishedAt: new Date(), attempts: { increment: 1 } },
+            });
+            published++;
+          } catch (error: any) {
+            blocked.add(aggregate);
+            await this.recordFailure(tx, event, error, now);
+          }
+        }
+
+        return published;
+      },
+      { timeout: BATCH_TIMEOUT_MS }
+    );
+  }
+
+  /**
+   * Delete events published before the retention period
+   */
+  async prunePublished(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.outbox.retentionDays * 24 * 60 * 60 * 1000);
+    const { count } = await this.prisma.outboxEvent.deleteMany({
+      where: { status: 'PUBLISHED', publishedAt: { lt: cutoff } },
+    });
+
+    if (count > 0) {
+      logger.info(`Pruned ${count} published outbox events`);
+    }
+
+    return count;
+  }
+
+  private async publish(envelope: DomainEventEnvelope): Promise<void> {
+    const realtime = this.toRealtimeUpdate(envelope.event as SettlementDomainEvent, envelope);
+
+    // The publisher logs and swallows errors; the relay must retry instead
+    if (!(await this.publisher.publish('transaction:updates', realtime))) {
+      throw new Error('Realtime publish failed');
+    }
+
+    await this.eventQueue.enqueue(envelope);
+  }
+
+  private async recordFailure(
+    tx: Prisma.TransactionClient,
+    event: OutboxEvent,
+    error: Error,
+    now: Date
+  ): Promise<void> {
+    const delaySeconds = Math.min(2 ** event.attempts, config.outbox.maxRetrySeconds);
+
+    await tx.outboxEvent.update({
+      where: { id: event.id },
+      data: {
+        attempts: { increment: 1 },
+        lastError: error.message,
+        availableAt: new Date(now.getTime() + delaySeconds * 1000),
+      },
+    });
+
+    logger.error(`Outbox event ${event.id} not published`, {
+      type: event.type,
+      aggregateId: event.aggregateId,
+      attempt: event.attempts + 1,
+      error: error.message,
+    });
+  }
+
+  private toEnvelope(event: OutboxEvent): DomainEventEnvelope {
+    return {
+      id: event.id,
+      sequence: event.sequence.toString(),
+      aggregateType: 'SETTLEMENT',
+      aggregateId: event.aggregateId,
+      occurredAt: event.createdAt.toISOString(),
+      event: event.payload as unknown as DomainEventEnvelope['event'],
+    };
+  }
+
+  /**
+   * The websocket server fans transaction updates out to the user's rooms
+   * by `userId` and `transaction.type`
+   */
+  private toRealtimeUpdate(event: SettlementDomainEvent, envelope: DomainEventEnvelope) {
+    return {
+      userId: event.userId,
+      transaction: {
+        id: event.settlementId,
+        type: event.settlementType,
+        event: event.type,
+        state: event.type === 'settlement.created' ? event.state : event.toState,
+        previousState: event.type === 'settlement.state_changed' ? event.fromState : null,
+        reason: event.type === 'settlement.state_changed' ? event.reason : undefined,
+        eventId: envelope.id,
+        sequence: envelope.sequence,
+        timestamp: envelope.occurredAt,
+      },
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.running = this.tick().finally(() => {
+        this.running = null;
+      });
+    }, delayMs);
+  }
+
+  // A full batch means more may be waiting, so go again straight away
+  private async tick(): Promise<void> {
+    let published = 0;
+
+    try {
+      published = await this.relayBatch();
+    } catch (error) {
+      logger.error('Outbox relay batch failed:', error);
+    }
+
+    this.schedule(published >= config.outbox.batchSize ? 0 : config.outbox.pollIntervalMs);
+  }
+}
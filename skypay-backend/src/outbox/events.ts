@@ -0,0 +1,44 @@
+// skypay-backend/src/outbox/events.ts
+import { SettlementState, SettlementType } from '@prisma/client';
+
+export interface SettlementCreatedEvent {
+  type: 'settlement.created';
+  settlementId: string;
+  userId: string;
+  settlementType: SettlementType;
+  state: SettlementState;
+  // Integer minor units
+  sourceAmount: string;
+  sourceCurrency: string;
+  targetAmount: string;
+  targetCurrency: string;
+}
+
+export interface SettlementStateChangedEvent {
+  type: 'settlement.state_changed';
+  settlementId: string;
+  userId: string;
+  settlementType: SettlementType;
+  fromState: SettlementState;
+  toState: SettlementState;
+  reason?: string;
+}
+
+export type SettlementDomainEvent = SettlementCreatedEvent | SettlementStateChangedEvent;
+
+export type DomainEvent = SettlementDomainEvent;
+
+export type DomainEventType = DomainEvent['type'];
+
+/**
+ * An event as published. Consumers may see an event more than once and
+ * should dedup on id; one aggregate's events arrive in sequence order.
+ */
+export interface DomainEventEnvelope<E extends DomainEvent = DomainEvent> {
+  id: string;
+  sequence: string;
+  aggregateType: 'SETTLEMENT';
+  aggregateId: string;
+  occurredAt: string;
+  event: E;
+}
@@ -0,0 +1,21 @@
+// skypay-backend/src/outbox/outbox.ts
+import { Prisma } from '@prisma/client';
+import { SettlementDomainEvent } from './events';
+
+/**
+ * Record a settlement event in the outbox. Call it with the transaction
+ * that makes the change, so the event exists exactly when the change does.
+ */
+export async function appendSettlementEvent(
+  tx: Prisma.TransactionClient,
+  event: SettlementDomainEvent
+): Promise<void> {
+  await tx.outboxEvent.create({
+    data: {
+      aggregateType: 'SETTLEMENT',
+      aggregateId: event.settlementId,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
@@ -0,0 +1,72 @@
+// skypay-backend/src/payouts/PayoutProcessor.ts
+import { Job } from 'bull';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { PayoutService } from './PayoutService';
+import { PayoutJob, PayoutJobName, PayoutQueue } from './PayoutQueue';
+
+/**
+ * Works the payout queue: validates bank accounts and opens item
+ * settlements, a bounded number at a time. Items whose jobs run out of
+ * attempts are marked invalid or failed so their batch can finish.
+ */
+export class PayoutProcessor {
+  constructor(
+    private payoutService: PayoutService,
+    private payoutQueue: PayoutQueue
+  ) {}
+
+  start(): void {
+    const { queue } = this.payoutQueue;
+    const { concurrency } = config.payouts;
+
+    queue.process('validate-item', concurrency, (job: Job<PayoutJob>) =>
+      this.run(job, () => this.payoutService.validateItem(job.data.itemId))
+    );
+    queue.process('pay-item', concurrency, (job: Job<PayoutJob>) =>
+      this.run(job, () => this.payoutService.payItem(job.data.itemId, job.data.attempt ?? 1))
+    );
+
+    queue.on('failed', (job: Job<PayoutJob>, error: Error) => {
+      const exhausted = job.attemptsMade >= (job.opts.attempts || 1);
+      logger.error(`Payout job failed: ${job.name}`, {
+        itemId: job.data.itemId,
+        attempt: job.attemptsMade,
+        exhausted,
+        error: error.message,
+      });
+
+      if (exhausted) {
+        this.giveUp(job.name as PayoutJobName, job.data.itemId, error).catch((giveUpError) => {
+          logger.error(`Failed to close payout item ${job.data.itemId}:`, giveUpError);
+        });
+      }
+    });
+
+    logger.info('Payout processor started', { concurrency });
+  }
+
+  /**
+   * Run a job attempt; client errors won't fix themselves and aren't retried
+   */
+  private async run(job: Job<PayoutJob>, work: () => Promise<void>): Promise<void> {
+    try {
+      await work();
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode < 500) {
+        await job.discard();
+        await this.giveUp(job.name as PayoutJobName, job.data.itemId, error);
+      }
+      throw error;
+    }
+  }
+
+  private async giveUp(name: PayoutJobName, itemId: string, error: Error): Promise<void> {
+    if (name === 'validate-item') {
+      await this.payoutService.markValidationFailed(itemId, error.message);
+    } else {
+      await this.payoutService.markPaymentFailed(itemId, error.message);
+    }
+  }
+}
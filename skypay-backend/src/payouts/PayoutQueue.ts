@@ -0,0 +1,95 @@
+// skypay-backend/src/payouts/PayoutQueue.ts
+import Queue from 'bull';
+import { logger } from '../utils/logger';
+
+export const PAYOUT_QUEUE = 'payouts';
+
+export type PayoutJobName = 'validate-item' | 'pay-item';
+
+export interface PayoutJob {
+  itemId: string;
+  // Pay attempt the job submits; a later retry of the item gets a new job
+  attempt?: number;
+}
+
+interface PayoutJobOptions {
+  attempts: number;
+  // First retry delay; doubles on each further attempt
+  backoffMs: number;
+  timeoutMs: number;
+}
+
+const JOB_OPTIONS: Record<PayoutJobName, PayoutJobOptions> = {
+  // Bank account lookups at the provider
+  'validate-item': { attempts: 5, backoffMs: 10 * 1000, timeoutMs: 30 * 1000 },
+  // Opening the item's settlement; the provider call itself is a settlement step
+  'pay-item': { attempts: 5, backoffMs: 30 * 1000, timeoutMs: 2 * 60 * 1000 },
+};
+
+const BULK_SIZE = 1000;
+
+export class PayoutQueue {
+  readonly queue: Queue.Queue<PayoutJob>;
+
+  constructor(queueName: string = PAYOUT_QUEUE) {
+    this.queue = new Queue(queueName, {
+      redis: process.env.REDIS_URL,
+    });
+  }
+
+  /**
+   * Queue bank account validation for items. Job ids are derived from the
+   * item, so queueing an item twice is a no-op while the job is known.
+   */
+  async enqueueValidation(itemIds: string[]): Promise<void> {
+    await this.addBulk(
+      'validate-item',
+      itemIds.map((itemId) => ({ data: { itemId }, jobId: `validate:${itemId}` }))
+    );
+  }
+
+  /**
+   * Queue payment of items, each for its next attempt
+   */
+  async enqueuePayment(items: { id: string; attempts: number }[]): Promise<void> {
+    await this.addBulk(
+      'pay-item',
+      items.map(({ id, attempts }) => ({
+        data: { itemId: id, attempt: attempts + 1 },
+        jobId: `pay:${id}:${attempts + 1}`,
+      }))
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+
+  private async addBulk(
+    name: PayoutJobName,
+    jobs: { data: PayoutJob; jobId: string }[]
+  ): Promise<void> {
+    const { attempts, backoffMs, timeoutMs } = JOB_OPTIONS[name];
+
+    for (let i = 0; i < jobs.length; i += BULK_SIZE) {
+      await this.queue.addBulk(
+        jobs.slice(i, i + BULK_SIZE).map(({ data, jobId }) => ({
+          name,
+          data,
+          opts: {
+            jobId,
+            attempts,
+            backoff: { type: 'exponential', delay: backoffMs },
+            timeout: timeoutMs,
+            removeOnComplete: 1000,
+            removeOnFail: 5000,
+          },
+        }))
+      );
+    }
+
+    if (jobs.length > 0) {
+      logger.info(`Payout jobs queued: ${name}`, { count: jobs.length });
+    }
+  }
+}
@@ -0,0 +1,414 @@
+// skypay-backend/src/payouts/PayoutService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PayoutService } from './PayoutService';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+const batch = (overrides: Record<string, any> = {}) => ({
+  id: 'batch-1',
+  userId: 'user-1',
+  currency: 'NGN',
+  sourceAccountId: 'account-1',
+  reference: 'March salaries',
+  status: 'VALIDATED',
+  validCount: 2,
+  totalAmount: decimal(300000),
+  fundedAmount: decimal(0),
+  refundedAmount: decimal(0),
+  ...overrides,
+});
+
+const item = (overrides: Record<string, any> = {}) => ({
+  id: 'item-1',
+  batchId: 'batch-1',
+  rowNumber: 1,
+  reference: 'INV-1',
+  amount: decimal(100000),
+  bankDetails: { accountName: 'Ada Obi', accountNumber: '0123456789', bankCode: '058' },
+  status: 'PENDING',
+  attempts: 0,
+  batch: batch({ status: 'VALIDATING' }),
+  ...overrides,
+});
+
+const setup = () => {
+  const prisma: any = {
+    account: { findUnique: jest.fn().mockResolvedValue({ id: 'account-1' }) },
+    payoutBatch: {
+      create: jest.fn().mockResolvedValue({ id: 'batch-1' }),
+      findUnique: jest.fn().mockResolvedValue(batch()),
+      findUniqueOrThrow: jest.fn().mockResolvedValue(batch()),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    payoutItem: {
+      createMany: jest.fn(),
+      findUnique: jest.fn(),
+      // Pages end with an empty one
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      count: jest.fn().mockResolvedValue(0),
+      aggregate: jest.fn().mockResolvedValue({ _count: 0, _sum: { amount: null } }),
+      groupBy: jest.fn().mockResolvedValue([]),
+    },
+    settlement: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    getSystemAccount: jest.fn(async (code: string, currency: string) => ({
+      id: `${code}-${currency}`,
+    })),
+    postJournal: jest.fn(),
+  };
+  const limitsService: any = { assertWithinLimits: jest.fn() };
+  const settlementService: any = {
+    createSettlement: jest.fn().mockResolvedValue({ id: 'settlement-1' }),
+  };
+  const bridgeService: any = {
+    validateBankAccount: jest.fn().mockResolvedValue({ valid: true, account_name: 'ADA OBI' }),
+  };
+  const payoutQueue: any = { enqueueValidation: jest.fn(), enqueuePayment: jest.fn() };
+
+  return {
+    prisma,
+    ledgerService,
+    limitsService,
+    settlementService,
+    bridgeService,
+    payoutQueue,
+    payouts: new PayoutService(
+      prisma as PrismaClient,
+      ledgerService,
+      limitsService,
+      settlementService,
+      bridgeService,
+      payoutQueue
+    ),
+  };
+};
+
+const journalLegs = (ledgerService: any) =>
+  ledgerService.postJournal.mock.calls.map(([journal]: any) => ({
+    referenceId: journal.referenceId,
+    legs: journal.legs.map((leg: any) => [leg.accountId, leg.direction, leg.amount]),
+  }));
+
+describe('PayoutService.createBatch', () => {
+  const csv = [
+    'reference,amount,accountName,accountNumber,bankCode',
+    'INV-1,1000,Ada Obi,0123456789,058',
+    'INV-2,abc,Chuka Obi,9876543210,044',
+  ].join('\n');
+
+  it('stores every row and queues the well-formed ones for validation', async () => {
+    const { prisma, payoutQueue, payouts } = setup();
+    prisma.payoutItem.count.mockResolvedValue(1);
+    prisma.payoutItem.findMany.mockResolvedValueOnce([{ id: 'item-1', attempts: 0 }]);
+
+    await payouts.createBatch({ userId: 'user-1', currency: 'NGN', content: csv, format: 'csv' });
+
+    expect(prisma.payoutBatch.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      sourceAccountId: 'account-1',
+      itemCount: 2,
+    });
+    expect(
+      prisma.payoutItem.createMany.mock.calls[0][0].data.map((row: any) => [
+        row.rowNumber,
+        row.status,
+        row.amount,
+      ])
+    ).toEqual([
+      [1, 'PENDING', decimal(100000)],
+      [2, 'INVALID', decimal(0)],
+    ]);
+    expect(payoutQueue.enqueueValidation).toHaveBeenCalledWith(['item-1']);
+  });
+
+  it('pays out in fiat only, from an account the user has', async () => {
+    const { prisma, payouts } = setup();
+    const params = { userId: 'user-1', content: csv, format: 'csv' as const };
+
+    await expect(payouts.createBatch({ ...params, currency: 'NairaX' })).rejects.toThrow(
+      'Payouts are made in fiat currencies only'
+    );
+
+    prisma.account.findUnique.mockResolvedValue(null);
+    await expect(payouts.createBatch({ ...params, currency: 'NGN' })).rejects.toThrow(
+      'No NGN account to fund payouts from'
+    );
+    expect(prisma.payoutBatch.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('PayoutService.validateItem', () => {
+  it('marks an item valid with the name the bank resolved', async () => {
+    const { prisma, bridgeService, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue(item());
+
+    await payouts.validateItem('item-1');
+
+    expect(bridgeService.validateBankAccount).toHaveBeenCalledWith('058', '0123456789');
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', status: 'PENDING' },
+      data: { status: 'VALID', resolvedName: 'ADA OBI' },
+    });
+  });
+
+  it('marks an item invalid when the bank cannot resolve the account', async () => {
+    const { prisma, bridgeService, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue(item());
+    bridgeService.validateBankAccount.mockResolvedValue({
+      valid: false,
+      message: 'Account not found',
+    });
+
+    await payouts.validateItem('item-1');
+
+    expect(prisma.payoutItem.updateMany.mock.calls[0][0].data).toEqual({
+      status: 'INVALID',
+      validationErrors: ['Account not found'],
+    });
+  });
+
+  it('validates the batch once no item is pending', async () => {
+    const { prisma, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue(item());
+    prisma.payoutItem.aggregate.mockResolvedValue({ _count: 2, _sum: { amount: decimal(300000) } });
+    prisma.payoutItem.count.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+    await payouts.validateItem('item-1');
+
+    expect(prisma.payoutBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: 'VALIDATING' },
+      data: expect.objectContaining({
+        status: 'VALIDATED',
+        validCount: 2,
+        invalidCount: 1,
+        totalAmount: decimal(300000),
+      }),
+    });
+  });
+
+  it('leaves items of a cancelled batch alone', async () => {
+    const { prisma, bridgeService, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue(
+      item({ batch: batch({ status: 'CANCELLED' }) })
+    );
+
+    await payouts.validateItem('item-1');
+
+    expect(bridgeService.validateBankAccount).not.toHaveBeenCalled();
+  });
+});
+
+describe('PayoutService.fundBatch', () => {
+  it('moves the valid total into payout clearing and queues the valid items', async () => {
+    const { prisma, ledgerService, limitsService, payoutQueue, payouts } = setup();
+    prisma.payoutItem.findMany.mockResolvedValueOnce([
+      { id: 'item-1', attempts: 0 },
+      { id: 'item-2', attempts: 0 },
+    ]);
+
+    await payouts.fundBatch('batch-1', 'user-1');
+
+    expect(limitsService.assertWithinLimits).toHaveBeenCalledWith(
+      'user-1',
+      'PAYOUT',
+      300000n,
+      'NGN',
+      prisma
+    );
+    expect(journalLegs(ledgerService)).toEqual([
+      {
+        referenceId: 'payout-batch:batch-1:funding',
+        legs: [
+          ['account-1', 'DEBIT', 300000n],
+          ['PAYOUT_CLEARING-NGN', 'CREDIT', 300000n],
+        ],
+      },
+    ]);
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledWith({
+      where: { batchId: 'batch-1', status: 'VALID' },
+      data: { status: 'QUEUED' },
+    });
+    expect(payoutQueue.enqueuePayment).toHaveBeenCalledWith([
+      { id: 'item-1', attempts: 0 },
+      { id: 'item-2', attempts: 0 },
+    ]);
+  });
+
+  it('funds a batch only once', async () => {
+    const { prisma, ledgerService, payouts } = setup();
+    prisma.payoutBatch.findUnique.mockResolvedValue(batch({ status: 'PROCESSING' }));
+
+    await expect(payouts.fundBatch('batch-1', 'user-1')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(ledgerService.postJournal).not.toHaveBeenCalled();
+  });
+
+  it('hides other users\' batches', async () => {
+    const { payouts } = setup();
+
+    await expect(payouts.fundBatch('batch-1', 'user-2')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe('PayoutService.payItem', () => {
+  const queued = () => item({ status: 'QUEUED', batch: batch({ status: 'PROCESSING' }) });
+
+  it('opens a payout settlement for the item, past the per-settlement limits', async () => {
+    const { prisma, settlementService, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue(queued());
+
+    await payouts.payItem('item-1', 1);
+
+    expect(settlementService.createSettlement).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        type: 'PAYOUT',
+        sourceAmount: 100000n,
+        targetAmount: 100000n,
+        limitsChecked: true,
+        metadata: expect.objectContaining({ payoutItemId: 'item-1', payoutAttempt: 1 }),
+      })
+    );
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', status: 'QUEUED' },
+      data: { status: 'SUBMITTED', settlementId: 'settlement-1', attempts: 1, failureReason: null },
+    });
+  });
+
+  it('reuses the settlement a repeated job already opened', async () => {
+    const { prisma, settlementService, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue(queued());
+    prisma.settlement.findFirst.mockResolvedValue({ id: 'settlement-0' });
+
+    await payouts.payItem('item-1', 1);
+
+    expect(settlementService.createSettlement).not.toHaveBeenCalled();
+    expect(prisma.payoutItem.updateMany.mock.calls[0][0].data.settlementId).toBe('settlement-0');
+  });
+
+  it('ignores a job for an attempt that was already made', async () => {
+    const { prisma, settlementService, payouts } = setup();
+    prisma.payoutItem.findUnique.mockResolvedValue({ ...queued(), attempts: 1 });
+
+    await payouts.payItem('item-1', 1);
+
+    expect(settlementService.createSettlement).not.toHaveBeenCalled();
+  });
+});
+
+describe('PayoutService.syncBatches', () => {
+  it('records settled and returned payouts and completes the batch', async () => {
+    const { prisma, payouts } = setup();
+    prisma.payoutBatch.findMany.mockResolvedValue([{ id: 'batch-1', status: 'PROCESSING' }]);
+    prisma.payoutItem.findMany.mockResolvedValueOnce([
+      { id: 'item-1', settlementId: 'settlement-1' },
+      { id: 'item-2', settlementId: 'settlement-2' },
+      { id: 'item-3', settlementId: 'settlement-3' },
+    ]);
+    const paidAt = new Date('2024-03-01T12:00:00Z');
+    prisma.settlement.findMany.mockResolvedValue([
+      { id: 'settlement-1', currentState: 'CONFIRMED', completedAt: paidAt },
+      { id: 'settlement-2', currentState: 'REVERSED', failureReason: 'Account closed' },
+    ]);
+    prisma.payoutItem.groupBy.mockResolvedValue([
+      { status: 'PAID', _count: 1 },
+      { status: 'FAILED', _count: 1 },
+    ]);
+
+    await payouts.syncBatches();
+
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', status: 'SUBMITTED', settlementId: 'settlement-1' },
+      data: { status: 'PAID', paidAt },
+    });
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-2', status: 'SUBMITTED', settlementId: 'settlement-2' },
+      data: { status: 'FAILED', failureReason: 'Account closed' },
+    });
+    // Still in flight
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledTimes(2);
+    expect(prisma.payoutBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: 'PROCESSING' },
+      data: { paidCount: 1, failedCount: 1, status: 'COMPLETED', completedAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('PayoutService retries and closing', () => {
+  it('queues failed items again', async () => {
+    const { prisma, payoutQueue, payouts } = setup();
+    prisma.payoutBatch.findUnique.mockResolvedValue(batch({ status: 'COMPLETED' }));
+    prisma.payoutItem.updateMany.mockResolvedValue({ count: 2 });
+    prisma.payoutItem.findMany.mockResolvedValueOnce([{ id: 'item-2', attempts: 1 }]);
+    prisma.payoutItem.groupBy.mockResolvedValue([{ status: 'QUEUED', _count: 1 }]);
+
+    await payouts.retryFailed('batch-1', 'user-1');
+
+    expect(prisma.payoutItem.updateMany).toHaveBeenCalledWith({
+      where: { batchId: 'batch-1', status: 'FAILED' },
+      data: { status: 'QUEUED' },
+    });
+    expect(prisma.payoutBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: { in: ['PROCESSING', 'COMPLETED'] } },
+      data: { status: 'PROCESSING', completedAt: null },
+    });
+    expect(payoutQueue.enqueuePayment).toHaveBeenCalledWith([{ id: 'item-2', attempts: 1 }]);
+  });
+
+  it('has nothing to retry without failed items', async () => {
+    const { prisma, payouts } = setup();
+    prisma.payoutBatch.findUnique.mockResolvedValue(batch({ status: 'COMPLETED' }));
+    prisma.payoutItem.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(payouts.retryFailed('batch-1', 'user-1')).rejects.toThrow(
+      'Batch has no failed items'
+    );
+  });
+
+  it('refunds what was funded but not paid when the batch is closed', async () => {
+    const { prisma, ledgerService, payouts } = setup();
+    prisma.payoutBatch.findUnique.mockResolvedValue(
+      batch({ status: 'COMPLETED', fundedAmount: decimal(300000) })
+    );
+    prisma.payoutItem.aggregate.mockResolvedValue({ _sum: { amount: decimal(100000) } });
+
+    await payouts.closeBatch('batch-1', 'user-1');
+
+    expect(journalLegs(ledgerService)).toEqual([
+      {
+        referenceId: 'payout-batch:batch-1:refund',
+        legs: [
+          ['PAYOUT_CLEARING-NGN', 'DEBIT', 200000n],
+          ['account-1', 'CREDIT', 200000n],
+        ],
+      },
+    ]);
+    expect(prisma.payoutBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', status: 'COMPLETED' },
+      data: { status: 'CLOSED', refundedAmount: decimal(200000), closedAt: expect.any(Date) },
+    });
+  });
+
+  it('closes a fully paid batch without a refund', async () => {
+    const { prisma, ledgerService, payouts } = setup();
+    prisma.payoutBatch.findUnique.mockResolvedValue(
+      batch({ status: 'COMPLETED', fundedAmount: decimal(300000) })
+    );
+    prisma.payoutItem.aggregate.mockResolvedValue({ _sum: { amount: decimal(300000) } });
+
+    await payouts.closeBatch('batch-1', 'user-1');
+
+    expect(ledgerService.postJournal).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,728 @@
+// skypay-backend/src/payouts/PayoutService.ts
+import {
+  PayoutBatch,
+  PayoutItem,
+  PayoutItemStatus,
+  PrismaClient,
+  Prisma,
+} from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { LedgerService } from '../ledger/LedgerService';
+import { LimitsService } from '../limits/LimitsService';
+import { SettlementService } from '../settlement/SettlementService';
+import { BridgeService } from '../integrations/bridge/BridgeService';
+import { getCurrency, toDecimal, toMinorUnits } from '../currency/currencies';
+import { PayoutBankDetails, PayoutFileFormat, parsePayoutFile } from './parser';
+import { PayoutQueue } from './PayoutQueue';
+import { renderPayoutReportHeader, renderPayoutReportRows } from './report';
+
+export interface CreatePayoutBatchParams {
+  userId: string;
+  currency: string;
+  content: string;
+  format: PayoutFileFormat;
+  fileName?: string;
+  reference?: string;
+}
+
+export interface PayoutReport {
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+const PAGE_SIZE = 1000;
+
+// Item settlements in these states have given their funds back to the batch
+const RETURNED_STATES = ['REVERSED', 'EXPIRED'] as const;
+
+/**
+ * Bulk bank payouts. A batch is uploaded as a file, every row's bank
+ * account is validated with the provider, and the valid total is moved
+ * from the user's fiat account into PAYOUT_CLEARING in one journal. Each
+ * item is then paid as its own PAYOUT settlement out of clearing. Failed
+ * items return their funds to clearing and can be retried; closing the
+ * batch refunds whatever was not paid out.
+ */
+export class PayoutService {
+  constructor(
+    private prisma: PrismaClient,
+    private ledgerService: LedgerService,
+    private limitsService: LimitsService,
+    private settlementService: SettlementService,
+    private bridgeService: BridgeService,
+    private payoutQueue: PayoutQueue
+  ) {}
+
+  /**
+   * Store a batch and its rows and queue every well-formed row for bank
+   * account validation
+   */
+  async createBatch(params: CreatePayoutBatchParams): Promise<PayoutBatch> {
+    const { userId, currency } = params;
+
+    if (getCurrency(currency).kind !== 'FIAT') {
+      throw new AppError('Payouts are made in fiat currencies only', 400);
+    }
+
+    const rows = parsePayoutFile(params.content, params.format, currency);
+
+    if (rows.length === 0) {
+      throw new AppError('Payout file has no rows', 400);
+    }
+    if (rows.length > config.payouts.maxItems) {
+      throw new AppError(`A batch can have at most ${config.payouts.maxItems} rows`, 400, {
+        rows: rows.length,
+      });
+    }
+
+    const sourceAccount = await this.prisma.account.findUnique({
+      where: { userId_type_currency: { userId, type: 'FIAT', currency } },
+    });
+
+    if (!sourceAccount) {
+      throw new AppError(`No ${currency} account to fund payouts from`, 400);
+    }
+
+    const batch = await this.prisma.$transaction(
+      async (tx) => {
+        const created = await tx.payoutBatch.create({
+          data: {
+            userId,
+            currency,
+            sourceAccountId: sourceAccount.id,
+            fileName: params.fileName,
+            reference: params.reference,
+            itemCount: rows.length,
+          },
+        });
+
+        for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+          await tx.payoutItem.createMany({
+            data: rows.slice(i, i + PAGE_SIZE).map((row) => ({
+              batchId: created.id,
+              rowNumber: row.rowNumber,
+              reference: row.reference,
+              amount: toDecimal(row.amount ?? 0n),
+              bankDetails: row.bankDetails as unknown as Prisma.InputJsonValue,
+              status: row.errors.length > 0 ? 'INVALID' : 'PENDING',
+              validationErrors: row.errors,
+            })),
+          });
+        }
+
+        return created;
+      },
+      { timeout: 60 * 1000 }
+    );
+
+    logger.info(`Payout batch created: ${batch.id}`, {
+      userId,
+      currency,
+      rows: rows.length,
+      invalid: rows.filter((row) => row.errors.length > 0).length,
+    });
+
+    await this.queuePendingValidations(batch.id);
+    await this.finalizeValidation(batch.id);
+
+    return this.prisma.payoutBatch.findUniqueOrThrow({ where: { id: batch.id } });
+  }
+
+  /**
+   * Check an item's bank account with the provider. Provider errors are
+   * thrown so the job is retried; an account the provider can't resolve
+   * makes the item invalid.
+   */
+  async validateItem(itemId: string): Promise<void> {
+    const item = await this.prisma.payoutItem.findUnique({
+      where: { id: itemId },
+      include: { batch: true },
+    });
+
+    if (!item || item.status !== 'PENDING' || item.batch.status !== 'VALIDATING') {
+      return;
+    }
+
+    const bank = item.bankDetails as unknown as PayoutBankDetails;
+    const result = await this.bridgeService.validateBankAccount(bank.bankCode, bank.accountNumber);
+    const resolvedName: string | undefined = result?.account_name;
+
+    await this.prisma.payoutItem.updateMany({
+      where: { id: itemId, status: 'PENDING' },
+      data:
+        result?.valid === false || !resolvedName
+          ? {
+              status: 'INVALID',
+              validationErrors: [result?.message || 'Bank account could not be verified'],
+            }
+          : { status: 'VALID', resolvedName },
+    });
+
+    await this.finalizeValidation(item.batchId);
+  }
+
+  /**
+   * Make an item invalid once its validation is rejected or runs out of
+   * attempts
+   */
+  async markValidationFailed(itemId: string, reason: string): Promise<void> {
+    const item = await this.prisma.payoutItem.findUnique({ where: { id: itemId } });
+
+    if (!item) {
+      return;
+    }
+
+    await this.prisma.payoutItem.updateMany({
+      where: { id: itemId, status: 'PENDING' },
+      data: {
+        status: 'INVALID',
+        validationErrors: [reason],
+      },
+    });
+
+    await this.finalizeValidation(item.batchId);
+  }
+
+  /**
+   * Move the valid total from the user's fiat account into payout clearing
+   * and queue every valid item for payment
+   */
+  async fundBatch(batchId: string, userId: string): Promise<PayoutBatch> {
+    const batch = await this.findBatch(batchId, userId);
+
+    if (batch.status !== 'VALIDATED') {
+      throw new AppError(`Batch is ${batch.status}; only validated batches can be funded`, 409);
+    }
+
+    const total = toMinorUnits(batch.totalAmount);
+    if (batch.validCount === 0 || total === 0n) {
+      throw new AppError('Batch has no valid items to pay', 400);
+    }
+
+    if (!batch.sourceAccountId) {
+      throw new AppError('Batch has no account to fund from', 400);
+    }
+    const { sourceAccountId, currency } = batch;
+
+    const funded = await this.prisma.$transaction(async (tx) => {
+      // Checked once for the whole batch; items skip the per-settlement check
+      await this.limitsService.assertWithinLimits(userId, 'PAYOUT', total, currency, tx);
+
+      const clearing = await this.ledgerService.getSystemAccount('PAYOUT_CLEARING', currency, tx);
+
+      await this.ledgerService.postJournal(
+        {
+          type: 'TRANSFER',
+          referenceId: `payout-batch:${batch.id}:funding`,
+          metadata: { payoutBatchId: batch.id },
+          description: `Funding for payout batch ${batch.reference || batch.id}`,
+          legs: [
+            { accountId: sourceAccountId, amount: total, currency, direction: 'DEBIT' },
+            { accountId: clearing.id, amount: total, currency, direction: 'CREDIT' },
+          ],
+        },
+        tx
+      );
+
+      const { count } = await tx.payoutBatch.updateMany({
+        where: { id: batch.id, status: 'VALIDATED' },
+        data: {
+          status: 'PROCESSING',
+          fundedAmount: toDecimal(total),
+          fundedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new AppError('Batch was changed while being funded', 409);
+      }
+
+      await tx.payoutItem.updateMany({
+        where: { batchId: batch.id, status: 'VALID' },
+        data: { status: 'QUEUED' },
+      });
+
+      return tx.payoutBatch.findUniqueOrThrow({ where: { id: batch.id } });
+    });
+
+    logger.info(`Payout batch funded: ${batch.id}`, {
+      userId,
+      amount: total.toString(),
+      currency,
+      items: batch.validCount,
+    });
+
+    await this.queuePendingPayments(batch.id);
+
+    return funded;
+  }
+
+  /**
+   * Open the settlement that pays an item. Safe to repeat: a settlement
+   * already opened for the same attempt is reused.
+   */
+  async payItem(itemId: string, attempt: number): Promise<void> {
+    const item = await this.prisma.payoutItem.findUnique({
+      where: { id: itemId },
+      include: { batch: true },
+    });
+
+    if (
+      !item ||
+      item.status !== 'QUEUED' ||
+      item.attempts >= attempt ||
+      item.batch.status !== 'PROCESSING'
+    ) {
+      return;
+    }
+
+    const { batch } = item;
+    const existing = await this.prisma.settlement.findFirst({
+      where: {
+        type: 'PAYOUT',
+        userId: batch.userId,
+        AND: [
+          { metadata: { path: ['payoutItemId'], equals: item.id } },
+          { metadata: { path: ['payoutAttempt'], equals: attempt } },
+        ],
+      },
+    });
+
+    const amount = toMinorUnits(item.amount);
+    const settlement =
+      existing ||
+      (await this.settlementService.createSettlement({
+        userId: batch.userId,
+        type: 'PAYOUT',
+        sourceAmount: amount,
+        sourceCurrency: batch.currency,
+        targetAmount: amount,
+        targetCurrency: batch.currency,
+        provider: 'BRIDGE',
+        limitsChecked: true,
+        metadata: {
+          payoutBatchId: batch.id,
+          payoutItemId: item.id,
+          payoutAttempt: attempt,
+          reference: item.reference,
+          bankDetails: item.bankDetails,
+        },
+      }));
+
+    await this.prisma.payoutItem.updateMany({
+      where: { id: item.id, status: 'QUEUED' },
+      data: {
+        status: 'SUBMITTED',
+        settlementId: settlement.id,
+        attempts: attempt,
+        failureReason: null,
+      },
+    });
+  }
+
+  /**
+   * Fail an item whose payment could not be submitted. Its funds never
+   * left clearing, so it can be retried like any other failure.
+   */
+  async markPaymentFailed(itemId: string, reason: string): Promise<void> {
+    await this.prisma.payoutItem.updateMany({
+      where: { id: itemId, status: 'QUEUED' },
+      data: { status: 'FAILED', failureReason: reason },
+    });
+  }
+
+  /**
+   * Bring batches up to date with their item settlements, complete the
+   * ones with nothing left in flight, and re-queue work a restart may have
+   * lost. Run periodically.
+   */
+  async syncBatches(): Promise<number> {
+    const batches = await this.prisma.payoutBatch.findMany({
+      where: { status: { in: ['VALIDATING', 'PROCESSING'] } },
+      select: { id: true, status: true },
+    });
+
+    for (const batch of batches) {
+      try {
+        if (batch.status === 'VALIDATING') {
+          await this.queuePendingValidations(batch.id);
+          await this.finalizeValidation(batch.id);
+        } else {
+          await this.syncSubmittedItems(batch.id);
+          await this.queuePendingPayments(batch.id);
+          await this.refreshProgress(batch.id);
+        }
+      } catch (error) {
+        logger.error(`Failed to sync payout batch ${batch.id}:`, error);
+      }
+    }
+
+    return batches.length;
+  }
+
+  /**
+   * Queue failed items for another attempt, paid from the funds their
+   * failed attempts returned to clearing
+   */
+  async retryFailed(batchId: string, userId: string): Promise<PayoutBatch> {
+    const batch = await this.findBatch(batchId, userId);
+
+    if (batch.status !== 'PROCESSING' && batch.status !== 'COMPLETED') {
+      throw new AppError(`Batch is ${batch.status}; failed items can't be retried`, 409);
+    }
+
+    const retried = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.payoutItem.updateMany({
+        where: { batchId, status: 'FAILED' },
+        data: { status: 'QUEUED' },
+      });
+
+      if (count === 0) {
+        throw new AppError('Batch has no failed items', 400);
+      }
+
+      await tx.payoutBatch.updateMany({
+        where: { id: batchId, status: { in: ['PROCESSING', 'COMPLETED'] } },
+        data: { status: 'PROCESSING', completedAt: null },
+      });
+
+      return count;
+    });
+
+    logger.info(`Payout batch items retried: ${batchId}`, { userId, items: retried });
+
+    await this.queuePendingPayments(batchId);
+
+    return this.refreshProgress(batchId);
+  }
+
+  /**
+   * Finish a completed batch and refund what wasn't paid out. Failed items
+   * can no longer be retried afterwards.
+   */
+  async closeBatch(batchId: string, userId: string): Promise<PayoutBatch> {
+    const batch = await this.findBatch(batchId, userId);
+
+    if (batch.status !== 'COMPLETED') {
+      throw new AppError(`Batch is ${batch.status}; only completed batches can be closed`, 409);
+    }
+
+    const { currency } = batch;
+
+    const refunded = await this.prisma.$transaction(async (tx) => {
+      const paid = await tx.payoutItem.aggregate({
+        where: { batchId, status: 'PAID' },
+        _sum: { amount: true },
+      });
+      const refund =
+        toMinorUnits(batch.fundedAmount) -
+        toMinorUnits(paid._sum.amount ?? '0') -
+        toMinorUnits(batch.refundedAmount);
+
+      if (refund > 0n) {
+        const clearing = await this.ledgerService.getSystemAccount('PAYOUT_CLEARING', currency, tx);
+
+        await this.ledgerService.postJournal(
+          {
+            type: 'TRANSFER',
+            referenceId: `payout-batch:${batch.id}:refund`,
+            metadata: { payoutBatchId: batch.id },
+            description: `Unpaid funds of payout batch ${batch.reference || batch.id}`,
+            legs: [
+              { accountId: clearing.id, amount: refund, currency, direction: 'DEBIT' },
+              // Only funded batches complete, and funding needs the source account
+              { accountId: batch.sourceAccountId!, amount: refund, currency, direction: 'CREDIT' },
+            ],
+          },
+          tx
+        );
+      }
+
+      const { count } = await tx.payoutBatch.updateMany({
+        where: { id: batchId, status: 'COMPLETED' },
+        data: {
+          status: 'CLOSED',
+          ...(refund > 0n && {
+            refundedAmount: toDecimal(toMinorUnits(batch.refundedAmount) + refund),
+          }),
+          closedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new AppError('Batch was changed while being closed', 409);
+      }
+
+      return refund;
+    });
+
+    logger.info(`Payout batch closed: ${batchId}`, {
+      userId,
+      refunded: refunded.toString(),
+      currency,
+    });
+
+    return this.findBatch(batchId, userId);
+  }
+
+  /**
+   * Abandon a batch before it is funded
+   */
+  async cancelBatch(batchId: string, userId: string): Promise<PayoutBatch> {
+    const { count } = await this.prisma.payoutBatch.updateMany({
+      where: { id: batchId, userId, status: { in: ['VALIDATING', 'VALIDATED'] } },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (count === 0) {
+      const batch = await this.findBatch(batchId, userId);
+      throw new AppError(`Batch is ${batch.status}; only unfunded batches can be cancelled`, 409);
+    }
+
+    logger.info(`Payout batch cancelled: ${batchId}`, { userId });
+
+    return this.findBatch(batchId, userId);
+  }
+
+  async getBatch(batchId: string, userId: string): Promise<PayoutBatch> {
+    return this.findBatch(batchId, userId);
+  }
+
+  async listBatches(
+    userId: string,
+    filters: { limit?: number; offset?: number } = {}
+  ): Promise<{ batches: PayoutBatch[]; total: number }> {
+    const [batches, total] = await Promise.all([
+      this.prisma.payoutBatch.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 20,
+        skip: filters.offset || 0,
+      }),
+      this.prisma.payoutBatch.count({ where: { userId } }),
+    ]);
+
+    return { batches, total };
+  }
+
+  async listItems(
+    batchId: string,
+    userId: string,
+    filters: { status?: PayoutItemStatus; limit?: number; offset?: number } = {}
+  ): Promise<{ items: PayoutItem[]; total: number }> {
+    await this.findBatch(batchId, userId);
+
+    const where: Prisma.PayoutItemWhereInput = {
+      batchId,
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.payoutItem.findMany({
+        where,
+        orderBy: { rowNumber: 'asc' },
+        take: filters.limit || 100,
+        skip: filters.offset || 0,
+      }),
+      this.prisma.payoutItem.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Per-item status of the whole batch as CSV, in file order
+   */
+  async generateReport(batchId: string, userId: string): Promise<PayoutReport> {
+    const batch = await this.findBatch(batchId, userId);
+    let body = renderPayoutReportHeader();
+    let cursor: string | undefined;
+
+    for (;;) {
+      const items = await this.prisma.payoutItem.findMany({
+        where: { batchId },
+        orderBy: { rowNumber: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (items.length === 0) {
+        break;
+      }
+
+      body += renderPayoutReportRows(items, batch.currency);
+      cursor = items[items.length - 1].id;
+    }
+
+    return {
+      contentType: 'text/csv; charset=utf-8',
+      filename: `payout-batch-${batch.id}.csv`,
+      body,
+    };
+  }
+
+  /**
+   * Mark the batch validated once no item is left pending. Safe to call
+   * concurrently: only the first caller moves the batch on.
+   */
+  private async finalizeValidation(batchId: string): Promise<void> {
+    const pending = await this.prisma.payoutItem.count({
+      where: { batchId, status: 'PENDING' },
+    });
+
+    if (pending > 0) {
+      return;
+    }
+
+    const [valid, invalidCount] = await Promise.all([
+      this.prisma.payoutItem.aggregate({
+        where: { batchId, status: 'VALID' },
+        _count: true,
+        _sum: { amount: true },
+      }),
+      this.prisma.payoutItem.count({ where: { batchId, status: 'INVALID' } }),
+    ]);
+
+    const { count } = await this.prisma.payoutBatch.updateMany({
+      where: { id: batchId, status: 'VALIDATING' },
+      data: {
+        status: 'VALIDATED',
+        validCount: valid._count,
+        invalidCount,
+        totalAmount: valid._sum.amount ?? 0,
+        validatedAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      logger.info(`Payout batch validated: ${batchId}`, {
+        valid: valid._count,
+        invalid: invalidCount,
+      });
+    }
+  }
+
+  /**
+   * Record the outcome of items whose settlement has finished
+   */
+  private async syncSubmittedItems(batchId: string): Promise<void> {
+    let cursor: string | undefined;
+
+    for (;;) {
+      const items = await this.prisma.payoutItem.findMany({
+        where: { batchId, status: 'SUBMITTED' },
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (items.length === 0) {
+        break;
+      }
+
+      const settlements = await this.prisma.settlement.findMany({
+        where: {
+          id: { in: items.map((item) => item.settlementId!) },
+          currentState: { in: ['CONFIRMED', ...RETURNED_STATES] },
+        },
+        select: { id: true, currentState: true, completedAt: true, failureReason: true },
+      });
+      const byId = new Map(settlements.map((settlement) => [settlement.id, settlement]));
+
+      for (const item of items) {
+        const settlement = byId.get(item.settlementId!);
+        if (!settlement) {
+          continue;
+        }
+
+        await this.prisma.payoutItem.updateMany({
+          where: { id: item.id, status: 'SUBMITTED', settlementId: settlement.id },
+          data:
+            settlement.currentState === 'CONFIRMED'
+              ? { status: 'PAID', paidAt: settlement.completedAt ?? new Date() }
+              : {
+                  status: 'FAILED',
+                  failureReason:
+                    settlement.failureReason || `Payout ${settlement.currentState.toLowerCase()}`,
+                },
+        });
+      }
+
+      cursor = items[items.length - 1].id;
+    }
+  }
+
+  /**
+   * Refresh a processing batch's counts and complete it when no item is
+   * still in flight
+   */
+  private async refreshProgress(batchId: string): Promise<PayoutBatch> {
+    const counts = await this.prisma.payoutItem.groupBy({
+      by: ['status'],
+      where: { batchId },
+      _count: true,
+    });
+    const count = (status: PayoutItemStatus) =>
+      counts.find((entry) => entry.status === status)?._count ?? 0;
+    const inFlight = count('QUEUED') + count('SUBMITTED');
+
+    await this.prisma.payoutBatch.updateMany({
+      where: { id: batchId, status: 'PROCESSING' },
+      data: {
+        paidCount: count('PAID'),
+        failedCount: count('FAILED'),
+        ...(inFlight === 0 && { status: 'COMPLETED', completedAt: new Date() }),
+      },
+    });
+
+    return this.prisma.payoutBatch.findUniqueOrThrow({ where: { id: batchId } });
+  }
+
+  private async queuePendingValidations(batchId: string): Promise<void> {
+    await this.forEachPage(batchId, 'PENDING', (items) =>
+      this.payoutQueue.enqueueValidation(items.map((item) => item.id))
+    );
+  }
+
+  private async queuePendingPayments(batchId: string): Promise<void> {
+    await this.forEachPage(batchId, 'QUEUED', (items) => this.payoutQueue.enqueuePayment(items));
+  }
+
+  private async forEachPage(
+    batchId: string,
+    status: PayoutItemStatus,
+    handle: (items: { id: string; attempts: number }[]) => Promise<void>
+  ): Promise<void> {
+    let cursor: string | undefined;
+
+    for (;;) {
+      const items = await this.prisma.payoutItem.findMany({
+        where: { batchId, status },
+        select: { id: true, attempts: true },
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (items.length === 0) {
+        return;
+      }
+
+      await handle(items);
+      cursor = items[items.length - 1].id;
+    }
+  }
+
+  private async findBatch(batchId: string, userId: string): Promise<PayoutBatch> {
+    const batch = await this.prisma.payoutBatch.findUnique({ where: { id: batchId } });
+
+    if (!batch || batch.userId !== userId) {
+      throw new AppError('Payout batch not found', 404);
+    }
+
+    return batch;
+  }
+}
@@ -0,0 +1,83 @@
+// skypay-backend/src/payouts/parser.test.ts
+import { parsePayoutFile } from './parser';
+
+describe('parsePayoutFile', () => {
+  it('reads CSV rows into minor units and bank details', () => {
+    const rows = parsePayoutFile(
+      [
+        'reference,amount,accountName,accountNumber,bankCode,accountType',
+        'INV-1,1500.25,Ada Obi,0123456789,058,savings',
+        'INV-2,20,"Obi, Chuka",9876543210,044,',
+      ].join('\r\n'),
+      'csv',
+      'NGN'
+    );
+
+    expect(rows).toEqual([
+      {
+        rowNumber: 1,
+        reference: 'INV-1',
+        amount: 150025n,
+        bankDetails: {
+          accountName: 'Ada Obi',
+          accountNumber: '0123456789',
+          bankCode: '058',
+          accountType: 'SAVINGS',
+        },
+        errors: [],
+      },
+      {
+        rowNumber: 2,
+        reference: 'INV-2',
+        amount: 2000n,
+        bankDetails: { accountName: 'Obi, Chuka', accountNumber: '9876543210', bankCode: '044' },
+        errors: [],
+      },
+    ]);
+  });
+
+  it('reads a JSON array or an items object', () => {
+    const item = { amount: 5000, accountName: 'Ada', accountNumber: '0123456789', bankCode: '1' };
+
+    expect(parsePayoutFile(JSON.stringify([item]), 'json', 'UGX')[0].amount).toBe(5000n);
+    expect(parsePayoutFile(JSON.stringify({ items: [item] }), 'json', 'UGX')[0].amount).toBe(
+      5000n
+    );
+  });
+
+  it('collects row problems on the row and keeps the rest of the batch', () => {
+    const bank = { accountName: 'Ada', accountNumber: '0123456789', bankCode: '1' };
+    const rows = parsePayoutFile(
+      JSON.stringify([
+        { ...bank, reference: 'A', amount: '10.005', accountNumber: '12' },
+        { reference: 'A', amount: '-5', accountNumber: '0123456789', accountType: 'gold' },
+        { ...bank, reference: 'B', amount: '1' },
+      ]),
+      'json',
+      'USD'
+    );
+
+    expect(rows.map((row) => row.errors)).toEqual([
+      [
+        'accountNumber must be 6 to 34 digits',
+        'Amount 10.005 exceeds 2 decimal places allowed for USD',
+      ],
+      [
+        'Missing bankCode',
+        'Missing accountName',
+        'accountType must be one of SAVINGS, CHECKING, CURRENT',
+        'amount must be positive',
+        'Duplicate reference: A',
+      ],
+      [],
+    ]);
+    expect(rows[0].amount).toBeNull();
+  });
+
+  it('rejects a file that is not a list of items', () => {
+    expect(() => parsePayoutFile('{', 'json', 'USD')).toThrow('Payout file is not valid JSON');
+    expect(() => parsePayoutFile('{"rows": []}', 'json', 'USD')).toThrow(
+      'Payout file must contain an items array'
+    );
+  });
+});
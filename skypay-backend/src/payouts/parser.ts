@@ -0,0 +1,132 @@
+// skypay-backend/src/payouts/parser.ts
+import { AppError } from '../utils/errors';
+import { parseCsv } from '../reconciliation/parsers/csv';
+import { MinorUnits, parseAmount } from '../currency/currencies';
+
+export type PayoutFileFormat = 'csv' | 'json';
+
+export interface PayoutBankDetails {
+  accountName: string;
+  accountNumber: string;
+  bankCode: string;
+  accountType?: string;
+}
+
+export interface ParsedPayoutRow {
+  // 1-based, in file order
+  rowNumber: number;
+  reference: string | null;
+  // Null when the amount could not be read
+  amount: MinorUnits | null;
+  bankDetails: PayoutBankDetails;
+  errors: string[];
+}
+
+const ACCOUNT_TYPES = ['SAVINGS', 'CHECKING', 'CURRENT'];
+
+/**
+ * Read a payout file into rows. Problems with the file as a whole are
+ * thrown; problems with a row are collected on the row so the rest of the
+ * batch can still go ahead.
+ *
+ * CSV needs the columns amount, accountNumber, bankCode and accountName,
+ * and may have reference and accountType. JSON is an array of objects with
+ * the same fields, or `{ items: [...] }`. Amounts are in major units.
+ */
+export function parsePayoutFile(
+  content: string,
+  format: PayoutFileFormat,
+  currency: string
+): ParsedPayoutRow[] {
+  const records = format === 'csv' ? parseCsv(content) : parseJsonItems(content);
+  const seenReferences = new Set<string>();
+
+  return records.map((record, index) => {
+    const row = parseRow(record, index + 1, currency);
+
+    // The reference is how the report is matched back to the uploader's records
+    if (row.reference !== null) {
+      if (seenReferences.has(row.reference)) {
+        row.errors.push(`Duplicate reference: ${row.reference}`);
+      }
+      seenReferences.add(row.reference);
+    }
+
+    return row;
+  });
+}
+
+function parseJsonItems(content: string): Record<string, unknown>[] {
+  let body: any;
+  try {
+    body = JSON.parse(content);
+  } catch {
+    throw new AppError('Payout file is not valid JSON', 400);
+  }
+
+  const items = Array.isArray(body) ? body : body?.items;
+  if (!Array.isArray(items)) {
+    throw new AppError('Payout file must contain an items array', 400);
+  }
+
+  return items.map((item) => (item && typeof item === 'object' ? item : {}));
+}
+
+function parseRow(
+  record: Record<string, unknown>,
+  rowNumber: number,
+  currency: string
+): ParsedPayoutRow {
+  const errors: string[] = [];
+  const text = (field: string) => {
+    const value = record[field];
+    return value === undefined || value === null ? '' : String(value).trim();
+  };
+  const required = (field: string) => {
+    const value = text(field);
+    if (value === '') {
+      errors.push(`Missing ${field}`);
+    }
+    return value;
+  };
+
+  const accountNumber = required('accountNumber');
+  const bankCode = required('bankCode');
+  const accountName = required('accountName');
+  const accountType = text('accountType').toUpperCase();
+
+  if (accountNumber && !/^\d{6,34}$/.test(accountNumber)) {
+    errors.push('accountNumber must be 6 to 34 digits');
+  }
+
+  if (accountType && !ACCOUNT_TYPES.includes(accountType)) {
+    errors.push(`accountType must be one of ${ACCOUNT_TYPES.join(', ')}`);
+  }
+
+  let amount: MinorUnits | null = null;
+  const rawAmount = required('amount');
+  if (rawAmount) {
+    try {
+      amount = parseAmount(rawAmount, currency);
+      if (amount <= 0n) {
+        errors.push('amount must be positive');
+      }
+    } catch (error) {
+      amount = null;
+      errors.push(error instanceof Error ? error.message : `Invalid amount: ${rawAmount}`);
+    }
+  }
+
+  return {
+    rowNumber,
+    reference: text('reference') || null,
+    amount,
+    bankDetails: {
+      accountName,
+      accountNumber,
+      bankCode,
+      ...(accountType && { accountType }),
+    },
+    errors,
+  };
+}
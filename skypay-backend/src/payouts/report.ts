@@ -0,0 +1,61 @@
+// skypay-backend/src/payouts/report.ts
+import { PayoutItem } from '@prisma/client';
+import { escapeCsvField } from '../ledger/statements/csv';
+import { formatAmount, toMinorUnits } from '../currency/currencies';
+import { PayoutBankDetails } from './parser';
+
+const HEADER = [
+  'Row',
+  'Reference',
+  'Amount',
+  'Currency',
+  'Account Name',
+  'Bank Code',
+  'Account Number',
+  'Status',
+  'Resolved Name',
+  'Settlement',
+  'Attempts',
+  'Paid At',
+  'Errors',
+];
+
+/**
+ * Header line of the per-item payout report
+ */
+export function renderPayoutReportHeader(): string {
+  return HEADER.map(escapeCsvField).join(',') + '\r\n';
+}
+
+/**
+ * Report lines for a page of items, in the order given
+ */
+export function renderPayoutReportRows(items: PayoutItem[], currency: string): string {
+  return items
+    .map((item) => {
+      const bank = item.bankDetails as unknown as PayoutBankDetails;
+      const errors = [...((item.validationErrors as string[]) || [])];
+      if (item.failureReason) {
+        errors.push(item.failureReason);
+      }
+
+      return [
+        String(item.rowNumber),
+        item.reference,
+        formatAmount(toMinorUnits(item.amount), currency),
+        currency,
+        bank.accountName,
+        bank.bankCode,
+        bank.accountNumber,
+        item.status,
+        item.resolvedName,
+        item.settlementId,
+        String(item.attempts),
+        item.paidAt?.toISOString(),
+        errors.join('; '),
+      ]
+        .map(escapeCsvField)
+        .join(',') + '\r\n';
+    })
+    .join('');
+}
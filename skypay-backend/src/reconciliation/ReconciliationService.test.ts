@@ -0,0 +1,143 @@
+// skypay-backend/src/reconciliation/ReconciliationService.test.ts
+import fs from 'fs';
+import path from 'path';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ReconciliationService } from './ReconciliationService';
+
+const bridgeReport = fs.readFileSync(path.join(__dirname, '__fixtures__/bridge.json'), 'utf8');
+
+const ledgerEntry = (
+  id: string,
+  referenceId: string | null,
+  amount: string,
+  direction: 'DEBIT' | 'CREDIT',
+  createdAt: string
+) => ({
+  id,
+  referenceId,
+  amount: new Prisma.Decimal(amount),
+  direction,
+  createdAt: new Date(createdAt),
+  settledAt: null,
+});
+
+const setup = () => {
+  const prisma: any = {
+    reconciliationRun: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async ({ data }: any) => ({ id: 'run-1', ...data })),
+      update: jest.fn(async ({ data }: any) => ({ id: 'run-1', ...data })),
+    },
+    reconciliationItem: {
+      findMany: jest.fn().mockResolvedValue([]),
+      createMany: jest.fn(),
+    },
+    ledgerEntry: {
+      findMany: jest.fn().mockResolvedValue([
+        // Deposit booked under Bridge's id: matched
+        ledgerEntry('e1', 'brg_dep_001', '150000', 'DEBIT', '2024-03-01T09:16:00Z'),
+        // Withdrawal booked for a different amount: amount mismatch
+        ledgerEntry('e2', 'brg_wd_002', '25000', 'CREDIT', '2024-03-02T16:00:00Z'),
+        // Nothing on the statement for it: unmatched ours
+        ledgerEntry('e3', 'brg_dep_999', '7000', 'DEBIT', '2024-03-03T12:00:00Z'),
+      ]),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    getSystemAccount: jest.fn().mockResolvedValue({ id: 'bridge-float-usd' }),
+  };
+  const publisher: any = { publish: jest.fn() };
+
+  const service = new ReconciliationService(
+    prisma as PrismaClient,
+    ledgerService,
+    publisher
+  );
+
+  return { prisma, ledgerService, publisher, service };
+};
+
+const ingest = (service: ReconciliationService) =>
+  service.ingestStatement({
+    provider: 'BRIDGE',
+    currency: 'USD',
+    content: bridgeReport,
+    fileName: 'bridge.json',
+    periodStart: new Date('2024-03-01T00:00:00Z'),
+    periodEnd: new Date('2024-03-03T23:59:59Z'),
+    createdBy: 'admin-1',
+  });
+
+describe('ReconciliationService.ingestStatement', () => {
+  it('stores each result in its bucket with a summary', async () => {
+    const { prisma, ledgerService, service } = setup();
+
+    await ingest(service);
+
+    expect(ledgerService.getSystemAccount).toHaveBeenCalledWith('BRIDGE_FLOAT', 'USD');
+    expect(prisma.reconciliationRun.create.mock.calls[0][0].data).toMatchObject({
+      provider: 'BRIDGE',
+      recordCount: 2,
+      summary: {
+        matched: 1,
+        amountMismatch: 1,
+        unmatchedOurs: 1,
+        unmatchedTheirs: 0,
+        exceptions: 2,
+      },
+    });
+
+    const items = prisma.reconciliationItem.createMany.mock.calls[0][0].data;
+    expect(
+      items.map((item: any) => [
+        item.bucket,
+        item.status,
+        item.ledgerEntryId,
+        item.providerAmount?.toString(),
+        item.ledgerAmount?.toString(),
+      ])
+    ).toEqual([
+      ['MATCHED', 'RESOLVED', 'e1', '150000', '150000'],
+      ['AMOUNT_MISMATCH', 'OPEN', 'e2', '-25050', '-25000'],
+      ['UNMATCHED_OURS', 'OPEN', 'e3', undefined, '7000'],
+    ]);
+  });
+
+  it('alerts on exceptions', async () => {
+    const { publisher, service } = setup();
+
+    await ingest(service);
+
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'compliance:alerts',
+      expect.objectContaining({ type: 'RECONCILIATION_EXCEPTIONS', exceptions: 2 })
+    );
+  });
+
+  it('leaves entries reconciled by an earlier run out of matching', async () => {
+    const { prisma, service } = setup();
+    prisma.reconciliationItem.findMany.mockResolvedValue([{ ledgerEntryId: 'e1' }]);
+
+    await ingest(service);
+
+    const items = prisma.reconciliationItem.createMany.mock.calls[0][0].data;
+    expect(items.map((item: any) => [item.bucket, item.providerReference])).toEqual([
+      ['AMOUNT_MISMATCH', 'brg_wd_002'],
+      ['UNMATCHED_THEIRS', 'brg_dep_001'],
+      ['UNMATCHED_OURS', undefined],
+    ]);
+  });
+
+  it('refuses a statement file that was already ingested', async () => {
+    const { prisma, service } = setup();
+    prisma.reconciliationRun.findUnique.mockResolvedValue({ id: 'run-0' });
+
+    await expect(ingest(service)).rejects.toMatchObject({
+      statusCode: 409,
+      details: { runId: 'run-0' },
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
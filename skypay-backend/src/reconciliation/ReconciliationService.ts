@@ -0,0 +1,445 @@
+// skypay-backend/src/reconciliation/ReconciliationService.ts
+import crypto from 'crypto';
+import {
+  PrismaClient,
+  Prisma,
+  ReconciliationItem,
+  ReconciliationResolution,
+  ReconciliationRun,
+  SystemAccountCode,
+} from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { LedgerService } from '../ledger/LedgerService';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+import { MinorUnits, getCurrency, toDecimal, toMinorUnits } from '../currency/currencies';
+import { getStatementParser, MatchTolerance, ProviderRecord } from './parsers';
+import { LedgerCandidate, MatchResult, matchRecords } from './matching';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IngestStatementParams {
+  provider: string;
+  currency: string;
+  content: string;
+  fileName?: string;
+  periodStart: Date;
+  periodEnd: Date;
+  createdBy: string;
+  tolerance?: Partial<MatchTolerance>;
+}
+
+export interface ResolveItemParams {
+  resolution: ReconciliationResolution;
+  // Required for LINKED: the ledger entry the provider record belongs to
+  ledgerEntryId?: string;
+  note?: string;
+}
+
+export class ReconciliationService {
+  constructor(
+    private prisma: PrismaClient,
+    private ledgerService: LedgerService,
+    private publisher: RealtimePublisher
+  ) {}
+
+  /**
+   * Parse a provider settlement file and match it against the provider's
+   * float account, storing every result in its bucket
+   */
+  async ingestStatement(params: IngestStatementParams): Promise<ReconciliationRun> {
+    const parser = getStatementParser(params.provider);
+    getCurrency(params.currency);
+
+    if (params.periodStart > params.periodEnd) {
+      throw new AppError('periodStart must be before periodEnd', 400);
+    }
+
+    const fileHash = crypto.createHash('sha256').update(params.content).digest('hex');
+    const duplicate = await this.prisma.reconciliationRun.findUnique({
+      where: { provider_fileHash: { provider: parser.provider, fileHash } },
+    });
+
+    if (duplicate) {
+      throw new AppError('Statement file has already been ingested', 409, {
+        runId: duplicate.id,
+      });
+    }
+
+    const records = parser.parse(params.content, params.currency);
+    const tolerance: MatchTolerance = { ...parser.tolerance, ...params.tolerance };
+    const candidates = await this.loadCandidates(
+      parser.floatAccount,
+      params.currency,
+      params.periodStart,
+      params.periodEnd,
+      tolerance
+    );
+
+    const results = matchRecords(records, candidates, tolerance, {
+      start: params.periodStart,
+      end: params.periodEnd,
+    });
+    const summary = this.summarize(results);
+
+    const run = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.reconciliationRun.create({
+        data: {
+          provider: parser.provider,
+          currency: params.currency,
+          fileName: params.fileName,
+          fileHash,
+          periodStart: params.periodStart,
+          periodEnd: params.periodEnd,
+          recordCount: records.length,
+          summary,
+          createdBy: params.createdBy,
+        },
+      });
+
+      await tx.reconciliationItem.createMany({
+        data: results.map((result) => this.toItem(created.id, params.currency, result)),
+      });
+
+      return tx.reconciliationRun.update({
+        where: { id: created.id },
+        data: { completedAt: new Date() },
+      });
+    });
+
+    logger.info('Provider statement reconciled', {
+      runId: run.id,
+      provider: parser.provider,
+      currency: params.currency,
+      ...summary,
+    });
+
+    if (summary.exceptions > 0) {
+      await this.publisher.publish('compliance:alerts', {
+        type: 'RECONCILIATION_EXCEPTIONS',
+        severity: 'MEDIUM',
+        runId: run.id,
+        provider: parser.provider,
+        currency: params.currency,
+        exceptions: summary.exceptions,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return run;
+  }
+
+  /**
+   * List reconciliation runs, newest first
+   */
+  async listRuns(provider?: string, limit: number = 50): Promise<ReconciliationRun[]> {
+    return this.prisma.reconciliationRun.findMany({
+      where: provider ? { provider } : {},
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get a run with its items, optionally filtered by bucket or status
+   */
+  async getRun(
+    runId: string,
+    filters: { bucket?: string; status?: string } = {}
+  ): Promise<any> {
+    const run = await this.prisma.reconciliationRun.findUnique({
+      where: { id: runId },
+      include: {
+        items: {
+          where: {
+            ...(filters.bucket && { bucket: filters.bucket as any }),
+            ...(filters.status && { status: filters.status as any }),
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!run) {
+      throw new AppError('Reconciliation run not found', 404);
+    }
+
+    return run;
+  }
+
+  /**
+   * Resolve an exception item:
+   * - LINKED: pair an unmatched provider record with a ledger entry
+   * - ADJUSTED: book the difference between float and SUSPENSE
+   * - ACCEPTED: explained without a ledger change (e.g. timing)
+   */
+  async resolveItem(
+    itemId: string,
+    reviewerId: string,
+    params: ResolveItemParams
+  ): Promise<ReconciliationItem> {
+    return this.prisma.$transaction(async (tx) => {
+      const item = await tx.reconciliationItem.findUnique({
+        where: { id: itemId },
+        include: { run: true },
+      });
+
+      if (!item) {
+        throw new AppError('Reconciliation item not found', 404);
+      }
+
+      if (item.status !== 'OPEN' || item.bucket === 'MATCHED') {
+        throw new AppError('Reconciliation item is not an open exception', 400);
+      }
+
+      const parser = getStatementParser(item.run.provider);
+      const update: Prisma.ReconciliationItemUpdateInput = {};
+
+      switch (params.resolution) {
+        case 'LINKED':
+          Object.assign(update, await this.linkItem(tx, item, parser.floatAccount, params));
+          break;
+        case 'ADJUSTED': {
+          const journal = await this.postAdjustment(tx, item, parser.floatAccount, reviewerId);
+          update.journalId = journal.id;
+          break;
+        }
+        case 'ACCEPTED':
+          if (!params.note) {
+            throw new AppError('A note is required to accept an exception', 400);
+          }
+          break;
+        default:
+          throw new AppError(`Unknown resolution: ${params.resolution}`, 400);
+      }
+
+      const resolved = await tx.reconciliationItem.update({
+        where: { id: item.id },
+        data: {
+          ...update,
+          status: 'RESOLVED',
+          resolution: params.resolution,
+          resolvedBy: reviewerId,
+          resolutionNote: params.note,
+          resolvedAt: new Date(),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          type: 'ADMIN_ACTION',
+          userId: reviewerId,
+          entityType: 'RECONCILIATION_ITEM',
+          entityId: item.id,
+          beforeState: { bucket: item.bucket, status: item.status },
+          afterState: {
+            status: resolved.status,
+            resolution: resolved.resolution,
+            ledgerEntryId: resolved.ledgerEntryId,
+            journalId: resolved.journalId,
+          },
+          metadata: { action: 'RECONCILIATION_RESOLVE', runId: item.runId },
+        },
+      });
+
+      return resolved;
+    });
+  }
+
+  /**
+   * Float-account entries in the period, widened by the date tolerance,
+   * excluding entries already matched or linked by an earlier run
+   */
+  private async loadCandidates(
+    floatAccount: SystemAccountCode,
+    currency: string,
+    periodStart: Date,
+    periodEnd: Date,
+    tolerance: MatchTolerance
+  ): Promise<LedgerCandidate[]> {
+    const float = await this.ledgerService.getSystemAccount(floatAccount, currency);
+    const windowMs = tolerance.dateDays * DAY_MS;
+
+    const entries = await this.prisma.ledgerEntry.findMany({
+      where: {
+        accountId: float.id,
+        status: { not: 'FAILED' },
+        createdAt: {
+          gte: new Date(periodStart.getTime() - windowMs),
+          lte: new Date(periodEnd.getTime() + windowMs),
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const reconciled = await this.prisma.reconciliationItem.findMany({
+      where: {
+        ledgerEntryId: { in: entries.map((e) => e.id) },
+        OR: [{ bucket: { in: ['MATCHED', 'AMOUNT_MISMATCH'] } }, { resolution: 'LINKED' }],
+      },
+      select: { ledgerEntryId: true },
+    });
+    const done = new Set(reconciled.map((r) => r.ledgerEntryId));
+
+    return entries
+      .filter((entry) => !done.has(entry.id))
+      .map((entry): LedgerCandidate => ({
+        id: entry.id,
+        referenceId: entry.referenceId,
+        amount: toMinorUnits(entry.amount),
+        // The float mirrors our balance at the provider: a DEBIT records funds arriving there
+        direction: entry.direction === 'DEBIT' ? 'IN' : 'OUT',
+        date: entry.settledAt || entry.createdAt,
+      }));
+  }
+
+  private async linkItem(
+    tx: Prisma.TransactionClient,
+    item: ReconciliationItem & { run: ReconciliationRun },
+    floatAccount: SystemAccountCode,
+    params: ResolveItemParams
+  ): Promise<Prisma.ReconciliationItemUpdateInput> {
+    if (item.bucket !== 'UNMATCHED_THEIRS') {
+      throw new AppError('Only unmatched provider records can be linked', 400);
+    }
+
+    if (!params.ledgerEntryId) {
+      throw new AppError('ledgerEntryId is required to link an item', 400);
+    }
+
+    const float = await this.ledgerService.getSystemAccount(floatAccount, item.currency, tx);
+    const entry = await tx.ledgerEntry.findUnique({ where: { id: params.ledgerEntryId } });
+
+    if (!entry || entry.accountId !== float.id) {
+      throw new AppError(`Ledger entry is not on the ${item.run.provider} float account`, 400);
+    }
+
+    const ledgerAmount = this.signed(
+      toMinorUnits(entry.amount),
+      entry.direction === 'DEBIT' ? 'IN' : 'OUT'
+    );
+    if (item.providerAmount && ledgerAmount !== toMinorUnits(item.providerAmount)) {
+      throw new AppError('Amounts differ; resolve with ADJUSTED instead', 400, {
+        providerAmount: item.providerAmount.toFixed(0),
+        ledgerAmount: ledgerAmount.toString(),
+      });
+    }
+
+    // The entry's own UNMATCHED_OURS exception is settled by the link
+    await tx.reconciliationItem.updateMany({
+      where: {
+        runId: item.runId,
+        ledgerEntryId: entry.id,
+        bucket: 'UNMATCHED_OURS',
+        status: 'OPEN',
+      },
+      data: {
+        status: 'RESOLVED',
+        resolution: 'LINKED',
+        resolutionNote: `Linked to provider record ${item.providerReference || item.id}`,
+        resolvedAt: new Date(),
+      },
+    });
+
+    return {
+      ledgerEntryId: entry.id,
+      ledgerAmount: toDecimal(ledgerAmount),
+      ledgerDate: entry.settledAt || entry.createdAt,
+    };
+  }
+
+  /**
+   * Book provider minus ledger against SUSPENSE so the float agrees with
+   * the provider's figure
+   */
+  private async postAdjustment(
+    tx: Prisma.TransactionClient,
+    item: ReconciliationItem,
+    floatAccount: SystemAccountCode,
+    reviewerId: string
+  ) {
+    const provider = item.providerAmount ? toMinorUnits(item.providerAmount) : 0n;
+    const ours = item.ledgerAmount ? toMinorUnits(item.ledgerAmount) : 0n;
+    const difference = provider - ours;
+
+    if (difference === 0n) {
+      throw new AppError('Nothing to adjust', 400);
+    }
+
+    const float = await this.ledgerService.getSystemAccount(floatAccount, item.currency, tx);
+    const suspense = await this.ledgerService.getSystemAccount('SUSPENSE', item.currency, tx);
+    const amount = difference < 0n ? -difference : difference;
+    // Funds in at the provider are a DEBIT on the float
+    const floatDirection = difference > 0n ? 'DEBIT' : 'CREDIT';
+
+    const { journal } = await this.ledgerService.postJournal(
+      {
+        type: 'ADJUSTMENT',
+        referenceId: `reconciliation:${item.id}`,
+        metadata: { reconciliationItemId: item.id, runId: item.runId, reviewerId },
+        description: `Reconciliation adjustment ${item.id}`,
+        legs: [
+          { accountId: float.id, amount, currency: item.currency, direction: floatDirection },
+          {
+            accountId: suspense.id,
+            amount,
+            currency: item.currency,
+            direction: floatDirection === 'DEBIT' ? 'CREDIT' : 'DEBIT',
+          },
+        ],
+      },
+      tx
+    );
+
+    return journal;
+  }
+
+  private toItem(
+    runId: string,
+    currency: string,
+    result: MatchResult
+  ): Prisma.ReconciliationItemCreateManyInput {
+    const { record, entry } = result;
+
+    return {
+      runId,
+      currency,
+      bucket: result.bucket,
+      // Matched items need no review
+      status: result.bucket === 'MATCHED' ? 'RESOLVED' : 'OPEN',
+      matchedBy: result.matchedBy,
+      ledgerEntryId: entry?.id,
+      ledgerAmount: entry ? toDecimal(this.signed(entry.amount, entry.direction)) : undefined,
+      ledgerDate: entry?.date,
+      providerReference: record?.reference || record?.providerId,
+      providerAmount: record ? toDecimal(this.signed(record.amount, record.direction)) : undefined,
+      providerDate: record?.date,
+      providerRecord: record ? this.serializeRecord(record) : undefined,
+    };
+  }
+
+  private summarize(results: MatchResult[]) {
+    const count = (bucket: string) => results.filter((r) => r.bucket === bucket).length;
+    const matched = count('MATCHED');
+
+    return {
+      matched,
+      amountMismatch: count('AMOUNT_MISMATCH'),
+      unmatchedOurs: count('UNMATCHED_OURS'),
+      unmatchedTheirs: count('UNMATCHED_THEIRS'),
+      exceptions: results.length - matched,
+    };
+  }
+
+  private signed(amount: MinorUnits, direction: 'IN' | 'OUT'): MinorUnits {
+    return direction === 'IN' ? amount : -amount;
+  }
+
+  private serializeRecord(record: ProviderRecord): Prisma.InputJsonValue {
+    return {
+      ...record,
+      amount: record.amount.toString(),
+      date: record.date.toISOString(),
+    } as Prisma.InputJsonValue;
+  }
+}
@@ -0,0 +1,150 @@
+// skypay-backend/src/reconciliation/matching.test.ts
+import { LedgerCandidate, matchRecords } from './matching';
+import { MatchTolerance, ProviderRecord } from './parsers/types';
+
+const tolerance: MatchTolerance = { amountMinorUnits: 0n, dateDays: 1 };
+const period = { start: new Date('2024-03-01T00:00:00Z'), end: new Date('2024-03-31T23:59:59Z') };
+
+const record = (
+  providerId: string,
+  reference: string | null,
+  amount: bigint,
+  date: string,
+  direction: 'IN' | 'OUT' = 'IN'
+): ProviderRecord => ({
+  providerId,
+  reference,
+  amount,
+  currency: 'USD',
+  direction,
+  date: new Date(date),
+  raw: {},
+});
+
+const entry = (
+  id: string,
+  referenceId: string | null,
+  amount: bigint,
+  date: string,
+  direction: 'IN' | 'OUT' = 'IN'
+): LedgerCandidate => ({ id, referenceId, amount, direction, date: new Date(date) });
+
+// Bucket and pairing of each result, as [bucket, provider id, entry id]
+const pairs = (results: ReturnType<typeof matchRecords>) =>
+  results.map((r) => [r.bucket, r.record?.providerId ?? null, r.entry?.id ?? null]);
+
+describe('matchRecords', () => {
+  it('matches on reference first, then on a unique amount and date', () => {
+    const results = matchRecords(
+      [
+        record('p1', 'ref-1', 1000n, '2024-03-05T10:00:00Z'),
+        record('p2', null, 2500n, '2024-03-06T10:00:00Z'),
+      ],
+      [
+        entry('e1', 'ref-1', 1000n, '2024-03-05T09:00:00Z'),
+        entry('e2', null, 2500n, '2024-03-06T20:00:00Z'),
+      ],
+      tolerance,
+      period
+    );
+
+    expect(pairs(results)).toEqual([
+      ['MATCHED', 'p1', 'e1'],
+      ['MATCHED', 'p2', 'e2'],
+    ]);
+    expect(results.map((r) => r.matchedBy)).toEqual(['REFERENCE', 'AMOUNT_DATE']);
+  });
+
+  it('reports a reference match with a different amount as AMOUNT_MISMATCH', () => {
+    const results = matchRecords(
+      [record('p1', 'ref-1', 1000n, '2024-03-05T10:00:00Z')],
+      [entry('e1', 'ref-1', 990n, '2024-03-05T10:00:00Z')],
+      tolerance,
+      period
+    );
+
+    expect(pairs(results)).toEqual([['AMOUNT_MISMATCH', 'p1', 'e1']]);
+  });
+
+  it('treats differences within the amount tolerance as matched', () => {
+    const results = matchRecords(
+      [record('p1', 'ref-1', 1000n, '2024-03-05T10:00:00Z')],
+      [entry('e1', 'ref-1', 995n, '2024-03-05T10:00:00Z')],
+      { ...tolerance, amountMinorUnits: 5n },
+      period
+    );
+
+    expect(pairs(results)).toEqual([['MATCHED', 'p1', 'e1']]);
+  });
+
+  it('pairs the closest amount when one reference has several entries', () => {
+    const results = matchRecords(
+      [record('p1', 'ref-1', 1000n, '2024-03-05T10:00:00Z')],
+      [
+        entry('e1', 'ref-1', 400n, '2024-03-05T10:00:00Z'),
+        entry('e2', 'ref-1', 1000n, '2024-03-05T10:00:00Z'),
+      ],
+      tolerance,
+      period
+    );
+
+    expect(pairs(results)).toEqual([
+      ['MATCHED', 'p1', 'e2'],
+      ['UNMATCHED_OURS', null, 'e1'],
+    ]);
+  });
+
+  it('does not fuzzy-match across conflicting references, directions or dates', () => {
+    const results = matchRecords(
+      [
+        record('p1', 'ref-theirs', 1000n, '2024-03-05T10:00:00Z'),
+        record('p2', null, 2000n, '2024-03-05T10:00:00Z', 'OUT'),
+        record('p3', null, 3000n, '2024-03-05T10:00:00Z'),
+      ],
+      [
+        entry('e1', 'ref-ours', 1000n, '2024-03-05T10:00:00Z'),
+        entry('e2', null, 2000n, '2024-03-05T10:00:00Z', 'IN'),
+        entry('e3', null, 3000n, '2024-03-08T10:00:00Z'),
+      ],
+      tolerance,
+      period
+    );
+
+    expect(pairs(results)).toEqual([
+      ['UNMATCHED_THEIRS', 'p1', null],
+      ['UNMATCHED_THEIRS', 'p2', null],
+      ['UNMATCHED_THEIRS', 'p3', null],
+      ['UNMATCHED_OURS', null, 'e1'],
+      ['UNMATCHED_OURS', null, 'e2'],
+      ['UNMATCHED_OURS', null, 'e3'],
+    ]);
+  });
+
+  it('picks the entry closest in date when several amounts qualify', () => {
+    const results = matchRecords(
+      [record('p1', null, 1000n, '2024-03-05T10:00:00Z')],
+      [
+        entry('e1', null, 1000n, '2024-03-04T12:00:00Z'),
+        entry('e2', null, 1000n, '2024-03-05T11:00:00Z'),
+      ],
+      tolerance,
+      period
+    );
+
+    expect(pairs(results)[0]).toEqual(['MATCHED', 'p1', 'e2']);
+  });
+
+  it('leaves unmatched entries outside the statement period out of the report', () => {
+    const results = matchRecords(
+      [],
+      [
+        entry('e1', null, 1000n, '2024-02-29T23:00:00Z'),
+        entry('e2', null, 1000n, '2024-03-15T10:00:00Z'),
+      ],
+      tolerance,
+      period
+    );
+
+    expect(pairs(results)).toEqual([['UNMATCHED_OURS', null, 'e2']]);
+  });
+});
@@ -0,0 +1,119 @@
+// skypay-backend/src/reconciliation/matching.ts
+import { MinorUnits } from '../currency/currencies';
+import { MatchTolerance, ProviderRecord } from './parsers/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A ledger entry on the provider's float account, in the same sign
+ * convention as provider records
+ */
+export interface LedgerCandidate {
+  id: string;
+  referenceId: string | null;
+  amount: MinorUnits;
+  direction: 'IN' | 'OUT';
+  date: Date;
+}
+
+export type MatchBucket = 'MATCHED' | 'UNMATCHED_OURS' | 'UNMATCHED_THEIRS' | 'AMOUNT_MISMATCH';
+
+export interface MatchResult {
+  bucket: MatchBucket;
+  record?: ProviderRecord;
+  entry?: LedgerCandidate;
+  matchedBy?: 'REFERENCE' | 'AMOUNT_DATE';
+}
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+/**
+ * Pair provider records with ledger entries. References are matched first
+ * (amount differences become AMOUNT_MISMATCH); records without a usable
+ * reference fall back to a unique amount + date match. Entries are only
+ * reported as UNMATCHED_OURS if they fall inside the statement period.
+ */
+export function matchRecords(
+  records: ProviderRecord[],
+  candidates: LedgerCandidate[],
+  tolerance: MatchTolerance,
+  period: { start: Date; end: Date }
+): MatchResult[] {
+  const results: MatchResult[] = [];
+  const used = new Set<string>();
+  const pending: ProviderRecord[] = [];
+  const windowMs = tolerance.dateDays * DAY_MS;
+
+  const withinWindow = (record: ProviderRecord, entry: LedgerCandidate) =>
+    Math.abs(record.date.getTime() - entry.date.getTime()) <= windowMs;
+
+  const byReference = new Map<string, LedgerCandidate[]>();
+  for (const candidate of candidates) {
+    if (candidate.referenceId) {
+      const list = byReference.get(candidate.referenceId) || [];
+      list.push(candidate);
+      byReference.set(candidate.referenceId, list);
+    }
+  }
+
+  // Pass 1: reference match, closest amount wins
+  for (const record of records) {
+    const sameReference = (record.reference && byReference.get(record.reference)) || [];
+    const [best] = sameReference
+      .filter((c) => !used.has(c.id) && c.direction === record.direction && withinWindow(record, c))
+      .sort((a, b) => Number(abs(a.amount - record.amount) - abs(b.amount - record.amount)));
+
+    if (!best) {
+      pending.push(record);
+      continue;
+    }
+
+    used.add(best.id);
+    results.push({
+      bucket:
+        abs(best.amount - record.amount) <= tolerance.amountMinorUnits
+          ? 'MATCHED'
+          : 'AMOUNT_MISMATCH',
+      record,
+      entry: best,
+      matchedBy: 'REFERENCE',
+    });
+  }
+
+  // Pass 2: amount and date, only when neither side carries a conflicting reference
+  for (const record of pending) {
+    const [best] = candidates
+      .filter(
+        (c) =>
+          !used.has(c.id) &&
+          c.direction === record.direction &&
+          (!c.referenceId || !record.reference) &&
+          abs(c.amount - record.amount) <= tolerance.amountMinorUnits &&
+          withinWindow(record, c)
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(a.date.getTime() - record.date.getTime()) -
+          Math.abs(b.date.getTime() - record.date.getTime())
+      );
+
+    if (best) {
+      used.add(best.id);
+      results.push({ bucket: 'MATCHED', record, entry: best, matchedBy: 'AMOUNT_DATE' });
+    } else {
+      results.push({ bucket: 'UNMATCHED_THEIRS', record });
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (
+      !used.has(candidate.id) &&
+      candidate.date >= period.start &&
+      candidate.date <= period.end
+    ) {
+      results.push({ bucket: 'UNMATCHED_OURS', entry: candidate });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,58 @@
+// skypay-backend/src/reconciliation/parsers/bridge.ts
+import { AppError } from '../../utils/errors';
+import { parseAmount } from '../../currency/currencies';
+import { ProviderRecord, ProviderStatementParser } from './types';
+
+const SETTLED_STATUSES = new Set(['completed', 'settled']);
+
+/**
+ * Bridge settlement report: the JSON body of the transactions export,
+ * either a bare array or `{ data: [...] }`, amounts in major units
+ */
+export const bridgeParser: ProviderStatementParser = {
+  provider: 'BRIDGE',
+  floatAccount: 'BRIDGE_FLOAT',
+  tolerance: { amountMinorUnits: 0n, dateDays: 2 },
+
+  parse(content: string, currency: string): ProviderRecord[] {
+    let body: any;
+    try {
+      body = JSON.parse(content);
+    } catch {
+      throw new AppError('Bridge report is not valid JSON', 400);
+    }
+
+    const transactions: any[] = Array.isArray(body) ? body : body?.data;
+    if (!Array.isArray(transactions)) {
+      throw new AppError('Bridge report must contain a transactions array', 400);
+    }
+
+    return transactions
+      .filter((tx) => SETTLED_STATUSES.has(String(tx.status).toLowerCase()))
+      .filter((tx) => String(tx.currency).toUpperCase() === currency)
+      .map((tx, index): ProviderRecord => {
+        if (!tx.id || tx.amount === undefined) {
+          throw new AppError(`Bridge transaction ${index + 1} is missing id or amount`, 400);
+        }
+
+        const date = new Date(tx.completed_at || tx.created_at);
+        if (Number.isNaN(date.getTime())) {
+          throw new AppError(`Bridge transaction ${tx.id} has no valid date`, 400);
+        }
+
+        const amount = parseAmount(String(tx.amount), currency);
+
+        return {
+          // Our DEPOSIT/WITHDRAWAL journals use Bridge's transaction id as referenceId
+          reference: String(tx.id),
+          providerId: String(tx.id),
+          amount: amount < 0n ? -amount : amount,
+          currency,
+          direction: tx.type === 'withdrawal' ? 'OUT' : 'IN',
+          date,
+          description: tx.external_reference,
+          raw: tx,
+        };
+      });
+  },
+};
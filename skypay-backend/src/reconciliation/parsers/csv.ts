@@ -0,0 +1,91 @@
+// skypay-backend/src/reconciliation/parsers/csv.ts
+import { AppError } from '../../utils/errors';
+
+/**
+ * Parse RFC 4180 CSV into rows keyed by header name
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new AppError('Malformed CSV: unterminated quoted field', 400);
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((value) => value.trim() !== ''));
+
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim());
+
+  return body.map((values) =>
+    Object.fromEntries(keys.map((key, index) => [key, (values[index] ?? '').trim()]))
+  );
+}
+
+/**
+ * Read a required column, naming the row in the error
+ */
+export function requireColumn(
+  row: Record<string, string>,
+  column: string,
+  line: number
+): string {
+  const value = row[column];
+  if (value === undefined || value === '') {
+    throw new AppError(`Missing ${column} on row ${line}`, 400);
+  }
+  return value;
+}
+
+/**
+ * Parse a provider date column, rejecting unreadable values
+ */
+export function parseDate(value: string, line: number): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(`Invalid date "${value}" on row ${line}`, 400);
+  }
+  return date;
+}
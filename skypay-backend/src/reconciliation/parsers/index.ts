@@ -0,0 +1,28 @@
+// skypay-backend/src/reconciliation/parsers/index.ts
+import { AppError } from '../../utils/errors';
+import { bridgeParser } from './bridge';
+import { paystackParser } from './paystack';
+import { stripeParser } from './stripe';
+import { mtnMomoParser, airtelMoneyParser } from './mobileMoney';
+import { ProviderStatementParser } from './types';
+
+export * from './types';
+
+const PARSERS: Record<string, ProviderStatementParser> = Object.fromEntries(
+  [bridgeParser, paystackParser, stripeParser, mtnMomoParser, airtelMoneyParser].map(
+    (parser) => [parser.provider, parser]
+  )
+);
+
+export const SUPPORTED_PROVIDERS = Object.keys(PARSERS);
+
+/**
+ * Look up the statement parser for a provider
+ */
+export function getStatementParser(provider: string): ProviderStatementParser {
+  const parser = PARSERS[provider];
+  if (!parser) {
+    throw new AppError(`No statement parser for provider: ${provider}`, 400);
+  }
+  return parser;
+}
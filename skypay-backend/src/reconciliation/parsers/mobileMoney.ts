@@ -0,0 +1,89 @@
+// skypay-backend/src/reconciliation/parsers/mobileMoney.ts
+import { SystemAccountCode } from '@prisma/client';
+import { parseAmount } from '../../currency/currencies';
+import { parseCsv, parseDate, requireColumn } from './csv';
+import { ProviderRecord, ProviderStatementParser } from './types';
+
+interface MobileMoneyReportLayout {
+  provider: string;
+  floatAccount: SystemAccountCode;
+  columns: {
+    id: string;
+    reference: string;
+    date: string;
+    amount: string;
+    currency: string;
+    status: string;
+    type: string;
+  };
+  successStatus: string;
+  // Transaction types that move money out of our wallet
+  outgoingTypes: string[];
+}
+
+/**
+ * Mobile money operators export near-identical CSV reports that differ
+ * only in column names, so each operator is a layout over one parser
+ */
+const createMobileMoneyParser = (layout: MobileMoneyReportLayout): ProviderStatementParser => ({
+  provider: layout.provider,
+  floatAccount: layout.floatAccount,
+  tolerance: { amountMinorUnits: 0n, dateDays: 1 },
+
+  parse(content: string, currency: string): ProviderRecord[] {
+    const { columns } = layout;
+    const outgoing = new Set(layout.outgoingTypes.map((type) => type.toUpperCase()));
+
+    return parseCsv(content)
+      .map((row, index) => ({ row, line: index + 2 }))
+      .filter(({ row }) => (row[columns.status] || '').toUpperCase() === layout.successStatus)
+      .filter(({ row }) => (row[columns.currency] || currency).toUpperCase() === currency)
+      .map(({ row, line }): ProviderRecord => {
+        const amount = parseAmount(requireColumn(row, columns.amount, line), currency);
+        const type = (row[columns.type] || '').toUpperCase();
+
+        return {
+          reference: row[columns.reference] || null,
+          providerId: requireColumn(row, columns.id, line),
+          amount: amount < 0n ? -amount : amount,
+          currency,
+          direction: outgoing.has(type) || amount < 0n ? 'OUT' : 'IN',
+          date: parseDate(requireColumn(row, columns.date, line), line),
+          description: row[columns.type],
+          raw: row,
+        };
+      });
+  },
+});
+
+export const mtnMomoParser = createMobileMoneyParser({
+  provider: 'MTN_MOMO',
+  floatAccount: 'MTN_MOMO_FLOAT',
+  columns: {
+    id: 'Id',
+    reference: 'External Transaction Id',
+    date: 'Date',
+    amount: 'Amount',
+    currency: 'Currency',
+    status: 'Status',
+    type: 'Type',
+  },
+  successStatus: 'SUCCESSFUL',
+  outgoingTypes: ['TRANSFER', 'DISBURSEMENT', 'REFUND'],
+});
+
+export const airtelMoneyParser = createMobileMoneyParser({
+  provider: 'AIRTEL_MONEY',
+  floatAccount: 'AIRTEL_MONEY_FLOAT',
+  columns: {
+    id: 'Transaction ID',
+    reference: 'Reference',
+    date: 'Transaction Date',
+    amount: 'Amount',
+    currency: 'Currency',
+    status: 'Status',
+    type: 'Transaction Type',
+  },
+  successStatus: 'SUCCESS',
+  outgoingTypes: ['DISBURSEMENT', 'REFUND', 'CASH_OUT'],
+});
@@ -0,0 +1,139 @@
+// skypay-backend/src/reconciliation/parsers/parsers.test.ts
+import fs from 'fs';
+import path from 'path';
+import { getStatementParser, ProviderRecord, SUPPORTED_PROVIDERS } from '.';
+import { parseCsv } from './csv';
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '../__fixtures__', name), 'utf8');
+
+// The fields matching reads, without the raw row
+const summary = (records: ProviderRecord[]) =>
+  records.map(({ reference, providerId, amount, direction, date }) => ({
+    reference,
+    providerId,
+    amount,
+    direction,
+    date: date.toISOString(),
+  }));
+
+describe('statement parsers', () => {
+  it('has a parser for every supported provider', () => {
+    expect(SUPPORTED_PROVIDERS).toEqual([
+      'BRIDGE',
+      'PAYSTACK',
+      'STRIPE',
+      'MTN_MOMO',
+      'AIRTEL_MONEY',
+    ]);
+    expect(() => getStatementParser('UNKNOWN')).toThrow('No statement parser for provider');
+  });
+
+  it('reads settled Bridge transactions in the statement currency', () => {
+    const records = getStatementParser('BRIDGE').parse(fixture('bridge.json'), 'USD');
+
+    expect(summary(records)).toEqual([
+      {
+        reference: 'brg_dep_001',
+        providerId: 'brg_dep_001',
+        amount: 150000n,
+        direction: 'IN',
+        date: '2024-03-01T09:15:00.000Z',
+      },
+      {
+        reference: 'brg_wd_002',
+        providerId: 'brg_wd_002',
+        amount: 25050n,
+        direction: 'OUT',
+        date: '2024-03-02T16:30:00.000Z',
+      },
+    ]);
+  });
+
+  it('rejects Bridge reports that are not a transactions list', () => {
+    const parser = getStatementParser('BRIDGE');
+
+    expect(() => parser.parse('not json', 'USD')).toThrow('not valid JSON');
+    expect(() => parser.parse('{"data": {}}', 'USD')).toThrow('transactions array');
+  });
+
+  it('reads Paystack successes and reversals, reversals as outgoing', () => {
+    const records = getStatementParser('PAYSTACK').parse(fixture('paystack.csv'), 'NGN');
+
+    expect(summary(records)).toEqual([
+      {
+        reference: 'PSK-REF-1',
+        providerId: '3001',
+        amount: 2500000n,
+        direction: 'IN',
+        date: '2024-03-01T10:00:00.000Z',
+      },
+      {
+        reference: 'PSK-REF-2',
+        providerId: '3002',
+        amount: 500000n,
+        direction: 'OUT',
+        date: '2024-03-02T08:30:00.000Z',
+      },
+    ]);
+    expect(records[1].description).toBe('bank, transfer');
+  });
+
+  it('reads Stripe net amounts, preferring our reference over the source id', () => {
+    const records = getStatementParser('STRIPE').parse(fixture('stripe.csv'), 'USD');
+
+    expect(summary(records)).toEqual([
+      {
+        reference: 'dep-ref-1',
+        providerId: 'txn_001',
+        amount: 9680n,
+        direction: 'IN',
+        date: '2024-03-01T12:00:00.000Z',
+      },
+      {
+        reference: 're_002',
+        providerId: 'txn_002',
+        amount: 2000n,
+        direction: 'OUT',
+        date: '2024-03-01T15:00:00.000Z',
+      },
+      {
+        reference: 'ch_003',
+        providerId: 'txn_003',
+        amount: 4825n,
+        direction: 'IN',
+        date: '2024-03-02T09:00:00.000Z',
+      },
+    ]);
+  });
+
+  it.each([
+    ['MTN_MOMO', 'mtn_momo.csv', ['momo-ref-1', 'IN', 50000n], ['momo-ref-2', 'OUT', 20000n]],
+    ['AIRTEL_MONEY', 'airtel_money.csv', ['air-ref-1', 'IN', 30000n], ['air-ref-2', 'OUT', 12500n]],
+  ])('reads %s successes, outgoing by transaction type', (provider, file, ...expected) => {
+    const records = getStatementParser(provider).parse(fixture(file), 'UGX');
+
+    expect(records.map((r) => [r.reference, r.direction, r.amount])).toEqual(expected);
+  });
+
+  it('names the row of a missing required column', () => {
+    const content =
+      'Reference,Amount,Currency,Status,Transaction Date\n' + 'PSK-1,,NGN,success,2024-03-01\n';
+
+    expect(() => getStatementParser('PAYSTACK').parse(content, 'NGN')).toThrow(
+      'Missing Amount on row 2'
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and a byte order mark', () => {
+    const rows = parseCsv('\uFEFFa,b\r\n"x, y","say ""hi"""\r\n\r\n');
+
+    expect(rows).toEqual([{ a: 'x, y', b: 'say "hi"' }]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('unterminated quoted field');
+  });
+});
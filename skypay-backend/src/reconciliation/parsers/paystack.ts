@@ -0,0 +1,38 @@
+// skypay-backend/src/reconciliation/parsers/paystack.ts
+import { parseAmount } from '../../currency/currencies';
+import { parseCsv, parseDate, requireColumn } from './csv';
+import { ProviderRecord, ProviderStatementParser } from './types';
+
+const SETTLED_STATUSES = new Set(['success', 'reversed']);
+
+/**
+ * Paystack settlement CSV export (Reference, Amount, Currency, Status,
+ * Transaction Date, Channel). Refunds and reversals carry negative amounts.
+ */
+export const paystackParser: ProviderStatementParser = {
+  provider: 'PAYSTACK',
+  floatAccount: 'PAYSTACK_FLOAT',
+  tolerance: { amountMinorUnits: 0n, dateDays: 1 },
+
+  parse(content: string, currency: string): ProviderRecord[] {
+    return parseCsv(content)
+      .map((row, index) => ({ row, line: index + 2 }))
+      .filter(({ row }) => SETTLED_STATUSES.has((row['Status'] || '').toLowerCase()))
+      .filter(({ row }) => (row['Currency'] || currency).toUpperCase() === currency)
+      .map(({ row, line }): ProviderRecord => {
+        const reference = requireColumn(row, 'Reference', line);
+        const amount = parseAmount(requireColumn(row, 'Amount', line), currency);
+
+        return {
+          reference,
+          providerId: row['Transaction ID'] || reference,
+          amount: amount < 0n ? -amount : amount,
+          currency,
+          direction: amount < 0n ? 'OUT' : 'IN',
+          date: parseDate(requireColumn(row, 'Transaction Date', line), line),
+          description: row['Channel'],
+          raw: row,
+        };
+      });
+  },
+};
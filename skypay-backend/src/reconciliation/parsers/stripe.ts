@@ -0,0 +1,39 @@
+// skypay-backend/src/reconciliation/parsers/stripe.ts
+import { parseAmount } from '../../currency/currencies';
+import { parseCsv, parseDate, requireColumn } from './csv';
+import { ProviderRecord, ProviderStatementParser } from './types';
+
+// Metadata column carrying our referenceId when set on the PaymentIntent
+const REFERENCE_COLUMN = 'payment_metadata[referenceId]';
+
+/**
+ * Stripe itemized payout reconciliation report (balance_transaction_id,
+ * created_utc, currency, net, reporting_category, source_id). Net is used
+ * because that is what lands in, or leaves, the payout balance.
+ */
+export const stripeParser: ProviderStatementParser = {
+  provider: 'STRIPE',
+  floatAccount: 'STRIPE_FLOAT',
+  tolerance: { amountMinorUnits: 0n, dateDays: 3 },
+
+  parse(content: string, currency: string): ProviderRecord[] {
+    return parseCsv(content)
+      .map((row, index) => ({ row, line: index + 2 }))
+      .filter(({ row }) => (row['currency'] || '').toUpperCase() === currency)
+      .map(({ row, line }): ProviderRecord => {
+        const id = requireColumn(row, 'balance_transaction_id', line);
+        const net = parseAmount(requireColumn(row, 'net', line), currency);
+
+        return {
+          reference: row[REFERENCE_COLUMN] || row['source_id'] || null,
+          providerId: id,
+          amount: net < 0n ? -net : net,
+          currency,
+          direction: net < 0n ? 'OUT' : 'IN',
+          date: parseDate(requireColumn(row, 'created_utc', line), line),
+          description: row['reporting_category'],
+          raw: row,
+        };
+      });
+  },
+};
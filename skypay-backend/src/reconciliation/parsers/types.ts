@@ -0,0 +1,33 @@
+// skypay-backend/src/reconciliation/parsers/types.ts
+import { SystemAccountCode } from '@prisma/client';
+import { MinorUnits } from '../../currency/currencies';
+
+/**
+ * One settled movement as reported by a provider. Amounts are absolute
+ * minor units; direction is relative to our balance held at the provider.
+ */
+export interface ProviderRecord {
+  reference: string | null;
+  providerId: string;
+  amount: MinorUnits;
+  currency: string;
+  direction: 'IN' | 'OUT';
+  date: Date;
+  description?: string;
+  raw: Record<string, any>;
+}
+
+export interface MatchTolerance {
+  // Largest absolute difference still treated as an exact match
+  amountMinorUnits: MinorUnits;
+  // How far booking dates may drift between the provider and our ledger
+  dateDays: number;
+}
+
+export interface ProviderStatementParser {
+  provider: string;
+  // System account mirroring our balance at this provider
+  floatAccount: SystemAccountCode;
+  tolerance: MatchTolerance;
+  parse(content: string, currency: string): ProviderRecord[];
+}
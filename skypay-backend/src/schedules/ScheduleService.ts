@@ -0,0 +1,754 @@
+// skypay-backend/src/schedules/ScheduleService.ts
+import {
+  PrismaClient,
+  Prisma,
+  ScheduleFrequency,
+  Settlement,
+  SettlementState,
+  TransferSchedule,
+  TransferScheduleRun,
+} from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { SettlementService } from '../settlement/SettlementService';
+import { TransferService, parseRecipient } from '../transfers/TransferService';
+import { BridgeService } from '../integrations/bridge/BridgeService';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+import {
+  MinorUnits,
+  formatAmount,
+  getCurrency,
+  toDecimal,
+  toMinorUnits,
+} from '../currency/currencies';
+import { PayoutBankDetails } from '../payouts/parser';
+import { ScheduleRule, nextOccurrence, validateRule } from './rules';
+
+export type ScheduleType = 'INTERNAL_TRANSFER' | 'PAYOUT';
+
+export interface CreateScheduleParams {
+  userId: string;
+  type: ScheduleType;
+  amount: MinorUnits;
+  currency: string;
+  // Internal transfers: email, phone number, SkyPay tag or wallet address
+  recipient?: string;
+  // Payouts
+  bankDetails?: PayoutBankDetails;
+  note?: string;
+  frequency: ScheduleFrequency;
+  interval?: number;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  cron?: string;
+  timeOfDay?: string;
+  timezone?: string;
+  // Defaults to now
+  startAt?: Date;
+  endAt?: Date;
+  maxOccurrences?: number;
+}
+
+export interface UpdateScheduleParams {
+  amount?: MinorUnits;
+  note?: string | null;
+  endAt?: Date | null;
+  maxOccurrences?: number | null;
+}
+
+export type ScheduleWithRuns = TransferSchedule & { runs: TransferScheduleRun[] };
+
+type ScheduleNotification =
+  | 'SCHEDULED_TRANSFER_UPCOMING'
+  | 'SCHEDULED_TRANSFER_SUCCEEDED'
+  | 'SCHEDULED_TRANSFER_RETRYING'
+  | 'SCHEDULED_TRANSFER_FAILED';
+
+const BATCH_SIZE = 200;
+
+// A run left PROCESSING this long was abandoned by a worker that died
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+// Settlements in these states moved no money
+const UNSETTLED_STATES: SettlementState[] = ['FAILED', 'EXPIRED', 'REVERSED'];
+
+const INSUFFICIENT_FUNDS = 'Insufficient available balance';
+
+/**
+ * Recurring transfers and payouts. A schedule stores the instruction and
+ * a rule; each time the rule fires a run is recorded and executed as an
+ * ordinary settlement, so it passes the same limit and compliance checks
+ * as one the user started. Runs short of funds are retried a few times
+ * before they fail. The user is told before each run and after each
+ * attempt.
+ */
+export class ScheduleService {
+  constructor(
+    private prisma: PrismaClient,
+    private settlementService: SettlementService,
+    private transferService: TransferService,
+    private bridgeService: BridgeService,
+    private publisher: RealtimePublisher
+  ) {}
+
+  /**
+   * Check an instruction and its rule and store it with its first run time
+   */
+  async createSchedule(params: CreateScheduleParams): Promise<TransferSchedule> {
+    const { userId, type, amount, currency } = params;
+
+    if (amount <= 0n) {
+      throw new AppError('Amount must be positive', 400);
+    }
+
+    let recipient: string | null = null;
+    let bankDetails: PayoutBankDetails | null = null;
+
+    if (type === 'INTERNAL_TRANSFER') {
+      if (!params.recipient) {
+        throw new AppError('Scheduled transfers need a recipient', 400);
+      }
+      parseRecipient(params.recipient);
+      recipient = params.recipient.trim();
+    } else {
+      if (getCurrency(currency).kind !== 'FIAT') {
+        throw new AppError('Payouts are made in fiat currencies only', 400);
+      }
+      bankDetails = await this.checkBankDetails(params.bankDetails);
+    }
+
+    const rule: ScheduleRule = {
+      frequency: params.frequency,
+      interval: params.interval ?? 1,
+      dayOfWeek: params.dayOfWeek,
+      dayOfMonth: params.dayOfMonth,
+      cron: params.cron,
+      timeOfDay: params.timeOfDay ?? '09:00',
+      timezone: params.timezone ?? 'UTC',
+    };
+    const problems = validateRule(rule);
+    if (problems.length > 0) {
+      throw new AppError('Invalid schedule rule', 400, problems);
+    }
+
+    const now = new Date();
+    const startAt = params.startAt ?? now;
+    if (params.endAt && params.endAt <= startAt) {
+      throw new AppError('endAt must be after the start', 400);
+    }
+
+    const nextRunAt = nextOccurrence(rule, startAt, now);
+    if (!nextRunAt || (params.endAt && nextRunAt > params.endAt)) {
+      throw new AppError('Schedule never runs', 400);
+    }
+
+    const schedule = await this.prisma.transferSchedule.create({
+      data: {
+        userId,
+        type,
+        amount: toDecimal(amount),
+        currency,
+        recipient,
+        bankDetails: bankDetails
+          ? (bankDetails as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        note: params.note,
+        ...rule,
+        dayOfWeek: rule.dayOfWeek ?? null,
+        dayOfMonth: rule.dayOfMonth ?? null,
+        cron: rule.cron ?? null,
+        startAt,
+        endAt: params.endAt,
+        maxOccurrences: params.maxOccurrences,
+        nextRunAt,
+      },
+    });
+
+    logger.info(`Transfer schedule created: ${schedule.id}`, {
+      userId,
+      type,
+      amount: amount.toString(),
+      currency,
+      frequency: rule.frequency,
+      nextRunAt,
+    });
+
+    return schedule;
+  }
+
+  async listSchedules(
+    userId: string,
+    options: { status?: TransferSchedule['status']; limit: number; offset: number }
+  ): Promise<{ schedules: TransferSchedule[]; total: number }> {
+    const where: Prisma.TransferScheduleWhereInput = { userId, status: options.status };
+
+    const [schedules, total] = await Promise.all([
+      this.prisma.transferSchedule.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: options.limit,
+        skip: options.offset,
+      }),
+      this.prisma.transferSchedule.count({ where }),
+    ]);
+
+    return { schedules, total };
+  }
+
+  /**
+   * A schedule with its latest runs
+   */
+  async getSchedule(scheduleId: string, userId: string): Promise<ScheduleWithRuns> {
+    const schedule = await this.prisma.transferSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      include: { runs: { orderBy: { scheduledFor: 'desc' }, take: 10 } },
+    });
+
+    if (!schedule) {
+      throw new AppError('Schedule not found', 404);
+    }
+
+    return schedule;
+  }
+
+  async listRuns(
+    scheduleId: string,
+    userId: string,
+    options: { limit: number; offset: number }
+  ): Promise<{ runs: TransferScheduleRun[]; total: number }> {
+    await this.findOwned(scheduleId, userId);
+
+    const [runs, total] = await Promise.all([
+      this.prisma.transferScheduleRun.findMany({
+        where: { scheduleId },
+        orderBy: { scheduledFor: 'desc' },
+        take: options.limit,
+        skip: options.offset,
+      }),
+      this.prisma.transferScheduleRun.count({ where: { scheduleId } }),
+    ]);
+
+    return { runs, total };
+  }
+
+  /**
+   * Change the amount, note or end of a schedule. Runs that haven't gone
+   * out yet, retries included, use the new amount.
+   */
+  async updateSchedule(
+    scheduleId: string,
+    userId: string,
+    params: UpdateScheduleParams
+  ): Promise<TransferSchedule> {
+    const schedule = await this.findOwned(scheduleId, userId);
+
+    if (!['ACTIVE', 'PAUSED'].includes(schedule.status)) {
+      throw new AppError(`Schedule is ${schedule.status.toLowerCase()}`, 400);
+    }
+    if (params.amount !== undefined && params.amount <= 0n) {
+      throw new AppError('Amount must be positive', 400);
+    }
+
+    const endAt = params.endAt !== undefined ? params.endAt : schedule.endAt;
+    const maxOccurrences =
+      params.maxOccurrences !== undefined ? params.maxOccurrences : schedule.maxOccurrences;
+    const finished =
+      (maxOccurrences != null && schedule.occurrenceCount >= maxOccurrences) ||
+      (endAt != null && schedule.nextRunAt != null && schedule.nextRunAt > endAt);
+
+    return this.prisma.transferSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        amount: params.amount !== undefined ? toDecimal(params.amount) : undefined,
+        note: params.note,
+        endAt,
+        maxOccurrences,
+        ...(finished && { status: 'COMPLETED', nextRunAt: null }),
+      },
+    });
+  }
+
+  /**
+   * Stop a schedule from running until it is resumed. Runs waiting on a
+   * retry are failed; resuming doesn't catch up on missed runs.
+   */
+  async pauseSchedule(scheduleId: string, userId: string): Promise<TransferSchedule> {
+    const schedule = await this.findOwned(scheduleId, userId);
+
+    if (schedule.status !== 'ACTIVE') {
+      throw new AppError('Only active schedules can be paused', 400);
+    }
+
+    return this.stopSchedule(schedule, 'PAUSED', 'Schedule paused');
+  }
+
+  async resumeSchedule(scheduleId: string, userId: string): Promise<TransferSchedule> {
+    const schedule = await this.findOwned(scheduleId, userId);
+
+    if (schedule.status !== 'PAUSED') {
+      throw new AppError('Only paused schedules can be resumed', 400);
+    }
+
+    const nextRunAt = this.followingRun(schedule, new Date());
+    if (!nextRunAt) {
+      throw new AppError('Schedule has no runs left', 400);
+    }
+
+    return this.prisma.transferSchedule.update({
+      where: { id: schedule.id },
+      data: { status: 'ACTIVE', nextRunAt, remindedFor: null },
+    });
+  }
+
+  async cancelSchedule(scheduleId: string, userId: string): Promise<TransferSchedule> {
+    const schedule = await this.findOwned(scheduleId, userId);
+
+    if (!['ACTIVE', 'PAUSED'].includes(schedule.status)) {
+      throw new AppError(`Schedule is already ${schedule.status.toLowerCase()}`, 400);
+    }
+
+    return this.stopSchedule(schedule, 'CANCELLED', 'Schedule cancelled');
+  }
+
+  /**
+   * Send reminders for upcoming runs, record runs that are due and execute
+   * them and any retries that are due. Returns the number of runs attempted.
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    await this.sendReminders(now);
+    await this.openDueRuns(now);
+    await this.recoverStaleRuns(now);
+
+    const runs = await this.prisma.transferScheduleRun.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING' },
+          { status: 'RETRYING', nextAttemptAt: { lte: now } },
+        ],
+      },
+      include: { schedule: true },
+      orderBy: { scheduledFor: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    for (const run of runs) {
+      // Claim the run so an overlapping pass doesn't execute it too
+      const claimed = await this.prisma.transferScheduleRun.updateMany({
+        where: { id: run.id, status: run.status, attempts: run.attempts },
+        data: { status: 'PROCESSING', attempts: { increment: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      attempted++;
+      try {
+        await this.executeRun(run.schedule, run, run.attempts + 1, now);
+      } catch (error) {
+        // Left PROCESSING; recoverStaleRuns picks it up
+        logger.error(`Failed to execute schedule run ${run.id}:`, error);
+      }
+    }
+
+    return attempted;
+  }
+
+  private async sendReminders(now: Date): Promise<void> {
+    const horizon = new Date(now.getTime() + config.schedules.reminderHours * 60 * 60 * 1000);
+
+    // remindedFor holds the run time last reminded of, which is past once that run opens
+    const upcoming = await this.prisma.transferSchedule.findMany({
+      where: {
+        status: 'ACTIVE',
+        nextRunAt: { gt: now, lte: horizon },
+        OR: [{ remindedFor: null }, { remindedFor: { lte: now } }],
+      },
+      take: BATCH_SIZE,
+    });
+
+    for (const schedule of upcoming) {
+      const claimed = await this.prisma.transferSchedule.updateMany({
+        where: {
+          id: schedule.id,
+          nextRunAt: schedule.nextRunAt,
+          remindedFor: schedule.remindedFor,
+        },
+        data: { remindedFor: schedule.nextRunAt },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const available = await this.availableBalance(schedule);
+      await this.notify('SCHEDULED_TRANSFER_UPCOMING', schedule, {
+        scheduledFor: schedule.nextRunAt!.toISOString(),
+        fundsAvailable: available !== null && available >= toMinorUnits(schedule.amount),
+      });
+    }
+  }
+
+  /**
+   * Record a run for every schedule that is due and move it on to its
+   * next run. Runs missed while the job was down collapse into one.
+   */
+  private async openDueRuns(now: Date): Promise<void> {
+    const due = await this.prisma.transferSchedule.findMany({
+      where: { status: 'ACTIVE', nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const schedule of due) {
+      const scheduledFor = schedule.nextRunAt!;
+      const occurrenceCount = schedule.occurrenceCount + 1;
+      const following =
+        schedule.maxOccurrences != null && occurrenceCount >= schedule.maxOccurrences
+          ? null
+          : this.followingRun(schedule, now);
+
+      await this.prisma.$transaction(async (tx) => {
+        const advanced = await tx.transferSchedule.updateMany({
+          where: { id: schedule.id, status: 'ACTIVE', nextRunAt: scheduledFor },
+          data: {
+            occurrenceCount,
+            nextRunAt: following,
+            ...(!following && { status: 'COMPLETED' }),
+          },
+        });
+
+        if (advanced.count === 0) {
+          return;
+        }
+
+        await tx.transferScheduleRun.create({
+          data: { scheduleId: schedule.id, scheduledFor },
+        });
+      });
+
+      if (!following) {
+        logger.info(`Transfer schedule completed: ${schedule.id}`, { occurrenceCount });
+      }
+    }
+  }
+
+  /**
+   * Settle runs whose worker died mid-execution: done if their settlement
+   * was created, otherwise retried
+   */
+  private async recoverStaleRuns(now: Date): Promise<void> {
+    const stale = await this.prisma.transferScheduleRun.findMany({
+      where: {
+        status: 'PROCESSING',
+        updatedAt: { lt: new Date(now.getTime() - STALE_RUN_MS) },
+      },
+      include: { schedule: true },
+      take: BATCH_SIZE,
+    });
+
+    for (const run of stale) {
+      const settlement = await this.findRunSettlement(run.schedule, run.id);
+
+      if (settlement) {
+        await this.completeRun(run.schedule, run, settlement);
+      } else {
+        await this.retryOrFail(run.schedule, run, run.attempts, now, 'Run was interrupted');
+      }
+    }
+  }
+
+  private async executeRun(
+    schedule: TransferSchedule,
+    run: TransferScheduleRun,
+    attempt: number,
+    now: Date
+  ): Promise<void> {
+    if (!['ACTIVE', 'COMPLETED'].includes(schedule.status)) {
+      await this.finishRun(run, 'FAILED', {
+        failureReason: `Schedule ${schedule.status.toLowerCase()}`,
+      });
+      return;
+    }
+
+    const amount = toMinorUnits(schedule.amount);
+    const available = await this.availableBalance(schedule);
+
+    // Don't open a settlement that is bound to fail
+    if (available !== null && available < amount) {
+      await this.retryOrFail(schedule, run, attempt, now, INSUFFICIENT_FUNDS);
+      return;
+    }
+
+    let settlement: Settlement;
+    try {
+      settlement = await this.execute(schedule, run, amount);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Scheduled transfer failed';
+
+      if (error instanceof AppError && error.statusCode < 500 && message !== INSUFFICIENT_FUNDS) {
+        await this.finishRun(run, 'FAILED', { failureReason: message });
+        await this.notify('SCHEDULED_TRANSFER_FAILED', schedule, {
+          runId: run.id,
+          scheduledFor: run.scheduledFor.toISOString(),
+          reason: message,
+        });
+        return;
+      }
+
+      await this.retryOrFail(schedule, run, attempt, now, message);
+      return;
+    }
+
+    await this.completeRun(schedule, run, settlement);
+  }
+
+  /**
+   * Open the run's settlement. Transfers settle at once; payouts hold the
+   * amount on the user's account until the provider takes it.
+   */
+  private async execute(
+    schedule: TransferSchedule,
+    run: TransferScheduleRun,
+    amount: MinorUnits
+  ): Promise<Settlement> {
+    const existing = await this.findRunSettlement(schedule, run.id);
+    if (existing) {
+      return existing;
+    }
+
+    const metadata = { transferScheduleId: schedule.id, scheduleRunId: run.id };
+
+    if (schedule.type === 'INTERNAL_TRANSFER') {
+      return this.transferService.createTransfer({
+        senderId: schedule.userId,
+        recipient: schedule.recipient!,
+        amount,
+        currency: schedule.currency,
+        note: schedule.note ?? undefined,
+        metadata,
+      });
+    }
+
+    const account = await this.findSourceAccount(schedule);
+    if (!account) {
+      throw new AppError(`No ${schedule.currency} account to pay from`, 400);
+    }
+
+    return this.settlementService.createSettlement({
+      userId: schedule.userId,
+      type: 'PAYOUT',
+      sourceAmount: amount,
+      sourceCurrency: schedule.currency,
+      targetAmount: amount,
+      targetCurrency: schedule.currency,
+      provider: 'BRIDGE',
+      sourceAccountId: account.id,
+      reserveSource: true,
+      metadata: {
+        ...metadata,
+        bankDetails: schedule.bankDetails,
+        note: schedule.note,
+      },
+    });
+  }
+
+  private async completeRun(
+    schedule: TransferSchedule,
+    run: TransferScheduleRun,
+    settlement: Settlement
+  ): Promise<void> {
+    await this.finishRun(run, 'SUCCEEDED', { settlementId: settlement.id, failureReason: null });
+    await this.notify('SCHEDULED_TRANSFER_SUCCEEDED', schedule, {
+      runId: run.id,
+      scheduledFor: run.scheduledFor.toISOString(),
+      settlementId: settlement.id,
+    });
+
+    logger.info(`Schedule run succeeded: ${run.id}`, {
+      scheduleId: schedule.id,
+      settlementId: settlement.id,
+    });
+  }
+
+  private async retryOrFail(
+    schedule: TransferSchedule,
+    run: TransferScheduleRun,
+    attempt: number,
+    now: Date,
+    reason: string
+  ): Promise<void> {
+    const { maxAttempts, retryMinutes } = config.schedules;
+    const details = {
+      runId: run.id,
+      scheduledFor: run.scheduledFor.toISOString(),
+      reason,
+      attempt,
+    };
+
+    if (attempt >= maxAttempts) {
+      await this.finishRun(run, 'FAILED', { failureReason: reason });
+      await this.notify('SCHEDULED_TRANSFER_FAILED', schedule, details);
+      return;
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + retryMinutes * 60 * 1000);
+    await this.prisma.transferScheduleRun.update({
+      where: { id: run.id },
+      data: { status: 'RETRYING', nextAttemptAt, failureReason: reason },
+    });
+    await this.notify('SCHEDULED_TRANSFER_RETRYING', schedule, {
+      ...details,
+      nextAttemptAt: nextAttemptAt.toISOString(),
+    });
+  }
+
+  private async finishRun(
+    run: TransferScheduleRun,
+    status: 'SUCCEEDED' | 'FAILED',
+    data: { settlementId?: string; failureReason?: string | null }
+  ): Promise<void> {
+    await this.prisma.transferScheduleRun.update({
+      where: { id: run.id },
+      data: { ...data, status, nextAttemptAt: null, completedAt: new Date() },
+    });
+  }
+
+  /**
+   * Pause or cancel a schedule and fail its runs that haven't started
+   */
+  private async stopSchedule(
+    schedule: TransferSchedule,
+    status: 'PAUSED' | 'CANCELLED',
+    reason: string
+  ): Promise<TransferSchedule> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.transferScheduleRun.updateMany({
+        where: { scheduleId: schedule.id, status: { in: ['PENDING', 'RETRYING'] } },
+        data: {
+          status: 'FAILED',
+          failureReason: reason,
+          nextAttemptAt: null,
+          completedAt: new Date(),
+        },
+      });
+
+      return tx.transferSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          status,
+          nextRunAt: status === 'CANCELLED' ? null : schedule.nextRunAt,
+          cancelledAt: status === 'CANCELLED' ? new Date() : undefined,
+        },
+      });
+    });
+  }
+
+  /**
+   * The schedule's first run after `after`, or null past its end
+   */
+  private followingRun(schedule: TransferSchedule, after: Date): Date | null {
+    if (schedule.maxOccurrences != null && schedule.occurrenceCount >= schedule.maxOccurrences) {
+      return null;
+    }
+
+    const next = nextOccurrence(schedule, schedule.startAt, after);
+    return next && (!schedule.endAt || next <= schedule.endAt) ? next : null;
+  }
+
+  private async findRunSettlement(
+    schedule: TransferSchedule,
+    runId: string
+  ): Promise<Settlement | null> {
+    return this.prisma.settlement.findFirst({
+      where: {
+        userId: schedule.userId,
+        type: schedule.type,
+        currentState: { notIn: UNSETTLED_STATES },
+        metadata: { path: ['scheduleRunId'], equals: runId },
+      },
+    });
+  }
+
+  private async findSourceAccount(schedule: TransferSchedule) {
+    const type = getCurrency(schedule.currency).kind === 'TOKEN' ? 'TOKEN' : 'FIAT';
+
+    return this.prisma.account.findUnique({
+      where: {
+        userId_type_currency: { userId: schedule.userId, type, currency: schedule.currency },
+      },
+    });
+  }
+
+  /**
+   * Available balance of the account the schedule pays from, null if it has none
+   */
+  private async availableBalance(schedule: TransferSchedule): Promise<MinorUnits | null> {
+    const account = await this.findSourceAccount(schedule);
+    return account ? toMinorUnits(account.available) : null;
+  }
+
+  private async checkBankDetails(bankDetails?: PayoutBankDetails): Promise<PayoutBankDetails> {
+    if (!bankDetails?.accountName || !bankDetails.accountNumber || !bankDetails.bankCode) {
+      throw new AppError('Scheduled payouts need accountName, accountNumber and bankCode', 400);
+    }
+
+    const result = await this.bridgeService.validateBankAccount(
+      bankDetails.bankCode,
+      bankDetails.accountNumber
+    );
+    if (result?.valid === false || !result?.account_name) {
+      throw new AppError(result?.message || 'Bank account could not be verified', 400);
+    }
+
+    return {
+      accountName: bankDetails.accountName,
+      accountNumber: bankDetails.accountNumber,
+      bankCode: bankDetails.bankCode,
+      accountType: bankDetails.accountType,
+    };
+  }
+
+  private async findOwned(scheduleId: string, userId: string): Promise<TransferSchedule> {
+    const schedule = await this.prisma.transferSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      throw new AppError('Schedule not found', 404);
+    }
+
+    return schedule;
+  }
+
+  private async notify(
+    type: ScheduleNotification,
+    schedule: TransferSchedule,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    const amount = `${formatAmount(schedule.amount, schedule.currency)} ${schedule.currency}`;
+    const to =
+      schedule.type === 'INTERNAL_TRANSFER'
+        ? schedule.recipient
+        : (schedule.bankDetails as unknown as PayoutBankDetails)?.accountName;
+    const messages: Record<ScheduleNotification, string> = {
+      SCHEDULED_TRANSFER_UPCOMING: `${amount} to ${to} is scheduled to go out soon`,
+      SCHEDULED_TRANSFER_SUCCEEDED: `${amount} to ${to} went out as scheduled`,
+      SCHEDULED_TRANSFER_RETRYING: `${amount} to ${to} couldn't be sent; we'll try again`,
+      SCHEDULED_TRANSFER_FAILED: `${amount} to ${to} couldn't be sent`,
+    };
+
+    await this.publisher.publish('system:notifications', {
+      type,
+      message: messages[type],
+      userId: schedule.userId,
+      scheduleId: schedule.id,
+      amount: schedule.amount.toFixed(0),
+      currency: schedule.currency,
+      ...details,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,155 @@
+// skypay-backend/src/schedules/rules.test.ts
+import { ScheduleRule, nextOccurrence, validateRule } from './rules';
+
+const rule = (overrides: Partial<ScheduleRule>): ScheduleRule => ({
+  frequency: 'DAILY',
+  interval: 1,
+  timeOfDay: '09:00',
+  timezone: 'UTC',
+  ...overrides,
+});
+
+/**
+ * The first `count` runs of a rule from its start date, as ISO strings
+ */
+const expand = (schedule: ScheduleRule, startAt: string, count: number): string[] => {
+  const runs: string[] = [];
+  let after = new Date(startAt);
+
+  while (runs.length < count) {
+    const next = nextOccurrence(schedule, new Date(startAt), after);
+    if (!next) {
+      break;
+    }
+    runs.push(next.toISOString());
+    after = next;
+  }
+
+  return runs;
+};
+
+describe('nextOccurrence', () => {
+  it('runs monthly on a fixed day in the schedule\'s timezone', () => {
+    const monthly = rule({ frequency: 'MONTHLY', dayOfMonth: 1, timezone: 'Africa/Lagos' });
+
+    expect(expand(monthly, '2024-01-15T00:00:00Z', 3)).toEqual([
+      '2024-02-01T08:00:00.000Z',
+      '2024-03-01T08:00:00.000Z',
+      '2024-04-01T08:00:00.000Z',
+    ]);
+  });
+
+  it('runs on the last day of months too short for the day of month', () => {
+    const monthly = rule({ frequency: 'MONTHLY', dayOfMonth: 31, timeOfDay: '12:00' });
+
+    expect(expand(monthly, '2024-01-01T00:00:00Z', 4)).toEqual([
+      '2024-01-31T12:00:00.000Z',
+      '2024-02-29T12:00:00.000Z',
+      '2024-03-31T12:00:00.000Z',
+      '2024-04-30T12:00:00.000Z',
+    ]);
+  });
+
+  it('runs every other week on the chosen weekday across a DST change', () => {
+    const fortnightly = rule({
+      frequency: 'WEEKLY',
+      interval: 2,
+      dayOfWeek: 5,
+      timeOfDay: '17:00',
+      timezone: 'Europe/London',
+    });
+
+    expect(expand(fortnightly, '2024-03-04T10:00:00Z', 3)).toEqual([
+      '2024-03-08T17:00:00.000Z',
+      '2024-03-22T17:00:00.000Z',
+      '2024-04-05T16:00:00.000Z',
+    ]);
+  });
+
+  it('counts daily intervals from the start date and keeps the local time', () => {
+    const everyThirdDay = rule({ interval: 3, timezone: 'America/New_York' });
+
+    expect(expand(everyThirdDay, '2024-03-05T15:00:00Z', 3)).toEqual([
+      '2024-03-08T14:00:00.000Z',
+      '2024-03-11T13:00:00.000Z',
+      '2024-03-14T13:00:00.000Z',
+    ]);
+  });
+
+  it('includes a run at exactly the start time', () => {
+    const daily = rule({});
+
+    expect(
+      nextOccurrence(daily, new Date('2024-03-05T09:00:00Z'), new Date('2024-03-01T00:00:00Z'))
+    ).toEqual(new Date('2024-03-05T09:00:00Z'));
+  });
+
+  it('resumes from the latest run without replaying missed ones', () => {
+    const daily = rule({});
+
+    expect(
+      nextOccurrence(daily, new Date('2023-01-01T00:00:00Z'), new Date('2024-03-05T09:00:00Z'))
+    ).toEqual(new Date('2024-03-06T09:00:00Z'));
+  });
+
+  it('runs cron rules on matching weekdays', () => {
+    const weekdays = rule({ frequency: 'CRON', cron: '30 9 * * 1-5' });
+
+    expect(expand(weekdays, '2024-03-08T10:00:00Z', 2)).toEqual([
+      '2024-03-11T09:30:00.000Z',
+      '2024-03-12T09:30:00.000Z',
+    ]);
+  });
+
+  it('matches either day field when a cron rule restricts both', () => {
+    const friday13 = rule({ frequency: 'CRON', cron: '0 0 13 * 5' });
+
+    expect(expand(friday13, '2024-01-01T00:00:00Z', 3)).toEqual([
+      '2024-01-05T00:00:00.000Z',
+      '2024-01-12T00:00:00.000Z',
+      '2024-01-13T00:00:00.000Z',
+    ]);
+  });
+
+  it('finds a cron run up to the next leap day', () => {
+    const leapDay = rule({ frequency: 'CRON', cron: '0 12 29 2 *' });
+
+    expect(expand(leapDay, '2024-03-01T00:00:00Z', 1)).toEqual(['2028-02-29T12:00:00.000Z']);
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts a usable rule', () => {
+    expect(validateRule(rule({ frequency: 'WEEKLY', dayOfWeek: 1 }))).toEqual([]);
+  });
+
+  it('lists every problem with a calendar rule', () => {
+    expect(
+      validateRule(
+        rule({
+          interval: 0,
+          timeOfDay: '9:00',
+          dayOfWeek: 7,
+          dayOfMonth: 32,
+          timezone: 'Mars/Olympus',
+        })
+      )
+    ).toEqual([
+      'Unknown timezone: Mars/Olympus',
+      'interval must be a whole number from 1 to 365',
+      'timeOfDay must be HH:mm',
+      'dayOfWeek must be from 0 (Sunday) to 6',
+      'dayOfMonth must be from 1 to 31',
+    ]);
+  });
+
+  it.each([
+    [null, 'Cron schedules need a cron expression'],
+    ['0 9 * *', 'Cron expression must have five fields'],
+    ['*/15 9 * * *', 'Cron schedules may run at most once an hour'],
+    ['0 24 * * *', 'Cron hour out of range: 24'],
+    ['0 9 L * *', 'Invalid cron day of month: L'],
+  ])('rejects the cron expression %p', (cron, problem) => {
+    expect(validateRule(rule({ frequency: 'CRON', cron }))).toEqual([problem]);
+  });
+});
@@ -0,0 +1,217 @@
+// skypay-backend/src/schedules/rules.ts
+import dayjs, { Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { ScheduleFrequency } from '@prisma/client';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * When a schedule runs. Calendar rules run every `interval` days, weeks or
+ * months at `timeOfDay`, counted from the start date; cron rules take a
+ * five-field expression. Both are read in the schedule's timezone.
+ */
+export interface ScheduleRule {
+  frequency: ScheduleFrequency;
+  interval: number;
+  // 0 is Sunday; weekly rules default to the start date's weekday
+  dayOfWeek?: number | null;
+  // Monthly rules default to the start date's day; short months use their last day
+  dayOfMonth?: number | null;
+  cron?: string | null;
+  // HH:mm
+  timeOfDay: string;
+  timezone: string;
+}
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Long enough to find the next 29 February
+const MAX_CRON_DAYS = 4 * 366 + 1;
+
+/**
+ * Problems with a rule, empty when it is usable
+ */
+export function validateRule(rule: ScheduleRule): string[] {
+  const problems: string[] = [];
+
+  if (!isTimezone(rule.timezone)) {
+    problems.push(`Unknown timezone: ${rule.timezone}`);
+  }
+
+  if (rule.frequency === 'CRON') {
+    if (!rule.cron) {
+      problems.push('Cron schedules need a cron expression');
+    } else {
+      try {
+        const fields = parseCron(rule.cron);
+        if (fields.minutes.length !== 1) {
+          problems.push('Cron schedules may run at most once an hour');
+        }
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : 'Invalid cron expression');
+      }
+    }
+    return problems;
+  }
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 365) {
+    problems.push('interval must be a whole number from 1 to 365');
+  }
+  if (!TIME_OF_DAY.test(rule.timeOfDay)) {
+    problems.push('timeOfDay must be HH:mm');
+  }
+  if (rule.dayOfWeek != null && (rule.dayOfWeek < 0 || rule.dayOfWeek > 6)) {
+    problems.push('dayOfWeek must be from 0 (Sunday) to 6');
+  }
+  if (rule.dayOfMonth != null && (rule.dayOfMonth < 1 || rule.dayOfMonth > 31)) {
+    problems.push('dayOfMonth must be from 1 to 31');
+  }
+
+  return problems;
+}
+
+/**
+ * First time the rule fires strictly after `after` and not before `startAt`,
+ * or null if a cron rule never fires again
+ */
+export function nextOccurrence(rule: ScheduleRule, startAt: Date, after: Date): Date | null {
+  const from = after < startAt ? new Date(startAt.getTime() - 1) : after;
+
+  if (rule.frequency === 'CRON') {
+    return nextCronOccurrence(parseCron(rule.cron!), rule.timezone, from);
+  }
+
+  const start = dayjs(startAt).tz(rule.timezone);
+  const unit = rule.frequency === 'DAILY' ? 'day' : rule.frequency === 'WEEKLY' ? 'week' : 'month';
+  const anchor =
+    rule.frequency === 'WEEKLY'
+      ? start.startOf('week').add(rule.dayOfWeek ?? start.day(), 'day')
+      : start.startOf(unit === 'month' ? 'month' : 'day');
+
+  // Jump close to `from`, then step forward to the first period that fires after it
+  const elapsed = Math.max(0, dayjs(from).tz(rule.timezone).diff(anchor, unit));
+  let period = Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+
+  for (;;) {
+    const base = anchor.add(period * rule.interval, unit);
+    const day =
+      rule.frequency === 'MONTHLY'
+        ? base.date(Math.min(rule.dayOfMonth ?? start.date(), base.daysInMonth()))
+        : base;
+    const at = atTimeOfDay(day, rule.timeOfDay, rule.timezone);
+
+    if (at > from) {
+      return at;
+    }
+    period++;
+  }
+}
+
+function atTimeOfDay(day: Dayjs, timeOfDay: string, tz: string): Date {
+  return dayjs.tz(`${day.format('YYYY-MM-DD')} ${timeOfDay}`, tz).toDate();
+}
+
+function nextCronOccurrence(fields: CronFields, tz: string, after: Date): Date | null {
+  let day = dayjs(after).tz(tz).startOf('day');
+
+  for (let i = 0; i < MAX_CRON_DAYS; i++, day = day.add(1, 'day')) {
+    if (!fields.months.has(day.month() + 1)) {
+      continue;
+    }
+
+    // As in cron, a day matches either restricted field when both are restricted
+    const dayMatch = fields.days.has(day.date());
+    const weekdayMatch = fields.weekdays.has(day.day());
+    const matches =
+      fields.daysRestricted && fields.weekdaysRestricted
+        ? dayMatch || weekdayMatch
+        : dayMatch && weekdayMatch;
+
+    if (!matches) {
+      continue;
+    }
+
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+        const at = atTimeOfDay(day, time, tz);
+        if (at > after) {
+          return at;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse minute, hour, day of month, month and day of week. Fields take
+ * `*`, numbers, ranges, steps and comma lists; day of week 7 is Sunday.
+ */
+function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have five fields');
+  }
+
+  const [minute, hour, day, month, weekday] = parts;
+  const weekdays = parseCronField(weekday, 0, 7, 'day of week').map((d) => (d === 7 ? 0 : d));
+
+  return {
+    minutes: parseCronField(minute, 0, 59, 'minute'),
+    hours: parseCronField(hour, 0, 23, 'hour'),
+    days: new Set(parseCronField(day, 1, 31, 'day of month')),
+    months: new Set(parseCronField(month, 1, 12, 'month')),
+    weekdays: new Set(weekdays),
+    daysRestricted: day !== '*',
+    weekdaysRestricted: weekday !== '*',
+  };
+}
+
+function parseCronField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? min : Number(from);
+    const end = range === '*' ? max : to !== undefined ? Number(to) : step ? max : start;
+    const increment = step ? Number(step) : 1;
+
+    if (start < min || end > max || start > end || increment < 1) {
+      throw new Error(`Cron ${name} out of range: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+function isTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
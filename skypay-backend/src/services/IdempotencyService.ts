@@ -0,0 +1,168 @@
+// skypay-backend/src/services/IdempotencyService.ts
+import crypto from 'crypto';
+import { PrismaClient, IdempotencyKey, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+
+export interface BeginIdempotentRequestParams {
+  key: string;
+  userId: string;
+  scope: string;
+  requestHash: string;
+}
+
+export type IdempotentRequestResult =
+  | { replay: false; record: IdempotencyKey }
+  | { replay: true; statusCode: number; responseBody: any };
+
+export class IdempotencyService {
+  // Keys are honoured for 24 hours, matching typical client retry windows
+  private static readonly TTL_MS = 24 * 60 * 60 * 1000;
+
+  // A key claimed this long ago without a response was abandoned by a
+  // crashed process; well past the slowest provider timeout
+  private static readonly LEASE_MS = 2 * 60 * 1000;
+
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Hash the parts of a request that must match on replay
+   */
+  static hashRequest(method: string, path: string, body: any): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ method: method.toUpperCase(), path, body: body || {} }))
+      .digest('hex');
+  }
+
+  /**
+   * Claim a key for a new request, or return the cached response of a
+   * request that already completed with the same key
+   */
+  async begin(params: BeginIdempotentRequestParams): Promise<IdempotentRequestResult> {
+    const where = {
+      userId_scope_key: {
+        userId: params.userId,
+        scope: params.scope,
+        key: params.key,
+      },
+    };
+
+    const existing = await this.prisma.idempotencyKey.findUnique({ where });
+
+    if (existing && existing.expiresAt < new Date()) {
+      await this.prisma.idempotencyKey.delete({ where: { id: existing.id } });
+    } else if (existing) {
+      return this.resolveExisting(existing, params.requestHash);
+    }
+
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          key: params.key,
+          userId: params.userId,
+          scope: params.scope,
+          requestHash: params.requestHash,
+          status: 'IN_PROGRESS',
+          expiresAt: new Date(Date.now() + IdempotencyService.TTL_MS),
+        },
+      });
+
+      return { replay: false, record };
+    } catch (error) {
+      // Lost a race with a concurrent retry using the same key
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const winner = await this.prisma.idempotencyKey.findUnique({ where });
+        if (winner) {
+          return this.resolveExisting(winner, params.requestHash);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store the response so replays get the original result back
+   */
+  async complete(id: string, statusCode: number, responseBody: any): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        statusCode,
+        responseBody: responseBody ?? Prisma.JsonNull,
+      },
+    });
+  }
+
+  /**
+   * Drop a claimed key so the client can retry (used on server errors)
+   */
+  async release(id: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({ where: { id } });
+  }
+
+  /**
+   * Remove expired keys
+   */
+  async purgeExpired(): Promise<number> {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    logger.info(`Purged ${count} expired idempotency keys`);
+    return count;
+  }
+
+  /**
+   * Claim an abandoned key; null when another retry took it first
+   */
+  private async takeOver(existing: IdempotencyKey): Promise<IdempotencyKey | null> {
+    const updatedAt = new Date();
+    const { count } = await this.prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, status: 'IN_PROGRESS', updatedAt: existing.updatedAt },
+      data: { updatedAt },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    logger.warn(`Idempotency key ${existing.key} abandoned in progress; taken over`, {
+      userId: existing.userId,
+      scope: existing.scope,
+    });
+    return { ...existing, updatedAt };
+  }
+
+  private async resolveExisting(
+    existing: IdempotencyKey,
+    requestHash: string
+  ): Promise<IdempotentRequestResult> {
+    if (existing.requestHash !== requestHash) {
+      throw new AppError(
+        'Idempotency-Key has already been used with a different request',
+        422
+      );
+    }
+
+    if (existing.status === 'IN_PROGRESS') {
+      const abandoned =
+        existing.updatedAt.getTime() < Date.now() - IdempotencyService.LEASE_MS &&
+        (await this.takeOver(existing));
+      if (abandoned) {
+        return { replay: false, record: abandoned };
+      }
+      throw new AppError('A request with this Idempotency-Key is still in progress', 409);
+    }
+
+    return {
+      replay: true,
+      statusCode: existing.statusCode || 200,
+      responseBody: existing.responseBody,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+// skypay-backend/src/services/RealtimePublisher.ts
+import { RedisClientType } from 'redis';
+import { logger } from '../utils/logger';
+
+// Channels the websocket server subscribes to and fans out to socket rooms
+export type RealtimeChannel =
+  | 'balance:updates'
+  | 'transaction:updates'
+  | 'compliance:alerts'
+  | 'system:notifications';
+
+export class RealtimePublisher {
+  constructor(private redis: RedisClientType) {}
+
+  /**
+   * Publish a message to a realtime channel. Delivery is best effort:
+   * failures are logged, never thrown into the caller's flow.
+   */
+  async publish(channel: RealtimeChannel, payload: any): Promise<boolean> {
+    try {
+      await this.redis.publish(channel, JSON.stringify(payload));
+      return true;
+    } catch (error) {
+      logger.error(`Failed to publish to ${channel}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+// skypay-backend/src/services/redis.ts
+import { createClient, RedisClientType } from 'redis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+let client: RedisClientType | null = null;
+
+/**
+ * Connect the API's shared Redis client
+ */
+export async function initRedis(): Promise<RedisClientType> {
+  if (client) {
+    return client;
+  }
+
+  client = createClient({
+    url: config.redis.url,
+    password: config.redis.password,
+  }) as RedisClientType;
+  client.on('error', (error) => logger.error('Redis client error:', error));
+
+  await client.connect();
+  return client;
+}
+
+export function getRedis(): RedisClientType {
+  if (!client) {
+    throw new Error('Redis has not been initialized');
+  }
+  return client;
+}
@@ -0,0 +1,502 @@
+// skypay-backend/src/settlement/SettlementService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SettlementService } from './SettlementService';
+
+const setup = () => {
+  const settlements = new Map<string, any>();
+
+  const prisma: any = {
+    user: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'user-1', status: 'ACTIVE', accounts: [] }),
+    },
+    settlement: {
+      create: jest.fn(async ({ data }: any) => {
+        const settlement = {
+          id: `settlement-${settlements.size + 1}`,
+          createdAt: new Date(),
+          ...data,
+        };
+        settlements.set(settlement.id, settlement);
+        return settlement;
+      }),
+      // Copies, so a read isn't changed by later updates
+      findUnique: jest.fn(async ({ where }: any) =>
+        settlements.has(where.id) ? { ...settlements.get(where.id) } : null
+      ),
+      findUniqueOrThrow: jest.fn(async ({ where }: any) => ({ ...settlements.get(where.id) })),
+      update: jest.fn(async ({ where, data }: any) =>
+        Object.assign(settlements.get(where.id), data)
+      ),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const settlement = settlements.get(where.id);
+        if (!settlement || settlement.currentState !== where.currentState) {
+          return { count: 0 };
+        }
+        Object.assign(settlement, data);
+        return { count: 1 };
+      }),
+    },
+    settlementStateHistory: { create: jest.fn(), findFirst: jest.fn() },
+    outboxEvent: { create: jest.fn() },
+    bufferedSettlementEvent: {
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    account: {
+      findUnique: jest.fn(async ({ where }: any) => ({
+        id: `${where.userId_type_currency.type}-${where.userId_type_currency.currency}`,
+      })),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    getSystemAccount: jest.fn(async (code: string, currency: string) => ({
+      id: `${code}-${currency}`,
+    })),
+    postJournal: jest.fn(),
+    placeHold: jest.fn(),
+    releaseSettlementHolds: jest.fn().mockResolvedValue([]),
+  };
+  const complianceService: any = {
+    checkTransaction: jest.fn().mockResolvedValue({
+      id: 'check-1',
+      approved: true,
+      riskScore: 10,
+      riskLevel: 'LOW',
+    }),
+  };
+  const bridgeService: any = {
+    findCorridor: jest.fn().mockResolvedValue({ id: 'corridor-gbp-ngn' }),
+    createFxQuote: jest.fn(),
+    generateDepositInstructions: jest.fn().mockResolvedValue({
+      instructions: { accountNumber: '12345678', sortCode: '04-00-04' },
+      reference: 'SKY-REF-1',
+    }),
+  };
+  const stepQueue: any = { enqueue: jest.fn() };
+  const feeService: any = { chargeFrom: jest.fn() };
+  const limitsService: any = { assertWithinLimits: jest.fn() };
+
+  const service = new SettlementService(
+    prisma as PrismaClient,
+    ledgerService,
+    complianceService,
+    bridgeService,
+    {} as any,
+    stepQueue,
+    feeService,
+    limitsService
+  );
+
+  return {
+    prisma,
+    settlements,
+    ledgerService,
+    bridgeService,
+    stepQueue,
+    feeService,
+    limitsService,
+    service,
+  };
+};
+
+describe('SettlementService.createCrossBorderSettlement', () => {
+  const quoteExpiry = new Date(Date.now() + 60 * 1000);
+
+  const priced = () => {
+    const context = setup();
+    // 1% fee out of £250.00, the rest converted at 2000 NGN per GBP
+    context.feeService.chargeFrom.mockResolvedValue({
+      feeAmount: 250n,
+      currency: 'GBP',
+      scheduleId: 'schedule-1',
+      grossAmount: 25000n,
+      netAmount: 24750n,
+    });
+    context.bridgeService.createFxQuote.mockResolvedValue({
+      id: 'bridge-quote-1',
+      sourceCurrency: 'GBP',
+      targetCurrency: 'NGN',
+      sourceAmount: 24750n,
+      targetAmount: 49500000n,
+      rate: '2000',
+      expiresAt: quoteExpiry,
+    });
+    return context;
+  };
+
+  const create = (service: SettlementService) =>
+    service.createCrossBorderSettlement({
+      userId: 'user-1',
+      sourceAmount: 25000n,
+      sourceCurrency: 'GBP',
+      targetCurrency: 'NGN',
+      bankDetails: { accountNumber: '0123456789', bankCode: '058' },
+    });
+
+  it('quotes the amount left after the fee and keeps the fee inside sourceAmount', async () => {
+    const { bridgeService, service } = priced();
+
+    const { settlement } = await create(service);
+
+    expect(bridgeService.createFxQuote).toHaveBeenCalledWith('GBP', 'NGN', 24750n, {});
+    expect(settlement).toMatchObject({
+      type: 'CROSS_BORDER',
+      sourceAmount: new Prisma.Decimal('25000'),
+      feeAmount: new Prisma.Decimal('250'),
+      targetAmount: new Prisma.Decimal('49500000'),
+    });
+  });
+
+  it('asks for the gross amount in the pay-in instructions', async () => {
+    const { bridgeService, service } = priced();
+
+    const { instructions } = await create(service);
+
+    expect(bridgeService.generateDepositInstructions).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 25000n, currency: 'GBP', expiresAt: quoteExpiry })
+    );
+    expect(instructions).toMatchObject({
+      amount: '25000',
+      currency: 'GBP',
+      reference: 'SKY-REF-1',
+    });
+  });
+
+  it('checks limits against the gross amount', async () => {
+    const { limitsService, service } = priced();
+
+    await create(service);
+
+    expect(limitsService.assertWithinLimits).toHaveBeenCalledWith(
+      'user-1',
+      'CROSS_BORDER',
+      25000n,
+      'GBP',
+      expect.anything()
+    );
+  });
+});
+
+describe('SettlementService payouts', () => {
+  const awaitingPayout = (type: 'TOKEN_TO_FIAT' | 'CROSS_BORDER') => {
+    const context = setup();
+    context.settlements.set('settlement-1', {
+      id: 'settlement-1',
+      userId: 'user-1',
+      type,
+      currentState: type === 'TOKEN_TO_FIAT' ? 'TOKEN_BURNED' : 'FX_CONVERTED',
+      targetAmount: new Prisma.Decimal('10000'),
+      targetCurrency: 'USD',
+      metadata: {},
+    });
+    context.prisma.account.findFirst = jest.fn().mockResolvedValue({ id: 'FIAT-USD' });
+    return context;
+  };
+
+  const payoutLegs = (ledgerService: any) => {
+    const [journal] = ledgerService.postJournal.mock.calls[0];
+    return {
+      type: journal.type,
+      referenceId: journal.referenceId,
+      legs: journal.legs.map((leg: any) => [leg.accountId, leg.direction, leg.amount]),
+    };
+  };
+
+  it('pays a withdrawal out of mint/burn clearing once it is requested', async () => {
+    const { ledgerService, service } = awaitingPayout('TOKEN_TO_FIAT');
+
+    await service.transitionState('settlement-1', 'FIAT_REQUESTED', {
+      bridgeWithdrawalId: 'brg_wd_1',
+    });
+
+    expect(payoutLegs(ledgerService)).toEqual({
+      type: 'WITHDRAWAL',
+      referenceId: 'brg_wd_1',
+      legs: [
+        ['MINT_BURN_CLEARING-USD', 'DEBIT', 10000n],
+        ['BRIDGE_FLOAT-USD', 'CREDIT', 10000n],
+      ],
+    });
+  });
+
+  it('pays a cross-border settlement out of the user fiat account', async () => {
+    const { ledgerService, service } = awaitingPayout('CROSS_BORDER');
+
+    await service.transitionState('settlement-1', 'FIAT_REQUESTED', {
+      bridgeWithdrawalId: 'brg_wd_2',
+    });
+
+    expect(payoutLegs(ledgerService).legs).toEqual([
+      ['FIAT-USD', 'DEBIT', 10000n],
+      ['BRIDGE_FLOAT-USD', 'CREDIT', 10000n],
+    ]);
+  });
+});
+
+describe('SettlementService expiry', () => {
+  const locked = () => {
+    const context = setup();
+    context.settlements.set('settlement-1', {
+      id: 'settlement-1',
+      userId: 'user-1',
+      type: 'TOKEN_TO_FIAT',
+      currentState: 'TOKEN_LOCKED',
+      metadata: {},
+    });
+    return context;
+  };
+
+  it('stamps an expired settlement and releases its holds', async () => {
+    const { ledgerService, service } = locked();
+
+    const expired = await service.transitionState(
+      'settlement-1',
+      'EXPIRED',
+      { reason: 'Timed out after 1h in TOKEN_LOCKED' },
+      { fromState: 'TOKEN_LOCKED' }
+    );
+
+    expect(expired).toMatchObject({ currentState: 'EXPIRED', expiredAt: expect.any(Date) });
+    expect(ledgerService.releaseSettlementHolds).toHaveBeenCalledWith(
+      'settlement-1',
+      'Timed out after 1h in TOKEN_LOCKED',
+      expect.anything()
+    );
+  });
+
+  it('leaves a settlement alone once it has left the expected state', async () => {
+    const { prisma, ledgerService, service } = locked();
+
+    await expect(
+      service.transitionState('settlement-1', 'EXPIRED', {}, { fromState: 'INITIATED' })
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Settlement has moved from INITIATED to TOKEN_LOCKED',
+    });
+    expect(prisma.settlement.updateMany).not.toHaveBeenCalled();
+    expect(ledgerService.releaseSettlementHolds).not.toHaveBeenCalled();
+  });
+
+  it('loses to a transition that moved the settlement after it was read', async () => {
+    const { prisma, settlements, ledgerService, service } = locked();
+    prisma.settlement.findUnique.mockImplementationOnce(async ({ where }: any) => {
+      const read = { ...settlements.get(where.id) };
+      // Another worker commits its transition before this one writes
+      settlements.get(where.id).currentState = 'TOKEN_BURNED';
+      return read;
+    });
+
+    await expect(
+      service.transitionState('settlement-1', 'EXPIRED', {}, { fromState: 'TOKEN_LOCKED' })
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Settlement left TOKEN_LOCKED while moving to EXPIRED',
+    });
+    expect(settlements.get('settlement-1').currentState).toBe('TOKEN_BURNED');
+    expect(ledgerService.releaseSettlementHolds).not.toHaveBeenCalled();
+    expect(prisma.settlementStateHistory.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SettlementService internal transfers', () => {
+  it('books the transfer and the fee between the two accounts when it settles', async () => {
+    const { settlements, ledgerService, service } = setup();
+    settlements.set('settlement-1', {
+      id: 'settlement-1',
+      userId: 'user-1',
+      type: 'INTERNAL_TRANSFER',
+      currentState: 'INITIATED',
+      sourceAmount: new Prisma.Decimal('2550'),
+      sourceCurrency: 'USD',
+      targetAmount: new Prisma.Decimal('2500'),
+      feeAmount: new Prisma.Decimal('50'),
+      sourceAccountId: 'account-1',
+      targetAccountId: 'account-2',
+      metadata: { recipientUserId: 'user-2' },
+    });
+
+    await service.transitionState('settlement-1', 'SETTLED', { recipientUserId: 'user-2' });
+
+    const journals = ledgerService.postJournal.mock.calls.map(([journal]: any) => ({
+      type: journal.type,
+      legs: journal.legs.map((leg: any) => [leg.accountId, leg.direction, leg.amount]),
+    }));
+    expect(journals).toEqual([
+      {
+        type: 'TRANSFER',
+        legs: [
+          ['account-1', 'DEBIT', 2500n],
+          ['account-2', 'CREDIT', 2500n],
+        ],
+      },
+      {
+        type: 'FEE',
+        legs: [
+          ['account-1', 'DEBIT', 50n],
+          ['FEE_INCOME-USD', 'CREDIT', 50n],
+        ],
+      },
+    ]);
+  });
+});
+
+describe('SettlementService.applyEvent', () => {
+  const paidOut = (currentState: string) => {
+    const context = setup();
+    context.settlements.set('settlement-1', {
+      id: 'settlement-1',
+      userId: 'user-1',
+      type: 'TOKEN_TO_FIAT',
+      currentState,
+      metadata: {},
+    });
+    return context;
+  };
+
+  const event = (toState: any, source = `bridge:withdrawal.${toState.toLowerCase()}`) => ({
+    settlementId: 'settlement-1',
+    toState,
+    source,
+    metadata: { bridgeWithdrawalId: 'brg_wd_1' },
+  });
+
+  it('applies an event the settlement can take through the state machine', async () => {
+    const { prisma, settlements, service } = paidOut('FIAT_REQUESTED');
+
+    expect(await service.applyEvent(event('FIAT_SENT'))).toBe('APPLIED');
+
+    expect(settlements.get('settlement-1').currentState).toBe('FIAT_SENT');
+    expect(prisma.settlementStateHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        settlementId: 'settlement-1',
+        fromState: 'FIAT_REQUESTED',
+        toState: 'FIAT_SENT',
+      }),
+    });
+  });
+
+  it('ignores an event for a state the settlement has already been in', async () => {
+    const { prisma, service } = paidOut('CONFIRMED');
+    prisma.settlementStateHistory.findFirst.mockResolvedValue({ toState: 'FIAT_SENT' });
+
+    expect(await service.applyEvent(event('CONFIRMED'))).toBe('DUPLICATE');
+    expect(await service.applyEvent(event('FIAT_SENT'))).toBe('DUPLICATE');
+    expect(prisma.settlement.update).not.toHaveBeenCalled();
+  });
+
+  it('buffers an early event and applies it once the settlement catches up', async () => {
+    const { prisma, settlements, service } = paidOut('FIAT_REQUESTED');
+
+    expect(await service.applyEvent(event('CONFIRMED'))).toBe('BUFFERED');
+    expect(prisma.bufferedSettlementEvent.create).toHaveBeenCalledWith({
+      data: {
+        settlementId: 'settlement-1',
+        toState: 'CONFIRMED',
+        source: 'bridge:withdrawal.confirmed',
+        metadata: { bridgeWithdrawalId: 'brg_wd_1' },
+      },
+    });
+    expect(settlements.get('settlement-1').currentState).toBe('FIAT_REQUESTED');
+
+    prisma.bufferedSettlementEvent.findMany.mockResolvedValueOnce([
+      { id: 'buffered-1', ...prisma.bufferedSettlementEvent.create.mock.calls[0][0].data },
+    ]);
+
+    expect(await service.applyEvent(event('FIAT_SENT'))).toBe('APPLIED');
+
+    expect(prisma.bufferedSettlementEvent.update).toHaveBeenCalledWith({
+      where: { id: 'buffered-1' },
+      data: {
+        status: 'APPLIED',
+        resolution: 'Applied from FIAT_SENT',
+        resolvedAt: expect.any(Date),
+      },
+    });
+    expect(settlements.get('settlement-1').currentState).toBe('CONFIRMED');
+  });
+
+  it('rejects an event the settlement can no longer take', async () => {
+    const { prisma, service } = paidOut('FIAT_SENT');
+
+    await expect(service.applyEvent(event('TOKEN_BURNED', 'chain:burn'))).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'chain:burn cannot move TOKEN_TO_FIAT settlement from FIAT_SENT to TOKEN_BURNED',
+    });
+    expect(prisma.settlement.update).not.toHaveBeenCalled();
+    expect(prisma.bufferedSettlementEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects events for unknown settlements', async () => {
+    const { service } = setup();
+
+    await expect(service.applyEvent(event('FIAT_SENT'))).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe('SettlementService.retryStep', () => {
+  const stuck = (context: ReturnType<typeof setup>, overrides: Record<string, any> = {}) =>
+    context.settlements.set('settlement-1', {
+      id: 'settlement-1',
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      currentState: 'FIAT_CONFIRMED',
+      stepFailedAt: new Date(),
+      stepFailureReason: 'User has no wallet address to mint to',
+      ...overrides,
+    });
+
+  it('clears the failure and queues the step again', async () => {
+    const context = setup();
+    stuck(context);
+
+    const retried = await context.service.retryStep('settlement-1');
+
+    expect(context.settlements.get('settlement-1')).toMatchObject({
+      stepFailedAt: null,
+      stepFailureReason: null,
+    });
+    expect(context.stepQueue.enqueue).toHaveBeenCalledWith(
+      'settlement-1',
+      'FIAT_CONFIRMED',
+      expect.objectContaining({ name: 'mintTokens' })
+    );
+    expect(retried.stepFailedAt).toBeNull();
+  });
+
+  it('refuses settlements with no step to retry', async () => {
+    const context = setup();
+    stuck(context, { currentState: 'SETTLED' });
+
+    await expect(context.service.retryStep('settlement-1')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    await expect(context.service.retryStep('settlement-9')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(context.stepQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('clears a step failure when the settlement changes state', async () => {
+    const context = setup();
+    stuck(context, {
+      type: 'TOKEN_TO_FIAT',
+      currentState: 'FIAT_REQUESTED',
+      sourceCurrency: 'USDC',
+      targetCurrency: 'USD',
+      metadata: {},
+    });
+
+    await context.service.transitionState('settlement-1', 'FIAT_SENT');
+
+    expect(context.settlements.get('settlement-1')).toMatchObject({
+      currentState: 'FIAT_SENT',
+      stepFailedAt: null,
+      stepFailureReason: null,
+    });
+  });
+});
@@ -1,50 +1,119 @@
 // skypay-backend/src/settlement/SettlementService.ts
-import { PrismaClient, Settlement, SettlementState, Prisma } from '@prisma/client';
-import { Decimal } from '@prisma/client/runtime/library';
+import {
+  PrismaClient,
+  Settlement,
+  SettlementState,
+  SettlementType,
+  Prisma,
+} from '@prisma/client';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errors';
 import { LedgerService } from '../ledger/LedgerService';
 import { ComplianceService } from '../compliance/ComplianceService';
-import { BridgeService } from '../integrations/bridge/BridgeService';
+import { BridgeFxQuote, BridgeService } from '../integrations/bridge/BridgeService';
 import { Web3Service } from '../services/Web3Service';
+import { FeeQuote, FeeService } from '../fees/FeeService';
+import { LimitsService } from '../limits/LimitsService';
+import { appendSettlementEvent } from '../outbox/outbox';
+import { SettlementStateMachine } from './SettlementStateMachine';
+import { SettlementStepQueue } from './orchestration/SettlementStepQueue';
+import { EntryActionName, FlowDefinition } from './flows/types';
+import {
+  MinorUnits,
+  formatAmount,
+  parseAmount,
+  parseMinorUnits,
+  toDecimal,
+  toMinorUnits,
+} from '../currency/currencies';
 
 export interface CreateSettlementParams {
   userId: string;
-  type: 'FIAT_TO_TOKEN' | 'TOKEN_TO_FIAT' | 'CROSS_BORDER' | 'INTERNAL_TRANSFER';
-  sourceAmount: number;
+  type: SettlementType;
+  // Integer minor units of the respective currency
+  sourceAmount: MinorUnits;
   sourceCurrency: string;
-  targetAmount: number;
+  targetAmount: MinorUnits;
   targetCurrency: string;
+  // Part of sourceAmount charged as fees, as quoted
+  feeAmount?: MinorUnits;
   provider: string;
+  // Own accounts the settlement moves value between, when known upfront
+  sourceAccountId?: string;
+  targetAccountId?: string;
+  // Payout batch items: the batch total was checked against limits when funded
+  limitsChecked?: boolean;
+  // Hold sourceAmount on sourceAccountId as the settlement is created, for
+  // flows that pay out of the user's own balance
+  reserveSource?: boolean;
   metadata?: any;
 }
 
+export interface CreateCrossBorderParams {
+  userId: string;
+  // Integer minor units of the source currency
+  sourceAmount: MinorUnits;
+  sourceCurrency: string;
+  targetCurrency: string;
+  // Beneficiary account the target currency is paid out to
+  bankDetails: any;
+}
+
+/**
+ * A provider or blockchain event about a settlement, as the state it
+ * moves the settlement to. Every external event goes through applyEvent.
+ */
+export interface SettlementEvent {
+  settlementId: string;
+  toState: SettlementState;
+  // Where the event came from, e.g. bridge:deposit.completed
+  source: string;
+  // Transition metadata the target state's guards and entry action read
+  metadata: Record<string, any>;
+}
+
+export type SettlementEventOutcome = 'APPLIED' | 'DUPLICATE' | 'BUFFERED';
+
+type EntryAction = (
+  tx: Prisma.TransactionClient,
+  settlement: Settlement,
+  metadata?: any
+) => Promise<void>;
+
 export class SettlementService {
-  private stateMachine: Map<SettlementState, SettlementState[]>;
+  private stateMachine = new SettlementStateMachine();
+  private entryActions: Record<EntryActionName, EntryAction>;
 
   constructor(
     private prisma: PrismaClient,
     private ledgerService: LedgerService,
     private complianceService: ComplianceService,
     private bridgeService: BridgeService,
-    private web3Service: Web3Service
+    private web3Service: Web3Service,
+    private stepQueue: SettlementStepQueue,
+    private feeService: FeeService,
+    private limitsService: LimitsService
   ) {
-    // Define valid state transitions
-    this.stateMachine = new Map([
-      ['INITIATED', ['FIAT_RECEIVED', 'TOKEN_LOCKED', 'FAILED']],
-      ['FIAT_RECEIVED', ['FIAT_CONFIRMED', 'FAILED']],
-      ['FIAT_CONFIRMED', ['TOKEN_MINTED', 'FAILED']],
-      ['TOKEN_MINTED', ['TOKEN_DELIVERED', 'FAILED']],
-      ['TOKEN_DELIVERED', ['SETTLED']],
-      ['TOKEN_LOCKED', ['TOKEN_BURNED', 'FAILED']],
-      ['TOKEN_BURNED', ['FIAT_REQUESTED', 'FAILED']],
-      ['FIAT_REQUESTED', ['FIAT_SENT', 'FAILED']],
-      ['FIAT_SENT', ['CONFIRMED']],
-      ['SETTLED', []],
-      ['CONFIRMED', []],
-      ['FAILED', ['REVERSED']],
-      ['REVERSED', []],
-    ]);
+    // Entry actions named by the flow definitions
+    this.entryActions = {
+      postFiatDeposit: (tx, settlement, metadata) =>
+        this.handleFiatReceived(tx, settlement, metadata),
+      postTokenMint: (tx, settlement, metadata) =>
+        this.handleTokenMinted(tx, settlement, metadata),
+      lockTokens: (tx, settlement, metadata) =>
+        this.handleTokenLocked(tx, settlement, metadata),
+      burnTokens: (tx, settlement, metadata) =>
+        this.handleTokenBurned(tx, settlement, metadata),
+      postFxConversion: (tx, settlement, metadata) =>
+        this.handleFxConverted(tx, settlement, metadata),
+      postFiatPayout: (tx, settlement, metadata) =>
+        this.handleFiatPayoutRequested(tx, settlement, metadata),
+      postPayout: (tx, settlement, metadata) =>
+        this.handlePayoutRequested(tx, settlement, metadata),
+      postTransfer: (tx, settlement) => this.handleTransferSettled(tx, settlement),
+      releaseHolds: (tx, settlement, metadata) =>
+        this.handleFailed(tx, settlement, metadata),
+    };
   }
 
   /**
@@ -65,55 +134,214 @@ export class SettlementService {
       throw new AppError('User account is not active', 403);
     }
 
-    // Check daily/monthly limits
-    await this.checkUserLimits(user.id, params.sourceAmount, params.sourceCurrency);
+    const flow = this.stateMachine.getFlow(params.type);
 
-    // Create settlement
-    const settlement = await this.prisma.settlement.create({
-      data: {
-        type: params.type,
-        currentState: 'INITIATED',
-        userId: params.userId,
-        sourceAmount: params.sourceAmount,
+    if (params.reserveSource && !params.sourceAccountId) {
+      throw new AppError('A source account is needed to reserve funds', 400);
+    }
+
+    const settlement = await this.prisma.$transaction(async (tx) => {
+      // Check rolling daily/monthly limits for the settlement's direction,
+      // locked until the settlement it lets through is committed
+      if (!params.limitsChecked) {
+        await this.limitsService.assertWithinLimits(
+          user.id,
+          params.type,
+          params.sourceAmount,
+          params.sourceCurrency,
+          tx
+        );
+      }
+
+      // Create settlement
+      const created = await tx.settlement.create({
+        data: {
+          type: params.type,
+          currentState: flow.initial,
+          userId: params.userId,
+          sourceAmount: toDecimal(params.sourceAmount),
+          sourceCurrency: params.sourceCurrency,
+          targetAmount: toDecimal(params.targetAmount),
+          targetCurrency: params.targetCurrency,
+          feeAmount: toDecimal(params.feeAmount ?? 0n),
+          provider: params.provider,
+          sourceAccountId: params.sourceAccountId,
+          targetAccountId: params.targetAccountId,
+          metadata: params.metadata || {},
+        },
+      });
+
+      // Create state history entry
+      await tx.settlementStateHistory.create({
+        data: {
+          settlementId: created.id,
+          toState: flow.initial,
+          metadata: { ...params.metadata, createdAt: new Date().toISOString() },
+        },
+      });
+
+      await appendSettlementEvent(tx, {
+        type: 'settlement.created',
+        settlementId: created.id,
+        userId: created.userId,
+        settlementType: created.type,
+        state: created.currentState,
+        sourceAmount: params.sourceAmount.toString(),
         sourceCurrency: params.sourceCurrency,
-        targetAmount: params.targetAmount,
+        targetAmount: params.targetAmount.toString(),
         targetCurrency: params.targetCurrency,
-        provider: params.provider,
-        metadata: params.metadata || {},
-      },
-    });
+      });
 
-    // Create state history entry
-    await this.prisma.settlementStateHistory.create({
-      data: {
-        settlementId: settlement.id,
-        toState: 'INITIATED',
-        metadata: { ...params.metadata, createdAt: new Date().toISOString() },
-      },
+      // Fails the whole creation when the balance doesn't cover it
+      if (params.reserveSource) {
+        await this.ledgerService.placeHold(
+          {
+            accountId: params.sourceAccountId!,
+            amount: params.sourceAmount,
+            currency: params.sourceCurrency,
+            settlementId: created.id,
+            reason: `${params.type} settlement`,
+          },
+          tx
+        );
+      }
+
+      return created;
     });
 
     logger.info(`Settlement created: ${settlement.id}`, {
       userId: params.userId,
       type: params.type,
-      amount: params.sourceAmount,
+      amount: params.sourceAmount.toString(),
       currency: params.sourceCurrency,
     });
 
     // Trigger initial compliance check
     await this.triggerComplianceCheck(settlement.id);
 
+    // Flows that start with automatic work; a stale job is skipped if screening moved it on
+    await this.triggerNextStep(settlement);
+
     return settlement;
   }
 
   /**
-   * Transition settlement to next state
+   * Open a cross-border settlement: check the corridor, lock an FX quote
+   * for the amount left after fees and issue collection instructions for
+   * the full amount in the source currency. As with every quoted flow, the
+   * fee is included in the settlement's sourceAmount.
+   */
+  async createCrossBorderSettlement(params: CreateCrossBorderParams): Promise<{
+    settlement: Settlement;
+    quote: BridgeFxQuote;
+    fee: FeeQuote;
+    instructions: any;
+  }> {
+    const { sourceCurrency, targetCurrency } = params;
+    const { corridor, fee, quote } = await this.priceCrossBorder(params);
+
+    const settlement = await this.createSettlement({
+      userId: params.userId,
+      type: 'CROSS_BORDER',
+      sourceAmount: fee.grossAmount,
+      sourceCurrency,
+      targetAmount: quote.targetAmount,
+      targetCurrency,
+      feeAmount: fee.feeAmount,
+      provider: 'BRIDGE',
+      metadata: {
+        bankDetails: params.bankDetails,
+        corridorId: corridor.id,
+        fxQuote: {
+          id: quote.id,
+          rate: quote.rate,
+          expiresAt: quote.expiresAt.toISOString(),
+        },
+      },
+    });
+
+    // Funds must arrive while both the settlement and the quote are live
+    const deadline = this.getStateDeadline(
+      settlement.type,
+      settlement.currentState,
+      settlement.createdAt
+    );
+    const expiresAt =
+      deadline && deadline.at < quote.expiresAt ? deadline.at : quote.expiresAt;
+
+    const instructions = await this.bridgeService.generateDepositInstructions({
+      settlementId: settlement.id,
+      amount: toMinorUnits(settlement.sourceAmount),
+      currency: sourceCurrency,
+      userId: params.userId,
+      expiresAt,
+      settlementType: 'CROSS_BORDER',
+      metadata: settlement.metadata,
+    });
+
+    return {
+      settlement,
+      quote,
+      fee,
+      // What the user pays in, fee included
+      instructions: {
+        ...instructions,
+        amount: fee.grossAmount.toString(),
+        currency: sourceCurrency,
+      },
+    };
+  }
+
+  /**
+   * Check a cross-border amount against its corridor and price it: the fee
+   * comes out of the source amount and the rest is quoted by Bridge. The
+   * quote is locked unless `lock` is false.
+   */
+  async priceCrossBorder(
+    params: Omit<CreateCrossBorderParams, 'bankDetails'>,
+    options: { lock?: boolean } = {}
+  ): Promise<{ corridor: any; fee: FeeQuote; quote: BridgeFxQuote }> {
+    const { sourceCurrency, targetCurrency, sourceAmount } = params;
+
+    const corridor = await this.bridgeService.findCorridor(sourceCurrency, targetCurrency);
+    if (!corridor) {
+      throw new AppError(`No corridor from ${sourceCurrency} to ${targetCurrency}`, 400);
+    }
+
+    if (corridor.min_amount && sourceAmount < parseAmount(corridor.min_amount, sourceCurrency)) {
+      throw new AppError(`Minimum amount for this corridor is ${corridor.min_amount}`, 400);
+    }
+
+    if (corridor.max_amount && sourceAmount > parseAmount(corridor.max_amount, sourceCurrency)) {
+      throw new AppError(`Maximum amount for this corridor is ${corridor.max_amount}`, 400);
+    }
+
+    const fee = await this.feeService.chargeFrom(
+      { product: 'CROSS_BORDER', userId: params.userId, sourceCurrency, targetCurrency },
+      sourceAmount
+    );
+
+    const quote = await this.bridgeService.createFxQuote(
+      sourceCurrency,
+      targetCurrency,
+      fee.netAmount,
+      options
+    );
+
+    return { corridor, fee, quote };
+  }
+
+  /**
+   * Transition settlement to next state. With `fromState`, the transition
+   * only happens if the settlement is still in that state.
    */
   async transitionState(
     settlementId: string,
     targetState: SettlementState,
-    metadata?: any
+    metadata?: any,
+    options: { fromState?: SettlementState } = {}
   ): Promise<Settlement> {
-    return this.prisma.$transaction(async (tx) => {
+    const updated = await this.prisma.$transaction(async (tx) => {
       // Get current settlement state
       const settlement = await tx.settlement.findUnique({
         where: { id: settlementId },
@@ -123,20 +351,20 @@ export class SettlementService {
         throw new AppError('Settlement not found', 404);
       }
 
-      // Validate state transition
-      if (!this.canTransition(settlement.currentState, targetState)) {
+      if (options.fromState && settlement.currentState !== options.fromState) {
         throw new AppError(
-          `Invalid state transition: ${settlement.currentState} -> ${targetState}`,
-          400
+          `Settlement has moved from ${options.fromState} to ${settlement.currentState}`,
+          409
         );
       }
 
-      // Execute state-specific logic
-      await this.executeStateAction(tx, settlement, targetState, metadata);
+      // Validate against the flow for this settlement's type
+      await this.stateMachine.assertTransition({ tx, settlement, metadata }, targetState);
 
-      // Update settlement state
-      const updatedSettlement = await tx.settlement.update({
-        where: { id: settlementId },
+      // Update settlement state, only from the state read above. A concurrent
+      // transition from the same state waits on the row, then finds it gone.
+      const { count } = await tx.settlement.updateMany({
+        where: { id: settlementId, currentState: settlement.currentState },
         data: {
           previousState: settlement.currentState,
           currentState: targetState,
@@ -151,8 +379,27 @@ export class SettlementService {
             failedAt: new Date(),
             failureReason: metadata?.reason || 'Unknown error',
           },
+          ...(targetState === 'EXPIRED') && {
+            expiredAt: new Date(),
+          },
+          // A step that gave up in the old state doesn't hold up the new one
+          stepFailedAt: null,
+          stepFailureReason: null,
         },
       });
+      if (count === 0) {
+        throw new AppError(
+          `Settlement left ${settlement.currentState} while moving to ${targetState}`,
+          409
+        );
+      }
+
+      // Execute state-specific logic
+      await this.executeStateAction(tx, settlement, targetState, metadata);
+
+      const updatedSettlement = await tx.settlement.findUniqueOrThrow({
+        where: { id: settlementId },
+      });
 
       // Create state history entry
       await tx.settlementStateHistory.create({
@@ -165,23 +412,173 @@ export class SettlementService {
         },
       });
 
+      await appendSettlementEvent(tx, {
+        type: 'settlement.state_changed',
+        settlementId: settlement.id,
+        userId: settlement.userId,
+        settlementType: settlement.type,
+        fromState: settlement.currentState,
+        toState: targetState,
+        reason: metadata?.reason,
+      });
+
       logger.info(`Settlement state transition: ${settlementId}`, {
         from: settlement.currentState,
         to: targetState,
         userId: settlement.userId,
       });
 
-      // Trigger next step if applicable
-      if (this.shouldTriggerNextStep(targetState)) {
-        await this.triggerNextStep(settlementId, targetState, metadata);
+      return updatedSettlement;
+    });
+
+    // Queued after commit so the worker sees the new state
+    await this.triggerNextStep(updated);
+
+    try {
+      await this.applyBufferedEvents(updated);
+    } catch (error) {
+      // The buffered event stays pending for the settlement's next transition
+      logger.error(`Failed to apply buffered events for settlement ${settlementId}:`, error);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Apply a provider or blockchain event through the settlement's flow.
+   * An event for a state the settlement has already been in is a
+   * duplicate. One that arrives before the settlement can take it, for a
+   * state further along its flow, is buffered and applied once the
+   * settlement gets there. Anything else can't happen in the flow and is
+   * refused rather than written over the settlement's state.
+   */
+  async applyEvent(event: SettlementEvent): Promise<SettlementEventOutcome> {
+    const settlement = await this.prisma.settlement.findUnique({
+      where: { id: event.settlementId },
+    });
+
+    if (!settlement) {
+      throw new AppError('Settlement not found', 404, { settlementId: event.settlementId });
+    }
+
+    if (await this.hasBeenIn(settlement, event.toState)) {
+      logger.info(`Duplicate ${event.source} for settlement ${settlement.id}`, {
+        state: settlement.currentState,
+        toState: event.toState,
+      });
+      return 'DUPLICATE';
+    }
+
+    const { type, currentState } = settlement;
+
+    if (this.stateMachine.canTransition(type, currentState, event.toState)) {
+      await this.transitionState(
+        settlement.id,
+        event.toState,
+        { ...event.metadata, source: event.source },
+        { fromState: currentState }
+      );
+      return 'APPLIED';
+    }
+
+    if (this.stateMachine.isAhead(type, currentState, event.toState)) {
+      await this.prisma.bufferedSettlementEvent.create({
+        data: {
+          settlementId: settlement.id,
+          toState: event.toState,
+          source: event.source,
+          metadata: event.metadata as Prisma.InputJsonValue,
+        },
+      });
+
+      logger.warn(`Buffered early ${event.source} for settlement ${settlement.id}`, {
+        state: currentState,
+        toState: event.toState,
+      });
+      return 'BUFFERED';
+    }
+
+    throw new AppError(
+      `${event.source} cannot move ${type} settlement from ${currentState} to ${event.toState}`,
+      409,
+      { settlementId: settlement.id, currentState, toState: event.toState }
+    );
+  }
+
+  private async hasBeenIn(settlement: Settlement, state: SettlementState): Promise<boolean> {
+    if (settlement.currentState === state) {
+      return true;
+    }
+
+    const entry = await this.prisma.settlementStateHistory.findFirst({
+      where: { settlementId: settlement.id, toState: state },
+    });
+    return !!entry;
+  }
+
+  /**
+   * Apply the first buffered event the settlement can now take; its own
+   * transition applies the next. Buffered events left when the settlement
+   * finishes can no longer apply and are discarded.
+   */
+  private async applyBufferedEvents(settlement: Settlement): Promise<void> {
+    const buffered = await this.prisma.bufferedSettlementEvent.findMany({
+      where: { settlementId: settlement.id, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const { type, currentState } = settlement;
+    const final = this.stateMachine.getState(type, currentState).final;
+
+    for (const event of buffered) {
+      if (final || (await this.hasBeenIn(settlement, event.toState))) {
+        await this.resolveBufferedEvent(
+          event.id,
+          'DISCARDED',
+          final ? `Settlement finished in ${currentState}` : `Already in ${event.toState}`
+        );
+        continue;
       }
 
-      return updatedSettlement;
+      if (this.stateMachine.canTransition(type, currentState, event.toState)) {
+        // Resolved first, as the transition below re-enters this method
+        await this.resolveBufferedEvent(event.id, 'APPLIED', `Applied from ${currentState}`);
+        try {
+          await this.transitionState(
+            settlement.id,
+            event.toState,
+            { ...(event.metadata as any), source: event.source, buffered: true },
+            { fromState: currentState }
+          );
+        } catch (error) {
+          await this.prisma.bufferedSettlementEvent.update({
+            where: { id: event.id },
+            data: { status: 'PENDING', resolution: null, resolvedAt: null },
+          });
+          throw error;
+        }
+        return;
+      }
+    }
+  }
+
+  private async resolveBufferedEvent(
+    id: string,
+    status: 'APPLIED' | 'DISCARDED',
+    resolution: string
+  ): Promise<void> {
+    await this.prisma.bufferedSettlementEvent.update({
+      where: { id },
+      data: { status, resolution, resolvedAt: new Date() },
     });
+
+    if (status === 'DISCARDED') {
+      logger.warn(`Discarded buffered settlement event ${id}: ${resolution}`);
+    }
   }
 
   /**
-   * Execute state-specific actions
+   * Run the target state's entry action, if its flow defines one
    */
   private async executeStateAction(
     tx: Prisma.TransactionClient,
@@ -189,31 +586,10 @@ export class SettlementService {
     targetState: SettlementState,
     metadata?: any
   ): Promise<void> {
-    switch (targetState) {
-      case 'FIAT_RECEIVED':
-        await this.handleFiatReceived(tx, settlement, metadata);
-        break;
-      case 'TOKEN_MINTED':
-        await this.handleTokenMinted(tx, settlement, metadata);
-        break;
-      case 'TOKEN_LOCKED':
-        await this.handleTokenLocked(tx, settlement, metadata);
-        break;
-      case 'TOKEN_BURNED':
-        await this.handleTokenBurned(tx, settlement, metadata);
-        break;
-      case 'FIAT_REQUESTED':
-        await this.handleFiatRequested(tx, settlement, metadata);
-        break;
-      case 'SETTLED':
-        await this.handleSettled(tx, settlement, metadata);
-        break;
-      case 'CONFIRMED':
-        await this.handleConfirmed(tx, settlement, metadata);
-        break;
-      case 'FAILED':
-        await this.handleFailed(tx, settlement, metadata);
-        break;
+    const { onEnter } = this.stateMachine.getState(settlement.type, targetState);
+
+    if (onEnter) {
+      await this.entryActions[onEnter](tx, settlement, metadata);
     }
   }
 
@@ -225,7 +601,8 @@ export class SettlementService {
     settlement: Settlement,
     metadata: any
   ): Promise<void> {
-    const { bridgeTransactionId, amount, currency } = metadata;
+    const { bridgeTransactionId, currency } = metadata;
+    const amount = parseMinorUnits(metadata.amount);
 
     // Find or create fiat account
     const account = await this.getOrCreateAccount(
@@ -236,25 +613,32 @@ export class SettlementService {
       'BRIDGE'
     );
 
-    // Create ledger entry for fiat deposit
-    await this.ledgerService.createLedgerEntry({
-      accountId: account.id,
-      type: 'DEPOSIT',
-      amount,
-      currency,
-      direction: 'CREDIT',
-      referenceId: bridgeTransactionId,
-      settlementId: settlement.id,
-      metadata: {
-        bridgeTransactionId,
+    // Fiat lands in Bridge's float and is owed to the user
+    const bridgeFloat = await this.ledgerService.getSystemAccount('BRIDGE_FLOAT', currency, tx);
+
+    await this.ledgerService.postJournal(
+      {
+        type: 'DEPOSIT',
+        referenceId: bridgeTransactionId,
         settlementId: settlement.id,
-        provider: 'BRIDGE',
+        metadata: {
+          bridgeTransactionId,
+          settlementId: settlement.id,
+          provider: 'BRIDGE',
+        },
+        description: `Fiat deposit via Bridge`,
+        legs: [
+          { accountId: bridgeFloat.id, amount, currency, direction: 'DEBIT' },
+          { accountId: account.id, amount, currency, direction: 'CREDIT' },
+        ],
       },
-      description: `Fiat deposit via Bridge`,
-    });
+      tx
+    );
+
+    await this.postFee(tx, settlement, account.id);
 
     logger.info(`Fiat received for settlement: ${settlement.id}`, {
-      amount,
+      amount: amount.toString(),
       currency,
       bridgeTransactionId,
     });
@@ -268,7 +652,12 @@ export class SettlementService {
     settlement: Settlement,
     metadata: any
   ): Promise<void> {
-    const { transactionHash, amount, currency } = metadata;
+    const { transactionHash } = metadata;
+    // Events that don't carry the minted amount minted the whole target
+    const amount =
+      metadata.amount !== undefined
+        ? parseMinorUnits(metadata.amount)
+        : toMinorUnits(settlement.targetAmount);
     const tokenCurrency = settlement.targetCurrency;
 
     // Find or create token account
@@ -280,25 +669,69 @@ export class SettlementService {
       'BLOCKCHAIN'
     );
 
-    // Create ledger entry for token mint
-    await this.ledgerService.createLedgerEntry({
-      accountId: account.id,
-      type: 'MINT',
-      amount,
-      currency: tokenCurrency,
-      direction: 'CREDIT',
-      referenceId: transactionHash,
-      settlementId: settlement.id,
-      metadata: {
-        transactionHash,
+    const fiatAccount = await this.getOrCreateAccount(
+      tx,
+      settlement.userId,
+      'FIAT',
+      settlement.sourceCurrency,
+      settlement.provider
+    );
+    const fiatClearing = await this.ledgerService.getSystemAccount(
+      'MINT_BURN_CLEARING',
+      settlement.sourceCurrency,
+      tx
+    );
+    const tokenClearing = await this.ledgerService.getSystemAccount(
+      'MINT_BURN_CLEARING',
+      tokenCurrency,
+      tx
+    );
+    const fiatAmount = toMinorUnits(settlement.sourceAmount) - toMinorUnits(settlement.feeAmount);
+
+    // Convert the user's fiat into newly minted tokens via the clearing account
+    await this.ledgerService.postJournal(
+      {
+        type: 'MINT',
+        referenceId: transactionHash,
         settlementId: settlement.id,
-        contractAddress: metadata.contractAddress,
+        metadata: {
+          transactionHash,
+          settlementId: settlement.id,
+          contractAddress: metadata.contractAddress,
+        },
+        description: `Token mint for settlement`,
+        legs: [
+          {
+            accountId: fiatAccount.id,
+            amount: fiatAmount,
+            currency: settlement.sourceCurrency,
+            direction: 'DEBIT',
+          },
+          {
+            accountId: fiatClearing.id,
+            amount: fiatAmount,
+            currency: settlement.sourceCurrency,
+            direction: 'CREDIT',
+          },
+          {
+            accountId: tokenClearing.id,
+            amount,
+            currency: tokenCurrency,
+            direction: 'DEBIT',
+          },
+          {
+            accountId: account.id,
+            amount,
+            currency: tokenCurrency,
+            direction: 'CREDIT',
+          },
+        ],
       },
-      description: `Token mint for settlement`,
-    });
+      tx
+    );
 
     logger.info(`Tokens minted for settlement: ${settlement.id}`, {
-      amount,
+      amount: amount.toString(),
       currency: tokenCurrency,
       transactionHash,
     });
@@ -310,9 +743,8 @@ export class SettlementService {
   private async handleTokenLocked(
     tx: Prisma.TransactionClient,
     settlement: Settlement,
-    metadata: any
+    _metadata: any
   ): Promise<void> {
-    // Lock tokens in user's account (move from available to pending)
     const account = await tx.account.findFirst({
       where: {
         userId: settlement.userId,
@@ -325,21 +757,385 @@ export class SettlementService {
       throw new AppError('Token account not found', 404);
     }
 
-    if (account.available.lessThan(settlement.sourceAmount)) {
-      throw new AppError('Insufficient available tokens', 400);
-    }
-
-    await tx.account.update({
-      where: { id: account.id },
-      data: {
-        available: { decrement: settlement.sourceAmount },
-        pending: { increment: settlement.sourceAmount },
+    // Reserve tokens (available -> pending) until they are burned
+    const hold = await this.ledgerService.placeHold(
+      {
+        accountId: account.id,
+        amount: toMinorUnits(settlement.sourceAmount),
+        currency: settlement.sourceCurrency,
+        settlementId: settlement.id,
+        reason: 'Withdrawal token lock',
       },
-    });
+      tx
+    );
 
     logger.info(`Tokens locked for settlement: ${settlement.id}`, {
       amount: settlement.sourceAmount,
       currency: settlement.sourceCurrency,
+      holdId: hold.id,
+    });
+  }
+
+  /**
+   * Handle token burn for withdrawal: capture the lock hold, less the fee,
+   * which is charged from the released remainder
+   */
+  private async handleTokenBurned(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement,
+    metadata: any
+  ): Promise<void> {
+    const hold = await tx.hold.findFirst({
+      where: { settlementId: settlement.id, status: 'ACTIVE' },
+    });
+
+    if (!hold) {
+      throw new AppError('No active token hold for settlement', 400);
+    }
+
+    const clearing = await this.ledgerService.getSystemAccount(
+      'MINT_BURN_CLEARING',
+      hold.currency,
+      tx
+    );
+
+    await this.ledgerService.captureHold(
+      hold.id,
+      {
+        counterpartyAccountId: clearing.id,
+        amount: toMinorUnits(hold.amount) - toMinorUnits(settlement.feeAmount),
+        type: 'BURN',
+        referenceId: metadata?.transactionHash,
+        metadata: {
+          transactionHash: metadata?.transactionHash,
+          settlementId: settlement.id,
+        },
+        description: `Token burn for settlement`,
+      },
+      tx
+    );
+
+    await this.postFee(tx, settlement, hold.accountId);
+
+    logger.info(`Tokens burned for settlement: ${settlement.id}`, {
+      amount: hold.amount,
+      currency: hold.currency,
+      transactionHash: metadata?.transactionHash,
+    });
+  }
+
+  /**
+   * Book the conversion of the user's source fiat into the target currency
+   * at the locked quote, through the FX clearing accounts
+   */
+  private async handleFxConverted(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement,
+    metadata: any
+  ): Promise<void> {
+    const { fxConversionId } = metadata;
+    const { fxQuote } = settlement.metadata as any;
+    // Fees were charged when the funds arrived
+    const sourceAmount = toMinorUnits(settlement.sourceAmount) - toMinorUnits(settlement.feeAmount);
+    const targetAmount = toMinorUnits(settlement.targetAmount);
+
+    const sourceAccount = await this.getOrCreateAccount(
+      tx,
+      settlement.userId,
+      'FIAT',
+      settlement.sourceCurrency,
+      settlement.provider
+    );
+    const targetAccount = await this.getOrCreateAccount(
+      tx,
+      settlement.userId,
+      'FIAT',
+      settlement.targetCurrency,
+      settlement.provider
+    );
+    const sourceClearing = await this.ledgerService.getSystemAccount(
+      'FX_CLEARING',
+      settlement.sourceCurrency,
+      tx
+    );
+    const targetClearing = await this.ledgerService.getSystemAccount(
+      'FX_CLEARING',
+      settlement.targetCurrency,
+      tx
+    );
+
+    await this.ledgerService.postJournal(
+      {
+        type: 'FX_CONVERSION',
+        referenceId: fxConversionId,
+        settlementId: settlement.id,
+        metadata: {
+          fxConversionId,
+          quoteId: fxQuote?.id,
+          rate: fxQuote?.rate,
+          settlementId: settlement.id,
+        },
+        description: `FX conversion ${settlement.sourceCurrency} to ${settlement.targetCurrency}`,
+        legs: [
+          {
+            accountId: sourceAccount.id,
+            amount: sourceAmount,
+            currency: settlement.sourceCurrency,
+            direction: 'DEBIT',
+          },
+          {
+            accountId: sourceClearing.id,
+            amount: sourceAmount,
+            currency: settlement.sourceCurrency,
+            direction: 'CREDIT',
+          },
+          {
+            accountId: targetClearing.id,
+            amount: targetAmount,
+            currency: settlement.targetCurrency,
+            direction: 'DEBIT',
+          },
+          {
+            accountId: targetAccount.id,
+            amount: targetAmount,
+            currency: settlement.targetCurrency,
+            direction: 'CREDIT',
+          },
+        ],
+      },
+      tx
+    );
+
+    logger.info(`Funds converted for settlement: ${settlement.id}`, {
+      fxConversionId,
+      rate: fxQuote?.rate,
+    });
+  }
+
+  /**
+   * Book the payout amount as leaving our balance at the provider
+   */
+  private async handleFiatPayoutRequested(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement,
+    metadata: any
+  ): Promise<void> {
+    const { bridgeWithdrawalId } = metadata;
+    const amount = toMinorUnits(settlement.targetAmount);
+    const currency = settlement.targetCurrency;
+
+    // Burned tokens leave their value in mint/burn clearing; cross-border
+    // funds were converted into the user's fiat account
+    const account =
+      settlement.type === 'TOKEN_TO_FIAT'
+        ? await this.ledgerService.getSystemAccount('MINT_BURN_CLEARING', currency, tx)
+        : await tx.account.findFirst({
+            where: {
+              userId: settlement.userId,
+              type: 'FIAT',
+              currency,
+            },
+          });
+
+    if (!account) {
+      throw new AppError('Fiat account not found', 404);
+    }
+
+    const bridgeFloat = await this.ledgerService.getSystemAccount('BRIDGE_FLOAT', currency, tx);
+
+    await this.ledgerService.postJournal(
+      {
+        type: 'WITHDRAWAL',
+        referenceId: bridgeWithdrawalId,
+        settlementId: settlement.id,
+        metadata: {
+          bridgeWithdrawalId,
+          settlementId: settlement.id,
+          provider: 'BRIDGE',
+        },
+        description: `Fiat payout via Bridge`,
+        legs: [
+          { accountId: account.id, amount, currency, direction: 'DEBIT' },
+          { accountId: bridgeFloat.id, amount, currency, direction: 'CREDIT' },
+        ],
+      },
+      tx
+    );
+
+    logger.info(`Fiat payout requested for settlement: ${settlement.id}`, {
+      amount: amount.toString(),
+      currency,
+      bridgeWithdrawalId,
+    });
+  }
+
+  /**
+   * Pay out a PAYOUT settlement: from the funds reserved on the user's
+   * account when it was created, or for batch items from the batch's funds
+   * in payout clearing
+   */
+  private async handlePayoutRequested(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement,
+    metadata: any
+  ): Promise<void> {
+    const { bridgeWithdrawalId } = metadata;
+    const amount = toMinorUnits(settlement.targetAmount);
+    const currency = settlement.targetCurrency;
+    const journalMetadata = {
+      bridgeWithdrawalId,
+      settlementId: settlement.id,
+      payoutBatchId: (settlement.metadata as any)?.payoutBatchId,
+      provider: 'BRIDGE',
+    };
+
+    const bridgeFloat = await this.ledgerService.getSystemAccount('BRIDGE_FLOAT', currency, tx);
+    const hold = await tx.hold.findFirst({
+      where: { settlementId: settlement.id, status: 'ACTIVE' },
+    });
+
+    if (hold) {
+      await this.ledgerService.captureHold(
+        hold.id,
+        {
+          counterpartyAccountId: bridgeFloat.id,
+          amount,
+          type: 'WITHDRAWAL',
+          referenceId: bridgeWithdrawalId,
+          metadata: journalMetadata,
+          description: `Payout via Bridge`,
+        },
+        tx
+      );
+    } else {
+      const clearing = await this.ledgerService.getSystemAccount('PAYOUT_CLEARING', currency, tx);
+
+      await this.ledgerService.postJournal(
+        {
+          type: 'WITHDRAWAL',
+          referenceId: bridgeWithdrawalId,
+          settlementId: settlement.id,
+          metadata: journalMetadata,
+          description: `Batch payout via Bridge`,
+          legs: [
+            { accountId: clearing.id, amount, currency, direction: 'DEBIT' },
+            { accountId: bridgeFloat.id, amount, currency, direction: 'CREDIT' },
+          ],
+        },
+        tx
+      );
+    }
+
+    logger.info(`Payout requested for settlement: ${settlement.id}`, {
+      amount: amount.toString(),
+      currency,
+      bridgeWithdrawalId,
+      holdId: hold?.id,
+    });
+  }
+
+  /**
+   * Book an internal transfer as one journal between the two accounts,
+   * then the sender's fee
+   */
+  private async handleTransferSettled(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement
+  ): Promise<void> {
+    const { sourceAccountId, targetAccountId } = settlement;
+
+    if (!sourceAccountId || !targetAccountId) {
+      throw new AppError('Transfer has no source or target account', 400);
+    }
+
+    const amount = toMinorUnits(settlement.targetAmount);
+    const currency = settlement.sourceCurrency;
+
+    await this.ledgerService.postJournal(
+      {
+        type: 'TRANSFER',
+        referenceId: settlement.id,
+        settlementId: settlement.id,
+        metadata: {
+          settlementId: settlement.id,
+          recipientUserId: (settlement.metadata as any).recipientUserId,
+        },
+        description: `Internal transfer`,
+        legs: [
+          { accountId: sourceAccountId, amount, currency, direction: 'DEBIT' },
+          { accountId: targetAccountId, amount, currency, direction: 'CREDIT' },
+        ],
+      },
+      tx
+    );
+
+    await this.postFee(tx, settlement, sourceAccountId);
+
+    logger.info(`Internal transfer booked: ${settlement.id}`, {
+      amount: amount.toString(),
+      currency,
+    });
+  }
+
+  /**
+   * Book the settlement's fee from the user's account into fee income
+   */
+  private async postFee(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement,
+    accountId: string
+  ): Promise<void> {
+    const amount = toMinorUnits(settlement.feeAmount);
+    const currency = settlement.sourceCurrency;
+
+    if (amount === 0n) {
+      return;
+    }
+
+    const feeIncome = await this.ledgerService.getSystemAccount('FEE_INCOME', currency, tx);
+
+    await this.ledgerService.postJournal(
+      {
+        type: 'FEE',
+        referenceId: `fee:${settlement.id}`,
+        settlementId: settlement.id,
+        metadata: {
+          settlementId: settlement.id,
+          fxQuoteId: (settlement.metadata as any).fxQuoteId,
+        },
+        description: `Fee for ${settlement.type} settlement`,
+        legs: [
+          { accountId, amount, currency, direction: 'DEBIT' },
+          { accountId: feeIncome.id, amount, currency, direction: 'CREDIT' },
+        ],
+      },
+      tx
+    );
+
+    logger.info(`Fee charged for settlement: ${settlement.id}`, {
+      amount: amount.toString(),
+      currency,
+    });
+  }
+
+  /**
+   * Handle settlement failure or expiry
+   */
+  private async handleFailed(
+    tx: Prisma.TransactionClient,
+    settlement: Settlement,
+    metadata: any
+  ): Promise<void> {
+    // Give back any funds still reserved for this settlement
+    const released = await this.ledgerService.releaseSettlementHolds(
+      settlement.id,
+      metadata?.reason || 'Settlement failed',
+      tx
+    );
+
+    logger.info(`Settlement holds released: ${settlement.id}`, {
+      reason: metadata?.reason,
+      releasedHolds: released.length,
     });
   }
 
@@ -382,74 +1178,90 @@ export class SettlementService {
   }
 
   /**
-   * Check if state transition is valid
+   * Whether the user may still cancel the settlement
    */
-  private canTransition(from: SettlementState, to: SettlementState): boolean {
-    const validTransitions = this.stateMachine.get(from);
-    return validTransitions ? validTransitions.includes(to) : false;
+  isCancellable(settlement: Pick<Settlement, 'type' | 'currentState'>): boolean {
+    return this.stateMachine.isCancellable(settlement);
   }
 
   /**
-   * Check if next step should be triggered
+   * When a settlement that entered `state` at `enteredAt` times out, if ever
    */
-  private shouldTriggerNextStep(state: SettlementState): boolean {
-    const autoTriggerStates: SettlementState[] = [
-      'FIAT_RECEIVED',
-      'FIAT_CONFIRMED',
-      'TOKEN_MINTED',
-      'TOKEN_BURNED',
-      'FIAT_REQUESTED',
-    ];
-    return autoTriggerStates.includes(state);
+  getStateDeadline(
+    type: SettlementType,
+    state: SettlementState,
+    enteredAt: Date
+  ): { at: Date; to: SettlementState } | null {
+    return this.stateMachine.getDeadline(type, state, enteredAt);
   }
 
   /**
-   * Trigger next step in settlement
+   * Settlement flows as data, optionally for a single type
    */
-  private async triggerNextStep(
-    settlementId: string,
-    currentState: SettlementState,
-    metadata?: any
-  ): Promise<void> {
-    // This would be implemented based on settlement type and state
-    // For now, we'll just log it
-    logger.info(`Triggering next step for settlement: ${settlementId}`, {
-      currentState,
-      metadata,
-    });
+  describeFlows(type?: SettlementType): FlowDefinition[] {
+    return this.stateMachine.describe(type);
   }
 
   /**
-   * Check user limits before settlement
+   * Mermaid state diagram for a settlement type's flow
    */
-  private async checkUserLimits(
-    userId: string,
-    amount: number,
-    currency: string
-  ): Promise<void> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
+  renderFlowDiagram(type: SettlementType): string {
+    return this.stateMachine.toMermaid(type);
+  }
+
+  /**
+   * Queue the automatic step for a settlement's state again after it gave
+   * up, once whatever stopped it has been fixed
+   */
+  async retryStep(settlementId: string): Promise<Settlement> {
+    const settlement = await this.prisma.settlement.findUnique({
+      where: { id: settlementId },
     });
 
-    if (!user) {
-      throw new AppError('User not found', 404);
+    if (!settlement) {
+      throw new AppError('Settlement not found', 404);
     }
 
-    // Reset daily spent if new day
-    const lastReset = user.lastActivity || user.createdAt;
-    const isNewDay = new Date().getDate() !== lastReset.getDate();
+    const step = this.stateMachine.getStep(settlement.type, settlement.currentState);
+    if (!step) {
+      throw new AppError(`Settlement has no automatic step in ${settlement.currentState}`, 400);
+    }
 
-    let dailySpent = isNewDay ? 0 : user.dailySpent.toNumber();
-    let monthlySpent = isNewDay ? 0 : user.monthlySpent.toNumber();
+    const { count } = await this.prisma.settlement.updateMany({
+      where: { id: settlementId, currentState: settlement.currentState },
+      data: { stepFailedAt: null, stepFailureReason: null },
+    });
+    if (count === 0) {
+      throw new AppError('Settlement changed state; reload it before retrying', 409);
+    }
+
+    await this.stepQueue.enqueue(settlement.id, settlement.currentState, step);
+
+    logger.info(`Settlement step retried: ${step.name}`, {
+      settlementId,
+      state: settlement.currentState,
+      previousFailure: settlement.stepFailureReason,
+    });
+
+    return { ...settlement, stepFailedAt: null, stepFailureReason: null };
+  }
+
+  /**
+   * Queue the orchestration step for the settlement's new state, if any.
+   * A failure here is logged, not thrown: the transition has committed and
+   * the orchestrator's resume sweep picks the settlement up again.
+   */
+  private async triggerNextStep(settlement: Settlement): Promise<void> {
+    const step = this.stateMachine.getStep(settlement.type, settlement.currentState);
 
-    // Check daily limit
-    if (dailySpent + amount > user.dailyLimit.toNumber()) {
-      throw new AppError('Daily limit exceeded', 400);
+    if (!step) {
+      return;
     }
 
-    // Check monthly limit
-    if (monthlySpent + amount > user.monthlyLimit.toNumber()) {
-      throw new AppError('Monthly limit exceeded', 400);
+    try {
+      await this.stepQueue.enqueue(settlement.id, settlement.currentState, step);
+    } catch (error) {
+      logger.error(`Failed to queue ${step.name} for settlement ${settlement.id}:`, error);
     }
   }
 
@@ -471,9 +1283,9 @@ export class SettlementService {
       userId: settlement.userId,
       settlementId: settlement.id,
       type: settlement.type as any,
-      amount: settlement.sourceAmount.toNumber(),
+      amount: Number(formatAmount(settlement.sourceAmount, settlement.sourceCurrency)),
       currency: settlement.sourceCurrency,
-      targetAmount: settlement.targetAmount.toNumber(),
+      targetAmount: Number(formatAmount(settlement.targetAmount, settlement.targetCurrency)),
       targetCurrency: settlement.targetCurrency,
     });
 
@@ -536,8 +1348,8 @@ export class SettlementService {
   async getUserSettlements(
     userId: string,
     filters: {
-      type?: string;
-      status?: string;
+      type?: SettlementType;
+      status?: SettlementState;
       startDate?: Date;
       endDate?: Date;
       limit?: number;
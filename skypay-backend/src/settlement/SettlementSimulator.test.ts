@@ -0,0 +1,329 @@
+// skypay-backend/src/settlement/SettlementSimulator.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SettlementSimulator } from './SettlementSimulator';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const setup = () => {
+  // Only reads: a simulation must not write anything
+  const prisma: any = {
+    user: { findUnique: jest.fn().mockResolvedValue({ id: 'user-1', status: 'ACTIVE' }) },
+    account: { findFirst: jest.fn() },
+    kYCSubmission: { findMany: jest.fn().mockResolvedValue([{ status: 'APPROVED' }]) },
+    complianceCheck: { findMany: jest.fn().mockResolvedValue([]) },
+  };
+  const settlementService: any = {
+    priceCrossBorder: jest.fn().mockResolvedValue({
+      corridor: { id: 'corridor-gbp-ngn' },
+      fee: { feeAmount: 250n, grossAmount: 25000n, netAmount: 24750n },
+      quote: { targetAmount: 49500000n, rate: '2000' },
+    }),
+  };
+  const fxService: any = {
+    priceQuote: jest.fn(async (params: any) => ({
+      sourceAmount: params.sourceAmount ?? params.targetAmount * 10n ** 16n + 10n ** 18n,
+      targetAmount: params.targetAmount ?? params.sourceAmount * 10n ** 16n,
+      midRate: '1',
+      rate: '1',
+      markupBps: 0,
+      rateSource: 'peg',
+      feeAmount: params.sourceAmount ? 0n : 10n ** 18n,
+      feeScheduleId: null,
+    })),
+  };
+  const limitsService: any = { findLimitBreach: jest.fn().mockResolvedValue(null) };
+
+  return {
+    prisma,
+    settlementService,
+    fxService,
+    limitsService,
+    simulator: new SettlementSimulator(
+      prisma as PrismaClient,
+      settlementService,
+      fxService,
+      limitsService
+    ),
+  };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('SettlementSimulator.simulate', () => {
+  it('prices a deposit and walks the path it would take', async () => {
+    const { fxService, limitsService, simulator } = setup();
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      amount: 10000n,
+    });
+
+    expect(fxService.priceQuote).toHaveBeenCalledWith({
+      userId: 'user-1',
+      product: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      sourceAmount: 10000n,
+    });
+    expect(limitsService.findLimitBreach).toHaveBeenCalledWith(
+      'user-1',
+      'FIAT_TO_TOKEN',
+      10000n,
+      'USD'
+    );
+    expect(simulation).toMatchObject({
+      sourceAmount: 10000n,
+      feeAmount: 0n,
+      targetAmount: 10000n * 10n ** 16n,
+      rate: '1',
+      rateSource: 'peg',
+      blockers: [],
+    });
+    expect(simulation.path.map((step) => step.state)).toEqual([
+      'INITIATED',
+      'FIAT_RECEIVED',
+      'FIAT_CONFIRMED',
+      'TOKEN_MINTED',
+      'TOKEN_DELIVERED',
+      'SETTLED',
+    ]);
+    expect(simulation.path[0]).toEqual({
+      state: 'INITIATED',
+      description: 'Awaiting bank deposit',
+      maxStayMs: 24 * 60 * 60 * 1000,
+    });
+  });
+
+  it('expects funds once every state after funding has used its allowance', async () => {
+    const { simulator } = setup();
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      amount: 10000n,
+    });
+
+    // Three provider polls of 5,410s each and the hour-long mint timeout
+    expect(simulation.arrivesBy).toEqual(new Date(now.getTime() + (3 * 5410 + 3600) * 1000));
+  });
+
+  it('prices a cross-border settlement with Bridge without locking a quote', async () => {
+    const { settlementService, simulator } = setup();
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'CROSS_BORDER',
+      sourceCurrency: 'GBP',
+      targetCurrency: 'NGN',
+      amount: 25000n,
+    });
+
+    expect(settlementService.priceCrossBorder).toHaveBeenCalledWith(
+      { userId: 'user-1', sourceAmount: 25000n, sourceCurrency: 'GBP', targetCurrency: 'NGN' },
+      { lock: false }
+    );
+    expect(simulation).toMatchObject({
+      sourceAmount: 25000n,
+      feeAmount: 250n,
+      targetAmount: 49500000n,
+      rate: '2000',
+      rateSource: 'BRIDGE',
+    });
+  });
+
+  it('works a withdrawal back from the payout and checks the tokens are there', async () => {
+    const { prisma, fxService, simulator } = setup();
+    prisma.account.findFirst.mockResolvedValue({
+      frozen: false,
+      available: new Prisma.Decimal((50n * 10n ** 18n).toString()),
+    });
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'TOKEN_TO_FIAT',
+      sourceCurrency: 'USST',
+      targetCurrency: 'USD',
+      amount: 10000n,
+    });
+
+    expect(fxService.priceQuote).toHaveBeenCalledWith(
+      expect.objectContaining({ product: 'TOKEN_TO_FIAT', targetAmount: 10000n })
+    );
+    expect(prisma.account.findFirst).toHaveBeenCalledWith({
+      where: { userId: 'user-1', type: 'TOKEN', currency: 'USST' },
+    });
+    expect(simulation.blockers).toEqual([
+      {
+        code: 'INSUFFICIENT_BALANCE',
+        message: 'Insufficient available balance',
+        details: {
+          available: (50n * 10n ** 18n).toString(),
+          required: (101n * 10n ** 18n).toString(),
+          currency: 'USST',
+        },
+      },
+    ]);
+  });
+
+  it('reports a frozen token account', async () => {
+    const { prisma, simulator } = setup();
+    prisma.account.findFirst.mockResolvedValue({ frozen: true });
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'TOKEN_TO_FIAT',
+      sourceCurrency: 'USST',
+      targetCurrency: 'USD',
+      amount: 10000n,
+    });
+
+    expect(simulation.blockers).toEqual([
+      { code: 'ACCOUNT_FROZEN', message: 'Your USST account is frozen' },
+    ]);
+  });
+
+  it('lists every reason the settlement would be refused', async () => {
+    const { prisma, limitsService, simulator } = setup();
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1', status: 'SUSPENDED' });
+    limitsService.findLimitBreach.mockResolvedValue({
+      message: 'Daily limit exceeded',
+      details: { period: 'DAILY', remaining: '5000' },
+    });
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      amount: 10000n,
+    });
+
+    expect(simulation.blockers).toEqual([
+      { code: 'USER_NOT_ACTIVE', message: 'User account is not active' },
+      {
+        code: 'LIMIT_EXCEEDED',
+        message: 'Daily limit exceeded',
+        details: { period: 'DAILY', remaining: '5000' },
+      },
+    ]);
+  });
+
+  it('blocks users without approved identity verification', async () => {
+    const { prisma, simulator } = setup();
+    prisma.kYCSubmission.findMany.mockResolvedValue([{ status: 'REJECTED' }]);
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      amount: 10000n,
+    });
+
+    expect(simulation.blockers).toEqual([
+      {
+        code: 'KYC_NOT_APPROVED',
+        message: 'Identity verification is not approved',
+        details: { status: 'REJECTED' },
+      },
+    ]);
+  });
+
+  it('blocks users whose latest screening did not clear, without saying which', async () => {
+    const { prisma, simulator } = setup();
+    // Newest first: sanctions cleared on a rerun, PEP screening did not
+    prisma.complianceCheck.findMany.mockResolvedValue([
+      { type: 'SANCTIONS_CHECK', approved: true },
+      { type: 'PEP_CHECK', approved: false },
+      { type: 'SANCTIONS_CHECK', approved: false },
+    ]);
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      amount: 10000n,
+    });
+
+    expect(prisma.complianceCheck.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        settlementId: null,
+        type: { in: ['SANCTIONS_CHECK', 'AML_SCREENING', 'PEP_CHECK'] },
+        status: 'COMPLETED',
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    expect(simulation.blockers).toEqual([
+      { code: 'SCREENING_FAILED', message: 'Account screening has not cleared' },
+    ]);
+
+    prisma.complianceCheck.findMany.mockResolvedValue([
+      { type: 'PEP_CHECK', approved: true },
+      { type: 'PEP_CHECK', approved: false },
+    ]);
+    const cleared = await simulator.simulate({
+      userId: 'user-1',
+      type: 'FIAT_TO_TOKEN',
+      sourceCurrency: 'USD',
+      targetCurrency: 'USST',
+      amount: 10000n,
+    });
+    expect(cleared.blockers).toEqual([]);
+  });
+
+  it('lists the checks only creating the settlement can run', async () => {
+    const { simulator } = setup();
+
+    const simulation = await simulator.simulate({
+      userId: 'user-1',
+      type: 'CROSS_BORDER',
+      sourceCurrency: 'GBP',
+      targetCurrency: 'NGN',
+      amount: 25000n,
+    });
+
+    expect(simulation.skippedChecks.map(({ check }) => check)).toEqual([
+      'TRANSACTION_MONITORING',
+      'RECIPIENT_SCREENING',
+    ]);
+  });
+
+  it('throws validation errors as creating the settlement would', async () => {
+    const { prisma, settlementService, simulator } = setup();
+    settlementService.priceCrossBorder.mockRejectedValue(new Error('No corridor from GBP to XAF'));
+
+    await expect(
+      simulator.simulate({
+        userId: 'user-1',
+        type: 'CROSS_BORDER',
+        sourceCurrency: 'GBP',
+        targetCurrency: 'XAF',
+        amount: 25000n,
+      })
+    ).rejects.toThrow('No corridor from GBP to XAF');
+
+    prisma.user.findUnique.mockResolvedValue(null);
+    await expect(
+      simulator.simulate({
+        userId: 'user-9',
+        type: 'FIAT_TO_TOKEN',
+        sourceCurrency: 'USD',
+        targetCurrency: 'USST',
+        amount: 10000n,
+      })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,274 @@
+// skypay-backend/src/settlement/SettlementSimulator.ts
+import {
+  ComplianceCheck,
+  ComplianceCheckType,
+  PrismaClient,
+  SettlementState,
+} from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { FxService } from '../fx/FxService';
+import { LimitsService } from '../limits/LimitsService';
+import { MinorUnits, toMinorUnits } from '../currency/currencies';
+import { SettlementService } from './SettlementService';
+import { SettlementStateMachine } from './SettlementStateMachine';
+
+export type SimulatedSettlementType = 'FIAT_TO_TOKEN' | 'TOKEN_TO_FIAT' | 'CROSS_BORDER';
+
+export interface SimulateSettlementParams {
+  userId: string;
+  type: SimulatedSettlementType;
+  sourceCurrency: string;
+  targetCurrency: string;
+  // Minor units: what the user sends, or for TOKEN_TO_FIAT what is paid out
+  amount: MinorUnits;
+}
+
+export interface SimulationBlocker {
+  code:
+    | 'USER_NOT_ACTIVE'
+    | 'KYC_NOT_APPROVED'
+    | 'SCREENING_FAILED'
+    | 'LIMIT_EXCEEDED'
+    | 'ACCOUNT_FROZEN'
+    | 'INSUFFICIENT_BALANCE';
+  message: string;
+  details?: any;
+}
+
+// A compliance check creating the settlement runs that a simulation can't
+export interface SkippedCheck {
+  check: 'TRANSACTION_MONITORING' | 'RECIPIENT_SCREENING';
+  reason: string;
+}
+
+// Screenings of the user rather than of one settlement
+const USER_SCREENINGS: ComplianceCheckType[] = ['SANCTIONS_CHECK', 'AML_SCREENING', 'PEP_CHECK'];
+
+const SKIPPED_CHECKS: SkippedCheck[] = [
+  {
+    check: 'TRANSACTION_MONITORING',
+    reason: 'Runs against the settlement once it is created',
+  },
+  {
+    check: 'RECIPIENT_SCREENING',
+    reason: 'Runs once payout details are given, when the settlement is created',
+  },
+];
+
+export interface SimulatedStep {
+  state: SettlementState;
+  description: string;
+  // Longest the settlement may spend in the state, when bounded
+  maxStayMs: number | null;
+}
+
+export interface SettlementSimulation {
+  type: SimulatedSettlementType;
+  // Fees included
+  sourceAmount: MinorUnits;
+  sourceCurrency: string;
+  feeAmount: MinorUnits;
+  rate: string;
+  rateSource: string;
+  targetAmount: MinorUnits;
+  targetCurrency: string;
+  // Latest the funds should arrive if the settlement is funded now
+  arrivesBy: Date;
+  path: SimulatedStep[];
+  blockers: SimulationBlocker[];
+  skippedChecks: SkippedCheck[];
+}
+
+/**
+ * Prices a settlement and runs the checks creating it would, without
+ * saving anything or locking a rate. Validation errors are thrown as they
+ * would be on creation; compliance, limits and account checks that would
+ * refuse the settlement are returned as blockers so a checkout can explain
+ * them. Checks that need the settlement itself are listed as skipped.
+ */
+export class SettlementSimulator {
+  private stateMachine = new SettlementStateMachine();
+
+  constructor(
+    private prisma: PrismaClient,
+    private settlementService: SettlementService,
+    private fxService: FxService,
+    private limitsService: LimitsService
+  ) {}
+
+  async simulate(params: SimulateSettlementParams): Promise<SettlementSimulation> {
+    const { userId, type, sourceCurrency, targetCurrency } = params;
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const price = await this.price(params);
+    const blockers: SimulationBlocker[] = [];
+
+    if (user.status !== 'ACTIVE') {
+      blockers.push({ code: 'USER_NOT_ACTIVE', message: 'User account is not active' });
+    }
+
+    blockers.push(...(await this.checkCompliance(userId)));
+
+    const breach = await this.limitsService.findLimitBreach(
+      userId,
+      type,
+      price.sourceAmount,
+      sourceCurrency
+    );
+    if (breach) {
+      blockers.push({ code: 'LIMIT_EXCEEDED', message: breach.message, details: breach.details });
+    }
+
+    // Withdrawals lock the tokens as soon as they are created
+    if (type === 'TOKEN_TO_FIAT') {
+      blockers.push(...(await this.checkTokenBalance(userId, sourceCurrency, price.sourceAmount)));
+    }
+
+    const path = this.stateMachine.happyPath(type).map((state) => ({
+      state,
+      description: this.stateMachine.getState(type, state).description,
+      maxStayMs: this.stateMachine.maxStayMs(type, state),
+    }));
+
+    return {
+      type,
+      sourceAmount: price.sourceAmount,
+      sourceCurrency,
+      feeAmount: price.feeAmount,
+      rate: price.rate,
+      rateSource: price.rateSource,
+      targetAmount: price.targetAmount,
+      targetCurrency,
+      arrivesBy: this.arrivesBy(path, new Date()),
+      path,
+      blockers,
+      skippedChecks: SKIPPED_CHECKS,
+    };
+  }
+
+  /**
+   * Amounts as the creating route would lock them
+   */
+  private async price(params: SimulateSettlementParams): Promise<{
+    sourceAmount: MinorUnits;
+    targetAmount: MinorUnits;
+    feeAmount: MinorUnits;
+    rate: string;
+    rateSource: string;
+  }> {
+    const { userId, type, sourceCurrency, targetCurrency, amount } = params;
+
+    if (type === 'CROSS_BORDER') {
+      const { fee, quote } = await this.settlementService.priceCrossBorder(
+        { userId, sourceAmount: amount, sourceCurrency, targetCurrency },
+        { lock: false }
+      );
+
+      return {
+        sourceAmount: fee.grossAmount,
+        targetAmount: quote.targetAmount,
+        feeAmount: fee.feeAmount,
+        rate: quote.rate,
+        rateSource: 'BRIDGE',
+      };
+    }
+
+    return this.fxService.priceQuote({
+      userId,
+      product: type,
+      sourceCurrency,
+      targetCurrency,
+      ...(type === 'TOKEN_TO_FIAT' ? { targetAmount: amount } : { sourceAmount: amount }),
+    });
+  }
+
+  /**
+   * The user's identity verification and the latest result of each user
+   * screening
+   */
+  private async checkCompliance(userId: string): Promise<SimulationBlocker[]> {
+    const [submissions, screenings] = await Promise.all([
+      this.prisma.kYCSubmission.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.complianceCheck.findMany({
+        where: {
+          userId,
+          settlementId: null,
+          type: { in: USER_SCREENINGS },
+          status: 'COMPLETED',
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+    const blockers: SimulationBlocker[] = [];
+
+    // A newer submission under review doesn't undo an approved one
+    if (!submissions.some((submission) => submission.status === 'APPROVED')) {
+      blockers.push({
+        code: 'KYC_NOT_APPROVED',
+        message: 'Identity verification is not approved',
+        details: { status: submissions[0]?.status ?? null },
+      });
+    }
+
+    const latest = new Map<ComplianceCheckType, ComplianceCheck>();
+    for (const check of screenings) {
+      if (!latest.has(check.type)) {
+        latest.set(check.type, check);
+      }
+    }
+    // Which screening failed is not for the user to see
+    if ([...latest.values()].some((check) => !check.approved)) {
+      blockers.push({ code: 'SCREENING_FAILED', message: 'Account screening has not cleared' });
+    }
+
+    return blockers;
+  }
+
+  private async checkTokenBalance(
+    userId: string,
+    currency: string,
+    amount: MinorUnits
+  ): Promise<SimulationBlocker[]> {
+    const account = await this.prisma.account.findFirst({
+      where: { userId, type: 'TOKEN', currency },
+    });
+
+    if (account?.frozen) {
+      return [{ code: 'ACCOUNT_FROZEN', message: `Your ${currency} account is frozen` }];
+    }
+
+    const available = account ? toMinorUnits(account.available) : 0n;
+    if (available < amount) {
+      return [
+        {
+          code: 'INSUFFICIENT_BALANCE',
+          message: 'Insufficient available balance',
+          details: { available: available.toString(), required: amount.toString(), currency },
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * The initial state's timeout is the window for the user to fund or
+   * confirm, so it doesn't count; every later state is assumed to use its
+   * whole allowance. States with no bound only wait for a provider to
+   * confirm a payout it has already sent, and add nothing.
+   */
+  private arrivesBy(path: SimulatedStep[], now: Date): Date {
+    const totalMs = path
+      .slice(1)
+      .reduce((sum, step) => sum + (step.maxStayMs ?? 0), 0);
+
+    return new Date(now.getTime() + totalMs);
+  }
+}
@@ -0,0 +1,131 @@
+// skypay-backend/src/settlement/SettlementStateMachine.test.ts
+import { Prisma, Settlement, SettlementState, SettlementType } from '@prisma/client';
+import { SettlementStateMachine } from './SettlementStateMachine';
+import { SETTLEMENT_FLOWS, withTimeoutOverrides } from './flows/definitions';
+
+const stateMachine = new SettlementStateMachine(SETTLEMENT_FLOWS);
+
+const context = (
+  type: SettlementType,
+  currentState: SettlementState,
+  metadata?: any,
+  activeHold: object | null = null
+) => ({
+  tx: {
+    hold: { findFirst: jest.fn().mockResolvedValue(activeHold) },
+  } as unknown as Prisma.TransactionClient,
+  settlement: {
+    id: 'settlement-1',
+    type,
+    currentState,
+    sourceAmount: new Prisma.Decimal('10100'),
+    sourceCurrency: 'USD',
+  } as Settlement,
+  metadata,
+});
+
+describe('SettlementStateMachine guards', () => {
+  it('lets a transition through when its guards pass', async () => {
+    await expect(
+      stateMachine.assertTransition(
+        context('FIAT_TO_TOKEN', 'INITIATED', {
+          bridgeTransactionId: 'bridge-tx-1',
+          amount: '10100',
+          currency: 'USD',
+        }),
+        'FIAT_RECEIVED'
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it.each([
+    ['FIAT_TO_TOKEN', '5000', 'USD'],
+    ['CROSS_BORDER', '10100', 'EUR'],
+  ] as const)('refuses a %s deposit of %s %s against 10100 USD', async (type, amount, currency) => {
+    const received = context(type, 'INITIATED', {
+      bridgeTransactionId: 'bridge-tx-1',
+      amount,
+      currency,
+    });
+
+    await expect(stateMachine.assertTransition(received, 'FIAT_RECEIVED')).rejects.toMatchObject({
+      statusCode: 400,
+      message:
+        'Transition INITIATED -> FIAT_RECEIVED blocked: ' +
+        `received ${amount} ${currency}, expected 10100 USD`,
+      details: { guard: 'matchesSourceFunds' },
+    });
+  });
+
+  it.each([
+    ['FIAT_TO_TOKEN', 'INITIATED', 'FIAT_RECEIVED', 'hasBridgeTransaction'],
+    ['FIAT_TO_TOKEN', 'FIAT_CONFIRMED', 'TOKEN_MINTED', 'hasTransactionHash'],
+    ['CROSS_BORDER', 'FIAT_CONFIRMED', 'FX_CONVERTED', 'hasFxConversion'],
+    ['TOKEN_TO_FIAT', 'INITIATED', 'FAILED', 'hasReason'],
+  ] as const)('blocks %s %s -> %s without %s', async (type, from, to, guard) => {
+    await expect(stateMachine.assertTransition(context(type, from, {}), to)).rejects.toMatchObject(
+      { statusCode: 400, details: { guard } }
+    );
+  });
+
+  it('needs an active hold before held tokens are burned', async () => {
+    const metadata = { transactionHash: '0xburn' };
+    const locked = context('TOKEN_TO_FIAT', 'TOKEN_LOCKED', metadata);
+
+    await expect(stateMachine.assertTransition(locked, 'TOKEN_BURNED')).rejects.toMatchObject({
+      details: { guard: 'hasActiveHold' },
+    });
+
+    await expect(
+      stateMachine.assertTransition(
+        context('TOKEN_TO_FIAT', 'TOKEN_LOCKED', metadata, { id: 'hold-1' }),
+        'TOKEN_BURNED'
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it('refuses transitions outside the settlement type\'s flow', async () => {
+    await expect(
+      stateMachine.assertTransition(context('TOKEN_TO_FIAT', 'TOKEN_LOCKED'), 'SETTLED')
+    ).rejects.toThrow('Invalid state transition for TOKEN_TO_FIAT: TOKEN_LOCKED -> SETTLED');
+    expect(stateMachine.canTransition('FIAT_TO_TOKEN', 'FIAT_RECEIVED', 'TOKEN_MINTED')).toBe(
+      false
+    );
+  });
+});
+
+describe('settlement flows', () => {
+  it.each(Object.keys(SETTLEMENT_FLOWS) as SettlementType[])(
+    '%s posts and can reverse every payout it requests',
+    (type) => {
+      const requested = SETTLEMENT_FLOWS[type].states.FIAT_REQUESTED;
+
+      if (requested) {
+        expect(requested.onEnter).toMatch(/^post/);
+        expect(requested.compensate).toBe('reverseFiatPayout');
+      }
+    }
+  );
+
+  it('walks the happy path of each flow to a final state', () => {
+    expect(stateMachine.happyPath('TOKEN_TO_FIAT')).toEqual([
+      'INITIATED',
+      'TOKEN_LOCKED',
+      'TOKEN_BURNED',
+      'FIAT_REQUESTED',
+      'FIAT_SENT',
+      'CONFIRMED',
+    ]);
+    expect(stateMachine.isAhead('CROSS_BORDER', 'FIAT_RECEIVED', 'FIAT_REQUESTED')).toBe(true);
+    expect(stateMachine.isAhead('CROSS_BORDER', 'FIAT_REQUESTED', 'FIAT_RECEIVED')).toBe(false);
+  });
+
+  it('only overrides timeouts a flow already has', () => {
+    const flows = withTimeoutOverrides(SETTLEMENT_FLOWS, { TOKEN_TO_FIAT: { TOKEN_LOCKED: 30 } });
+
+    expect(flows.TOKEN_TO_FIAT.states.TOKEN_LOCKED?.timeout?.afterMs).toBe(30 * 60 * 1000);
+    expect(() =>
+      withTimeoutOverrides(SETTLEMENT_FLOWS, { TOKEN_TO_FIAT: { FIAT_SENT: 30 } })
+    ).toThrow('TOKEN_TO_FIAT state FIAT_SENT has no timeout to override');
+  });
+});
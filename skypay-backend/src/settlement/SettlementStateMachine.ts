@@ -0,0 +1,303 @@
+// skypay-backend/src/settlement/SettlementStateMachine.ts
+import { Prisma, Settlement, SettlementState, SettlementType } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { config } from '../config';
+import { parseMinorUnits, toMinorUnits } from '../currency/currencies';
+import { SETTLEMENT_FLOWS, withTimeoutOverrides } from './flows/definitions';
+import {
+  CompensationName,
+  FlowDefinition,
+  GuardName,
+  StateDefinition,
+  StateTimeout,
+  StepDefinition,
+} from './flows/types';
+
+export interface GuardContext {
+  tx: Prisma.TransactionClient;
+  settlement: Settlement;
+  metadata?: any;
+}
+
+// Where a settlement ends up when something goes wrong
+const UNHAPPY_STATES: SettlementState[] = ['FAILED', 'EXPIRED', 'REVERSED'];
+
+type Guard = (ctx: GuardContext) => Promise<string | null> | string | null;
+
+// Each guard returns a failure message, or null when the transition may proceed
+const GUARDS: Record<GuardName, Guard> = {
+  hasBridgeTransaction: ({ metadata }) =>
+    metadata?.bridgeTransactionId ? null : 'bridgeTransactionId is required',
+
+  hasTransactionHash: ({ metadata }) =>
+    metadata?.transactionHash ? null : 'transactionHash is required',
+
+  hasReason: ({ metadata }) => (metadata?.reason ? null : 'reason is required'),
+
+  hasActiveHold: async ({ tx, settlement }) => {
+    const hold = await tx.hold.findFirst({
+      where: { settlementId: settlement.id, status: 'ACTIVE' },
+    });
+    return hold ? null : 'No active hold for settlement';
+  },
+
+  hasFxConversion: ({ metadata }) =>
+    metadata?.fxConversionId ? null : 'fxConversionId is required',
+
+  // Funds are booked, then minted or converted, exactly as priced; a short
+  // or wrong-currency deposit is left for operations to resolve
+  matchesSourceFunds: ({ settlement, metadata }) => {
+    const expected = toMinorUnits(settlement.sourceAmount);
+    if (
+      metadata?.currency === settlement.sourceCurrency &&
+      metadata?.amount !== undefined &&
+      parseMinorUnits(metadata.amount) === expected
+    ) {
+      return null;
+    }
+    return (
+      `received ${metadata?.amount} ${metadata?.currency}, ` +
+      `expected ${expected} ${settlement.sourceCurrency}`
+    );
+  },
+};
+
+export class SettlementStateMachine {
+  constructor(
+    private flows: Record<SettlementType, FlowDefinition> = withTimeoutOverrides(
+      SETTLEMENT_FLOWS,
+      config.settlements.timeoutMinutes
+    )
+  ) {}
+
+  /**
+   * Get the flow for a settlement type
+   */
+  getFlow(type: SettlementType): FlowDefinition {
+    const flow = this.flows[type];
+    if (!flow) {
+      throw new AppError(`No settlement flow defined for ${type}`, 400);
+    }
+    return flow;
+  }
+
+  /**
+   * Get a state's definition within a type's flow
+   */
+  getState(type: SettlementType, state: SettlementState): StateDefinition {
+    const definition = this.getFlow(type).states[state];
+    if (!definition) {
+      throw new AppError(`State ${state} is not part of the ${type} flow`, 400);
+    }
+    return definition;
+  }
+
+  /**
+   * States reachable from the current state
+   */
+  nextStates(type: SettlementType, state: SettlementState): SettlementState[] {
+    return this.getState(type, state).transitions.map((t) => t.to);
+  }
+
+  canTransition(type: SettlementType, from: SettlementState, to: SettlementState): boolean {
+    const definition = this.getFlow(type).states[from];
+    return !!definition?.transitions.some((t) => t.to === to);
+  }
+
+  /**
+   * Validate a transition against the settlement's own flow and run its guards
+   */
+  async assertTransition(
+    ctx: GuardContext,
+    targetState: SettlementState
+  ): Promise<void> {
+    const { settlement } = ctx;
+    const transition = this.getFlow(settlement.type).states[
+      settlement.currentState
+    ]?.transitions.find((t) => t.to === targetState);
+
+    if (!transition) {
+      throw new AppError(
+        `Invalid state transition for ${settlement.type}: ${settlement.currentState} -> ${targetState}`,
+        400
+      );
+    }
+
+    for (const name of transition.guards || []) {
+      const failure = await GUARDS[name](ctx);
+      if (failure) {
+        throw new AppError(
+          `Transition ${settlement.currentState} -> ${targetState} blocked: ${failure}`,
+          400,
+          { guard: name }
+        );
+      }
+    }
+  }
+
+  /**
+   * Orchestration step for a state, if the flow defines one
+   */
+  getStep(type: SettlementType, state: SettlementState): StepDefinition | null {
+    return this.getFlow(type).states[state]?.step || null;
+  }
+
+  /**
+   * Compensation that undoes a state's effects, if the flow defines one
+   */
+  getCompensation(type: SettlementType, state: SettlementState): CompensationName | null {
+    return this.getFlow(type).states[state]?.compensate || null;
+  }
+
+  /**
+   * States that have an orchestration step, per settlement type
+   */
+  statesWithSteps(): { type: SettlementType; state: SettlementState }[] {
+    return Object.values(this.flows).flatMap((flow) =>
+      (Object.entries(flow.states) as [SettlementState, StateDefinition][])
+        .filter(([, definition]) => definition.step)
+        .map(([state]) => ({ type: flow.type, state }))
+    );
+  }
+
+  isCancellable(settlement: Pick<Settlement, 'type' | 'currentState'>): boolean {
+    return !!this.getFlow(settlement.type).states[settlement.currentState]?.cancellable;
+  }
+
+  /**
+   * When a settlement that entered `state` at `enteredAt` times out, if ever
+   */
+  getDeadline(
+    type: SettlementType,
+    state: SettlementState,
+    enteredAt: Date
+  ): { at: Date; to: SettlementState } | null {
+    const timeout = this.getFlow(type).states[state]?.timeout;
+    if (!timeout) {
+      return null;
+    }
+
+    return { at: new Date(enteredAt.getTime() + timeout.afterMs), to: timeout.to };
+  }
+
+  /**
+   * States a settlement of this type passes through when nothing goes
+   * wrong: from the initial state, each state's first transition that
+   * doesn't fail, expire or reverse it, up to a final state
+   */
+  happyPath(type: SettlementType): SettlementState[] {
+    const flow = this.getFlow(type);
+    const path: SettlementState[] = [flow.initial];
+
+    for (;;) {
+      const definition = this.getState(type, path[path.length - 1]);
+      const next = definition.transitions.find((t) => !UNHAPPY_STATES.includes(t.to));
+
+      if (definition.final || !next || path.includes(next.to)) {
+        return path;
+      }
+      path.push(next.to);
+    }
+  }
+
+  /**
+   * Whether `to` comes after `from` on the type's happy path, so that a
+   * settlement in `from` may still get there
+   */
+  isAhead(type: SettlementType, from: SettlementState, to: SettlementState): boolean {
+    const path = this.happyPath(type);
+    const fromIndex = path.indexOf(from);
+    return fromIndex !== -1 && path.indexOf(to) > fromIndex;
+  }
+
+  /**
+   * Longest a settlement stays in a state before it moves on or fails: the
+   * state's timeout, or else the retry budget of its step. Null when the
+   * state waits on a provider without either.
+   */
+  maxStayMs(type: SettlementType, state: SettlementState): number | null {
+    const { timeout, step } = this.getState(type, state);
+
+    if (timeout) {
+      return timeout.afterMs;
+    }
+    if (step) {
+      // Every attempt may run to its timeout; backoff doubles between attempts
+      return step.attempts * step.timeoutMs + step.backoffMs * (2 ** (step.attempts - 1) - 1);
+    }
+    return null;
+  }
+
+  /**
+   * States that time out, with how long a settlement may sit in each
+   */
+  statesWithTimeouts(): {
+    type: SettlementType;
+    state: SettlementState;
+    timeout: StateTimeout;
+  }[] {
+    return Object.values(this.flows).flatMap((flow) =>
+      (Object.entries(flow.states) as [SettlementState, StateDefinition][])
+        .filter(([, definition]) => definition.timeout)
+        .map(([state, definition]) => ({ type: flow.type, state, timeout: definition.timeout! }))
+    );
+  }
+
+  /**
+   * Flows as plain JSON for the admin dashboard
+   */
+  describe(type?: SettlementType): FlowDefinition[] {
+    const types = type ? [type] : (Object.keys(this.flows) as SettlementType[]);
+    return types.map((t) => this.getFlow(t));
+  }
+
+  /**
+   * Render a flow as a Mermaid state diagram
+   */
+  toMermaid(type: SettlementType): string {
+    const flow = this.getFlow(type);
+    const lines = ['stateDiagram-v2', `  [*] --> ${flow.initial}`];
+
+    for (const [state, definition] of Object.entries(flow.states) as [
+      SettlementState,
+      StateDefinition,
+    ][]) {
+      for (const transition of definition.transitions) {
+        const isTimeout = definition.timeout?.to === transition.to;
+        const labels = [
+          ...(transition.guards || []),
+          ...(isTimeout ? [`after ${this.formatDuration(definition.timeout!.afterMs)}`] : []),
+        ];
+        lines.push(
+          `  ${state} --> ${transition.to}${labels.length ? `: ${labels.join(', ')}` : ''}`
+        );
+      }
+
+      if (definition.onEnter) {
+        lines.push(`  ${state} : entry / ${definition.onEnter}`);
+      }
+
+      if (definition.step) {
+        lines.push(`  ${state} : step / ${definition.step.name}`);
+      }
+
+      if (definition.compensate) {
+        lines.push(`  ${state} : compensate / ${definition.compensate}`);
+      }
+
+      if (definition.final) {
+        lines.push(`  ${state} --> [*]`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Short form of a duration, e.g. 15m or 24h
+   */
+  formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+  }
+}
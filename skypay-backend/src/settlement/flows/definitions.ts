@@ -0,0 +1,308 @@
+// skypay-backend/src/settlement/flows/definitions.ts
+import { SettlementState, SettlementType } from '@prisma/client';
+import { FlowDefinition, StateDefinition, StepDefinition, TransitionDefinition } from './types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+// Provider polls: retried over roughly an hour and a half
+const pollStep = (name: StepDefinition['name']): StepDefinition => ({
+  name,
+  attempts: 10,
+  backoffMs: 10 * SECOND,
+  timeoutMs: 30 * SECOND,
+});
+
+// Calls with side effects at a provider or on-chain: fewer retries, longer timeout
+const actionStep = (name: StepDefinition['name']): StepDefinition => ({
+  name,
+  attempts: 5,
+  backoffMs: 30 * SECOND,
+  timeoutMs: 2 * MINUTE,
+});
+
+const fail: TransitionDefinition = {
+  to: 'FAILED',
+  guards: ['hasReason'],
+};
+
+const expire: TransitionDefinition = {
+  to: 'EXPIRED',
+  description: 'Timed out before funds arrived',
+};
+
+// Terminal states shared by every flow
+const terminalStates: Record<'FAILED' | 'REVERSED' | 'EXPIRED', StateDefinition> = {
+  FAILED: {
+    description: 'Failed; reserved funds are released',
+    onEnter: 'releaseHolds',
+    step: actionStep('compensate'),
+    transitions: [{ to: 'REVERSED', description: 'Compensating entries posted' }],
+  },
+  REVERSED: {
+    description: 'Ledger effects reversed',
+    transitions: [],
+    final: true,
+  },
+  EXPIRED: {
+    description: 'Expired before completion; reserved funds are released',
+    onEnter: 'releaseHolds',
+    transitions: [],
+    final: true,
+  },
+};
+
+const fiatToToken: FlowDefinition = {
+  type: 'FIAT_TO_TOKEN',
+  description: 'Bank deposit minted as stablecoin',
+  initial: 'INITIATED',
+  states: {
+    INITIATED: {
+      description: 'Awaiting bank deposit',
+      transitions: [
+        { to: 'FIAT_RECEIVED', guards: ['hasBridgeTransaction', 'matchesSourceFunds'] },
+        fail,
+        expire,
+      ],
+      timeout: { afterMs: 24 * HOUR, to: 'EXPIRED' },
+      cancellable: true,
+    },
+    FIAT_RECEIVED: {
+      description: 'Deposit credited to the user fiat account',
+      onEnter: 'postFiatDeposit',
+      step: pollStep('confirmFiatDeposit'),
+      compensate: 'reverseFiatDeposit',
+      transitions: [{ to: 'FIAT_CONFIRMED' }, fail],
+    },
+    FIAT_CONFIRMED: {
+      description: 'Deposit confirmed final by the provider',
+      step: actionStep('mintTokens'),
+      transitions: [{ to: 'TOKEN_MINTED', guards: ['hasTransactionHash'] }, fail],
+      timeout: { afterMs: HOUR, to: 'FAILED' },
+    },
+    TOKEN_MINTED: {
+      description: 'Tokens minted against the deposit',
+      onEnter: 'postTokenMint',
+      step: pollStep('confirmTokenDelivery'),
+      compensate: 'recoverMintedTokens',
+      transitions: [{ to: 'TOKEN_DELIVERED' }, fail],
+    },
+    TOKEN_DELIVERED: {
+      description: 'Tokens delivered to the user wallet',
+      step: pollStep('completeSettlement'),
+      transitions: [{ to: 'SETTLED' }],
+    },
+    SETTLED: {
+      description: 'Completed',
+      transitions: [],
+      final: true,
+    },
+    ...terminalStates,
+  },
+};
+
+const tokenToFiat: FlowDefinition = {
+  type: 'TOKEN_TO_FIAT',
+  description: 'Stablecoin burned and paid out to a bank account',
+  initial: 'INITIATED',
+  states: {
+    INITIATED: {
+      description: 'Withdrawal requested',
+      transitions: [{ to: 'TOKEN_LOCKED' }, fail, expire],
+      timeout: { afterMs: 15 * MINUTE, to: 'EXPIRED' },
+      cancellable: true,
+    },
+    TOKEN_LOCKED: {
+      description: 'Tokens reserved by a hold',
+      onEnter: 'lockTokens',
+      compensate: 'unlockTokens',
+      transitions: [
+        { to: 'TOKEN_BURNED', guards: ['hasActiveHold', 'hasTransactionHash'] },
+        fail,
+        { to: 'EXPIRED', description: 'Never burned; the hold is released' },
+      ],
+      timeout: { afterMs: HOUR, to: 'EXPIRED' },
+      cancellable: true,
+    },
+    TOKEN_BURNED: {
+      description: 'Held tokens burned on-chain',
+      onEnter: 'burnTokens',
+      step: actionStep('requestFiatPayout'),
+      compensate: 'remintTokens',
+      transitions: [{ to: 'FIAT_REQUESTED' }, fail],
+    },
+    FIAT_REQUESTED: {
+      // Advanced by Bridge withdrawal webhooks
+      description: 'Payout requested from the provider',
+      onEnter: 'postFiatPayout',
+      compensate: 'reverseFiatPayout',
+      transitions: [{ to: 'FIAT_SENT' }, fail],
+      timeout: { afterMs: 72 * HOUR, to: 'FAILED' },
+    },
+    FIAT_SENT: {
+      description: 'Payout sent by the provider',
+      transitions: [{ to: 'CONFIRMED' }, fail],
+    },
+    CONFIRMED: {
+      description: 'Payout confirmed by the provider',
+      transitions: [],
+      final: true,
+    },
+    ...terminalStates,
+  },
+};
+
+// Collection leg, then FX conversion at the locked quote, then payout leg
+const crossBorder: FlowDefinition = {
+  type: 'CROSS_BORDER',
+  description: 'Fiat collected in one currency and paid out in another',
+  initial: 'INITIATED',
+  states: {
+    INITIATED: {
+      description: 'Awaiting funds in the source currency',
+      transitions: [
+        { to: 'FIAT_RECEIVED', guards: ['hasBridgeTransaction', 'matchesSourceFunds'] },
+        fail,
+        expire,
+      ],
+      timeout: { afterMs: 24 * HOUR, to: 'EXPIRED' },
+      cancellable: true,
+    },
+    FIAT_RECEIVED: {
+      description: 'Source funds received',
+      onEnter: 'postFiatDeposit',
+      step: pollStep('confirmFiatDeposit'),
+      compensate: 'reverseFiatDeposit',
+      transitions: [{ to: 'FIAT_CONFIRMED' }, fail],
+    },
+    FIAT_CONFIRMED: {
+      description: 'Source funds confirmed final',
+      step: actionStep('convertFunds'),
+      transitions: [{ to: 'FX_CONVERTED', guards: ['hasFxConversion'] }, fail],
+      timeout: { afterMs: HOUR, to: 'FAILED' },
+    },
+    FX_CONVERTED: {
+      description: 'Converted to the target currency at the locked quote',
+      onEnter: 'postFxConversion',
+      step: actionStep('requestFiatPayout'),
+      compensate: 'reverseFxConversion',
+      transitions: [{ to: 'FIAT_REQUESTED' }, fail],
+    },
+    FIAT_REQUESTED: {
+      // Advanced by Bridge withdrawal webhooks
+      description: 'Payout requested in the target currency',
+      onEnter: 'postFiatPayout',
+      compensate: 'reverseFiatPayout',
+      transitions: [{ to: 'FIAT_SENT' }, fail],
+      timeout: { afterMs: 72 * HOUR, to: 'FAILED' },
+    },
+    FIAT_SENT: {
+      description: 'Payout sent by the provider',
+      transitions: [{ to: 'CONFIRMED' }, fail],
+    },
+    CONFIRMED: {
+      description: 'Payout confirmed by the provider',
+      transitions: [],
+      final: true,
+    },
+    ...terminalStates,
+  },
+};
+
+const internalTransfer: FlowDefinition = {
+  type: 'INTERNAL_TRANSFER',
+  description: 'Book transfer between two SkyPay accounts',
+  initial: 'INITIATED',
+  states: {
+    INITIATED: {
+      description: 'Transfer requested',
+      transitions: [{ to: 'SETTLED' }, fail, expire],
+      timeout: { afterMs: 15 * MINUTE, to: 'EXPIRED' },
+      cancellable: true,
+    },
+    SETTLED: {
+      description: 'Transfer booked',
+      onEnter: 'postTransfer',
+      transitions: [],
+      final: true,
+    },
+    ...terminalStates,
+  },
+};
+
+// One item of a payout batch, paid from the batch's pre-funded clearing balance
+const payout: FlowDefinition = {
+  type: 'PAYOUT',
+  description: 'Bank payout from a payout batch or the user\'s own balance',
+  initial: 'INITIATED',
+  states: {
+    INITIATED: {
+      description: 'Payout queued for the provider',
+      step: actionStep('requestFiatPayout'),
+      transitions: [{ to: 'FIAT_REQUESTED' }, fail, expire],
+      timeout: { afterMs: 24 * HOUR, to: 'EXPIRED' },
+    },
+    FIAT_REQUESTED: {
+      // Advanced by Bridge withdrawal webhooks
+      description: 'Payout requested from the provider',
+      onEnter: 'postPayout',
+      compensate: 'reverseFiatPayout',
+      transitions: [{ to: 'FIAT_SENT' }, fail],
+      timeout: { afterMs: 72 * HOUR, to: 'FAILED' },
+    },
+    FIAT_SENT: {
+      description: 'Payout sent by the provider',
+      transitions: [{ to: 'CONFIRMED' }, fail],
+    },
+    CONFIRMED: {
+      description: 'Payout confirmed by the provider',
+      transitions: [],
+      final: true,
+    },
+    ...terminalStates,
+  },
+};
+
+export const SETTLEMENT_FLOWS: Record<SettlementType, FlowDefinition> = {
+  FIAT_TO_TOKEN: fiatToToken,
+  TOKEN_TO_FIAT: tokenToFiat,
+  CROSS_BORDER: crossBorder,
+  INTERNAL_TRANSFER: internalTransfer,
+  PAYOUT: payout,
+};
+
+/**
+ * Flows with state timeouts replaced by configured ones, given in minutes per
+ * type and state. Only states whose flow already defines a timeout can be
+ * overridden; anything else is a configuration mistake.
+ */
+export function withTimeoutOverrides(
+  flows: Record<SettlementType, FlowDefinition>,
+  overrides: Record<string, Record<string, number>>
+): Record<SettlementType, FlowDefinition> {
+  const result = { ...flows };
+
+  for (const [type, minutesByState] of Object.entries(overrides)) {
+    const flow = flows[type as SettlementType];
+    if (!flow) {
+      throw new Error(`Unknown settlement type in timeout overrides: ${type}`);
+    }
+
+    const states = { ...flow.states };
+    for (const [state, minutes] of Object.entries(minutesByState)) {
+      const definition = states[state as SettlementState];
+      if (!definition?.timeout) {
+        throw new Error(`${type} state ${state} has no timeout to override`);
+      }
+      states[state as SettlementState] = {
+        ...definition,
+        timeout: { ...definition.timeout, afterMs: minutes * MINUTE },
+      };
+    }
+
+    result[type as SettlementType] = { ...flow, states };
+  }
+
+  return result;
+}
@@ -0,0 +1,95 @@
+// skypay-backend/src/settlement/flows/types.ts
+import { SettlementState, SettlementType } from '@prisma/client';
+
+/**
+ * Guards are named checks on the transition's metadata and the settlement,
+ * implemented in SettlementStateMachine. Keeping them as names keeps flows
+ * plain data that can be served to the admin dashboard.
+ */
+export type GuardName =
+  | 'hasBridgeTransaction'
+  | 'hasTransactionHash'
+  | 'hasReason'
+  | 'hasActiveHold'
+  | 'hasFxConversion'
+  | 'matchesSourceFunds';
+
+/**
+ * Entry actions run inside the transition's database transaction and are
+ * implemented by SettlementService
+ */
+export type EntryActionName =
+  | 'postFiatDeposit'
+  | 'postTokenMint'
+  | 'lockTokens'
+  | 'burnTokens'
+  | 'postFxConversion'
+  | 'postFiatPayout'
+  | 'postPayout'
+  | 'postTransfer'
+  | 'releaseHolds';
+
+/**
+ * Orchestration steps run by SettlementOrchestrator once a state is entered
+ */
+export type StepName =
+  | 'confirmFiatDeposit'
+  | 'convertFunds'
+  | 'mintTokens'
+  | 'confirmTokenDelivery'
+  | 'completeSettlement'
+  | 'requestFiatPayout'
+  | 'compensate';
+
+/**
+ * Compensations undo a state's effects when a failed settlement is reversed.
+ * Implemented by SettlementCompensator; each must be safe to repeat.
+ */
+export type CompensationName =
+  | 'reverseFiatDeposit'
+  | 'reverseFxConversion'
+  | 'reverseFiatPayout'
+  | 'recoverMintedTokens'
+  | 'unlockTokens'
+  | 'remintTokens';
+
+export interface StepDefinition {
+  name: StepName;
+  attempts: number;
+  // First retry delay; doubles on each further attempt
+  backoffMs: number;
+  // Per-attempt limit before the attempt counts as failed
+  timeoutMs: number;
+}
+
+export interface TransitionDefinition {
+  to: SettlementState;
+  guards?: GuardName[];
+  description?: string;
+}
+
+export interface StateTimeout {
+  afterMs: number;
+  to: SettlementState;
+}
+
+export interface StateDefinition {
+  description: string;
+  transitions: TransitionDefinition[];
+  onEnter?: EntryActionName;
+  timeout?: StateTimeout;
+  // Work the orchestrator does to move the settlement on from this state
+  step?: StepDefinition;
+  // Undoes what entering this state did, run in reverse order on reversal
+  compensate?: CompensationName;
+  // The user may cancel from this state
+  cancellable?: boolean;
+  final?: boolean;
+}
+
+export interface FlowDefinition {
+  type: SettlementType;
+  description: string;
+  initial: SettlementState;
+  states: Partial<Record<SettlementState, StateDefinition>>;
+}
@@ -0,0 +1,241 @@
+// skypay-backend/src/settlement/orchestration/SettlementCompensator.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SettlementCompensator } from './SettlementCompensator';
+
+const journal = (id: string, type: string) => ({
+  id,
+  type,
+  entries: [
+    { id: `${id}-debit`, status: 'SETTLED' },
+    { id: `${id}-credit`, status: 'SETTLED' },
+  ],
+});
+
+const setup = (states: string[], journals: ReturnType<typeof journal>[]) => {
+  const prisma: any = {
+    settlementStateHistory: {
+      // Newest first, as the compensator asks for it
+      findMany: jest.fn(async () => [...states].reverse().map((toState) => ({ toState }))),
+    },
+    journal: {
+      findMany: jest.fn(async ({ where }: any) =>
+        journals.filter((j) => where.type.in.includes(j.type)).reverse()
+      ),
+    },
+    user: { findUnique: jest.fn().mockResolvedValue({ walletAddress: '0xuser' }) },
+    settlement: { update: jest.fn() },
+    auditLog: { create: jest.fn() },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    // Reversing any entry of a journal reverses the whole journal
+    reverseLedgerEntry: jest.fn(async (entryId: string) => {
+      const reversed = journals.find((j) => j.entries.some((entry) => entry.id === entryId))!;
+      reversed.entries.forEach((entry) => (entry.status = 'REVERSED'));
+    }),
+    releaseSettlementHolds: jest.fn().mockResolvedValue([]),
+  };
+  const settlementService: any = {
+    transitionState: jest.fn(async (id: string, currentState: string) => ({ id, currentState })),
+  };
+  const web3Service: any = {
+    getVaultSettlement: jest.fn(),
+    createVaultSettlement: jest.fn(),
+    mintForSettlement: jest.fn().mockResolvedValue('0xrefund'),
+  };
+
+  return {
+    prisma,
+    ledgerService,
+    settlementService,
+    web3Service,
+    compensator: new SettlementCompensator(
+      prisma as PrismaClient,
+      ledgerService,
+      settlementService,
+      web3Service
+    ),
+  };
+};
+
+const failed = (type: string, metadata: Record<string, any> = {}) =>
+  ({
+    id: 'settlement-1',
+    userId: 'user-1',
+    type,
+    currentState: 'FAILED',
+    failureReason: 'Provider rejected the payout',
+    sourceAmount: new Prisma.Decimal('5000000'),
+    sourceCurrency: 'USST',
+    metadata,
+  }) as any;
+
+const reason = 'Rollback of failed settlement: Provider rejected the payout';
+
+const compensations = (prisma: any) =>
+  prisma.auditLog.create.mock.calls.map(([{ data }]: any) => data.metadata.compensation);
+
+describe('SettlementCompensator.compensate', () => {
+  const crossBorder = () =>
+    setup(
+      ['INITIATED', 'FIAT_RECEIVED', 'FIAT_CONFIRMED', 'FX_CONVERTED', 'FIAT_REQUESTED', 'FAILED'],
+      [
+        journal('deposit', 'DEPOSIT'),
+        journal('fee', 'FEE'),
+        journal('fx', 'FX_CONVERSION'),
+        journal('payout', 'WITHDRAWAL'),
+      ]
+    );
+
+  it('unwinds completed steps newest first, refunds fees and marks it reversed', async () => {
+    const { prisma, ledgerService, settlementService, compensator } = crossBorder();
+
+    const reversed = await compensator.compensate(failed('CROSS_BORDER'));
+
+    expect(ledgerService.reverseLedgerEntry.mock.calls.map(([entryId]: any) => entryId)).toEqual([
+      'payout-debit',
+      'fx-debit',
+      'deposit-debit',
+      'fee-debit',
+    ]);
+    expect(ledgerService.reverseLedgerEntry).toHaveBeenCalledWith('payout-debit', reason, prisma);
+    expect(compensations(prisma)).toEqual([
+      'reverseFiatPayout',
+      'reverseFxConversion',
+      'reverseFiatDeposit',
+      'refundFees',
+    ]);
+    expect(prisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      entityId: 'settlement-1',
+      beforeState: { state: 'FAILED' },
+      afterState: { journalIds: ['payout'] },
+    });
+    expect(settlementService.transitionState).toHaveBeenCalledWith(
+      'settlement-1',
+      'REVERSED',
+      { reason, compensations: compensations(prisma) },
+      { fromState: 'FAILED' }
+    );
+    expect(reversed).toEqual({ id: 'settlement-1', currentState: 'REVERSED' });
+  });
+
+  it('picks up after a partial rollback without undoing anything twice', async () => {
+    const { prisma, ledgerService, settlementService, compensator } = crossBorder();
+    settlementService.transitionState.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(compensator.compensate(failed('CROSS_BORDER'))).rejects.toThrow('Connection lost');
+    ledgerService.reverseLedgerEntry.mockClear();
+    prisma.auditLog.create.mockClear();
+
+    await compensator.compensate(failed('CROSS_BORDER'));
+
+    expect(ledgerService.reverseLedgerEntry).not.toHaveBeenCalled();
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+    expect(settlementService.transitionState).toHaveBeenLastCalledWith(
+      'settlement-1',
+      'REVERSED',
+      { reason, compensations: [] },
+      { fromState: 'FAILED' }
+    );
+  });
+
+  it('only reverses failed settlements', async () => {
+    const { settlementService, compensator } = crossBorder();
+
+    await expect(
+      compensator.compensate({ ...failed('CROSS_BORDER'), currentState: 'FIAT_SENT' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(settlementService.transitionState).not.toHaveBeenCalled();
+  });
+
+  it('unlocks tokens still held for a withdrawal', async () => {
+    const { prisma, ledgerService, compensator } = setup(
+      ['INITIATED', 'TOKEN_LOCKED', 'FAILED'],
+      []
+    );
+    ledgerService.releaseSettlementHolds.mockResolvedValue([{ id: 'hold-1' }]);
+
+    await compensator.compensate(failed('TOKEN_TO_FIAT'));
+
+    expect(ledgerService.releaseSettlementHolds).toHaveBeenCalledWith(
+      'settlement-1',
+      reason,
+      prisma
+    );
+    expect(prisma.auditLog.create.mock.calls[0][0].data.afterState).toEqual({
+      holdIds: ['hold-1'],
+    });
+  });
+
+  it('stops until operations recover tokens minted for a failed deposit', async () => {
+    const { settlementService, compensator } = setup(
+      ['INITIATED', 'FIAT_RECEIVED', 'FIAT_CONFIRMED', 'TOKEN_MINTED', 'FAILED'],
+      [journal('deposit', 'DEPOSIT'), journal('mint', 'MINT')]
+    );
+
+    await expect(compensator.compensate(failed('FIAT_TO_TOKEN'))).rejects.toMatchObject({
+      statusCode: 409,
+      details: { journalIds: ['mint'] },
+    });
+    expect(settlementService.transitionState).not.toHaveBeenCalled();
+  });
+});
+
+describe('SettlementCompensator re-minting', () => {
+  const burned = () =>
+    setup(['INITIATED', 'TOKEN_LOCKED', 'TOKEN_BURNED', 'FAILED'], [journal('burn', 'BURN')]);
+
+  it('mints burned tokens back through a refund Vault settlement', async () => {
+    const { prisma, ledgerService, web3Service, compensator } = burned();
+    web3Service.getVaultSettlement
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ status: 'PENDING' });
+
+    await compensator.compensate(failed('TOKEN_TO_FIAT'));
+
+    expect(web3Service.createVaultSettlement).toHaveBeenCalledWith({
+      settlementId: 'settlement-1:refund',
+      walletAddress: '0xuser',
+      amount: 5000000n,
+      currency: 'USST',
+      externalReference: 'settlement-1',
+    });
+    expect(web3Service.mintForSettlement).toHaveBeenCalledWith(
+      'settlement-1:refund',
+      'settlement-1'
+    );
+    expect(prisma.settlement.update).toHaveBeenCalledWith({
+      where: { id: 'settlement-1' },
+      data: { metadata: { refundTransactionHash: '0xrefund' } },
+    });
+    expect(ledgerService.reverseLedgerEntry).toHaveBeenCalledWith('burn-debit', reason, prisma);
+    expect(prisma.auditLog.create.mock.calls[0][0].data.afterState).toEqual({
+      journalIds: ['burn'],
+      transactionHash: '0xrefund',
+    });
+  });
+
+  it('does not mint again once the refund mint is recorded', async () => {
+    const { ledgerService, web3Service, compensator } = burned();
+
+    await compensator.compensate(failed('TOKEN_TO_FIAT', { refundTransactionHash: '0xrefund' }));
+
+    expect(web3Service.mintForSettlement).not.toHaveBeenCalled();
+    expect(ledgerService.reverseLedgerEntry).toHaveBeenCalledWith(
+      'burn-debit',
+      reason,
+      expect.anything()
+    );
+  });
+
+  it('refuses to mint against a refund Vault settlement that already moved', async () => {
+    const { web3Service, compensator } = burned();
+    web3Service.getVaultSettlement.mockResolvedValue({ status: 'COMPLETED' });
+
+    await expect(compensator.compensate(failed('TOKEN_TO_FIAT'))).rejects.toThrow(
+      'Refund Vault settlement is COMPLETED without a recorded mint'
+    );
+    expect(web3Service.mintForSettlement).not.toHaveBeenCalled();
+  });
+});
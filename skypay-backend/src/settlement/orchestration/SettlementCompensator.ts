@@ -0,0 +1,273 @@
+// skypay-backend/src/settlement/orchestration/SettlementCompensator.ts
+import { LedgerEntryType, PrismaClient, Prisma, Settlement } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../utils/errors';
+import { LedgerService } from '../../ledger/LedgerService';
+import { Web3Service } from '../../services/Web3Service';
+import { SettlementService } from '../SettlementService';
+import { SettlementStateMachine } from '../SettlementStateMachine';
+import { toMinorUnits } from '../../currency/currencies';
+import { CompensationName } from '../flows/types';
+
+// What a compensation undid, recorded in the audit log; null when nothing was left
+type CompensationEffect = Record<string, any> | null;
+
+type Compensation = (settlement: Settlement, reason: string) => Promise<CompensationEffect>;
+
+/**
+ * Rolls a failed settlement back. Walks its state history newest first and
+ * runs the compensation of every state it went through, then refunds fees
+ * and marks it REVERSED. Each compensation works out what is left to undo
+ * from the ledger, holds and Vault, so a retry after a partial rollback
+ * picks up where the last attempt stopped.
+ */
+export class SettlementCompensator {
+  private stateMachine = new SettlementStateMachine();
+  private compensations: Record<CompensationName, Compensation>;
+
+  constructor(
+    private prisma: PrismaClient,
+    private ledgerService: LedgerService,
+    private settlementService: SettlementService,
+    private web3Service: Web3Service
+  ) {
+    this.compensations = {
+      reverseFiatDeposit: (s, reason) => this.reverseFiatDeposit(s, reason),
+      reverseFxConversion: (s, reason) => this.reverseFxConversion(s, reason),
+      reverseFiatPayout: (s, reason) => this.reverseFiatPayout(s, reason),
+      recoverMintedTokens: (s) => this.recoverMintedTokens(s),
+      unlockTokens: (s, reason) => this.unlockTokens(s, reason),
+      remintTokens: (s, reason) => this.remintTokens(s, reason),
+    };
+  }
+
+  /**
+   * Undo every completed step of a failed settlement and mark it REVERSED
+   */
+  async compensate(settlement: Settlement): Promise<Settlement> {
+    if (settlement.currentState !== 'FAILED') {
+      throw new AppError(
+        `Only failed settlements can be reversed; ${settlement.id} is ${settlement.currentState}`,
+        409
+      );
+    }
+
+    const reason = `Rollback of failed settlement: ${settlement.failureReason || 'Unknown error'}`;
+    const history = await this.prisma.settlementStateHistory.findMany({
+      where: { settlementId: settlement.id },
+      orderBy: { timestamp: 'desc' },
+    });
+
+    const applied: string[] = [];
+
+    for (const { toState } of history) {
+      const name = this.stateMachine.getCompensation(settlement.type, toState);
+      if (name && (await this.compensations[name](settlement, reason))) {
+        applied.push(name);
+      }
+    }
+
+    if (await this.refundFees(settlement, reason)) {
+      applied.push('refundFees');
+    }
+
+    logger.info(`Settlement compensated: ${settlement.id}`, { applied });
+
+    return this.settlementService.transitionState(
+      settlement.id,
+      'REVERSED',
+      { reason, compensations: applied },
+      { fromState: 'FAILED' }
+    );
+  }
+
+  /**
+   * Take back the fiat credited when the deposit arrived
+   */
+  private reverseFiatDeposit(settlement: Settlement, reason: string): Promise<CompensationEffect> {
+    return this.record(settlement, 'reverseFiatDeposit', (tx) =>
+      this.reverseJournals(tx, settlement.id, ['DEPOSIT'], reason)
+    );
+  }
+
+  /**
+   * Book the converted funds back into the source currency at the quoted
+   * rate; any difference from unwinding at the provider is reconciled
+   */
+  private reverseFxConversion(settlement: Settlement, reason: string): Promise<CompensationEffect> {
+    return this.record(settlement, 'reverseFxConversion', (tx) =>
+      this.reverseJournals(tx, settlement.id, ['FX_CONVERSION'], reason)
+    );
+  }
+
+  /**
+   * Credit back a payout the provider did not make
+   */
+  private reverseFiatPayout(settlement: Settlement, reason: string): Promise<CompensationEffect> {
+    return this.record(settlement, 'reverseFiatPayout', (tx) =>
+      this.reverseJournals(tx, settlement.id, ['WITHDRAWAL'], reason)
+    );
+  }
+
+  /**
+   * Minted tokens sit in the user's wallet and can't be pulled back
+   * automatically; stop the rollback until operations have recovered them
+   * and reversed the mint.
+   */
+  private async recoverMintedTokens(settlement: Settlement): Promise<CompensationEffect> {
+    const mints = await this.unreversedJournals(this.prisma, settlement.id, ['MINT']);
+
+    if (mints.length > 0) {
+      throw new AppError('Minted tokens must be recovered before the settlement is reversed', 409, {
+        journalIds: mints.map((journal) => journal.id),
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Give back tokens still reserved for the withdrawal
+   */
+  private unlockTokens(settlement: Settlement, reason: string): Promise<CompensationEffect> {
+    return this.record(settlement, 'unlockTokens', async (tx) => {
+      const released = await this.ledgerService.releaseSettlementHolds(settlement.id, reason, tx);
+      return released.length > 0 ? { holdIds: released.map((hold) => hold.id) } : null;
+    });
+  }
+
+  /**
+   * Mint the burned tokens back to the user's wallet and reverse the burn.
+   * The refund mint runs as its own Vault settlement so it can be checked
+   * before every attempt and never happens twice.
+   */
+  private async remintTokens(settlement: Settlement, reason: string): Promise<CompensationEffect> {
+    const burns = await this.unreversedJournals(this.prisma, settlement.id, ['BURN']);
+
+    if (burns.length === 0) {
+      return null;
+    }
+
+    const metadata = settlement.metadata as any;
+    const refundId = `${settlement.id}:refund`;
+    let transactionHash: string | undefined = metadata.refundTransactionHash;
+
+    if (!transactionHash) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: settlement.userId },
+        select: { walletAddress: true },
+      });
+
+      if (!user?.walletAddress) {
+        throw new AppError('User has no wallet address to refund to', 400);
+      }
+
+      let vaultSettlement = await this.web3Service.getVaultSettlement(refundId);
+
+      if (!vaultSettlement) {
+        await this.web3Service.createVaultSettlement({
+          settlementId: refundId,
+          walletAddress: user.walletAddress,
+          amount: toMinorUnits(settlement.sourceAmount),
+          currency: settlement.sourceCurrency,
+          externalReference: settlement.id,
+        });
+        vaultSettlement = await this.web3Service.getVaultSettlement(refundId);
+      }
+
+      if (vaultSettlement?.status !== 'PENDING') {
+        throw new AppError(
+          `Refund Vault settlement is ${vaultSettlement?.status || 'missing'} without a recorded mint`,
+          409
+        );
+      }
+
+      transactionHash = await this.web3Service.mintForSettlement(refundId, settlement.id);
+
+      // Recorded before touching the ledger so a crash in between can resume
+      await this.prisma.settlement.update({
+        where: { id: settlement.id },
+        data: {
+          metadata: { ...metadata, refundTransactionHash: transactionHash } as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    return this.record(settlement, 'remintTokens', async (tx) => {
+      const reversed = await this.reverseJournals(tx, settlement.id, ['BURN'], reason);
+      return reversed && { ...reversed, transactionHash };
+    });
+  }
+
+  /**
+   * Return fees charged for the settlement
+   */
+  private refundFees(settlement: Settlement, reason: string): Promise<CompensationEffect> {
+    return this.record(settlement, 'refundFees', (tx) =>
+      this.reverseJournals(tx, settlement.id, ['FEE'], reason)
+    );
+  }
+
+  /**
+   * Reverse the settlement's journals of the given types that still stand
+   */
+  private async reverseJournals(
+    tx: Prisma.TransactionClient,
+    settlementId: string,
+    types: LedgerEntryType[],
+    reason: string
+  ): Promise<CompensationEffect> {
+    const journals = await this.unreversedJournals(tx, settlementId, types);
+
+    for (const journal of journals) {
+      await this.ledgerService.reverseLedgerEntry(journal.entries[0].id, reason, tx);
+    }
+
+    return journals.length > 0 ? { journalIds: journals.map((journal) => journal.id) } : null;
+  }
+
+  private async unreversedJournals(
+    client: PrismaClient | Prisma.TransactionClient,
+    settlementId: string,
+    types: LedgerEntryType[]
+  ) {
+    const journals = await client.journal.findMany({
+      where: { settlementId, type: { in: types } },
+      include: { entries: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return journals.filter(
+      (journal) =>
+        journal.entries.length > 0 && journal.entries.some((entry) => entry.status !== 'REVERSED')
+    );
+  }
+
+  /**
+   * Run a compensation's ledger work and its audit record atomically
+   */
+  private record(
+    settlement: Settlement,
+    compensation: CompensationName | 'refundFees',
+    work: (tx: Prisma.TransactionClient) => Promise<CompensationEffect>
+  ): Promise<CompensationEffect> {
+    return this.prisma.$transaction(async (tx) => {
+      const effect = await work(tx);
+
+      if (effect) {
+        await tx.auditLog.create({
+          data: {
+            type: 'SETTLEMENT_UPDATED',
+            entityType: 'SETTLEMENT',
+            entityId: settlement.id,
+            beforeState: { state: settlement.currentState },
+            afterState: effect,
+            metadata: { action: 'SETTLEMENT_COMPENSATION', compensation },
+          },
+        });
+      }
+
+      return effect;
+    });
+  }
+}
@@ -0,0 +1,98 @@
+// skypay-backend/src/settlement/orchestration/SettlementExpirySweeper.test.ts
+import { PrismaClient } from '@prisma/client';
+import { SettlementExpirySweeper } from './SettlementExpirySweeper';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+
+const setup = (stale: Record<string, any[]>) => {
+  const prisma: any = {
+    settlement: {
+      // Stale settlements keyed by "<type> <state>"
+      findMany: jest.fn(
+        async ({ where }: any) => stale[`${where.type} ${where.currentState}`] ?? []
+      ),
+    },
+  };
+  const settlementService: any = { transitionState: jest.fn() };
+
+  return {
+    prisma,
+    settlementService,
+    sweeper: new SettlementExpirySweeper(prisma as PrismaClient, settlementService),
+  };
+};
+
+describe('SettlementExpirySweeper.sweep', () => {
+  it('looks for settlements that entered a state before its timeout', async () => {
+    const { prisma, sweeper } = setup({});
+
+    await sweeper.sweep(now, 50);
+
+    expect(prisma.settlement.findMany).toHaveBeenCalledWith({
+      where: {
+        type: 'FIAT_TO_TOKEN',
+        currentState: 'INITIATED',
+        stateHistory: {
+          some: { toState: 'INITIATED', timestamp: { lte: new Date(now.getTime() - 24 * HOUR) } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 50,
+    });
+    expect(prisma.settlement.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ type: 'TOKEN_TO_FIAT', currentState: 'TOKEN_LOCKED' }),
+      })
+    );
+  });
+
+  it('moves stale deposits and locked withdrawals to their timeout target', async () => {
+    const { settlementService, sweeper } = setup({
+      'FIAT_TO_TOKEN INITIATED': [{ id: 'deposit-1' }],
+      'TOKEN_TO_FIAT TOKEN_LOCKED': [{ id: 'withdrawal-1' }],
+    });
+
+    expect(await sweeper.sweep(now)).toBe(2);
+
+    expect(settlementService.transitionState).toHaveBeenCalledWith(
+      'deposit-1',
+      'EXPIRED',
+      { reason: 'Timed out after 24h in INITIATED', timedOutIn: 'INITIATED' },
+      { fromState: 'INITIATED' }
+    );
+    expect(settlementService.transitionState).toHaveBeenCalledWith(
+      'withdrawal-1',
+      'EXPIRED',
+      { reason: 'Timed out after 1h in TOKEN_LOCKED', timedOutIn: 'TOKEN_LOCKED' },
+      { fromState: 'TOKEN_LOCKED' }
+    );
+  });
+
+  it('fails settlements stuck waiting on a mint', async () => {
+    const { settlementService, sweeper } = setup({
+      'FIAT_TO_TOKEN FIAT_CONFIRMED': [{ id: 'deposit-2' }],
+    });
+
+    await sweeper.sweep(now);
+
+    expect(settlementService.transitionState).toHaveBeenCalledWith(
+      'deposit-2',
+      'FAILED',
+      expect.objectContaining({ timedOutIn: 'FIAT_CONFIRMED' }),
+      { fromState: 'FIAT_CONFIRMED' }
+    );
+  });
+
+  it('skips settlements that moved on since they were read', async () => {
+    const { settlementService, sweeper } = setup({
+      'FIAT_TO_TOKEN INITIATED': [{ id: 'deposit-1' }, { id: 'deposit-2' }],
+    });
+    settlementService.transitionState.mockRejectedValueOnce(
+      new Error('Settlement has moved from INITIATED to FIAT_RECEIVED')
+    );
+
+    expect(await sweeper.sweep(now)).toBe(1);
+    expect(settlementService.transitionState).toHaveBeenCalledTimes(2);
+  });
+});
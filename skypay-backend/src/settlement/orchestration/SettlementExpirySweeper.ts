@@ -0,0 +1,65 @@
+// skypay-backend/src/settlement/orchestration/SettlementExpirySweeper.ts
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { SettlementService } from '../SettlementService';
+import { SettlementStateMachine } from '../SettlementStateMachine';
+
+/**
+ * Moves settlements that have sat in a state past its flow timeout to the
+ * timeout's target, usually EXPIRED. The entry action of that state releases
+ * whatever the settlement still had on hold. Users hear of it through the
+ * transition's outbox event.
+ */
+export class SettlementExpirySweeper {
+  private stateMachine = new SettlementStateMachine();
+
+  constructor(
+    private prisma: PrismaClient,
+    private settlementService: SettlementService
+  ) {}
+
+  /**
+   * Time out every settlement past its deadline, up to `batchSize` per state
+   */
+  async sweep(now: Date = new Date(), batchSize: number = 500): Promise<number> {
+    let count = 0;
+
+    for (const { type, state, timeout } of this.stateMachine.statesWithTimeouts()) {
+      const cutoff = new Date(now.getTime() - timeout.afterMs);
+
+      // Flows never re-enter a state, so its history entry is when it was entered
+      const stale = await this.prisma.settlement.findMany({
+        where: {
+          type,
+          currentState: state,
+          stateHistory: { some: { toState: state, timestamp: { lte: cutoff } } },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: batchSize,
+      });
+
+      for (const settlement of stale) {
+        const reason = `Timed out after ${this.stateMachine.formatDuration(timeout.afterMs)} in ${state}`;
+
+        try {
+          await this.settlementService.transitionState(
+            settlement.id,
+            timeout.to,
+            { reason, timedOutIn: state },
+            { fromState: state }
+          );
+          count++;
+        } catch (error) {
+          // Moved on by a webhook or step since it was read
+          logger.warn(`Skipped timing out settlement ${settlement.id}`, { error });
+        }
+      }
+    }
+
+    if (count > 0) {
+      logger.info(`Timed out ${count} settlements`);
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,213 @@
+// skypay-backend/src/settlement/orchestration/SettlementOrchestrator.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SettlementOrchestrator } from './SettlementOrchestrator';
+import { SettlementService } from '../SettlementService';
+
+const settlement = {
+  id: 'settlement-1',
+  userId: 'user-1',
+  type: 'FIAT_TO_TOKEN',
+  currentState: 'FIAT_CONFIRMED',
+  sourceAmount: new Prisma.Decimal('10100'),
+  sourceCurrency: 'USD',
+  targetAmount: new Prisma.Decimal('10000'),
+  targetCurrency: 'USDC',
+  feeAmount: new Prisma.Decimal('100'),
+  provider: 'BRIDGE',
+  providerReference: null,
+  metadata: { bridgeTransactionId: 'bridge-tx-1' },
+};
+
+const setup = () => {
+  const prisma: any = {
+    settlement: {
+      findUnique: jest.fn().mockResolvedValue(settlement),
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn(async ({ data }: any) => ({ ...settlement, ...data })),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn(async () => ({ ...settlement, currentState: 'TOKEN_MINTED' })),
+    },
+    user: { findUnique: jest.fn().mockResolvedValue({ walletAddress: '0xwallet' }) },
+    account: {
+      findUnique: jest.fn(async ({ where }: any) => ({
+        id: `${where.userId_type_currency.type}-${where.userId_type_currency.currency}`,
+      })),
+    },
+    settlementStateHistory: { create: jest.fn() },
+    outboxEvent: { create: jest.fn() },
+    bufferedSettlementEvent: { findMany: jest.fn().mockResolvedValue([]) },
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+  const ledgerService: any = {
+    getSystemAccount: jest.fn(async (code: string, currency: string) => ({
+      id: `${code}-${currency}`,
+    })),
+    postJournal: jest.fn(),
+  };
+  const web3Service: any = {
+    getVaultSettlement: jest
+      .fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ status: 'PENDING' }),
+    createVaultSettlement: jest.fn(),
+    mintForSettlement: jest.fn().mockResolvedValue('0xmint'),
+  };
+  const stepQueue: any = {
+    queue: { process: jest.fn(), on: jest.fn() },
+    enqueue: jest.fn(),
+  };
+  const publisher: any = { publish: jest.fn() };
+
+  const settlementService = new SettlementService(
+    prisma as PrismaClient,
+    ledgerService,
+    {} as any,
+    {} as any,
+    web3Service,
+    stepQueue,
+    {} as any,
+    {} as any
+  );
+  const orchestrator = new SettlementOrchestrator(
+    prisma as PrismaClient,
+    settlementService,
+    {} as any,
+    web3Service,
+    stepQueue,
+    publisher,
+    {} as any
+  );
+
+  return { prisma, ledgerService, web3Service, stepQueue, publisher, orchestrator };
+};
+
+/**
+ * Start the orchestrator and return the handler it registered for step jobs
+ */
+const startWorker = async (orchestrator: SettlementOrchestrator, stepQueue: any) => {
+  await orchestrator.start();
+  return stepQueue.queue.process.mock.calls[0][2];
+};
+
+describe('SettlementOrchestrator', () => {
+  it('mints a confirmed deposit and posts the minted amount', async () => {
+    const { prisma, ledgerService, web3Service, stepQueue, orchestrator } = setup();
+    const runStep = await startWorker(orchestrator, stepQueue);
+
+    await runStep({
+      data: { settlementId: settlement.id, state: 'FIAT_CONFIRMED', step: 'mintTokens' },
+    });
+
+    expect(web3Service.createVaultSettlement).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 10000n, walletAddress: '0xwallet' })
+    );
+    expect(prisma.settlement.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { id: settlement.id, currentState: 'FIAT_CONFIRMED' },
+        data: expect.objectContaining({
+          previousState: 'FIAT_CONFIRMED',
+          currentState: 'TOKEN_MINTED',
+          metadata: expect.objectContaining({ transactionHash: '0xmint', amount: '10000' }),
+        }),
+      })
+    );
+
+    const [journal] = ledgerService.postJournal.mock.calls[0];
+    expect(journal).toMatchObject({ type: 'MINT', referenceId: '0xmint' });
+    expect(journal.legs.map((leg: any) => [leg.accountId, leg.direction, leg.amount])).toEqual([
+      ['FIAT-USD', 'DEBIT', 10000n],
+      ['MINT_BURN_CLEARING-USD', 'CREDIT', 10000n],
+      ['MINT_BURN_CLEARING-USDC', 'DEBIT', 10000n],
+      ['TOKEN-USDC', 'CREDIT', 10000n],
+    ]);
+
+    expect(stepQueue.enqueue).toHaveBeenCalledWith(
+      settlement.id,
+      'TOKEN_MINTED',
+      expect.objectContaining({ name: 'confirmTokenDelivery' })
+    );
+  });
+
+  it('skips a step scheduled for a state the settlement has left', async () => {
+    const { prisma, web3Service, stepQueue, orchestrator } = setup();
+    prisma.settlement.findUnique.mockResolvedValue({
+      ...settlement,
+      currentState: 'TOKEN_MINTED',
+    });
+    const runStep = await startWorker(orchestrator, stepQueue);
+
+    await runStep({
+      data: { settlementId: settlement.id, state: 'FIAT_CONFIRMED', step: 'mintTokens' },
+    });
+
+    expect(web3Service.mintForSettlement).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('gives up on a step that fails with a client error and records it', async () => {
+    const { prisma, publisher, stepQueue, orchestrator } = setup();
+    prisma.user.findUnique.mockResolvedValue({ walletAddress: null });
+    const runStep = await startWorker(orchestrator, stepQueue);
+    const job = {
+      data: { settlementId: settlement.id, state: 'FIAT_CONFIRMED', step: 'mintTokens' },
+      discard: jest.fn(),
+    };
+
+    await expect(runStep(job)).rejects.toThrow('User has no wallet address to mint to');
+
+    expect(job.discard).toHaveBeenCalled();
+    expect(prisma.settlement.updateMany).toHaveBeenCalledWith({
+      where: { id: settlement.id, currentState: 'FIAT_CONFIRMED', stepFailedAt: null },
+      data: {
+        stepFailedAt: expect.any(Date),
+        stepFailureReason: 'User has no wallet address to mint to',
+      },
+    });
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'system:notifications',
+      expect.objectContaining({ type: 'SETTLEMENT_STEP_FAILED', step: 'mintTokens' })
+    );
+  });
+
+  it('records a step that ran out of attempts, alerting once', async () => {
+    const { prisma, publisher, stepQueue, orchestrator } = setup();
+    await orchestrator.start();
+    const [, onFailed] = stepQueue.queue.on.mock.calls.find(([event]: any) => event === 'failed');
+    const job = {
+      data: { settlementId: settlement.id, state: 'FIAT_CONFIRMED', step: 'mintTokens' },
+      attemptsMade: 5,
+      opts: { attempts: 5 },
+    };
+
+    onFailed({ ...job, attemptsMade: 4 }, new Error('RPC timeout'));
+    expect(prisma.settlement.updateMany).not.toHaveBeenCalled();
+
+    onFailed(job, new Error('RPC timeout'));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(prisma.settlement.updateMany).toHaveBeenCalledTimes(1);
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+
+    // Already recorded, e.g. by a discarded last attempt
+    prisma.settlement.updateMany.mockResolvedValue({ count: 0 });
+    onFailed(job, new Error('RPC timeout'));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes only settlements whose step has not given up', async () => {
+    const { prisma, stepQueue, orchestrator } = setup();
+    prisma.settlement.findMany.mockResolvedValueOnce([settlement]).mockResolvedValueOnce([]);
+
+    expect(await orchestrator.resume()).toBe(1);
+
+    expect(prisma.settlement.findMany.mock.calls[0][0].where).toMatchObject({
+      stepFailedAt: null,
+    });
+    expect(stepQueue.enqueue).toHaveBeenCalledWith(
+      settlement.id,
+      'FIAT_CONFIRMED',
+      expect.objectContaining({ name: 'mintTokens' })
+    );
+  });
+});
@@ -0,0 +1,350 @@
+// skypay-backend/src/settlement/orchestration/SettlementOrchestrator.ts
+import { Job } from 'bull';
+import { PrismaClient, Prisma, Settlement } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../utils/errors';
+import { SettlementService } from '../SettlementService';
+import { SettlementStateMachine } from '../SettlementStateMachine';
+import { BridgeService } from '../../integrations/bridge/BridgeService';
+import { Web3Service } from '../../services/Web3Service';
+import { RealtimePublisher } from '../../services/RealtimePublisher';
+import { toMinorUnits } from '../../currency/currencies';
+import { StepName } from '../flows/types';
+import { SettlementStepJob, SettlementStepQueue } from './SettlementStepQueue';
+import { SettlementCompensator } from './SettlementCompensator';
+
+type StepHandler = (settlement: Settlement) => Promise<void>;
+
+const CONCURRENCY = 5;
+
+/**
+ * Drives settlements through the automatic part of their flow. Each step
+ * reads the persisted settlement, does its provider or on-chain work and
+ * transitions the settlement, which queues the next step. Steps must be
+ * safe to repeat: a crash can replay any of them.
+ */
+export class SettlementOrchestrator {
+  private stateMachine = new SettlementStateMachine();
+  private steps: Record<StepName, StepHandler>;
+
+  constructor(
+    private prisma: PrismaClient,
+    private settlementService: SettlementService,
+    private bridgeService: BridgeService,
+    private web3Service: Web3Service,
+    private stepQueue: SettlementStepQueue,
+    private publisher: RealtimePublisher,
+    private compensator: SettlementCompensator
+  ) {
+    this.steps = {
+      confirmFiatDeposit: (s) => this.confirmFiatDeposit(s),
+      convertFunds: (s) => this.convertFunds(s),
+      mintTokens: (s) => this.mintTokens(s),
+      confirmTokenDelivery: (s) => this.confirmTokenDelivery(s),
+      completeSettlement: (s) => this.completeSettlement(s),
+      requestFiatPayout: (s) => this.requestFiatPayout(s),
+      compensate: async (s) => {
+        await this.compensator.compensate(s);
+      },
+    };
+  }
+
+  /**
+   * Start processing steps and re-queue work for settlements that were
+   * mid-flow when the process last stopped
+   */
+  async start(): Promise<void> {
+    const { queue } = this.stepQueue;
+
+    queue.process('*', CONCURRENCY, (job: Job<SettlementStepJob>) => this.runStep(job));
+
+    queue.on('failed', (job: Job<SettlementStepJob>, error: Error) => {
+      const exhausted = job.attemptsMade >= (job.opts.attempts || 1);
+      logger.error(`Settlement step failed: ${job.data.step}`, {
+        settlementId: job.data.settlementId,
+        attempt: job.attemptsMade,
+        exhausted,
+        error: error.message,
+      });
+
+      if (exhausted) {
+        this.markStuck(job.data, error).catch((markError) => {
+          logger.error('Failed to record stuck settlement:', markError);
+        });
+      }
+    });
+
+    const resumed = await this.resume();
+    logger.info(`Settlement orchestrator started; ${resumed} settlements resumed`);
+  }
+
+  /**
+   * Queue the step for every settlement sitting in a state that has one.
+   * Settlements whose step gave up are left alone until they change state
+   * or an admin retries the step.
+   */
+  async resume(batchSize: number = 500): Promise<number> {
+    const pending = this.stateMachine.statesWithSteps();
+    let resumed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const settlements = await this.prisma.settlement.findMany({
+        where: {
+          OR: pending.map(({ type, state }) => ({ type, currentState: state })),
+          stepFailedAt: null,
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (settlements.length === 0) {
+        break;
+      }
+
+      for (const settlement of settlements) {
+        const step = this.stateMachine.getStep(settlement.type, settlement.currentState);
+        if (step) {
+          await this.stepQueue.enqueue(settlement.id, settlement.currentState, step);
+          resumed++;
+        }
+      }
+
+      cursor = settlements[settlements.length - 1].id;
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Run one step attempt. Jobs whose settlement has already left the
+   * scheduled state are dropped; client errors are not retried.
+   */
+  private async runStep(job: Job<SettlementStepJob>): Promise<void> {
+    const { settlementId, state, step } = job.data;
+    const settlement = await this.prisma.settlement.findUnique({
+      where: { id: settlementId },
+    });
+
+    if (!settlement || settlement.currentState !== state) {
+      logger.info(`Skipping stale settlement step: ${step}`, {
+        settlementId,
+        scheduledFor: state,
+        currentState: settlement?.currentState,
+      });
+      return;
+    }
+
+    try {
+      await this.steps[step](settlement);
+    } catch (error) {
+      // A webhook or another worker may have moved the settlement on meanwhile
+      const current = await this.prisma.settlement.findUnique({
+        where: { id: settlementId },
+        select: { currentState: true },
+      });
+      if (current && current.currentState !== state) {
+        return;
+      }
+
+      // Client errors won't fix themselves; stop retrying and ask for a human
+      if (error instanceof AppError && error.statusCode < 500) {
+        await job.discard();
+        await this.markStuck(job.data, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm with Bridge that the deposit is final
+   */
+  private async confirmFiatDeposit(settlement: Settlement): Promise<void> {
+    const { bridgeTransactionId } = settlement.metadata as any;
+    const deposit = await this.bridgeService.getDepositStatus(bridgeTransactionId);
+
+    switch (deposit.status) {
+      case 'completed':
+        await this.settlementService.transitionState(settlement.id, 'FIAT_CONFIRMED', {
+          fiatConfirmedAt: new Date().toISOString(),
+        });
+        return;
+      case 'failed':
+      case 'returned':
+        await this.settlementService.transitionState(settlement.id, 'FAILED', {
+          reason: `Bridge deposit ${deposit.status}`,
+        });
+        return;
+      default:
+        throw new Error(`Bridge deposit ${bridgeTransactionId} is ${deposit.status}`);
+    }
+  }
+
+  /**
+   * Convert the collected funds at the settlement's locked FX quote
+   */
+  private async convertFunds(settlement: Settlement): Promise<void> {
+    const metadata = settlement.metadata as any;
+    let conversionId: string | undefined = metadata.fxConversionId;
+
+    if (!conversionId) {
+      if (new Date(metadata.fxQuote.expiresAt) < new Date()) {
+        await this.settlementService.transitionState(settlement.id, 'FAILED', {
+          reason: 'FX quote expired before funds were confirmed',
+        });
+        return;
+      }
+
+      const conversion = await this.bridgeService.executeFxConversion(
+        metadata.fxQuote.id,
+        settlement.id
+      );
+      conversionId = conversion.conversionId;
+
+      // Recorded before transitioning so a crash in between can resume
+      await this.prisma.settlement.update({
+        where: { id: settlement.id },
+        data: {
+          metadata: { ...metadata, fxConversionId: conversionId } as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    await this.settlementService.transitionState(settlement.id, 'FX_CONVERTED', {
+      fxConversionId: conversionId,
+    });
+  }
+
+  /**
+   * Register the settlement with the Vault and mint against it
+   */
+  private async mintTokens(settlement: Settlement): Promise<void> {
+    const metadata = settlement.metadata as any;
+    const user = await this.prisma.user.findUnique({
+      where: { id: settlement.userId },
+      select: { walletAddress: true },
+    });
+
+    if (!user?.walletAddress) {
+      throw new AppError('User has no wallet address to mint to', 400);
+    }
+
+    let vaultSettlement = await this.web3Service.getVaultSettlement(settlement.id);
+
+    if (!vaultSettlement) {
+      await this.web3Service.createVaultSettlement({
+        settlementId: settlement.id,
+        walletAddress: user.walletAddress,
+        amount: toMinorUnits(settlement.targetAmount),
+        currency: settlement.targetCurrency,
+        externalReference: metadata.bridgeTransactionId,
+      });
+      vaultSettlement = await this.web3Service.getVaultSettlement(settlement.id);
+    }
+
+    let transactionHash: string | undefined = metadata.mintTransactionHash;
+
+    if (vaultSettlement?.status === 'PENDING') {
+      transactionHash = await this.web3Service.mintForSettlement(
+        settlement.id,
+        metadata.bridgeTransactionId
+      );
+
+      // Recorded before transitioning so a crash in between can resume
+      await this.prisma.settlement.update({
+        where: { id: settlement.id },
+        data: {
+          metadata: { ...metadata, mintTransactionHash: transactionHash } as Prisma.InputJsonValue,
+        },
+      });
+    } else if (vaultSettlement?.status !== 'MINTED' || !transactionHash) {
+      throw new AppError(
+        `Vault settlement is ${vaultSettlement?.status || 'missing'} without a recorded mint`,
+        409
+      );
+    }
+
+    await this.settlementService.transitionState(settlement.id, 'TOKEN_MINTED', {
+      transactionHash,
+      amount: toMinorUnits(settlement.targetAmount).toString(),
+    });
+  }
+
+  /**
+   * Wait for the Vault to report the mint as complete
+   */
+  private async confirmTokenDelivery(settlement: Settlement): Promise<void> {
+    const vaultSettlement = await this.web3Service.getVaultSettlement(settlement.id);
+
+    if (vaultSettlement?.status !== 'MINTED') {
+      throw new Error(`Vault settlement ${settlement.id} is ${vaultSettlement?.status}`);
+    }
+
+    await this.settlementService.transitionState(settlement.id, 'TOKEN_DELIVERED', {
+      deliveredAt: new Date().toISOString(),
+    });
+  }
+
+  private async completeSettlement(settlement: Settlement): Promise<void> {
+    await this.settlementService.transitionState(settlement.id, 'SETTLED');
+  }
+
+  /**
+   * Ask Bridge to pay out the settlement's target amount
+   */
+  private async requestFiatPayout(settlement: Settlement): Promise<void> {
+    const metadata = settlement.metadata as any;
+    let withdrawalId = settlement.providerReference;
+
+    // initiateWithdrawal stores the Bridge id first, so retries don't pay twice
+    if (!withdrawalId) {
+      if (!metadata.bankDetails) {
+        throw new AppError('Settlement has no bank details for payout', 400);
+      }
+
+      const withdrawal = await this.bridgeService.initiateWithdrawal({
+        settlementId: settlement.id,
+        amount: toMinorUnits(settlement.targetAmount),
+        currency: settlement.targetCurrency,
+        userId: settlement.userId,
+        bankDetails: metadata.bankDetails,
+        settlementType: settlement.type,
+        metadata,
+      });
+      withdrawalId = withdrawal.withdrawalId;
+    }
+
+    await this.settlementService.transitionState(settlement.id, 'FIAT_REQUESTED', {
+      bridgeWithdrawalId: withdrawalId,
+    });
+  }
+
+  /**
+   * Record that the step for the settlement's state gave up, so the resume
+   * sweep stops queueing it, and alert once. A settlement that has moved
+   * on meanwhile is left as it is.
+   */
+  private async markStuck(job: SettlementStepJob, error: Error): Promise<void> {
+    const { count } = await this.prisma.settlement.updateMany({
+      where: { id: job.settlementId, currentState: job.state, stepFailedAt: null },
+      data: { stepFailedAt: new Date(), stepFailureReason: error.message },
+    });
+
+    if (count > 0) {
+      await this.alertStuck(job, error);
+    }
+  }
+
+  private async alertStuck(job: SettlementStepJob, error: Error): Promise<void> {
+    await this.publisher.publish('system:notifications', {
+      type: 'SETTLEMENT_STEP_FAILED',
+      severity: 'HIGH',
+      settlementId: job.settlementId,
+      state: job.state,
+      step: job.step,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,63 @@
+// skypay-backend/src/settlement/orchestration/SettlementStepQueue.test.ts
+import { SettlementStepQueue } from './SettlementStepQueue';
+import { StepDefinition } from '../flows/types';
+
+jest.mock('bull', () =>
+  jest.fn().mockImplementation(() => ({
+    getJob: jest.fn(),
+    add: jest.fn(),
+  }))
+);
+
+const step: StepDefinition = {
+  name: 'mintTokens',
+  attempts: 5,
+  backoffMs: 30000,
+  timeoutMs: 120000,
+};
+
+const existingJob = (state: string) => ({
+  getState: jest.fn().mockResolvedValue(state),
+  remove: jest.fn(),
+});
+
+describe('SettlementStepQueue.enqueue', () => {
+  let stepQueue: SettlementStepQueue;
+  let queue: any;
+
+  beforeEach(() => {
+    stepQueue = new SettlementStepQueue();
+    queue = stepQueue.queue;
+  });
+
+  it('queues the step under the settlement and state', async () => {
+    queue.getJob.mockResolvedValue(null);
+
+    await stepQueue.enqueue('settlement-1', 'FIAT_CONFIRMED', step);
+
+    expect(queue.add).toHaveBeenCalledWith(
+      'mintTokens',
+      { settlementId: 'settlement-1', state: 'FIAT_CONFIRMED', step: 'mintTokens' },
+      expect.objectContaining({ jobId: 'settlement-1:FIAT_CONFIRMED', attempts: 5 })
+    );
+  });
+
+  it.each(['failed', 'completed'])('replaces a %s job for the same state', async (state) => {
+    const job = existingJob(state);
+    queue.getJob.mockResolvedValue(job);
+
+    await stepQueue.enqueue('settlement-1', 'FIAT_CONFIRMED', step);
+
+    expect(job.remove).toHaveBeenCalled();
+    expect(queue.add).toHaveBeenCalled();
+  });
+
+  it.each(['waiting', 'active', 'delayed'])('leaves a %s job in place', async (state) => {
+    const job = existingJob(state);
+    queue.getJob.mockResolvedValue(job);
+
+    await stepQueue.enqueue('settlement-1', 'FIAT_CONFIRMED', step);
+
+    expect(job.remove).not.toHaveBeenCalled();
+  });
+});
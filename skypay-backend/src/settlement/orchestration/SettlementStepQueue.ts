@@ -0,0 +1,69 @@
+// skypay-backend/src/settlement/orchestration/SettlementStepQueue.ts
+import Queue from 'bull';
+import { SettlementState } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { StepDefinition } from '../flows/types';
+
+export const SETTLEMENT_STEP_QUEUE = 'settlement-steps';
+
+export interface SettlementStepJob {
+  settlementId: string;
+  // State the step was scheduled for; stale jobs are skipped by the worker
+  state: SettlementState;
+  step: StepDefinition['name'];
+}
+
+export class SettlementStepQueue {
+  readonly queue: Queue.Queue<SettlementStepJob>;
+
+  constructor(queueName: string = SETTLEMENT_STEP_QUEUE) {
+    this.queue = new Queue(queueName, {
+      redis: process.env.REDIS_URL,
+    });
+  }
+
+  /**
+   * Schedule the step for a settlement's current state. The job id is
+   * derived from settlement and state, so re-enqueueing is a no-op while
+   * the job is waiting or running. A finished job is kept for a while
+   * under the same id, so it is removed first to let the step run again.
+   */
+  async enqueue(
+    settlementId: string,
+    state: SettlementState,
+    step: StepDefinition
+  ): Promise<void> {
+    const jobId = `${settlementId}:${state}`;
+    const existing = await this.queue.getJob(jobId);
+
+    if (existing) {
+      const jobState = await existing.getState();
+      if (jobState === 'failed' || jobState === 'completed') {
+        await existing.remove();
+      }
+    }
+
+    await this.queue.add(
+      step.name,
+      { settlementId, state, step: step.name },
+      {
+        jobId,
+        attempts: step.attempts,
+        backoff: {
+          type: 'exponential',
+          delay: step.backoffMs,
+        },
+        // Bull fails an attempt that runs longer than this
+        timeout: step.timeoutMs,
+        removeOnComplete: 100,
+        removeOnFail: 1000,
+      }
+    );
+
+    logger.info(`Settlement step queued: ${step.name}`, { settlementId, state });
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
@@ -0,0 +1,201 @@
+// skypay-backend/src/transfers/TransferService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TransferService, parseRecipient } from './TransferService';
+
+const account = (id: string, userId: string, balance: number) => ({
+  id,
+  userId,
+  type: 'FIAT',
+  currency: 'USD',
+  provider: 'BRIDGE',
+  balance: new Prisma.Decimal(balance),
+  available: new Prisma.Decimal(balance),
+  pending: new Prisma.Decimal(0),
+});
+
+const setup = () => {
+  const prisma: any = {
+    user: {
+      findFirst: jest.fn().mockResolvedValue({ id: 'user-2', status: 'ACTIVE' }),
+    },
+    account: {
+      findUnique: jest.fn().mockResolvedValue(account('account-1', 'user-1', 10000)),
+      upsert: jest.fn().mockResolvedValue(account('account-2', 'user-2', 0)),
+      findMany: jest
+        .fn()
+        .mockResolvedValue([
+          account('account-1', 'user-1', 7450),
+          account('account-2', 'user-2', 2500),
+        ]),
+    },
+    settlement: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'settlement-1', currentState: 'INITIATED' }),
+    },
+  };
+  const settlementService: any = {
+    createSettlement: jest.fn().mockResolvedValue({ id: 'settlement-1' }),
+    transitionState: jest.fn(async (id: string, currentState: string) => ({ id, currentState })),
+  };
+  const publisher: any = { publish: jest.fn() };
+  // A 50 cent fee charged on top of whatever is sent
+  const feeService: any = {
+    chargeOnTop: jest.fn(async (_params: any, netAmount: bigint) => ({
+      feeAmount: 50n,
+      currency: 'USD',
+      scheduleId: 'schedule-1',
+      grossAmount: netAmount + 50n,
+      netAmount,
+    })),
+  };
+
+  return {
+    prisma,
+    settlementService,
+    publisher,
+    feeService,
+    transfers: new TransferService(
+      prisma as PrismaClient,
+      settlementService,
+      publisher,
+      feeService
+    ),
+  };
+};
+
+const send = (transfers: TransferService, recipient = 'ada@example.com') =>
+  transfers.createTransfer({
+    senderId: 'user-1',
+    recipient,
+    amount: 2500n,
+    currency: 'USD',
+    note: 'Lunch',
+  });
+
+describe('parseRecipient', () => {
+  it.each([
+    ['Ada@Example.com', 'email', 'ada@example.com'],
+    ['+234 (803) 123-4567', 'phone', '+2348031234567'],
+    ['@Ada_Obi', 'tag', 'ada_obi'],
+    ['ada_obi', 'tag', 'ada_obi'],
+    [`0xAbC${'0'.repeat(36)}1`, 'wallet', `0xabc${'0'.repeat(36)}1`],
+  ])('reads %s as a %s', (recipient, type, value) => {
+    expect(parseRecipient(recipient)).toEqual({ type, value });
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseRecipient('not a recipient')).toThrow(
+      'Recipient must be an email, phone number, SkyPay tag or wallet address'
+    );
+  });
+});
+
+describe('TransferService.createTransfer', () => {
+  it('creates a settlement for the gross amount and settles it at once', async () => {
+    const { prisma, settlementService, feeService, transfers } = setup();
+
+    const settled = await send(transfers);
+
+    expect(prisma.user.findFirst).toHaveBeenCalledWith({
+      where: { email: { equals: 'ada@example.com', mode: 'insensitive' } },
+    });
+    expect(feeService.chargeOnTop).toHaveBeenCalledWith(
+      expect.objectContaining({ product: 'INTERNAL_TRANSFER', userId: 'user-1' }),
+      2500n
+    );
+    expect(settlementService.createSettlement).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'INTERNAL_TRANSFER',
+      sourceAmount: 2550n,
+      sourceCurrency: 'USD',
+      targetAmount: 2500n,
+      targetCurrency: 'USD',
+      feeAmount: 50n,
+      provider: 'SKYPAY',
+      sourceAccountId: 'account-1',
+      targetAccountId: 'account-2',
+      metadata: { recipientUserId: 'user-2', recipient: 'ada@example.com', note: 'Lunch' },
+    });
+    expect(settlementService.transitionState).toHaveBeenCalledWith('settlement-1', 'SETTLED', {
+      recipientUserId: 'user-2',
+    });
+    expect(settled).toEqual({ id: 'settlement-1', currentState: 'SETTLED' });
+  });
+
+  it('opens an account for a recipient who has none in the currency', async () => {
+    const { prisma, transfers } = setup();
+
+    await send(transfers);
+
+    expect(prisma.account.upsert).toHaveBeenCalledWith({
+      where: { userId_type_currency: { userId: 'user-2', type: 'FIAT', currency: 'USD' } },
+      update: {},
+      create: { userId: 'user-2', type: 'FIAT', currency: 'USD', provider: 'BRIDGE' },
+    });
+  });
+
+  it('tells both parties their balances moved', async () => {
+    const { publisher, transfers } = setup();
+
+    await send(transfers);
+
+    expect(publisher.publish).toHaveBeenCalledTimes(2);
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'balance:updates',
+      expect.objectContaining({ userId: 'user-1', accountId: 'account-1', balance: '7450' })
+    );
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'balance:updates',
+      expect.objectContaining({ userId: 'user-2', accountId: 'account-2', balance: '2500' })
+    );
+  });
+
+  it('refuses unknown, inactive and self recipients', async () => {
+    const { prisma, settlementService, transfers } = setup();
+
+    prisma.user.findFirst.mockResolvedValueOnce(null);
+    await expect(send(transfers)).rejects.toMatchObject({ statusCode: 404 });
+
+    prisma.user.findFirst.mockResolvedValueOnce({ id: 'user-2', status: 'SUSPENDED' });
+    await expect(send(transfers)).rejects.toMatchObject({ statusCode: 404 });
+
+    prisma.user.findFirst.mockResolvedValueOnce({ id: 'user-1', status: 'ACTIVE' });
+    await expect(send(transfers)).rejects.toThrow('Cannot transfer to yourself');
+
+    expect(settlementService.createSettlement).not.toHaveBeenCalled();
+  });
+
+  it('needs a sender account in the currency', async () => {
+    const { prisma, transfers } = setup();
+    prisma.account.findUnique.mockResolvedValue(null);
+
+    await expect(send(transfers)).rejects.toThrow('No USD account to send from');
+  });
+
+  it('stops when compliance declines the transfer', async () => {
+    const { prisma, settlementService, publisher, transfers } = setup();
+    prisma.settlement.findUnique.mockResolvedValue({
+      id: 'settlement-1',
+      currentState: 'FAILED',
+      failureReason: 'Compliance check failed',
+    });
+
+    await expect(send(transfers)).rejects.toMatchObject({
+      statusCode: 403,
+      details: { settlementId: 'settlement-1', reason: 'Compliance check failed' },
+    });
+    expect(settlementService.transitionState).not.toHaveBeenCalled();
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('fails the settlement when booking it fails', async () => {
+    const { settlementService, publisher, transfers } = setup();
+    settlementService.transitionState.mockRejectedValueOnce(new Error('Insufficient funds'));
+
+    await expect(send(transfers)).rejects.toThrow('Insufficient funds');
+
+    expect(settlementService.transitionState).toHaveBeenLastCalledWith('settlement-1', 'FAILED', {
+      reason: 'Insufficient funds',
+    });
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+// skypay-backend/src/transfers/TransferService.ts
+import { PrismaClient, Prisma, Settlement, User } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { SettlementService } from '../settlement/SettlementService';
+import { RealtimePublisher } from '../services/RealtimePublisher';
+import { FeeService } from '../fees/FeeService';
+import { MinorUnits, getCurrency, toMinorUnits } from '../currency/currencies';
+
+export type RecipientType = 'email' | 'phone' | 'tag' | 'wallet';
+
+export interface CreateTransferParams {
+  senderId: string;
+  // Email, phone number, SkyPay tag (@name) or wallet address
+  recipient: string;
+  amount: MinorUnits;
+  currency: string;
+  note?: string;
+  // Kept on the settlement alongside the transfer's own details
+  metadata?: Record<string, unknown>;
+}
+
+const WALLET_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TAG_PATTERN = /^@?[a-z0-9_]{3,30}$/i;
+
+/**
+ * Work out how a recipient was addressed and normalise it for lookup
+ */
+export function parseRecipient(recipient: string): { type: RecipientType; value: string } {
+  const value = recipient.trim();
+
+  if (WALLET_PATTERN.test(value)) {
+    return { type: 'wallet', value: value.toLowerCase() };
+  }
+
+  const phone = value.replace(/[\s()-]/g, '');
+  if (PHONE_PATTERN.test(phone)) {
+    return { type: 'phone', value: phone };
+  }
+
+  if (EMAIL_PATTERN.test(value)) {
+    return { type: 'email', value: value.toLowerCase() };
+  }
+
+  if (TAG_PATTERN.test(value)) {
+    return { type: 'tag', value: value.replace(/^@/, '').toLowerCase() };
+  }
+
+  throw new AppError('Recipient must be an email, phone number, SkyPay tag or wallet address', 400);
+}
+
+/**
+ * Instant transfers between SkyPay users. Each transfer is an
+ * INTERNAL_TRANSFER settlement, so it passes the same limit and compliance
+ * checks as any other, and is booked as one balanced journal when it
+ * settles. The recipient gets the full amount; any fee is charged to the
+ * sender on top. No provider is involved.
+ */
+export class TransferService {
+  constructor(
+    private prisma: PrismaClient,
+    private settlementService: SettlementService,
+    private publisher: RealtimePublisher,
+    private feeService: FeeService
+  ) {}
+
+  /**
+   * Send funds to another user and settle immediately
+   */
+  async createTransfer(params: CreateTransferParams): Promise<Settlement> {
+    const { senderId, amount, currency } = params;
+    const recipient = await this.findRecipient(params.recipient);
+
+    if (!recipient || recipient.status !== 'ACTIVE') {
+      throw new AppError('Recipient not found', 404);
+    }
+
+    if (recipient.id === senderId) {
+      throw new AppError('Cannot transfer to yourself', 400);
+    }
+
+    const type = getCurrency(currency).kind === 'TOKEN' ? 'TOKEN' : 'FIAT';
+    const sourceAccount = await this.prisma.account.findUnique({
+      where: { userId_type_currency: { userId: senderId, type, currency } },
+    });
+
+    if (!sourceAccount) {
+      throw new AppError(`No ${currency} account to send from`, 400);
+    }
+
+    const targetAccount = await this.prisma.account.upsert({
+      where: { userId_type_currency: { userId: recipient.id, type, currency } },
+      update: {},
+      create: {
+        userId: recipient.id,
+        type,
+        currency,
+        provider: sourceAccount.provider,
+      },
+    });
+
+    const fee = await this.feeService.chargeOnTop(
+      {
+        product: 'INTERNAL_TRANSFER',
+        userId: senderId,
+        sourceCurrency: currency,
+        targetCurrency: currency,
+      },
+      amount
+    );
+
+    // Limits are checked and compliance run as the settlement is created
+    const settlement = await this.settlementService.createSettlement({
+      userId: senderId,
+      type: 'INTERNAL_TRANSFER',
+      sourceAmount: fee.grossAmount,
+      sourceCurrency: currency,
+      targetAmount: amount,
+      targetCurrency: currency,
+      feeAmount: fee.feeAmount,
+      provider: 'SKYPAY',
+      sourceAccountId: sourceAccount.id,
+      targetAccountId: targetAccount.id,
+      metadata: {
+        ...params.metadata,
+        recipientUserId: recipient.id,
+        recipient: params.recipient,
+        note: params.note,
+      },
+    });
+
+    const screened = await this.prisma.settlement.findUnique({
+      where: { id: settlement.id },
+    });
+
+    if (screened?.currentState !== 'INITIATED') {
+      throw new AppError('Transfer was declined', 403, {
+        settlementId: settlement.id,
+        reason: screened?.failureReason,
+      });
+    }
+
+    let settled: Settlement;
+    try {
+      settled = await this.settlementService.transitionState(settlement.id, 'SETTLED', {
+        recipientUserId: recipient.id,
+      });
+    } catch (error) {
+      // Nothing was booked; close the settlement so it doesn't sit INITIATED
+      await this.settlementService
+        .transitionState(settlement.id, 'FAILED', {
+          reason: error instanceof Error ? error.message : 'Transfer failed',
+        })
+        .catch((failError) => {
+          logger.error(`Failed to close transfer ${settlement.id}:`, failError);
+        });
+      throw error;
+    }
+
+    await this.publishBalances([sourceAccount.id, targetAccount.id]);
+
+    logger.info(`Transfer completed: ${settled.id}`, {
+      senderId,
+      recipientId: recipient.id,
+      amount: amount.toString(),
+      fee: fee.feeAmount.toString(),
+      currency,
+    });
+
+    return settled;
+  }
+
+  private async findRecipient(recipient: string): Promise<User | null> {
+    const { type, value } = parseRecipient(recipient);
+
+    const where: Record<RecipientType, Prisma.UserWhereInput> = {
+      email: { email: { equals: value, mode: 'insensitive' } },
+      phone: { phone: value },
+      tag: { tag: value },
+      wallet: { walletAddress: { equals: value, mode: 'insensitive' } },
+    };
+
+    return this.prisma.user.findFirst({ where: where[type] });
+  }
+
+  /**
+   * Tell both parties their balances moved
+   */
+  private async publishBalances(accountIds: string[]): Promise<void> {
+    const accounts = await this.prisma.account.findMany({
+      where: { id: { in: accountIds } },
+    });
+
+    for (const account of accounts) {
+      await this.publisher.publish('balance:updates', {
+        type: 'BALANCE_UPDATED',
+        userId: account.userId,
+        accountId: account.id,
+        currency: account.currency,
+        balance: toMinorUnits(account.balance).toString(),
+        available: toMinorUnits(account.available).toString(),
+        pending: toMinorUnits(account.pending).toString(),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
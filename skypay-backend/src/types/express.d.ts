@@ -0,0 +1,55 @@
+// skypay-backend/src/types/express.d.ts
+import { BridgeService } from '../integrations/bridge/BridgeService';
+import { BeneficiaryService } from '../beneficiaries/BeneficiaryService';
+import { FeeService } from '../fees/FeeService';
+import { FxService } from '../fx/FxService';
+import { LedgerService } from '../ledger/LedgerService';
+import { LedgerVerifier } from '../ledger/LedgerVerifier';
+import { StatementGenerator } from '../ledger/statements/StatementGenerator';
+import { LimitsService } from '../limits/LimitsService';
+import { PayoutService } from '../payouts/PayoutService';
+import { ReconciliationService } from '../reconciliation/ReconciliationService';
+import { ScheduleService } from '../schedules/ScheduleService';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { SettlementService } from '../settlement/SettlementService';
+import { SettlementSimulator } from '../settlement/SettlementSimulator';
+import { TransferService } from '../transfers/TransferService';
+import { WebhookEventService } from '../webhooks/WebhookEventService';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  isAdmin: boolean;
+}
+
+// Request-scoped services the routes call
+export interface Services {
+  beneficiaries: BeneficiaryService;
+  bridge: BridgeService;
+  fees: FeeService;
+  fx: FxService;
+  idempotency: IdempotencyService;
+  ledger: LedgerService;
+  ledgerVerifier: LedgerVerifier;
+  limits: LimitsService;
+  payouts: PayoutService;
+  reconciliation: ReconciliationService;
+  schedules: ScheduleService;
+  settlement: SettlementService;
+  simulator: SettlementSimulator;
+  statements: StatementGenerator;
+  transfers: TransferService;
+  webhookEvents: WebhookEventService;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authMiddleware
+      user: AuthUser;
+      services: Services;
+      // The body as received, kept for webhook routes
+      rawBody?: Buffer;
+    }
+  }
+}
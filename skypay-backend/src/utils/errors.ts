@@ -0,0 +1,16 @@
+// skypay-backend/src/utils/errors.ts
+
+/**
+ * An error with the HTTP status and details to answer the request with.
+ * Anything else that reaches a route's error handler is a 500.
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 500,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
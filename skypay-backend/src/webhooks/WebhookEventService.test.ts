@@ -0,0 +1,260 @@
+// skypay-backend/src/webhooks/WebhookEventService.test.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { WebhookEventService } from './WebhookEventService';
+
+const stored = (overrides: Record<string, any> = {}) => ({
+  id: 'webhook-1',
+  provider: 'bridge',
+  eventId: 'evt_1',
+  eventType: 'deposit.completed',
+  status: 'RECEIVED',
+  replays: 0,
+  attempts: 0,
+  duplicates: 0,
+  ...overrides,
+});
+
+const setup = () => {
+  const prisma: any = {
+    webhookEvent: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn(async ({ data }: any) => stored({ ...data, id: 'webhook-1' })),
+      update: jest.fn(async ({ where, data }: any) => stored({ id: where.id, ...data })),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+  const webhookQueue: any = { enqueue: jest.fn() };
+
+  return {
+    prisma,
+    webhookQueue,
+    webhookEvents: new WebhookEventService(prisma as PrismaClient, webhookQueue),
+  };
+};
+
+const delivery = (overrides: Record<string, any> = {}) => {
+  const payload = { event_id: 'evt_1', type: 'deposit.completed' };
+
+  return {
+    provider: 'bridge',
+    eventType: 'deposit.completed',
+    payload,
+    rawBody: JSON.stringify(payload),
+    headers: { 'content-type': 'application/json', authorization: 'Bearer secret' },
+    signatureValid: true,
+    ...overrides,
+  };
+};
+
+describe('WebhookEventService.record', () => {
+  it('stores a new event under its provider event ID and queues it', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+
+    const { event, duplicate } = await webhookEvents.record(delivery());
+
+    expect(prisma.webhookEvent.findUnique).toHaveBeenCalledWith({
+      where: { provider_eventId: { provider: 'bridge', eventId: 'evt_1' } },
+    });
+    expect(prisma.webhookEvent.create.mock.calls[0][0].data).toMatchObject({
+      provider: 'bridge',
+      eventId: 'evt_1',
+      status: 'RECEIVED',
+      signatureValid: true,
+      headers: { 'content-type': 'application/json', authorization: '[redacted]' },
+    });
+    expect(webhookQueue.enqueue).toHaveBeenCalledWith('webhook-1', 0);
+    expect(duplicate).toBe(false);
+    expect(event.id).toBe('webhook-1');
+  });
+
+  it('counts a redelivery without processing it again', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+    prisma.webhookEvent.findUnique.mockResolvedValue(stored({ status: 'PROCESSED' }));
+
+    const { duplicate } = await webhookEvents.record(delivery());
+
+    expect(prisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: 'webhook-1' },
+      data: { duplicates: { increment: 1 } },
+    });
+    expect(prisma.webhookEvent.create).not.toHaveBeenCalled();
+    expect(webhookQueue.enqueue).not.toHaveBeenCalled();
+    expect(duplicate).toBe(true);
+  });
+
+  it('keys events without an ID on a hash of the body', async () => {
+    const { prisma, webhookEvents } = setup();
+
+    await webhookEvents.record(delivery({ payload: { type: 'ping' }, rawBody: '{"type":"ping"}' }));
+
+    expect(prisma.webhookEvent.create.mock.calls[0][0].data.eventId).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('keeps a delivery with a bad signature as REJECTED and never queues it', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+
+    await webhookEvents.record(
+      delivery({ signatureValid: false, signatureError: 'SIGNATURE_MISMATCH' })
+    );
+
+    expect(prisma.webhookEvent.create.mock.calls[0][0].data).toMatchObject({
+      status: 'REJECTED',
+      lastError: 'SIGNATURE_MISMATCH',
+    });
+    expect(webhookQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('lets a valid delivery take the place of a rejected one', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+    prisma.webhookEvent.findUnique.mockResolvedValue(stored({ status: 'REJECTED' }));
+
+    const { duplicate } = await webhookEvents.record(delivery());
+
+    expect(prisma.webhookEvent.update.mock.calls[0][0]).toMatchObject({
+      where: { id: 'webhook-1' },
+      data: { status: 'RECEIVED', lastError: null },
+    });
+    expect(webhookQueue.enqueue).toHaveBeenCalledWith('webhook-1', 0);
+    expect(duplicate).toBe(false);
+  });
+
+  it('treats losing a race with a concurrent redelivery as a duplicate', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+    prisma.webhookEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      })
+    );
+    prisma.webhookEvent.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(stored());
+
+    const { duplicate } = await webhookEvents.record(delivery());
+
+    expect(duplicate).toBe(true);
+    expect(webhookQueue.enqueue).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebhookEventService processing', () => {
+  it('claims an event that is waiting, failed or stalled', async () => {
+    const { prisma, webhookEvents } = setup();
+    prisma.webhookEvent.findUnique.mockResolvedValue(stored({ status: 'PROCESSING' }));
+
+    const event = await webhookEvents.claim('webhook-1');
+
+    expect(prisma.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'webhook-1', status: { in: ['RECEIVED', 'FAILED', 'PROCESSING'] } },
+      data: { status: 'PROCESSING', attempts: { increment: 1 } },
+    });
+    expect(event?.status).toBe('PROCESSING');
+  });
+
+  it('claims nothing once an event is processed', async () => {
+    const { prisma, webhookEvents } = setup();
+    prisma.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await webhookEvents.claim('webhook-1')).toBeNull();
+    expect(prisma.webhookEvent.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('records the outcome of processing', async () => {
+    const { prisma, webhookEvents } = setup();
+
+    await webhookEvents.markProcessed('webhook-1');
+    expect(prisma.webhookEvent.update).toHaveBeenLastCalledWith({
+      where: { id: 'webhook-1' },
+      data: { status: 'PROCESSED', lastError: null, processedAt: expect.any(Date) },
+    });
+
+    await webhookEvents.markFailed('webhook-1', new Error('Settlement not found'));
+    expect(prisma.webhookEvent.update).toHaveBeenLastCalledWith({
+      where: { id: 'webhook-1' },
+      data: { status: 'FAILED', lastError: 'Settlement not found' },
+    });
+  });
+});
+
+describe('WebhookEventService.replay', () => {
+  it('queues a stored event again under a new job', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+    prisma.webhookEvent.findUnique
+      .mockResolvedValueOnce(stored({ status: 'PROCESSED' }))
+      .mockResolvedValueOnce(stored({ replays: 1 }));
+
+    const replayed = await webhookEvents.replay('webhook-1');
+
+    expect(prisma.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'webhook-1', status: { in: ['RECEIVED', 'PROCESSED', 'FAILED'] } },
+      data: { status: 'RECEIVED', replays: { increment: 1 } },
+    });
+    expect(webhookQueue.enqueue).toHaveBeenCalledWith('webhook-1', 1);
+    expect(replayed.replays).toBe(1);
+  });
+
+  it('refuses rejected, in-flight and unknown events', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+
+    prisma.webhookEvent.findUnique.mockResolvedValueOnce(stored({ status: 'REJECTED' }));
+    await expect(webhookEvents.replay('webhook-1')).rejects.toMatchObject({ statusCode: 400 });
+
+    prisma.webhookEvent.findUnique.mockResolvedValueOnce(stored({ status: 'PROCESSING' }));
+    prisma.webhookEvent.updateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(webhookEvents.replay('webhook-1')).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Webhook event is being processed',
+    });
+
+    await expect(webhookEvents.replay('webhook-9')).rejects.toMatchObject({ statusCode: 404 });
+    expect(webhookQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('replays a date range oldest first, skipping events being processed', async () => {
+    const { prisma, webhookQueue, webhookEvents } = setup();
+    const from = new Date('2024-03-01T00:00:00Z');
+    const to = new Date('2024-03-02T00:00:00Z');
+    prisma.webhookEvent.count.mockResolvedValue(2);
+    prisma.webhookEvent.findMany.mockResolvedValue([{ id: 'webhook-1' }, { id: 'webhook-2' }]);
+    prisma.webhookEvent.findUnique.mockImplementation(async ({ where }: any) =>
+      stored({ id: where.id, status: 'FAILED' })
+    );
+    // The second event is picked up by a worker before the replay reaches it
+    prisma.webhookEvent.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const result = await webhookEvents.replayRange({ from, to, provider: 'bridge' });
+
+    expect(prisma.webhookEvent.findMany).toHaveBeenCalledWith({
+      where: {
+        provider: 'bridge',
+        eventType: undefined,
+        status: { in: ['RECEIVED', 'PROCESSED', 'FAILED'] },
+        receivedAt: { gte: from, lt: to },
+      },
+      select: { id: true },
+      orderBy: { receivedAt: 'asc' },
+    });
+    expect(webhookQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(webhookQueue.enqueue).toHaveBeenCalledWith('webhook-1', 0);
+    expect(result).toEqual({ replayed: 1 });
+  });
+
+  it('refuses backwards and oversized ranges', async () => {
+    const { prisma, webhookEvents } = setup();
+    const from = new Date('2024-03-01T00:00:00Z');
+    const to = new Date('2024-03-02T00:00:00Z');
+
+    await expect(webhookEvents.replayRange({ from: to, to: from })).rejects.toThrow(
+      'from must be before to'
+    );
+
+    prisma.webhookEvent.count.mockResolvedValue(10001);
+    await expect(webhookEvents.replayRange({ from, to })).rejects.toMatchObject({
+      statusCode: 400,
+      details: { total: 10001 },
+    });
+    expect(prisma.webhookEvent.findMany).not.toHaveBeenCalled();
+  });
+});
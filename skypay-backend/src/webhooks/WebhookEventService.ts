@@ -0,0 +1,312 @@
+// skypay-backend/src/webhooks/WebhookEventService.ts
+import crypto from 'crypto';
+import { Prisma, PrismaClient, WebhookEvent, WebhookEventStatus } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { WebhookQueue } from './WebhookQueue';
+
+export interface RecordWebhookParams {
+  provider: string;
+  eventType: string;
+  payload: any;
+  rawBody: string;
+  headers: Record<string, string | string[] | undefined>;
+  // Null when the provider's webhooks aren't verified
+  signatureValid: boolean | null;
+  signatureError?: string;
+}
+
+export interface WebhookEventFilters {
+  provider?: string;
+  eventType?: string;
+  status?: WebhookEventStatus;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface ReplayRangeParams {
+  from: Date;
+  to: Date;
+  provider?: string;
+  eventType?: string;
+  // Defaults to every replayable status
+  status?: 'RECEIVED' | 'PROCESSED' | 'FAILED';
+}
+
+// Headers that carry credentials rather than describe the delivery
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-webhook-secret'];
+
+const REPLAYABLE_STATUSES: WebhookEventStatus[] = ['RECEIVED', 'PROCESSED', 'FAILED'];
+
+// Events a range replay may queue; wider ranges should be split
+const MAX_RANGE_REPLAY = 10000;
+
+// Queued events older than this without a result are queued again
+const REQUEUE_AFTER_MS = 5 * 60 * 1000;
+
+const REQUEUE_BATCH_SIZE = 500;
+
+/**
+ * Event IDs as each provider sends them. Paystack has none, but each event
+ * is about one transaction.
+ */
+const providerEventId = (provider: string, payload: any): string | undefined => {
+  switch (provider) {
+    case 'stripe':
+      return payload.id;
+    case 'paystack':
+      return payload.data?.id ? `${payload.event}:${payload.data.id}` : undefined;
+    default:
+      return payload.event_id ?? payload.eventId ?? payload.id;
+  }
+};
+
+/**
+ * Stores every inbound webhook before it is acted on. Redeliveries of an
+ * event are counted and acknowledged without being processed again;
+ * stored events can be replayed one at a time or by date range, for
+ * example after a handler bug is fixed.
+ */
+export class WebhookEventService {
+  constructor(
+    private prisma: PrismaClient,
+    private webhookQueue: WebhookQueue
+  ) {}
+
+  /**
+   * Store a delivery and queue it for processing. Deliveries that failed
+   * signature checks are kept as REJECTED and never processed; a valid
+   * delivery of the same event later takes their place.
+   */
+  async record(params: RecordWebhookParams): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    const { provider } = params;
+    const eventId =
+      providerEventId(provider, params.payload)?.toString() ??
+      crypto.createHash('sha256').update(params.rawBody).digest('hex');
+    const where = { provider_eventId: { provider, eventId } };
+
+    const data = {
+      eventType: params.eventType,
+      rawBody: params.rawBody,
+      headers: this.redactHeaders(params.headers),
+      signatureValid: params.signatureValid,
+      status: (params.signatureValid === false ? 'REJECTED' : 'RECEIVED') as WebhookEventStatus,
+      lastError: params.signatureError ?? null,
+    };
+
+    const existing = await this.prisma.webhookEvent.findUnique({ where });
+    if (existing && !(existing.status === 'REJECTED' && data.status === 'RECEIVED')) {
+      return { event: await this.countDuplicate(existing.id), duplicate: true };
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = existing
+        ? await this.prisma.webhookEvent.update({
+            where: { id: existing.id },
+            data: { ...data, receivedAt: new Date() },
+          })
+        : await this.prisma.webhookEvent.create({ data: { provider, eventId, ...data } });
+    } catch (error) {
+      // Lost a race with a concurrent redelivery of the same event
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const winner = await this.prisma.webhookEvent.findUnique({ where });
+        if (winner) {
+          return { event: await this.countDuplicate(winner.id), duplicate: true };
+        }
+      }
+      throw error;
+    }
+
+    if (event.status === 'RECEIVED') {
+      await this.webhookQueue.enqueue(event.id, event.replays);
+    }
+
+    return { event, duplicate: false };
+  }
+
+  async listEvents(
+    filters: WebhookEventFilters
+  ): Promise<{ events: WebhookEvent[]; total: number }> {
+    const where: Prisma.WebhookEventWhereInput = {
+      provider: filters.provider,
+      eventType: filters.eventType,
+      status: filters.status,
+      receivedAt: { gte: filters.from, lt: filters.to },
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.webhookEvent.findMany({
+        where,
+        orderBy: { receivedAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      this.prisma.webhookEvent.count({ where }),
+    ]);
+
+    return { events, total };
+  }
+
+  async getEvent(id: string): Promise<WebhookEvent> {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new AppError('Webhook event not found', 404);
+    }
+
+    return event;
+  }
+
+  /**
+   * Process a stored event again with the current handlers
+   */
+  async replay(id: string): Promise<WebhookEvent> {
+    const event = await this.getEvent(id);
+
+    if (event.status === 'REJECTED') {
+      throw new AppError('Webhook events that failed signature checks cannot be replayed', 400);
+    }
+
+    // Conditional so a replay can't race the worker that holds the event
+    const { count } = await this.prisma.webhookEvent.updateMany({
+      where: { id, status: { in: REPLAYABLE_STATUSES } },
+      data: { status: 'RECEIVED', replays: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new AppError('Webhook event is being processed', 409);
+    }
+
+    const replayed = await this.getEvent(id);
+    await this.webhookQueue.enqueue(replayed.id, replayed.replays);
+
+    logger.info(`Webhook event ${id} replayed`, {
+      provider: replayed.provider,
+      eventType: replayed.eventType,
+      replays: replayed.replays,
+    });
+
+    return replayed;
+  }
+
+  /**
+   * Replay every replayable event received in a window, oldest first.
+   * Events being processed are skipped.
+   */
+  async replayRange(params: ReplayRangeParams): Promise<{ replayed: number }> {
+    if (params.from >= params.to) {
+      throw new AppError('from must be before to', 400);
+    }
+
+    const where: Prisma.WebhookEventWhereInput = {
+      provider: params.provider,
+      eventType: params.eventType,
+      status: params.status ? params.status : { in: REPLAYABLE_STATUSES },
+      receivedAt: { gte: params.from, lt: params.to },
+    };
+
+    const total = await this.prisma.webhookEvent.count({ where });
+    if (total > MAX_RANGE_REPLAY) {
+      throw new AppError(`Range matches more than ${MAX_RANGE_REPLAY} events`, 400, { total });
+    }
+
+    const ids = (
+      await this.prisma.webhookEvent.findMany({
+        where,
+        select: { id: true },
+        orderBy: { receivedAt: 'asc' },
+      })
+    ).map(({ id }) => id);
+
+    let replayed = 0;
+    for (const id of ids) {
+      try {
+        await this.replay(id);
+        replayed++;
+      } catch (error) {
+        if (!(error instanceof AppError && error.statusCode === 409)) {
+          throw error;
+        }
+      }
+    }
+
+    logger.info(`Replayed ${replayed} webhook events`, { ...params, matched: total });
+
+    return { replayed };
+  }
+
+  /**
+   * Take an event for processing; null when it has already been processed
+   * or can't be. Events left PROCESSING by a stalled job are taken again.
+   */
+  async claim(id: string): Promise<WebhookEvent | null> {
+    const { count } = await this.prisma.webhookEvent.updateMany({
+      where: { id, status: { in: ['RECEIVED', 'FAILED', 'PROCESSING'] } },
+      data: { status: 'PROCESSING', attempts: { increment: 1 } },
+    });
+
+    return count > 0 ? this.getEvent(id) : null;
+  }
+
+  async markProcessed(id: string): Promise<void> {
+    await this.prisma.webhookEvent.update({
+      where: { id },
+      data: { status: 'PROCESSED', lastError: null, processedAt: new Date() },
+    });
+  }
+
+  async markFailed(id: string, error: Error): Promise<void> {
+    await this.prisma.webhookEvent.update({
+      where: { id },
+      data: { status: 'FAILED', lastError: error.message },
+    });
+  }
+
+  /**
+   * Queue again events stored or replayed without their job reaching the
+   * queue. Queueing one whose job is still known is a no-op.
+   */
+  async requeueReceived(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - REQUEUE_AFTER_MS);
+    const events = await this.prisma.webhookEvent.findMany({
+      where: { status: 'RECEIVED', updatedAt: { lt: cutoff } },
+      select: { id: true, replays: true },
+      take: REQUEUE_BATCH_SIZE,
+    });
+
+    for (const event of events) {
+      await this.webhookQueue.enqueue(event.id, event.replays);
+    }
+
+    if (events.length > 0) {
+      logger.warn(`Requeued ${events.length} unprocessed webhook events`);
+    }
+
+    return events.length;
+  }
+
+  private async countDuplicate(id: string): Promise<WebhookEvent> {
+    return this.prisma.webhookEvent.update({
+      where: { id },
+      data: { duplicates: { increment: 1 } },
+    });
+  }
+
+  private redactHeaders(
+    headers: RecordWebhookParams['headers']
+  ): Prisma.InputJsonValue {
+    return Object.fromEntries(
+      Object.entries(headers)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => [
+          name,
+          REDACTED_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value,
+        ])
+    ) as Prisma.InputJsonValue;
+  }
+}
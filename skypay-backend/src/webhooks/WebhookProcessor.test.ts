@@ -0,0 +1,117 @@
+// skypay-backend/src/webhooks/WebhookProcessor.test.ts
+import { PrismaClient } from '@prisma/client';
+import { WebhookProcessor } from './WebhookProcessor';
+
+const setup = () => {
+  const prisma: any = {
+    settlement: { findFirst: jest.fn() },
+    transaction: { create: jest.fn() },
+  };
+  const bridgeService: any = { toSettlementEvents: jest.fn().mockReturnValue([]) };
+  const settlementService: any = { applyEvent: jest.fn().mockResolvedValue('APPLIED') };
+  const webhookEvents: any = {
+    claim: jest.fn(),
+    markProcessed: jest.fn(),
+    markFailed: jest.fn(),
+  };
+
+  return {
+    prisma,
+    bridgeService,
+    settlementService,
+    webhookEvents,
+    processor: new WebhookProcessor(
+      prisma as PrismaClient,
+      bridgeService,
+      settlementService,
+      webhookEvents,
+      {} as any
+    ),
+  };
+};
+
+const claimed = (provider: string, eventType: string, payload: any) => ({
+  id: 'webhook-1',
+  provider,
+  eventType,
+  rawBody: JSON.stringify(payload),
+  attempts: 1,
+});
+
+describe('WebhookProcessor.process', () => {
+  it('applies the settlement events a Bridge webhook maps to, in order', async () => {
+    const { bridgeService, settlementService, webhookEvents, processor } = setup();
+    const payload = { data: { id: 'wd_1' } };
+    const sent = { settlementId: 'settlement-1', toState: 'FIAT_SENT' };
+    const confirmed = { settlementId: 'settlement-1', toState: 'CONFIRMED' };
+    webhookEvents.claim.mockResolvedValue(claimed('bridge', 'withdrawal.completed', payload));
+    bridgeService.toSettlementEvents.mockReturnValue([sent, confirmed]);
+
+    await processor.process('webhook-1');
+
+    expect(bridgeService.toSettlementEvents).toHaveBeenCalledWith('withdrawal.completed', payload);
+    expect(settlementService.applyEvent.mock.calls).toEqual([[sent], [confirmed]]);
+    expect(webhookEvents.markProcessed).toHaveBeenCalledWith('webhook-1');
+    expect(webhookEvents.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('does nothing with an event it could not claim', async () => {
+    const { bridgeService, webhookEvents, processor } = setup();
+    webhookEvents.claim.mockResolvedValue(null);
+
+    await processor.process('webhook-1');
+
+    expect(bridgeService.toSettlementEvents).not.toHaveBeenCalled();
+    expect(webhookEvents.markProcessed).not.toHaveBeenCalled();
+  });
+
+  it('records a failure on the event and rethrows it for a retry', async () => {
+    const { bridgeService, settlementService, webhookEvents, processor } = setup();
+    const error = new Error('Settlement not found');
+    webhookEvents.claim.mockResolvedValue(claimed('bridge', 'deposit.completed', {}));
+    bridgeService.toSettlementEvents.mockReturnValue([{ settlementId: 'settlement-9' }]);
+    settlementService.applyEvent.mockRejectedValue(error);
+
+    await expect(processor.process('webhook-1')).rejects.toBe(error);
+
+    expect(webhookEvents.markFailed).toHaveBeenCalledWith('webhook-1', error);
+    expect(webhookEvents.markProcessed).not.toHaveBeenCalled();
+  });
+
+  it('records a mint once, moving its settlement to TOKEN_MINTED', async () => {
+    const { prisma, settlementService, webhookEvents, processor } = setup();
+    webhookEvents.claim.mockResolvedValue(
+      claimed('blockchain', 'token_minted', {
+        settlementId: 'settlement-1',
+        transactionHash: '0xabc',
+        amount: '25000000000000000000',
+      })
+    );
+    prisma.settlement.findFirst.mockResolvedValue({
+      id: 'settlement-1',
+      userId: 'user-1',
+      targetCurrency: 'USST',
+    });
+
+    await processor.process('webhook-1');
+
+    expect(settlementService.applyEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        settlementId: 'settlement-1',
+        toState: 'TOKEN_MINTED',
+        source: 'blockchain:token_minted',
+      })
+    );
+    expect(prisma.transaction.create.mock.calls[0][0].data).toMatchObject({
+      type: 'MINT',
+      settlementId: 'settlement-1',
+      txHash: '0xabc',
+    });
+
+    // A replay of the same mint moves nothing and books nothing
+    settlementService.applyEvent.mockResolvedValue('DUPLICATE');
+    await processor.process('webhook-1');
+
+    expect(prisma.transaction.create).toHaveBeenCalledTimes(1);
+  });
+});
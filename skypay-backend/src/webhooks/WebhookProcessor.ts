@@ -1,63 +1,77 @@
 // skypay-backend/src/webhooks/WebhookProcessor.ts
-import { Queue } from 'bull';
+import { Job } from 'bull';
 import { logger } from '../utils/logger';
 import { PrismaClient } from '@prisma/client';
 import { BridgeService } from '../integrations/bridge/BridgeService';
-import { Web3Service } from '../services/Web3Service';
-
+import { SettlementService } from '../settlement/SettlementService';
+import { parseMinorUnits, toDecimal } from '../currency/currencies';
+import { WebhookEventService } from './WebhookEventService';
+import { WebhookJob, WebhookQueue } from './WebhookQueue';
+
+const CONCURRENCY = 5;
+
+/**
+ * Works the webhook queue, turning stored provider and blockchain events
+ * into settlement events. State only changes through
+ * SettlementService.applyEvent, which enforces each settlement's flow.
+ */
 export class WebhookProcessor {
-  private queue: Queue;
-  private bridgeService: BridgeService;
-  private web3Service: Web3Service;
-  private prisma: PrismaClient;
-
-  constructor() {
-    this.queue = new Queue('webhooks', {
-      redis: process.env.REDIS_URL,
+  constructor(
+    private prisma: PrismaClient,
+    private bridgeService: BridgeService,
+    private settlementService: SettlementService,
+    private webhookEvents: WebhookEventService,
+    private webhookQueue: WebhookQueue
+  ) {}
+
+  start(): void {
+    const { queue } = this.webhookQueue;
+
+    queue.process(CONCURRENCY, (job: Job<WebhookJob>) => this.process(job.data.webhookEventId));
+
+    queue.on('failed', (job: Job<WebhookJob>, error: Error) => {
+      logger.error(`Webhook job failed: ${job.id}`, {
+        webhookEventId: job.data.webhookEventId,
+        attempt: job.attemptsMade,
+        exhausted: job.attemptsMade >= (job.opts.attempts || 1),
+        error: error.message,
+      });
     });
 
-    this.prisma = new PrismaClient();
-    this.bridgeService = new BridgeService(this.prisma);
-    this.web3Service = new Web3Service();
+    logger.info('Webhook processor started', { concurrency: CONCURRENCY });
   }
 
   /**
-   * Process webhook event
+   * Process a stored event; failures are recorded on it and rethrown so
+   * the job is retried
    */
-  async process(event: string, payload: any): Promise<boolean> {
-    try {
-      logger.info(`Processing webhook event: ${event}`, { payload });
-
-      // Add to processing queue
-      await this.queue.add(event, payload, {
-        attempts: 3,
-        backoff: {
-          type: 'exponential',
-          delay: 1000,
-        },
-        removeOnComplete: 100,
-        removeOnFail: 1000,
-      });
+  async process(webhookEventId: string): Promise<void> {
+    const event = await this.webhookEvents.claim(webhookEventId);
+    if (!event) {
+      return;
+    }
 
-      // Also process immediately for critical events
-      await this.processImmediately(event, payload);
+    try {
+      await this.dispatch(event.provider, event.eventType, JSON.parse(event.rawBody));
+      await this.webhookEvents.markProcessed(event.id);
 
-      return true;
-    } catch (error) {
-      logger.error(`Failed to process webhook event ${event}:`, error);
-      return false;
+      logger.info(`Processed webhook event: ${event.provider}.${event.eventType}`, {
+        webhookEventId: event.id,
+        attempt: event.attempts,
+      });
+    } catch (error: any) {
+      await this.webhookEvents.markFailed(event.id, error);
+      throw error;
     }
   }
 
-  /**
-   * Process immediate webhook events
-   */
-  private async processImmediately(event: string, payload: any): Promise<void> {
-    const [source, action] = event.split('.');
-
+  private async dispatch(source: string, action: string, payload: any): Promise<void> {
     switch (source) {
       case 'bridge':
-        await this.bridgeService.handleWebhookEvent(action, payload);
+        // In order: a completed withdrawal is sent, then confirmed
+        for (const settlementEvent of this.bridgeService.toSettlementEvents(action, payload)) {
+          await this.settlementService.applyEvent(settlementEvent);
+        }
         break;
 
       case 'blockchain':
@@ -111,64 +125,59 @@ export class WebhookProcessor {
    * Handle token minting event
    */
   private async handleTokenMinted(payload: any): Promise<void> {
-    const { transactionHash, from, to, amount, settlementId } = payload;
-
-    await this.prisma.$transaction(async (tx) => {
-      // Find settlement by ID or reference
-      const settlement = await tx.settlement.findFirst({
-        where: {
-          OR: [
-            { id: settlementId },
-            { providerReference: transactionHash },
-          ],
-        },
-      });
+    const { transactionHash, from, to } = payload;
+    // On-chain amounts arrive as integer base units (10^-18 for our tokens)
+    const amount = parseMinorUnits(payload.amount);
+
+    const settlement = await this.findSettlement(payload.settlementId, transactionHash);
+    if (!settlement) {
+      logger.error(`Settlement not found for mint event: ${payload.settlementId}`);
+      return;
+    }
 
-      if (!settlement) {
-        logger.error(`Settlement not found for mint event: ${settlementId}`);
-        return;
-      }
-
-      // Update settlement state
-      await tx.settlement.update({
-        where: { id: settlement.id },
-        data: {
-          currentState: 'TOKEN_MINTED',
-          metadata: {
-            ...(settlement.metadata as any),
-            mintTransactionHash: transactionHash,
-            mintedAt: new Date().toISOString(),
-          },
-        },
-      });
+    const outcome = await this.settlementService.applyEvent({
+      settlementId: settlement.id,
+      toState: 'TOKEN_MINTED',
+      source: 'blockchain:token_minted',
+      metadata: {
+        transactionHash,
+        amount: amount.toString(),
+        contractAddress: payload.contractAddress,
+        mintedAt: new Date().toISOString(),
+      },
+    });
 
-      // Create transaction record
-      await tx.transaction.create({
-        data: {
-          type: 'MINT',
-          userId: settlement.userId,
-          settlementId: settlement.id,
-          amount: parseFloat(amount),
-          currency: settlement.targetCurrency,
-          feeAmount: 0,
-          netAmount: parseFloat(amount),
-          fromAddress: from,
-          toAddress: to,
-          chainId: 137, // Polygon
-          txHash: transactionHash,
-          status: 'COMPLETED',
-          completedAt: new Date(),
-          metadata: {
-            event: 'token_minted',
-            ...payload,
-          },
+    if (outcome === 'DUPLICATE') {
+      return;
+    }
+
+    // Create transaction record
+    await this.prisma.transaction.create({
+      data: {
+        type: 'MINT',
+        userId: settlement.userId,
+        settlementId: settlement.id,
+        amount: toDecimal(amount),
+        currency: settlement.targetCurrency,
+        feeAmount: 0,
+        netAmount: toDecimal(amount),
+        fromAddress: from,
+        toAddress: to,
+        chainId: 137, // Polygon
+        txHash: transactionHash,
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        metadata: {
+          event: 'token_minted',
+          ...payload,
         },
-      });
+      },
+    });
 
-      logger.info(`Token minted for settlement: ${settlement.id}`, {
-        transactionHash,
-        amount,
-      });
+    logger.info(`Token minted for settlement: ${settlement.id}`, {
+      transactionHash,
+      amount: amount.toString(),
+      outcome,
     });
   }
 
@@ -176,39 +185,49 @@ export class WebhookProcessor {
    * Handle token burn event
    */
   private async handleTokenBurned(payload: any): Promise<void> {
-    const { transactionHash, from, amount, settlementId } = payload;
-
-    await this.prisma.$transaction(async (tx) => {
-      const settlement = await tx.settlement.findFirst({
-        where: {
-          OR: [
-            { id: settlementId },
-            { providerReference: transactionHash },
-          ],
-        },
-      });
+    const { transactionHash, amount } = payload;
 
-      if (!settlement) {
-        logger.error(`Settlement not found for burn event: ${settlementId}`);
-        return;
-      }
-
-      await tx.settlement.update({
-        where: { id: settlement.id },
-        data: {
-          currentState: 'TOKEN_BURNED',
-          metadata: {
-            ...(settlement.metadata as any),
-            burnTransactionHash: transactionHash,
-            burnedAt: new Date().toISOString(),
-          },
-        },
-      });
+    const settlement = await this.findSettlement(payload.settlementId, transactionHash);
+    if (!settlement) {
+      logger.error(`Settlement not found for burn event: ${payload.settlementId}`);
+      return;
+    }
 
-      logger.info(`Token burned for settlement: ${settlement.id}`, {
-        transactionHash,
-        amount,
-      });
+    const outcome = await this.settlementService.applyEvent({
+      settlementId: settlement.id,
+      toState: 'TOKEN_BURNED',
+      source: 'blockchain:token_burned',
+      metadata: { transactionHash, burnedAt: new Date().toISOString() },
+    });
+
+    logger.info(`Token burned for settlement: ${settlement.id}`, {
+      transactionHash,
+      amount,
+      outcome,
+    });
+  }
+
+  /**
+   * Handle token transfer event
+   */
+  private async handleTokenTransfer(payload: any): Promise<void> {
+    // Wallet-to-wallet transfers don't move a settlement
+    logger.info('Processing token transfer event', {
+      transactionHash: payload.transactionHash,
+      from: payload.from,
+      to: payload.to,
+    });
+  }
+
+  // Find settlement by ID or reference
+  private async findSettlement(settlementId: string | undefined, transactionHash: string) {
+    return this.prisma.settlement.findFirst({
+      where: {
+        OR: [
+          ...(settlementId ? [{ id: settlementId }] : []),
+          { providerReference: transactionHash },
+        ],
+      },
     });
   }
 
@@ -234,46 +253,4 @@ export class WebhookProcessor {
     // Implementation for Airtel Money
     logger.info(`Processing Airtel event: ${action}`, payload);
   }
-
-  /**
-   * Setup webhook queue processing
-   */
-  async setupQueueProcessing(): Promise<void> {
-    this.queue.process('*', async (job) => {
-      const { event, payload } = job.data;
-      
-      try {
-        await this.processImmediately(event, payload);
-        logger.info(`Successfully processed queued webhook: ${event}`);
-      } catch (error) {
-        logger.error(`Failed to process queued webhook ${event}:`, error);
-        throw error; // Will trigger retry
-      }
-    });
-
-    // Handle queue events
-    this.queue.on('completed', (job) => {
-      logger.debug(`Webhook job completed: ${job.id} - ${job.data.event}`);
-    });
-
-    this.queue.on('failed', (job, error) => {
-      logger.error(`Webhook job failed: ${job?.id} - ${job?.data?.event}`, error);
-    });
-  }
-
-  /**
-   * Cleanup old webhook jobs
-   */
-  async cleanupOldJobs(days: number = 7): Promise<void> {
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
-    
-    const jobs = await this.queue.getJobs(['completed', 'failed']);
-    const oldJobs = jobs.filter(job => job.finishedOn && job.finishedOn < cutoff.getTime());
-
-    for (const job of oldJobs) {
-      await job.remove();
-    }
-
-    logger.info(`Cleaned up ${oldJobs.length} old webhook jobs`);
-  }
 }
@@ -0,0 +1,43 @@
+// skypay-backend/src/webhooks/WebhookQueue.ts
+import Queue from 'bull';
+
+export const WEBHOOK_QUEUE = 'webhooks';
+
+export interface WebhookJob {
+  webhookEventId: string;
+}
+
+/**
+ * Bull queue of stored webhook events waiting to be processed
+ */
+export class WebhookQueue {
+  readonly queue: Queue.Queue<WebhookJob>;
+
+  constructor(queueName: string = WEBHOOK_QUEUE) {
+    this.queue = new Queue(queueName, {
+      redis: process.env.REDIS_URL,
+    });
+  }
+
+  /**
+   * Job ids are derived from the event and its replay count, so queueing
+   * a delivery twice is a no-op while the job is known and a replay
+   * always gets a new job
+   */
+  async enqueue(webhookEventId: string, replays: number): Promise<void> {
+    await this.queue.add(
+      { webhookEventId },
+      {
+        jobId: `${webhookEventId}:${replays}`,
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: 1000,
+        removeOnFail: 5000,
+      }
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
@@ -0,0 +1,192 @@
+// skypay-backend/src/webhooks/signatures.test.ts
+import {
+  verifyBridgeSignature,
+  verifyPaystackSignature,
+  verifySharedSecret,
+  verifyStripeSignature,
+} from './signatures';
+
+// Vectors follow each provider's documented signing scheme; the digests were
+// computed with openssl, not with the code under test
+const SIGNED_AT = 1700000000;
+const now = new Date(SIGNED_AT * 1000 + 60 * 1000);
+const tooLate = new Date((SIGNED_AT + 301) * 1000);
+
+describe('verifyStripeSignature', () => {
+  const body = Buffer.from(
+    '{"id":"evt_1OaBcD","object":"event","type":"payment_intent.succeeded"}'
+  );
+  const primary = 'f064a5b02d4d6bd94b44157ee0bf589972a082dd5f3fb0cbb98658ee6a86dfb6';
+  const rotated = 'c154d0c4aafe144708399ea84200cfe3b4981590c6293b47fb157fa0cd633a9c';
+  const options = { secrets: ['whsec_test_primary'], toleranceSeconds: 300, now };
+
+  it('accepts a valid signature', () => {
+    expect(verifyStripeSignature(body, `t=${SIGNED_AT},v1=${primary}`, options)).toEqual({
+      valid: true,
+    });
+  });
+
+  it('ignores v0 entries and accepts any matching v1', () => {
+    const header = `t=${SIGNED_AT},v1=${rotated},v0=deadbeef,v1=${primary}`;
+
+    expect(verifyStripeSignature(body, header, options).valid).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = Buffer.from(body.toString().replace('succeeded', 'canceled'));
+
+    expect(verifyStripeSignature(tampered, `t=${SIGNED_AT},v1=${primary}`, options)).toEqual({
+      valid: false,
+      reason: 'SIGNATURE_MISMATCH',
+    });
+  });
+
+  it('rejects a signature whose timestamp was changed', () => {
+    const header = `t=${SIGNED_AT + 1},v1=${primary}`;
+
+    expect(verifyStripeSignature(body, header, options)).toMatchObject({
+      reason: 'SIGNATURE_MISMATCH',
+    });
+  });
+
+  it('rejects a timestamp outside the tolerance', () => {
+    const header = `t=${SIGNED_AT},v1=${primary}`;
+
+    expect(verifyStripeSignature(body, header, { ...options, now: tooLate })).toEqual({
+      valid: false,
+      reason: 'TIMESTAMP_OUT_OF_TOLERANCE',
+    });
+  });
+
+  it('accepts a delivery signed with the secondary secret while rotating', () => {
+    const header = `t=${SIGNED_AT},v1=${rotated}`;
+    const secrets = ['whsec_test_primary', 'whsec_test_rotated'];
+
+    expect(verifyStripeSignature(body, header, options).valid).toBe(false);
+    expect(verifyStripeSignature(body, header, { ...options, secrets }).valid).toBe(true);
+  });
+
+  it.each([
+    ['no timestamp', `v1=${primary}`],
+    ['a non-numeric timestamp', `t=soon,v1=${primary}`],
+    ['no v1 signature', `t=${SIGNED_AT},v0=${primary}`],
+    ['no key-value pairs', primary],
+  ])('rejects a header with %s as malformed', (_case, header) => {
+    expect(verifyStripeSignature(body, header, options)).toEqual({
+      valid: false,
+      reason: 'MALFORMED_SIGNATURE',
+    });
+  });
+
+  it('rejects a missing header and a missing secret', () => {
+    expect(verifyStripeSignature(body, undefined, options)).toMatchObject({
+      reason: 'MISSING_SIGNATURE',
+    });
+    expect(
+      verifyStripeSignature(body, `t=${SIGNED_AT},v1=${primary}`, { ...options, secrets: [] })
+    ).toMatchObject({ reason: 'NO_SECRETS' });
+  });
+});
+
+describe('verifyBridgeSignature', () => {
+  const body = Buffer.from('{"event_id":"wh_123","event_type":"deposit.completed"}');
+  const signature = '4a4ff8ad035960598a62bb8338220d7ef5187be4ea76b6e5643f22817650a675';
+  const nextSignature = 'b04ea6d4fd0f8052857bb4a780feb46f8275dc5a09ac389b62a5788ba5f32e39';
+  const options = { secrets: ['bridge_test_secret'], toleranceSeconds: 300, now };
+  const timestamp = String(SIGNED_AT);
+
+  it('accepts a valid signature, in either case', () => {
+    expect(verifyBridgeSignature(body, signature, timestamp, options).valid).toBe(true);
+    expect(
+      verifyBridgeSignature(body, signature.toUpperCase(), timestamp, options).valid
+    ).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = Buffer.from(body.toString().replace('wh_123', 'wh_124'));
+
+    expect(verifyBridgeSignature(tampered, signature, timestamp, options)).toMatchObject({
+      reason: 'SIGNATURE_MISMATCH',
+    });
+  });
+
+  it('rejects a timestamp outside the tolerance', () => {
+    expect(
+      verifyBridgeSignature(body, signature, timestamp, { ...options, now: tooLate })
+    ).toMatchObject({ reason: 'TIMESTAMP_OUT_OF_TOLERANCE' });
+  });
+
+  it('accepts a delivery signed with the secondary secret while rotating', () => {
+    const secrets = ['bridge_test_secret', 'bridge_test_next'];
+
+    expect(verifyBridgeSignature(body, nextSignature, timestamp, options).valid).toBe(false);
+    expect(
+      verifyBridgeSignature(body, nextSignature, timestamp, { ...options, secrets }).valid
+    ).toBe(true);
+  });
+
+  it('rejects a missing or malformed timestamp header', () => {
+    expect(verifyBridgeSignature(body, signature, undefined, options)).toMatchObject({
+      reason: 'MALFORMED_SIGNATURE',
+    });
+    expect(verifyBridgeSignature(body, signature, '2023-11-14', options)).toMatchObject({
+      reason: 'MALFORMED_SIGNATURE',
+    });
+  });
+});
+
+describe('verifyPaystackSignature', () => {
+  const body = Buffer.from(
+    '{"event":"charge.success","data":{"id":302961,"reference":"PSK-REF-1"}}'
+  );
+  const signature =
+    'ff3b2ddc0ce487a1a9656b99be99c350c9d7446dde9e23ac8c5f531397abcb52' +
+    '937f2c6805413eea0465e53c09cc9377e51cd4a862663d11822a2a2684acab73';
+  const newSignature =
+    '281c8e753cef00554c42ed03d0fd9bca58789001fa98f0134898ada4510f6431' +
+    '256930a05e4c75a688cd3035eaeae62fe26b68ebb757806259f15732f1213c5e';
+  const options = { secrets: ['sk_test_paystack'] };
+
+  it('accepts a valid signature', () => {
+    expect(verifyPaystackSignature(body, signature, options)).toEqual({ valid: true });
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = Buffer.from(body.toString().replace('302961', '302962'));
+
+    expect(verifyPaystackSignature(tampered, signature, options)).toMatchObject({
+      reason: 'SIGNATURE_MISMATCH',
+    });
+  });
+
+  it('accepts a delivery signed with the secondary secret while rotating', () => {
+    const secrets = ['sk_test_paystack', 'sk_test_paystack_new'];
+
+    expect(verifyPaystackSignature(body, newSignature, options).valid).toBe(false);
+    expect(verifyPaystackSignature(body, newSignature, { secrets }).valid).toBe(true);
+  });
+
+  it('rejects a malformed or missing signature', () => {
+    // A SHA-256 length digest can never equal a SHA-512 one
+    expect(verifyPaystackSignature(body, signature.slice(0, 64), options)).toMatchObject({
+      reason: 'SIGNATURE_MISMATCH',
+    });
+    expect(verifyPaystackSignature(body, undefined, options)).toMatchObject({
+      reason: 'MISSING_SIGNATURE',
+    });
+  });
+});
+
+describe('verifySharedSecret', () => {
+  it('accepts any active secret and nothing else', () => {
+    const options = { secrets: ['current-secret', 'next-secret'] };
+
+    expect(verifySharedSecret('next-secret', options).valid).toBe(true);
+    expect(verifySharedSecret('next-secret-2', options)).toMatchObject({
+      reason: 'SIGNATURE_MISMATCH',
+    });
+    expect(verifySharedSecret(undefined, options)).toMatchObject({
+      reason: 'MISSING_SIGNATURE',
+    });
+  });
+});
@@ -0,0 +1,177 @@
+// skypay-backend/src/webhooks/signatures.ts
+import crypto from 'crypto';
+
+export type SignatureFailure =
+  | 'NO_SECRETS'
+  | 'MISSING_SIGNATURE'
+  | 'MALFORMED_SIGNATURE'
+  | 'SIGNATURE_MISMATCH'
+  | 'TIMESTAMP_OUT_OF_TOLERANCE';
+
+export type SignatureCheck = { valid: true } | { valid: false; reason: SignatureFailure };
+
+export interface SignatureOptions {
+  // Every active secret; any one of them may have signed the delivery
+  secrets: string[];
+  toleranceSeconds: number;
+  now?: Date;
+}
+
+const VALID: SignatureCheck = { valid: true };
+
+const fail = (reason: SignatureFailure): SignatureCheck => ({ valid: false, reason });
+
+const hmacHex = (algorithm: 'sha256' | 'sha512', secret: string, ...parts: Buffer[]) => {
+  const hmac = crypto.createHmac(algorithm, secret);
+  parts.forEach((part) => hmac.update(part));
+  return hmac.digest('hex');
+};
+
+/**
+ * Constant-time comparison of hex digests; lengths aren't secret
+ */
+const digestsEqual = (expected: string, provided: string): boolean => {
+  const a = Buffer.from(expected, 'utf8');
+  const b = Buffer.from(provided.toLowerCase(), 'utf8');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Whether any secret's digest matches any provided signature
+ */
+const anySecretMatches = (
+  secrets: string[],
+  signatures: string[],
+  digest: (secret: string) => string
+): boolean =>
+  secrets.some((secret) => {
+    const expected = digest(secret);
+    return signatures.some((signature) => digestsEqual(expected, signature));
+  });
+
+const withinTolerance = (timestampSeconds: number, options: SignatureOptions): boolean => {
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  return Math.abs(nowSeconds - timestampSeconds) <= options.toleranceSeconds;
+};
+
+const parseTimestamp = (value: string | undefined): number | null =>
+  value && /^\d+$/.test(value) ? Number(value) : null;
+
+/**
+ * Stripe: `Stripe-Signature: t=<unix seconds>,v1=<hex>[,v1=<hex>...]`, an
+ * HMAC-SHA256 of `<t>.<raw body>` with the endpoint secret. Stripe sends
+ * one v1 per active secret while it rolls one; v0 entries are test-mode
+ * legacy and ignored.
+ */
+export function verifyStripeSignature(
+  rawBody: Buffer,
+  header: string | undefined,
+  options: SignatureOptions
+): SignatureCheck {
+  if (options.secrets.length === 0) {
+    return fail('NO_SECRETS');
+  }
+  if (!header) {
+    return fail('MISSING_SIGNATURE');
+  }
+
+  const pairs = header.split(',').map((pair) => {
+    const index = pair.indexOf('=');
+    return index < 0 ? ['', ''] : [pair.slice(0, index).trim(), pair.slice(index + 1).trim()];
+  });
+  const timestamp = parseTimestamp(pairs.find(([key]) => key === 't')?.[1]);
+  const signatures = pairs.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (timestamp === null || signatures.length === 0) {
+    return fail('MALFORMED_SIGNATURE');
+  }
+
+  const signed = anySecretMatches(options.secrets, signatures, (secret) =>
+    hmacHex('sha256', secret, Buffer.from(`${timestamp}.`, 'utf8'), rawBody)
+  );
+  if (!signed) {
+    return fail('SIGNATURE_MISMATCH');
+  }
+
+  return withinTolerance(timestamp, options) ? VALID : fail('TIMESTAMP_OUT_OF_TOLERANCE');
+}
+
+/**
+ * Bridge: `X-Bridge-Signature: <hex>` with `X-Bridge-Timestamp: <unix
+ * seconds>`, an HMAC-SHA256 of `<timestamp>.<raw body>` with the webhook
+ * secret
+ */
+export function verifyBridgeSignature(
+  rawBody: Buffer,
+  signature: string | undefined,
+  timestampHeader: string | undefined,
+  options: SignatureOptions
+): SignatureCheck {
+  if (options.secrets.length === 0) {
+    return fail('NO_SECRETS');
+  }
+  if (!signature) {
+    return fail('MISSING_SIGNATURE');
+  }
+
+  const timestamp = parseTimestamp(timestampHeader);
+  if (timestamp === null) {
+    return fail('MALFORMED_SIGNATURE');
+  }
+
+  const signed = anySecretMatches(options.secrets, [signature], (secret) =>
+    hmacHex('sha256', secret, Buffer.from(`${timestamp}.`, 'utf8'), rawBody)
+  );
+  if (!signed) {
+    return fail('SIGNATURE_MISMATCH');
+  }
+
+  return withinTolerance(timestamp, options) ? VALID : fail('TIMESTAMP_OUT_OF_TOLERANCE');
+}
+
+/**
+ * Paystack: `X-Paystack-Signature: <hex>`, an HMAC-SHA512 of the raw body
+ * with the secret key. Nothing signed carries a time, so there is no
+ * window to enforce; redeliveries are caught by the event store's dedup.
+ */
+export function verifyPaystackSignature(
+  rawBody: Buffer,
+  signature: string | undefined,
+  options: Pick<SignatureOptions, 'secrets'>
+): SignatureCheck {
+  if (options.secrets.length === 0) {
+    return fail('NO_SECRETS');
+  }
+  if (!signature) {
+    return fail('MISSING_SIGNATURE');
+  }
+
+  const signed = anySecretMatches(options.secrets, [signature], (secret) =>
+    hmacHex('sha512', secret, rawBody)
+  );
+
+  return signed ? VALID : fail('SIGNATURE_MISMATCH');
+}
+
+/**
+ * Our chain indexer sends a shared secret in `X-Webhook-Secret`
+ */
+export function verifySharedSecret(
+  provided: string | undefined,
+  options: Pick<SignatureOptions, 'secrets'>
+): SignatureCheck {
+  if (options.secrets.length === 0) {
+    return fail('NO_SECRETS');
+  }
+  if (!provided) {
+    return fail('MISSING_SIGNATURE');
+  }
+
+  // Hash both sides so the comparison doesn't depend on the secret's length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  const matches = options.secrets.some((secret) =>
+    crypto.timingSafeEqual(digest(secret), digest(provided))
+  );
+
+  return matches ? VALID : fail('SIGNATURE_MISMATCH');
+}
@@ -15,6 +15,7 @@ import { TransferScreen } from '../screens/TransferScreen';
 import { SwapScreen } from '../screens/SwapScreen';
 import { ProfileScreen } from '../screens/ProfileScreen';
 import { ActivityScreen } from '../screens/ActivityScreen';
+import { ScheduledTransfersScreen } from '../screens/ScheduledTransfersScreen';
 import { colors } from '../theme';
 
 const Stack = createStackNavigator();
@@ -105,6 +106,7 @@ export function AppNavigator() {
         <Stack.Screen name="Deposit" component={DepositScreen} />
         <Stack.Screen name="Withdraw" component={WithdrawScreen} />
         <Stack.Screen name="Swap" component={SwapScreen} />
+        <Stack.Screen name="ScheduledTransfers" component={ScheduledTransfersScreen} />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -132,6 +132,16 @@ export function HomeScreen({ navigation }: any) {
             </View>
             <Text style={styles.actionText}>Card</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={() => navigation.navigate('ScheduledTransfers')}
+          >
+            <View style={[styles.actionIcon, { backgroundColor: '#F59E0B20' }]}>
+              <Ionicons name="calendar-outline" size={24} color="#F59E0B" />
+            </View>
+            <Text style={styles.actionText}>Scheduled</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Account Balances */}
@@ -348,7 +358,7 @@ const styles = StyleSheet.create({
   },
   actionButton: {
     alignItems: 'center',
-    width: 70,
+    width: 64,
   },
   actionIcon: {
     width: 56,
@@ -0,0 +1,458 @@
+// skypay-mobile/src/screens/ScheduledTransfersScreen.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSkyPay, formatMinorUnits } from '@skypay/sdk';
+import type { Schedule, ScheduleFrequency } from '@skypay/sdk';
+import { colors, spacing, typography } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+
+const FREQUENCIES: { value: ScheduleFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+];
+
+const STATUS_COLORS: Record<Schedule['status'], string> = {
+  ACTIVE: colors.success,
+  PAUSED: colors.warning,
+  COMPLETED: colors.textSecondary,
+  CANCELLED: colors.danger,
+};
+
+const describeRule = (schedule: Schedule) => {
+  if (schedule.frequency === 'CRON') {
+    return `Custom (${schedule.cron})`;
+  }
+  const every = schedule.interval > 1 ? `Every ${schedule.interval} ` : 'Every ';
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[schedule.frequency];
+  return `${every}${unit}${schedule.interval > 1 ? 's' : ''} at ${schedule.timeOfDay}`;
+};
+
+export function ScheduledTransfersScreen({ navigation }: any) {
+  const { client } = useSkyPay();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState('NGN');
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('MONTHLY');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['schedules'],
+    queryFn: () => client.getSchedules({ limit: 100 }),
+  });
+
+  const createSchedule = useMutation({
+    mutationFn: () =>
+      client.createSchedule({
+        type: 'INTERNAL_TRANSFER',
+        recipient: recipient.trim(),
+        amount,
+        currency,
+        frequency,
+        dayOfMonth: frequency === 'MONTHLY' ? Number(dayOfMonth) : undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries(['schedules']);
+      setShowForm(false);
+      setRecipient('');
+      setAmount('');
+    },
+    onError: (error: any) => {
+      Alert.alert('Could not schedule', error.response?.data?.error || error.message);
+    },
+  });
+
+  const scheduleAction = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'pause' | 'resume' | 'cancel' }) => {
+      if (action === 'pause') return client.pauseSchedule(id);
+      if (action === 'resume') return client.resumeSchedule(id);
+      return client.cancelSchedule(id);
+    },
+    onSuccess: () => queryClient.invalidateQueries(['schedules']),
+    onError: (error: any) => {
+      Alert.alert('Something went wrong', error.response?.data?.error || error.message);
+    },
+  });
+
+  const confirmCancel = (schedule: Schedule) => {
+    Alert.alert('Cancel schedule', 'Future transfers will not be sent.', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel schedule',
+        style: 'destructive',
+        onPress: () => scheduleAction.mutate({ id: schedule.id, action: 'cancel' }),
+      },
+    ]);
+  };
+
+  const schedules = data?.schedules ?? [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Scheduled Transfers</Text>
+          <TouchableOpacity
+            style={styles.menuButton}
+            onPress={() => setShowForm(!showForm)}
+          >
+            <Ionicons name={showForm ? 'close' : 'add'} size={24} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {/* New Schedule */}
+        {showForm && (
+          <View style={styles.section}>
+            <View style={styles.formCard}>
+              <Text style={styles.inputLabel}>Send to</Text>
+              <TextInput
+                style={styles.input}
+                value={recipient}
+                onChangeText={setRecipient}
+                placeholder="@tag, email or phone"
+                placeholderTextColor={colors.textTertiary}
+                autoCapitalize="none"
+              />
+
+              <Text style={styles.inputLabel}>Amount</Text>
+              <View style={styles.amountRow}>
+                <TextInput
+                  style={[styles.input, styles.amountInput]}
+                  value={amount}
+                  onChangeText={setAmount}
+                  placeholder="0.00"
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={[styles.input, styles.currencyInput]}
+                  value={currency}
+                  onChangeText={(value) => setCurrency(value.toUpperCase())}
+                  autoCapitalize="characters"
+                  maxLength={5}
+                />
+              </View>
+
+              <Text style={styles.inputLabel}>Repeat</Text>
+              <View style={styles.chips}>
+                {FREQUENCIES.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.chip, frequency === option.value && styles.chipSelected]}
+                    onPress={() => setFrequency(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        frequency === option.value && styles.chipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {frequency === 'MONTHLY' && (
+                <>
+                  <Text style={styles.inputLabel}>Day of month</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={dayOfMonth}
+                    onChangeText={setDayOfMonth}
+                    keyboardType="number-pad"
+                    maxLength={2}
+                  />
+                </>
+              )}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, createSchedule.isLoading && styles.buttonDisabled]}
+                disabled={createSchedule.isLoading || !recipient || !amount}
+                onPress={() => createSchedule.mutate()}
+              >
+                {createSchedule.isLoading ? (
+                  <ActivityIndicator color={colors.background} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Schedule Transfer</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Schedules */}
+        <View style={styles.section}>
+          {isLoading ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : schedules.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="calendar-outline" size={40} color={colors.textTertiary} />
+              <Text style={styles.emptyText}>
+                No scheduled transfers yet. Tap + to send money on a regular schedule.
+              </Text>
+            </View>
+          ) : (
+            schedules.map((schedule) => (
+              <View key={schedule.id} style={styles.scheduleCard}>
+                <View style={styles.scheduleHeader}>
+                  <Text style={styles.scheduleAmount}>
+                    {formatMinorUnits(schedule.amount, schedule.currency)} {schedule.currency}
+                  </Text>
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: `${STATUS_COLORS[schedule.status]}20` },
+                    ]}
+                  >
+                    <Text style={[styles.statusText, { color: STATUS_COLORS[schedule.status] }]}>
+                      {schedule.status}
+                    </Text>
+                  </View>
+                </View>
+
+                <Text style={styles.scheduleRecipient}>
+                  To {schedule.recipient ?? schedule.bankDetails?.accountName}
+                </Text>
+                <Text style={styles.scheduleRule}>{describeRule(schedule)}</Text>
+                {schedule.nextRunAt && (
+                  <Text style={styles.scheduleNext}>
+                    Next: {new Date(schedule.nextRunAt).toLocaleString()}
+                  </Text>
+                )}
+
+                {(schedule.status === 'ACTIVE' || schedule.status === 'PAUSED') && (
+                  <View style={styles.scheduleActions}>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() =>
+                        scheduleAction.mutate({
+                          id: schedule.id,
+                          action: schedule.status === 'ACTIVE' ? 'pause' : 'resume',
+                        })
+                      }
+                    >
+                      <Ionicons
+                        name={schedule.status === 'ACTIVE' ? 'pause' : 'play'}
+                        size={16}
+                        color={colors.primary}
+                      />
+                      <Text style={styles.actionText}>
+                        {schedule.status === 'ACTIVE' ? 'Pause' : 'Resume'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => confirmCancel(schedule)}
+                    >
+                      <Ionicons name="trash-outline" size={16} color={colors.danger} />
+                      <Text style={[styles.actionText, { color: colors.danger }]}>Cancel</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.xl,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: colors.text,
+  },
+  menuButton: {
+    padding: spacing.xs,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.xl,
+  },
+  formCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: colors.text,
+    marginBottom: spacing.lg,
+  },
+  amountRow: {
+    flexDirection: 'row',
+  },
+  amountInput: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  currencyInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    marginBottom: spacing.lg,
+  },
+  chip: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: spacing.sm,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: colors.background,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: spacing.lg,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: colors.background,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxxl,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  scheduleCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: spacing.md,
+  },
+  scheduleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  scheduleAmount: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+  },
+  scheduleRecipient: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  scheduleRule: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: colors.textSecondary,
+  },
+  scheduleNext: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+  scheduleActions: {
+    flexDirection: 'row',
+    marginTop: spacing.md,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: spacing.xl,
+  },
+  actionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: colors.primary,
+    marginLeft: spacing.xs,
+  },
+});
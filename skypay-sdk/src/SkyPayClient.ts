@@ -13,6 +13,353 @@ import {
   ApiResponse,
   PaginatedResponse
 } from './types';
+import { getCurrencyExponent } from './currency';
+
+export interface IdempotentRequestOptions {
+  /**
+   * Reuse the same key when retrying a request so the server returns the
+   * original result instead of creating a duplicate. Generated if omitted.
+   */
+  idempotencyKey?: string;
+}
+
+export interface CrossBorderTransferParams {
+  // Major-unit decimal in the source currency, e.g. "250.00"
+  amount: string;
+  sourceCurrency: 'GBP' | 'USD' | 'EUR';
+  targetCurrency: 'NGN' | 'KES' | 'GHS';
+  // Beneficiary bank account in the target country; or give beneficiaryId
+  bankDetails?: {
+    accountName: string;
+    accountNumber: string;
+    bankCode: string;
+    accountType?: string;
+  };
+  // Saved beneficiary in the target currency
+  beneficiaryId?: string;
+}
+
+// Pay a saved beneficiary instead of sending bank details
+export type WithBeneficiary<T> = Omit<T, 'bankDetails'> & { beneficiaryId: string };
+
+export interface CrossBorderTransfer {
+  settlement: Settlement;
+  // The rate is locked until expiresAt; amounts are integer minor units
+  quote: {
+    id: string;
+    rate: string;
+    sourceAmount: string;
+    sourceCurrency: string;
+    targetAmount: string;
+    targetCurrency: string;
+    expiresAt: string;
+  };
+  // Charged on top of quote.sourceAmount; send both
+  fee: Fee;
+  // Where to send the source currency
+  instructions: any;
+}
+
+export interface SimulationParams {
+  type: 'FIAT_TO_TOKEN' | 'TOKEN_TO_FIAT' | 'CROSS_BORDER';
+  // Major-unit decimal the user sends; for TOKEN_TO_FIAT, the payout
+  amount: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+}
+
+export interface SettlementSimulation {
+  type: SimulationParams['type'];
+  // False when a blocker would refuse the settlement
+  allowed: boolean;
+  // Amounts are integer minor units; sourceAmount includes the fee
+  sourceAmount: string;
+  sourceCurrency: string;
+  fee: Fee;
+  rate: string;
+  rateSource: string;
+  targetAmount: string;
+  targetCurrency: string;
+  // Latest the funds should arrive if the settlement is funded now
+  arrivesBy: string;
+  path: {
+    state: string;
+    description: string;
+    maxStayMs: number | null;
+  }[];
+  blockers: {
+    code: 'USER_NOT_ACTIVE' | 'LIMIT_EXCEEDED' | 'ACCOUNT_FROZEN' | 'INSUFFICIENT_BALANCE';
+    message: string;
+    details?: any;
+  }[];
+}
+
+export interface TransferParams {
+  // Email, phone number, SkyPay tag (@name) or wallet address; or give beneficiaryId
+  recipient?: string;
+  // Saved wallet beneficiary
+  beneficiaryId?: string;
+  // Major-unit decimal, e.g. "25.00"
+  amount: string;
+  currency: string;
+  note?: string;
+}
+
+export interface Fee {
+  // Integer minor units of the currency
+  amount: string;
+  currency: string;
+}
+
+export interface QuoteParams {
+  sourceCurrency: string;
+  targetCurrency: string;
+  // Major-unit decimal to send; give this or targetAmount
+  amount?: string;
+  // Major-unit decimal to receive
+  targetAmount?: string;
+  // Include this product's fees in the quote
+  product?: 'FIAT_TO_TOKEN' | 'TOKEN_TO_FIAT';
+}
+
+export interface FxQuote {
+  id: string;
+  status: 'ACTIVE' | 'USED';
+  sourceCurrency: string;
+  // Amounts are integer minor units
+  sourceAmount: string;
+  targetCurrency: string;
+  targetAmount: string;
+  rate: string;
+  midRate: string;
+  markupBps: number;
+  product: 'FIAT_TO_TOKEN' | 'TOKEN_TO_FIAT' | null;
+  // Included in sourceAmount
+  fee: Fee;
+  // Pass the id as quoteId to a deposit or withdrawal before this time
+  expiresAt: string;
+}
+
+export interface LimitUsage {
+  direction: 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER';
+  // DAILY is the last 24 hours, MONTHLY the last 30 days
+  window: 'DAILY' | 'MONTHLY';
+  // Amounts are integer minor units of this currency
+  currency: string;
+  limit: string;
+  used: string;
+  remaining: string;
+  overridden: boolean;
+  // When headroom next frees up as the oldest counted settlement ages out
+  nextReleaseAt: string | null;
+}
+
+export interface FiatSettlement {
+  settlement: Settlement;
+  // The quote the settlement's amounts and fee come from
+  quote: {
+    id: string;
+    rate: string;
+    sourceAmount: string;
+    sourceCurrency: string;
+    targetAmount: string;
+    targetCurrency: string;
+    fee: Fee;
+  };
+  // Deposits: where to send the fiat
+  instructions?: any;
+  message?: string;
+}
+
+export interface PayoutBatchParams {
+  currency: string;
+  format: 'csv' | 'json';
+  // The file's text: CSV with columns amount, accountNumber, bankCode,
+  // accountName and optionally reference and accountType, or a JSON array
+  // of objects with the same fields. Amounts are major-unit decimals.
+  content: string;
+  fileName?: string;
+  reference?: string;
+}
+
+export type PayoutBatchStatus =
+  | 'VALIDATING'
+  | 'VALIDATED'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'CLOSED'
+  | 'CANCELLED';
+
+export type PayoutItemStatus =
+  | 'PENDING'
+  | 'VALID'
+  | 'INVALID'
+  | 'QUEUED'
+  | 'SUBMITTED'
+  | 'PAID'
+  | 'FAILED';
+
+export interface PayoutBatch {
+  id: string;
+  status: PayoutBatchStatus;
+  currency: string;
+  fileName: string | null;
+  reference: string | null;
+  itemCount: number;
+  validCount: number;
+  invalidCount: number;
+  paidCount: number;
+  failedCount: number;
+  // Amounts are integer minor units; totalAmount is of the valid items
+  totalAmount: string;
+  fundedAmount: string;
+  refundedAmount: string;
+  createdAt: string;
+  validatedAt: string | null;
+  fundedAt: string | null;
+  completedAt: string | null;
+  closedAt: string | null;
+}
+
+export interface PayoutItem {
+  id: string;
+  rowNumber: number;
+  reference: string | null;
+  // Integer minor units
+  amount: string;
+  bankDetails: CrossBorderTransferParams['bankDetails'];
+  status: PayoutItemStatus;
+  validationErrors: string[];
+  // Account holder name reported by the bank
+  resolvedName: string | null;
+  settlementId: string | null;
+  attempts: number;
+  failureReason: string | null;
+  paidAt: string | null;
+}
+
+export interface PayoutPagination {
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ScheduleParams {
+  type: 'INTERNAL_TRANSFER' | 'PAYOUT';
+  // Major-unit decimal
+  amount: string;
+  currency: string;
+  // INTERNAL_TRANSFER: email, phone number, SkyPay tag or wallet address
+  recipient?: string;
+  // PAYOUT: paid from your fiat account in the currency
+  bankDetails?: CrossBorderTransferParams['bankDetails'];
+  note?: string;
+  frequency: ScheduleFrequency;
+  // Every n days, weeks or months; defaults to 1
+  interval?: number;
+  // 0 is Sunday
+  dayOfWeek?: number;
+  // Short months use their last day
+  dayOfMonth?: number;
+  // Five-field expression for CRON, at most once an hour
+  cron?: string;
+  // HH:mm, defaults to 09:00
+  timeOfDay?: string;
+  // IANA timezone the times are read in, defaults to UTC
+  timezone?: string;
+  startAt?: string;
+  endAt?: string;
+  maxOccurrences?: number;
+}
+
+export interface ScheduleUpdateParams {
+  amount?: string;
+  note?: string | null;
+  // null removes the limit
+  endAt?: string | null;
+  maxOccurrences?: number | null;
+}
+
+export type ScheduleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'CRON';
+
+export type ScheduleStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+export type ScheduleRunStatus = 'PENDING' | 'PROCESSING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED';
+
+export interface ScheduleRun {
+  id: string;
+  scheduledFor: string;
+  status: ScheduleRunStatus;
+  attempts: number;
+  // RETRYING: when the next attempt is made
+  nextAttemptAt: string | null;
+  settlementId: string | null;
+  failureReason: string | null;
+  completedAt: string | null;
+}
+
+export interface Schedule {
+  id: string;
+  type: ScheduleParams['type'];
+  status: ScheduleStatus;
+  // Integer minor units
+  amount: string;
+  currency: string;
+  recipient: string | null;
+  bankDetails: CrossBorderTransferParams['bankDetails'] | null;
+  note: string | null;
+  frequency: ScheduleFrequency;
+  interval: number;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  cron: string | null;
+  timeOfDay: string;
+  timezone: string;
+  startAt: string;
+  endAt: string | null;
+  maxOccurrences: number | null;
+  // Runs so far
+  occurrenceCount: number;
+  nextRunAt: string | null;
+  createdAt: string;
+  cancelledAt: string | null;
+  // Latest runs, from getSchedule only
+  runs?: ScheduleRun[];
+}
+
+export type BeneficiaryType = 'BANK_ACCOUNT' | 'MOBILE_MONEY' | 'WALLET';
+
+export type BeneficiaryStatus = 'PENDING_VERIFICATION' | 'VERIFIED' | 'REJECTED' | 'REMOVED';
+
+export interface BeneficiaryParams {
+  type: BeneficiaryType;
+  nickname: string;
+  currency: string;
+  // BANK_ACCOUNT: accountName, accountNumber, bankCode, accountType?
+  // MOBILE_MONEY: accountName, phoneNumber (E.164), providerCode
+  // WALLET: address
+  details: Record<string, string>;
+  // Bank and mobile money; MICRO_DEPOSIT sends a small amount to confirm
+  verificationMethod?: 'ACCOUNT_LOOKUP' | 'MICRO_DEPOSIT';
+}
+
+export interface Beneficiary {
+  id: string;
+  type: BeneficiaryType;
+  nickname: string;
+  currency: string;
+  details: Record<string, string>;
+  status: BeneficiaryStatus;
+  verificationMethod: 'ACCOUNT_LOOKUP' | 'MICRO_DEPOSIT' | 'ADDRESS_CHECK';
+  // Account holder name reported by the provider
+  resolvedName: string | null;
+  microDepositSentAt: string | null;
+  verifiedAt: string | null;
+  // Payouts to the beneficiary are refused before this time
+  payableAfter: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
 
 export class SkyPayClient {
   private api: AxiosInstance;
@@ -86,22 +433,275 @@ export class SkyPayClient {
   /**
    * Settlements
    */
-  async createFiatDeposit(params: BridgeDepositParams): Promise<Settlement> {
-    const response = await this.api.post<ApiResponse<Settlement>>(
+  async createFiatDeposit(
+    params: BridgeDepositParams | WithBeneficiary<BridgeDepositParams>,
+    options?: IdempotentRequestOptions
+  ): Promise<FiatSettlement> {
+    const response = await this.api.post<ApiResponse<FiatSettlement>>(
       '/settlements/fiat/deposit',
-      params
+      params,
+      { headers: this.idempotencyHeaders(options) }
     );
     return response.data.data;
   }
 
-  async createFiatWithdrawal(params: BridgeWithdrawalParams): Promise<Settlement> {
-    const response = await this.api.post<ApiResponse<Settlement>>(
+  async createFiatWithdrawal(
+    params: BridgeWithdrawalParams | WithBeneficiary<BridgeWithdrawalParams>,
+    options?: IdempotentRequestOptions
+  ): Promise<FiatSettlement> {
+    const response = await this.api.post<ApiResponse<FiatSettlement>>(
       '/settlements/fiat/withdraw',
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async createCrossBorderTransfer(
+    params: CrossBorderTransferParams,
+    options?: IdempotentRequestOptions
+  ): Promise<CrossBorderTransfer> {
+    const response = await this.api.post<ApiResponse<CrossBorderTransfer>>(
+      '/settlements/cross-border',
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Price a settlement and check what would block it, without creating it
+   */
+  async simulateSettlement(params: SimulationParams): Promise<SettlementSimulation> {
+    const response = await this.api.post<ApiResponse<SettlementSimulation>>(
+      '/settlements/simulate',
       params
     );
     return response.data.data;
   }
 
+  async sendTransfer(
+    params: TransferParams,
+    options?: IdempotentRequestOptions
+  ): Promise<Settlement> {
+    const response = await this.api.post<ApiResponse<Settlement>>(
+      '/transfers',
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * FX quotes
+   */
+  async createQuote(params: QuoteParams): Promise<FxQuote> {
+    const response = await this.api.post<ApiResponse<FxQuote>>('/quotes', params);
+    return response.data.data;
+  }
+
+  async getQuote(id: string): Promise<FxQuote> {
+    const response = await this.api.get<ApiResponse<FxQuote>>(`/quotes/${id}`);
+    return response.data.data;
+  }
+
+  /**
+   * Payout batches
+   */
+  async createPayoutBatch(
+    params: PayoutBatchParams,
+    options?: IdempotentRequestOptions
+  ): Promise<PayoutBatch> {
+    const response = await this.api.post<ApiResponse<PayoutBatch>>(
+      '/payouts/batches',
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async getPayoutBatches(params?: {
+    limit?: number;
+    offset?: number;
+  }): Promise<{ batches: PayoutBatch[]; pagination: PayoutPagination }> {
+    const response = await this.api.get<ApiResponse<any>>('/payouts/batches', { params });
+    return response.data.data;
+  }
+
+  async getPayoutBatch(id: string): Promise<PayoutBatch> {
+    const response = await this.api.get<ApiResponse<PayoutBatch>>(`/payouts/batches/${id}`);
+    return response.data.data;
+  }
+
+  async getPayoutItems(
+    batchId: string,
+    params?: { status?: PayoutItemStatus; limit?: number; offset?: number }
+  ): Promise<{ items: PayoutItem[]; pagination: PayoutPagination }> {
+    const response = await this.api.get<ApiResponse<any>>(
+      `/payouts/batches/${batchId}/items`,
+      { params }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Pay a validated batch from your fiat balance in its currency
+   */
+  async fundPayoutBatch(id: string, options?: IdempotentRequestOptions): Promise<PayoutBatch> {
+    return this.payoutBatchAction(id, 'fund', options);
+  }
+
+  async retryPayoutBatch(id: string, options?: IdempotentRequestOptions): Promise<PayoutBatch> {
+    return this.payoutBatchAction(id, 'retry', options);
+  }
+
+  /**
+   * Refunds unpaid funds; failed items can't be retried afterwards
+   */
+  async closePayoutBatch(id: string, options?: IdempotentRequestOptions): Promise<PayoutBatch> {
+    return this.payoutBatchAction(id, 'close', options);
+  }
+
+  async cancelPayoutBatch(id: string, options?: IdempotentRequestOptions): Promise<PayoutBatch> {
+    return this.payoutBatchAction(id, 'cancel', options);
+  }
+
+  /**
+   * Per-item status of the whole batch as CSV text
+   */
+  async downloadPayoutReport(id: string): Promise<string> {
+    const response = await this.api.get<string>(`/payouts/batches/${id}/report`, {
+      responseType: 'text',
+    });
+    return response.data;
+  }
+
+  /**
+   * Scheduled transfers and payouts
+   */
+  async createSchedule(
+    params: ScheduleParams,
+    options?: IdempotentRequestOptions
+  ): Promise<Schedule> {
+    const response = await this.api.post<ApiResponse<Schedule>>(
+      '/schedules',
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async getSchedules(params?: {
+    status?: ScheduleStatus;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ schedules: Schedule[]; pagination: PayoutPagination }> {
+    const response = await this.api.get<ApiResponse<any>>('/schedules', { params });
+    return response.data.data;
+  }
+
+  async getSchedule(id: string): Promise<Schedule> {
+    const response = await this.api.get<ApiResponse<Schedule>>(`/schedules/${id}`);
+    return response.data.data;
+  }
+
+  async getScheduleRuns(
+    id: string,
+    params?: { limit?: number; offset?: number }
+  ): Promise<{ runs: ScheduleRun[]; pagination: PayoutPagination }> {
+    const response = await this.api.get<ApiResponse<any>>(`/schedules/${id}/runs`, { params });
+    return response.data.data;
+  }
+
+  async updateSchedule(
+    id: string,
+    params: ScheduleUpdateParams,
+    options?: IdempotentRequestOptions
+  ): Promise<Schedule> {
+    const response = await this.api.patch<ApiResponse<Schedule>>(
+      `/schedules/${id}`,
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async pauseSchedule(id: string, options?: IdempotentRequestOptions): Promise<Schedule> {
+    const response = await this.api.post<ApiResponse<Schedule>>(
+      `/schedules/${id}/pause`,
+      {},
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async resumeSchedule(id: string, options?: IdempotentRequestOptions): Promise<Schedule> {
+    const response = await this.api.post<ApiResponse<Schedule>>(
+      `/schedules/${id}/resume`,
+      {},
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async cancelSchedule(id: string, options?: IdempotentRequestOptions): Promise<Schedule> {
+    const response = await this.api.delete<ApiResponse<Schedule>>(`/schedules/${id}`, {
+      headers: this.idempotencyHeaders(options),
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Saved beneficiaries
+   */
+  async createBeneficiary(
+    params: BeneficiaryParams,
+    options?: IdempotentRequestOptions
+  ): Promise<Beneficiary> {
+    const response = await this.api.post<ApiResponse<Beneficiary>>(
+      '/beneficiaries',
+      params,
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  async getBeneficiaries(params?: {
+    type?: BeneficiaryType;
+    currency?: string;
+  }): Promise<Beneficiary[]> {
+    const response = await this.api.get<ApiResponse<Beneficiary[]>>('/beneficiaries', { params });
+    return response.data.data;
+  }
+
+  async getBeneficiary(id: string): Promise<Beneficiary> {
+    const response = await this.api.get<ApiResponse<Beneficiary>>(`/beneficiaries/${id}`);
+    return response.data.data;
+  }
+
+  async renameBeneficiary(id: string, nickname: string): Promise<Beneficiary> {
+    const response = await this.api.patch<ApiResponse<Beneficiary>>(`/beneficiaries/${id}`, {
+      nickname,
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Confirm the micro-deposit amount (major-unit decimal) to verify a beneficiary
+   */
+  async verifyBeneficiary(id: string, amount: string): Promise<Beneficiary> {
+    const response = await this.api.post<ApiResponse<Beneficiary>>(
+      `/beneficiaries/${id}/verify`,
+      { amount }
+    );
+    return response.data.data;
+  }
+
+  async removeBeneficiary(id: string): Promise<Beneficiary> {
+    const response = await this.api.delete<ApiResponse<Beneficiary>>(`/beneficiaries/${id}`);
+    return response.data.data;
+  }
+
   async getSettlement(id: string): Promise<Settlement> {
     const response = await this.api.get<ApiResponse<Settlement>>(
       `/settlements/${id}`
@@ -122,8 +722,16 @@ export class SkyPayClient {
     return response.data.data;
   }
 
-  async cancelSettlement(id: string, reason?: string): Promise<void> {
-    await this.api.post(`/settlements/${id}/cancel`, { reason });
+  async cancelSettlement(
+    id: string,
+    reason?: string,
+    options?: IdempotentRequestOptions
+  ): Promise<void> {
+    await this.api.post(
+      `/settlements/${id}/cancel`,
+      { reason },
+      { headers: this.idempotencyHeaders(options) }
+    );
   }
 
   /**
@@ -134,11 +742,19 @@ export class SkyPayClient {
     return response.data.data;
   }
 
+  /**
+   * Balances are integer minor-unit strings; use formatMinorUnits to display
+   */
   async getBalances(): Promise<any[]> {
     const response = await this.api.get<ApiResponse<any[]>>('/accounts/balances');
     return response.data.data;
   }
 
+  async getLimits(): Promise<LimitUsage[]> {
+    const response = await this.api.get<ApiResponse<LimitUsage[]>>('/limits');
+    return response.data.data;
+  }
+
   async getAccountStatement(
     accountId: string,
     params?: {
@@ -155,6 +771,31 @@ export class SkyPayClient {
     return response.data.data;
   }
 
+  /**
+   * Download a statement file (csv, pdf, mt940 or camt053) for an account
+   */
+  async exportAccountStatement(
+    accountId: string,
+    params: {
+      format: 'csv' | 'pdf' | 'mt940' | 'camt053';
+      startDate: Date;
+      endDate: Date;
+    }
+  ): Promise<ArrayBuffer> {
+    const response = await this.api.get<ArrayBuffer>(
+      `/ledger/accounts/${accountId}/statement`,
+      {
+        params: {
+          format: params.format,
+          startDate: params.startDate.toISOString(),
+          endDate: params.endDate.toISOString(),
+        },
+        responseType: 'arraybuffer',
+      }
+    );
+    return response.data;
+  }
+
   /**
    * Bridge Integration
    */
@@ -209,7 +850,11 @@ export class SkyPayClient {
     this.signer = this.web3Provider.getSigner();
   }
 
-  async getTokenBalance(tokenAddress: string, userAddress?: string): Promise<string> {
+  async getTokenBalance(
+    tokenAddress: string,
+    userAddress?: string,
+    currency: string = 'USST'
+  ): Promise<string> {
     if (!this.web3Provider) throw new Error('Wallet not connected');
     
     const address = userAddress || (await this.signer?.getAddress());
@@ -222,13 +867,14 @@ export class SkyPayClient {
     );
 
     const balance = await token.balanceOf(address);
-    return ethers.utils.formatUnits(balance, 18);
+    return ethers.utils.formatUnits(balance, getCurrencyExponent(currency));
   }
 
   async approveToken(
     tokenAddress: string,
     spender: string,
-    amount: string
+    amount: string,
+    currency: string = 'USST'
   ): Promise<ethers.ContractTransaction> {
     if (!this.signer) throw new Error('Wallet not connected');
 
@@ -241,12 +887,42 @@ export class SkyPayClient {
       this.signer
     );
 
-    return await token.approve(spender, ethers.utils.parseUnits(amount, 18));
+    return await token.approve(
+      spender,
+      ethers.utils.parseUnits(amount, getCurrencyExponent(currency))
+    );
   }
 
   /**
    * Utils
    */
+  private async payoutBatchAction(
+    id: string,
+    action: 'fund' | 'retry' | 'close' | 'cancel',
+    options?: IdempotentRequestOptions
+  ): Promise<PayoutBatch> {
+    const response = await this.api.post<ApiResponse<PayoutBatch>>(
+      `/payouts/batches/${id}/${action}`,
+      {},
+      { headers: this.idempotencyHeaders(options) }
+    );
+    return response.data.data;
+  }
+
+  private idempotencyHeaders(options?: IdempotentRequestOptions): Record<string, string> {
+    return {
+      'Idempotency-Key': options?.idempotencyKey || this.generateIdempotencyKey(),
+    };
+  }
+
+  private generateIdempotencyKey(): string {
+    const cryptoApi = (globalThis as any).crypto;
+    if (cryptoApi?.randomUUID) {
+      return cryptoApi.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  }
+
   private getAuthToken(): string | null {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('skypay_token');
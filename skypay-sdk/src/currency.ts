@@ -0,0 +1,71 @@
+// skypay-sdk/src/currency.ts
+
+/**
+ * The API carries amounts as integer minor units in strings. These are the
+ * decimal places per currency, mirroring the backend currency registry.
+ */
+export const CURRENCY_EXPONENTS: Record<string, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  NGN: 2,
+  KES: 2,
+  GHS: 2,
+  ZAR: 2,
+  UGX: 0,
+  RWF: 0,
+  XOF: 0,
+  XAF: 0,
+  USST: 18,
+  NairaX: 18,
+  EuroPal: 18,
+  USDX: 18,
+  NGNX: 18,
+  EURX: 18,
+};
+
+export function getCurrencyExponent(currency: string): number {
+  const exponent = CURRENCY_EXPONENTS[currency];
+  if (exponent === undefined) {
+    throw new Error(`Unsupported currency: ${currency}`);
+  }
+  return exponent;
+}
+
+/**
+ * Convert a major-unit decimal ("1500.25") to a minor-unit string ("150025").
+ * Throws if the amount has more decimal places than the currency allows.
+ */
+export function toMinorUnits(amount: string, currency: string): string {
+  const exponent = getCurrencyExponent(currency);
+  const match = /^(-)?(\d+)(?:\.(\d+))?$/.exec(amount.trim());
+
+  if (!match) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const significant = fraction.replace(/0+$/, '');
+
+  if (significant.length > exponent) {
+    throw new Error(`${currency} amounts allow at most ${exponent} decimal places`);
+  }
+
+  const minor = BigInt(whole + significant.padEnd(exponent, '0'));
+  return (sign ? -minor : minor).toString();
+}
+
+/**
+ * Format a minor-unit string ("150025") as a major-unit decimal ("1500.25")
+ */
+export function formatMinorUnits(minor: string | bigint, currency: string): string {
+  const exponent = getCurrencyExponent(currency);
+  const value = BigInt(minor);
+  const negative = value < BigInt(0);
+  const digits = (negative ? -value : value).toString().padStart(exponent + 1, '0');
+
+  const whole = digits.slice(0, digits.length - exponent);
+  const fraction = exponent > 0 ? `.${digits.slice(digits.length - exponent)}` : '';
+
+  return `${negative ? '-' : ''}${whole}${fraction}`;
+}
@@ -25,6 +25,14 @@ export const useBalances = (client: SkyPayClient) => {
   });
 };
 
+export const useLimits = (client: SkyPayClient) => {
+  return useQuery({
+    queryKey: ['limits'],
+    queryFn: () => client.getLimits(),
+    staleTime: 30000, // 30 seconds
+  });
+};
+
 // skypay-sdk/src/hooks/useSettlements.ts
 import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
 import { SkyPayClient } from '../SkyPayClient';
@@ -49,6 +57,7 @@ export const useCreateDeposit = (client: SkyPayClient) => {
     onSuccess: () => {
       queryClient.invalidateQueries(['settlements']);
       queryClient.invalidateQueries(['balances']);
+      queryClient.invalidateQueries(['limits']);
     },
   });
 };
@@ -61,6 +70,45 @@ export const useCreateWithdrawal = (client: SkyPayClient) => {
     onSuccess: () => {
       queryClient.invalidateQueries(['settlements']);
       queryClient.invalidateQueries(['balances']);
+      queryClient.invalidateQueries(['limits']);
+    },
+  });
+};
+
+// skypay-sdk/src/hooks/useSchedules.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { SkyPayClient, ScheduleParams, ScheduleStatus } from '../SkyPayClient';
+
+export const useSchedules = (client: SkyPayClient, status?: ScheduleStatus) => {
+  return useQuery({
+    queryKey: ['schedules', status],
+    queryFn: () => client.getSchedules({ status, limit: 100 }),
+    staleTime: 30000, // 30 seconds
+  });
+};
+
+export const useCreateSchedule = (client: SkyPayClient) => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (params: ScheduleParams) => client.createSchedule(params),
+    onSuccess: () => {
+      queryClient.invalidateQueries(['schedules']);
+    },
+  });
+};
+
+export const useScheduleAction = (client: SkyPayClient) => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'pause' | 'resume' | 'cancel' }) => {
+      if (action === 'pause') return client.pauseSchedule(id);
+      if (action === 'resume') return client.resumeSchedule(id);
+      return client.cancelSchedule(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries(['schedules']);
     },
   });
 };
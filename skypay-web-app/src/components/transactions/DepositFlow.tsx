@@ -8,6 +8,7 @@ import * as z from 'zod';
 import { motion } from 'framer-motion';
 import { ArrowRight, Banknote, CreditCard, Loader2 } from 'lucide-react';
 import { useSkyPay } from '@skypay/sdk';
+import type { Beneficiary } from '@skypay/sdk';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
@@ -33,6 +34,9 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
   const [loading, setLoading] = useState(false);
   const [banks, setBanks] = useState<any[]>([]);
   const [accountInfo, setAccountInfo] = useState<any>(null);
+  const [savedAccounts, setSavedAccounts] = useState<Beneficiary[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState<Beneficiary | null>(null);
+  const [saveAccount, setSaveAccount] = useState(true);
   
   const { client } = useSkyPay();
   const { toast } = useToast();
@@ -67,6 +71,23 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
     }
   };
 
+  // Verified accounts need no lookup; picking one fills the form
+  const loadSavedAccounts = async (currency: string) => {
+    try {
+      const beneficiaries = await client.getBeneficiaries({ type: 'BANK_ACCOUNT', currency });
+      setSavedAccounts(beneficiaries.filter((b) => b.status === 'VERIFIED'));
+    } catch (error) {
+      setSavedAccounts([]);
+    }
+  };
+
+  const selectSavedAccount = (beneficiary: Beneficiary | null) => {
+    setSelectedAccount(beneficiary);
+    setAccountInfo(null);
+    setValue('bankCode', beneficiary?.details.bankCode ?? '');
+    setValue('accountNumber', beneficiary?.details.accountNumber ?? '');
+  };
+
   const validateAccount = async (bankCode: string, accountNumber: string) => {
     try {
       const info = await client.validateBankAccount(bankCode, accountNumber);
@@ -87,15 +108,33 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
   const onSubmit = async (data: DepositFormData) => {
     setLoading(true);
     try {
-      const settlement = await client.createFiatDeposit({
-        amount: data.amount,
-        currency: data.currency,
-        bankDetails: {
-          bankCode: data.bankCode,
-          accountNumber: data.accountNumber,
-          accountName: accountInfo?.account_name,
-        },
-      });
+      const bankDetails = {
+        bankCode: data.bankCode,
+        accountNumber: data.accountNumber,
+        accountName: accountInfo?.account_name,
+      };
+      let beneficiaryId = selectedAccount?.id;
+
+      if (!beneficiaryId && saveAccount) {
+        // Saved once here, so the next deposit skips the lookup
+        try {
+          const saved = await client.createBeneficiary({
+            type: 'BANK_ACCOUNT',
+            nickname: accountInfo?.account_name,
+            currency: data.currency,
+            details: bankDetails,
+          });
+          beneficiaryId = saved.id;
+        } catch (error) {
+          // Not saved (e.g. already saved); the deposit still goes ahead
+        }
+      }
+
+      const { settlement } = await client.createFiatDeposit(
+        beneficiaryId
+          ? { amount: data.amount, currency: data.currency, beneficiaryId }
+          : { amount: data.amount, currency: data.currency, bankDetails }
+      );
 
       toast({
         title: 'Deposit Initiated',
@@ -204,6 +243,7 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
               type="button"
               onClick={() => {
                 if (amount && amount > 0) {
+                  loadSavedAccounts(currency);
                   setStep('bank');
                 }
               }}
@@ -231,48 +271,95 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-medium mb-2 block">
-                      Select Bank
-                    </label>
-                    <Select
-                      value={bankCode}
-                      onValueChange={(value) => setValue('bankCode', value)}
-                      options={banks.map(bank => ({
-                        value: bank.code,
-                        label: bank.name,
-                      }))}
-                      placeholder="Choose your bank"
-                      error={errors.bankCode?.message}
-                    />
-                  </div>
+                  {savedAccounts.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">
+                        Saved Accounts
+                      </label>
+                      <div className="space-y-2">
+                        {savedAccounts.map((beneficiary) => (
+                          <button
+                            key={beneficiary.id}
+                            type="button"
+                            onClick={() => selectSavedAccount(
+                              selectedAccount?.id === beneficiary.id ? null : beneficiary
+                            )}
+                            className={`
+                              w-full p-3 rounded-lg border text-left
+                              ${selectedAccount?.id === beneficiary.id
+                                ? 'border-primary bg-primary/10'
+                                : 'border-border hover:bg-muted'}
+                            `}
+                          >
+                            <p className="font-medium">{beneficiary.nickname}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {beneficiary.resolvedName} ••••{
+                                beneficiary.details.accountNumber?.slice(-4)
+                              }
+                            </p>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
 
-                  <div>
-                    <label className="text-sm font-medium mb-2 block">
-                      Account Number
-                    </label>
-                    <Input
-                      {...register('accountNumber')}
-                      placeholder="1234567890"
-                      error={errors.accountNumber?.message}
-                      onChange={(e) => {
-                        setValue('accountNumber', e.target.value);
-                        if (bankCode && e.target.value.length >= 10) {
-                          validateAccount(bankCode, e.target.value);
-                        }
-                      }}
-                    />
-                  </div>
+                  {!selectedAccount && (
+                    <>
+                      <div>
+                        <label className="text-sm font-medium mb-2 block">
+                          Select Bank
+                        </label>
+                        <Select
+                          value={bankCode}
+                          onValueChange={(value) => setValue('bankCode', value)}
+                          options={banks.map(bank => ({
+                            value: bank.code,
+                            label: bank.name,
+                          }))}
+                          placeholder="Choose your bank"
+                          error={errors.bankCode?.message}
+                        />
+                      </div>
 
-                  {accountInfo && (
-                    <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
-                      <p className="text-green-500 font-medium">
-                        Account Verified
-                      </p>
-                      <p className="text-sm mt-1">
-                        {accountInfo.account_name}
-                      </p>
-                    </div>
+                      <div>
+                        <label className="text-sm font-medium mb-2 block">
+                          Account Number
+                        </label>
+                        <Input
+                          {...register('accountNumber')}
+                          placeholder="1234567890"
+                          error={errors.accountNumber?.message}
+                          onChange={(e) => {
+                            setValue('accountNumber', e.target.value);
+                            if (bankCode && e.target.value.length >= 10) {
+                              validateAccount(bankCode, e.target.value);
+                            }
+                          }}
+                        />
+                      </div>
+
+                      {accountInfo && (
+                        <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+                          <p className="text-green-500 font-medium">
+                            Account Verified
+                          </p>
+                          <p className="text-sm mt-1">
+                            {accountInfo.account_name}
+                          </p>
+                        </div>
+                      )}
+
+                      {accountInfo && (
+                        <label className="flex items-center space-x-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={saveAccount}
+                            onChange={(e) => setSaveAccount(e.target.checked)}
+                          />
+                          <span>Save this account for next time</span>
+                        </label>
+                      )}
+                    </>
                   )}
                 </div>
               </CardContent>
@@ -290,11 +377,11 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
               <Button
                 type="button"
                 onClick={() => {
-                  if (bankCode && accountInfo) {
+                  if (selectedAccount || (bankCode && accountInfo)) {
                     setStep('confirm');
                   }
                 }}
-                disabled={!bankCode || !accountInfo}
+                disabled={!selectedAccount && (!bankCode || !accountInfo)}
                 className="flex-1"
               >
                 Continue
@@ -338,9 +425,11 @@ export function DepositFlow({ onComplete }: DepositFlowProps) {
                       Bank Details
                     </p>
                     <div className="space-y-2">
-                      <p className="font-medium">{accountInfo?.account_name}</p>
+                      <p className="font-medium">
+                        {selectedAccount?.resolvedName ?? accountInfo?.account_name}
+                      </p>
                       <p className="text-sm">
-                        {banks.find(b => b.code === bankCode)?.name} ••••{
+                        {selectedAccount?.nickname ?? banks.find(b => b.code === bankCode)?.name} ••••{
                           watch('accountNumber')?.slice(-4)
                         }
                       </p>